@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { appraise } from '../../../engine/appraise';
+import { validateLoanApplication } from '../../../engine/validate';
+import { recordAuditEntry } from '../../../server/audit-log';
+import { errorResponse, readJson } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { prepareForAppraisal, withoutClientDocuments } from '../../../server/intake';
+import { getActivePolicy } from '../../../server/policy';
+
+export async function POST(request: Request) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  try {
+    const actor = requireUser(request);
+    const policy = getActivePolicy();
+    const validation = validateLoanApplication(withoutClientDocuments(payload.body), policy);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid loan application.', details: validation.errors, fields: validation.fieldErrors }, { status: 422 });
+    }
+
+    const application = prepareForAppraisal(validation.application);
+    const result = appraise(application, policy);
+    await recordAuditEntry(application, result, actor.id);
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
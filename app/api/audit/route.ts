@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../engine/access';
+import { listAuditEntries } from '../../../server/audit-log';
+import { getCase } from '../../../server/case-store';
+import { errorResponse } from '../../../server/http';
+import { PermissionDeniedError, requireUser } from '../../../server/identity';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Audit entries in chain order, optionally for one case (`?caseId=`). Branch
+ * staff see a case's trail only; the whole log is for region-wide roles.
+ */
+export async function GET(request: Request) {
+  const caseId = new URL(request.url).searchParams.get('caseId') ?? undefined;
+  try {
+    const user = requireUser(request);
+    if (caseId) await getCase(caseId, user);
+    else if (branchScope(user) !== undefined) throw new PermissionDeniedError('The full audit log is only available to region-wide roles.');
+    return NextResponse.json({ entries: await listAuditEntries(caseId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
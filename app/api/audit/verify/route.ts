@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { verifyAuditLog } from '../../../../server/audit-log';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    requireUser(request);
+    return NextResponse.json(await verifyAuditLog());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
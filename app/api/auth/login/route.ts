@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { sessionCookie } from '../../../../engine/access';
+import { errorResponse, readJson } from '../../../../server/http';
+import { issueSession } from '../../../../server/identity';
+import { authenticate } from '../../../../server/users';
+
+/** Signs in with `{ userId, password }`, setting the session cookie. */
+export async function POST(request: Request) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = payload.body as { userId?: unknown; password?: unknown } | null;
+  if (typeof body?.userId !== 'string' || typeof body.password !== 'string') {
+    return NextResponse.json({ error: 'userId and password are required.' }, { status: 400 });
+  }
+
+  try {
+    const user = authenticate(body.userId.trim(), body.password);
+    if (!user) return NextResponse.json({ error: 'Unknown user or wrong password.' }, { status: 401 });
+
+    const session = issueSession(user.id);
+    const response = NextResponse.json(user);
+    response.cookies.set(sessionCookie, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: session.expires,
+    });
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
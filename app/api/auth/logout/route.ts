@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { sessionCookie } from '../../../../engine/access';
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(sessionCookie, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+  return response;
+}
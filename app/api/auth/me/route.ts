@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+import { getActivePolicy } from '../../../../server/policy';
+
+export const dynamic = 'force-dynamic';
+
+/** The signed-in user and the sanction limits the active policy delegates to their role. */
+export async function GET(request: Request) {
+  try {
+    const user = requireUser(request);
+    const authority = getActivePolicy().delegation.find(entry => entry.role === user.role);
+    return NextResponse.json({ user, limits: authority?.limits ?? { LOW: 0, MEDIUM: 0, HIGH: 0 } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
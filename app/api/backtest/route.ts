@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../engine/access';
+import { runBacktest, type BacktestCase } from '../../../engine/backtest';
+import { maxBatchRows, parseCsv, readBatchRows, type PrepareApplication } from '../../../engine/batch';
+import { validatePolicyDocument } from '../../../engine/policy/schema';
+import type { PolicyDocument } from '../../../engine/policy/types';
+import { listCases } from '../../../server/case-store';
+import { errorResponse } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { prepareForAppraisal } from '../../../server/intake';
+import { getActivePolicy } from '../../../server/policy';
+import { readXlsxTable } from '../../../server/xlsx';
+
+const maxUploadBytes = 5 * 1024 * 1024;
+
+type PolicyField = { ok: true; policy: PolicyDocument } | { ok: false; response: NextResponse };
+
+const readPolicyField = async (entry: FormDataEntryValue, field: string): Promise<PolicyField> => {
+  let document: unknown;
+  try {
+    document = JSON.parse(typeof entry === 'string' ? entry : await entry.text());
+  } catch {
+    return { ok: false, response: NextResponse.json({ error: `${field} must be a JSON policy document.` }, { status: 400 }) };
+  }
+  const validation = validatePolicyDocument(document);
+  if (!validation.ok) {
+    return { ok: false, response: NextResponse.json({ error: `${field} policy failed validation.`, details: validation.errors }, { status: 422 }) };
+  }
+  return { ok: true, policy: validation.policy };
+};
+
+/**
+ * Replays applications through two policies (multipart form). `challenger` is
+ * the candidate policy JSON; `champion` defaults to the active policy. With a
+ * `file` sheet (CSV or .xlsx, batch layout) its rows are replayed; otherwise
+ * every appraised stored case the user can see, optionally limited by `from`
+ * and `to` dates.
+ */
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Send the challenger policy as multipart form data.' }, { status: 400 });
+  }
+
+  const challengerEntry = form.get('challenger');
+  if (!challengerEntry) return NextResponse.json({ error: 'A challenger policy is required.' }, { status: 400 });
+  const sheet = form.get('file');
+  if (sheet && typeof sheet !== 'string' && sheet.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Uploads are limited to 5 MB.' }, { status: 413 });
+  }
+
+  try {
+    const user = requireUser(request);
+    const challenger = await readPolicyField(challengerEntry, 'challenger');
+    if (!challenger.ok) return challenger.response;
+    const championEntry = form.get('champion');
+    const champion: PolicyField = championEntry ? await readPolicyField(championEntry, 'champion') : { ok: true, policy: getActivePolicy() };
+    if (!champion.ok) return champion.response;
+
+    let cases: BacktestCase[];
+    let prepare: PrepareApplication | undefined;
+    if (sheet && typeof sheet !== 'string') {
+      const bytes = Buffer.from(await sheet.arrayBuffer());
+      const table = bytes.subarray(0, 2).toString('latin1') === 'PK'
+        ? readXlsxTable(bytes, { maxRows: maxBatchRows + 1 })
+        : parseCsv(bytes.toString('utf8'));
+      if (table.length - 1 > maxBatchRows) {
+        return NextResponse.json({ error: `Uploads are limited to ${maxBatchRows} rows; this sheet has ${table.length - 1}.` }, { status: 413 });
+      }
+      cases = readBatchRows(table).rows.map(row => ({ id: `row ${row.row}`, applicantName: row.applicantName, payload: row.payload }));
+      prepare = prepareForAppraisal;
+    } else {
+      const field = (name: string) => {
+        const value = form.get(name);
+        return typeof value === 'string' && value !== '' ? value : undefined;
+      };
+      const stored = await listCases({ from: field('from'), to: field('to'), branch: branchScope(user) });
+      cases = stored
+        .filter(record => record.result)
+        .map(record => ({ id: record.id, applicantName: record.application.applicantName ?? '', payload: record.application }));
+    }
+    if (cases.length === 0) {
+      return NextResponse.json({ error: 'There are no applications to replay.' }, { status: 422 });
+    }
+
+    return NextResponse.json(runBacktest(cases, champion.policy, challenger.policy, prepare));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
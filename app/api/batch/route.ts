@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { appraiseBatch, maxBatchRows, parseCsv } from '../../../engine/batch';
+import { recordAuditEntries } from '../../../server/audit-log';
+import { errorResponse } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { prepareForAppraisal } from '../../../server/intake';
+import { getActivePolicy } from '../../../server/policy';
+import { readXlsxTable } from '../../../server/xlsx';
+
+const maxUploadBytes = 5 * 1024 * 1024;
+
+/**
+ * Appraises every row of an uploaded CSV or .xlsx (multipart field `file`),
+ * dated and screened like a single submission. Results are returned, not
+ * saved as cases; each appraisal is still audited.
+ */
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Upload the sheet as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload the sheet as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (file.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Uploads are limited to 5 MB.' }, { status: 413 });
+  }
+
+  try {
+    const actor = requireUser(request);
+    const bytes = Buffer.from(await file.arrayBuffer());
+    // .xlsx files are zip archives, which always start with "PK".
+    const table = bytes.subarray(0, 2).toString('latin1') === 'PK'
+      ? readXlsxTable(bytes, { maxRows: maxBatchRows + 1 })
+      : parseCsv(bytes.toString('utf8'));
+    if (table.length < 2) {
+      return NextResponse.json({ error: 'The sheet needs a header row and at least one application.' }, { status: 422 });
+    }
+    if (table.length - 1 > maxBatchRows) {
+      return NextResponse.json(
+        { error: `Uploads are limited to ${maxBatchRows} rows; this sheet has ${table.length - 1}.` },
+        { status: 413 },
+      );
+    }
+
+    const report = appraiseBatch(table, getActivePolicy(), prepareForAppraisal);
+    await recordAuditEntries(report.rows.flatMap(({ application, result }) =>
+      application && result ? [{ application, result, actor: actor.id }] : []));
+
+    return NextResponse.json(report);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { readBureauReport } from '../../../../server/bureau';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+
+const maxUploadBytes = 1024 * 1024;
+
+/** Reads an uploaded bureau report (multipart field `file`, JSON or XML) and returns it with its summary. */
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Upload the report as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload the report as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (file.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Bureau reports are limited to 1 MB.' }, { status: 413 });
+  }
+
+  try {
+    requireUser(request);
+    return NextResponse.json(readBureauReport(await file.text()));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { pullBureauReport } from '../../../server/bureau';
+import { errorResponse, readJson } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+
+const panPattern = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+/** Pulls a credit report for `{ applicantName, pan? }` from the configured bureau. */
+export async function POST(request: Request) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = (typeof payload.body === 'object' && payload.body !== null ? payload.body : {}) as Record<string, unknown>;
+  const applicantName = typeof body.applicantName === 'string' ? body.applicantName.trim() : '';
+  const pan = typeof body.pan === 'string' && body.pan.trim() !== '' ? body.pan.trim().toUpperCase() : undefined;
+  const errors: string[] = [];
+  if (applicantName === '') errors.push('applicantName is required.');
+  if (pan !== undefined && !panPattern.test(pan)) errors.push('pan must be a 10-character PAN, e.g. ABCDE1234F.');
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid bureau enquiry.', details: errors }, { status: 422 });
+  }
+
+  try {
+    requireUser(request);
+    return NextResponse.json(await pullBureauReport({ applicantName, pan }));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { appraise } from '../../../../../engine/appraise';
+import { validateLoanApplication } from '../../../../../engine/validate';
+import { caseEvents } from '../../../../../engine/webhooks';
+import { getCase, recordAppraisal } from '../../../../../server/case-store';
+import { errorResponse } from '../../../../../server/http';
+import { requireUser } from '../../../../../server/identity';
+import { prepareForAppraisal } from '../../../../../server/intake';
+import { getActivePolicy } from '../../../../../server/policy';
+import { publishEvents } from '../../../../../server/webhooks';
+
+/** Submits a draft case: validates its stored application and records the appraisal. */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const actor = requireUser(request);
+    const record = await getCase(params.id, actor);
+    const policy = getActivePolicy();
+    const validation = validateLoanApplication(record.application, policy);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid loan application.', details: validation.errors, fields: validation.fieldErrors }, { status: 422 });
+    }
+
+    const application = prepareForAppraisal(validation.application);
+    const result = appraise(application, policy);
+    const appraised = await recordAppraisal(record.id, application, result, actor, policy.delegation);
+    await publishEvents(caseEvents('appraised', appraised, actor.id));
+    return NextResponse.json(appraised);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
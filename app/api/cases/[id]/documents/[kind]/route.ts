@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { documentKinds, type DocumentKind } from '../../../../../../engine/documents';
+import { findProduct } from '../../../../../../engine/products';
+import { getCase } from '../../../../../../server/case-store';
+import { generateCaseDocument } from '../../../../../../server/documents';
+import { errorResponse } from '../../../../../../server/http';
+import { requireUser } from '../../../../../../server/identity';
+import { getActivePolicy } from '../../../../../../server/policy';
+
+export const dynamic = 'force-dynamic';
+
+/** Streams the appraisal note, sanction letter or rejection letter for a case as a PDF download. */
+export async function GET(request: Request, { params }: { params: { id: string; kind: string } }) {
+  if (!documentKinds.some(option => option.kind === params.kind)) {
+    return NextResponse.json({ error: `Unknown document "${params.kind}".` }, { status: 404 });
+  }
+  const kind = params.kind as DocumentKind;
+
+  try {
+    const record = await getCase(params.id, requireUser(request));
+    const purpose = record.application.loanPurpose ?? '';
+    const productName = findProduct(getActivePolicy(), purpose)?.name ?? purpose;
+    const pdf = await generateCaseDocument(record, kind, productName);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${record.id}-${kind}.pdf"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
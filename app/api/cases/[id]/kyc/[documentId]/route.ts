@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import type { User } from '../../../../../../engine/access';
+import { kycRequirements, type KycDocument } from '../../../../../../engine/kyc';
+import { getCase, updateKycDocument } from '../../../../../../server/case-store';
+import { errorResponse, readJson } from '../../../../../../server/http';
+import { requireUser } from '../../../../../../server/identity';
+import { readKycFile, saveKycFile } from '../../../../../../server/kyc-documents';
+import { getActivePolicy } from '../../../../../../server/policy';
+
+export const dynamic = 'force-dynamic';
+
+const maxUploadBytes = 5 * 1024 * 1024;
+
+/** The checklist item, if the policy asks for it on this case's product and employment type. */
+const requirementFor = async (caseId: string, documentId: string, user: User) => {
+  const record = await getCase(caseId, user);
+  const requirements = kycRequirements(
+    getActivePolicy().kyc,
+    record.application.loanPurpose ?? '',
+    record.application.employmentType ?? '',
+  );
+  return { record, requirement: requirements.find(requirement => requirement.id === documentId) };
+};
+
+const notOnChecklist = (documentId: string) =>
+  NextResponse.json({ error: `"${documentId}" is not on this case's KYC checklist.` }, { status: 404 });
+
+/** Downloads the uploaded file for a checklist item. */
+export async function GET(request: Request, { params }: { params: { id: string; documentId: string } }) {
+  try {
+    const { record, requirement } = await requirementFor(params.id, params.documentId, requireUser(request));
+    if (!requirement) return notOnChecklist(params.documentId);
+    const document = record.application.kyc?.documents.find(entry => entry.id === params.documentId);
+    const file = await readKycFile(record.id, params.documentId);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${(document?.fileName ?? params.documentId).replace(/["\\\r\n]/g, '_')}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Uploads (or replaces) a checklist document as multipart field `file`; it then awaits verification. */
+export async function POST(request: Request, { params }: { params: { id: string; documentId: string } }) {
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Upload the document as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload the document as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (file.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Uploads are limited to 5 MB.' }, { status: 413 });
+  }
+
+  try {
+    const actor = requireUser(request);
+    const { record, requirement } = await requirementFor(params.id, params.documentId, actor);
+    if (!requirement) return notOnChecklist(params.documentId);
+    if (record.status !== 'DRAFT') {
+      return NextResponse.json({ error: 'KYC documents can only change while the case is a draft.' }, { status: 409 });
+    }
+
+    await saveKycFile(record.id, requirement.id, file.name, Buffer.from(await file.arrayBuffer()));
+    const document: KycDocument = {
+      id: requirement.id,
+      status: 'UPLOADED',
+      fileName: file.name,
+      uploadedBy: actor.id,
+      uploadedAt: new Date().toISOString(),
+    };
+    return NextResponse.json(await updateKycDocument(record.id, document, actor));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Records the verifier's outcome: `{ status: 'VERIFIED' | 'REJECTED', remarks? }`.
+ * Rejections need remarks, and the uploader cannot verify their own upload.
+ */
+export async function PATCH(request: Request, { params }: { params: { id: string; documentId: string } }) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = payload.body as { status?: unknown; remarks?: unknown } | null;
+  if (body?.status !== 'VERIFIED' && body?.status !== 'REJECTED') {
+    return NextResponse.json({ error: 'status must be VERIFIED or REJECTED.' }, { status: 400 });
+  }
+  const remarks = typeof body.remarks === 'string' ? body.remarks.trim() : '';
+  if (body.status === 'REJECTED' && remarks === '') {
+    return NextResponse.json({ error: 'remarks are required when rejecting a document.' }, { status: 400 });
+  }
+
+  try {
+    const actor = requireUser(request);
+    const { record, requirement } = await requirementFor(params.id, params.documentId, actor);
+    if (!requirement) return notOnChecklist(params.documentId);
+    const current = record.application.kyc?.documents.find(entry => entry.id === requirement.id);
+    if (!current || current.status === 'PENDING') {
+      return NextResponse.json({ error: `Upload ${requirement.label} before verifying it.` }, { status: 409 });
+    }
+    if (current.uploadedBy === actor.id) {
+      return NextResponse.json({ error: `${requirement.label} must be verified by someone other than the user who uploaded it.` }, { status: 403 });
+    }
+
+    return NextResponse.json(await updateKycDocument(record.id, {
+      ...current,
+      status: body.status,
+      verifiedBy: actor.id,
+      verifiedAt: new Date().toISOString(),
+      remarks: remarks || undefined,
+    }, actor));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
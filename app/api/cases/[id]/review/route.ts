@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { validateReviewInput } from '../../../../../engine/review';
+import { caseEvents } from '../../../../../engine/webhooks';
+import { recordReview } from '../../../../../server/case-store';
+import { errorResponse, readJson } from '../../../../../server/http';
+import { requireUser } from '../../../../../server/identity';
+import { getActivePolicy } from '../../../../../server/policy';
+import { publishEvents } from '../../../../../server/webhooks';
+
+/**
+ * Checker decision on a queued case: `{ decision, remarks, conditions? }`. An
+ * approval beyond the reviewer's sanction authority is returned still queued,
+ * referred upward.
+ */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const validation = validateReviewInput(payload.body);
+  if (!validation.ok) {
+    return NextResponse.json({ error: 'Invalid review.', details: validation.errors }, { status: 422 });
+  }
+
+  try {
+    const reviewer = requireUser(request);
+    const record = await recordReview(params.id, reviewer, validation.input, getActivePolicy().delegation);
+    await publishEvents(caseEvents('reviewed', record, reviewer.id));
+    return NextResponse.json(record);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
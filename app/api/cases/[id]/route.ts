@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import type { LoanApplication } from '../../../../engine/types';
+import { getCase, updateDraft } from '../../../../server/case-store';
+import { errorResponse, readJson } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(await getCase(params.id, requireUser(request)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = payload.body as { application?: unknown } | null;
+  if (typeof body?.application !== 'object' || body.application === null) {
+    return NextResponse.json({ error: 'application must be an object.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await updateDraft(params.id, body.application as Partial<LoanApplication>, requireUser(request)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
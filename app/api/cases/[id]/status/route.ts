@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { caseEvents } from '../../../../../engine/webhooks';
+import { manualStatuses, type CaseStatus } from '../../../../../engine/workflow';
+import { transitionCase } from '../../../../../server/case-store';
+import { errorResponse, readJson } from '../../../../../server/http';
+import { requireUser } from '../../../../../server/identity';
+import { getActivePolicy } from '../../../../../server/policy';
+import { publishEvents } from '../../../../../server/webhooks';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = payload.body as { status?: CaseStatus; note?: string } | null;
+  if (!body?.status || !manualStatuses.includes(body.status)) {
+    return NextResponse.json({ error: `status must be one of: ${manualStatuses.join(', ')}.` }, { status: 400 });
+  }
+
+  try {
+    const actor = requireUser(request);
+    const record = await transitionCase(params.id, body.status, actor, getActivePolicy().delegation, body.note);
+    await publishEvents(caseEvents('transitioned', record, actor.id));
+    return NextResponse.json(record);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { appraise } from '../../../engine/appraise';
+import { branchScope } from '../../../engine/access';
+import { summarizeCase, type CaseFilter } from '../../../engine/cases';
+import type { Decision, LoanApplication, RiskLevel } from '../../../engine/types';
+import { validateLoanApplication } from '../../../engine/validate';
+import { caseEvents } from '../../../engine/webhooks';
+import type { CaseStatus } from '../../../engine/workflow';
+import { createDraft, listCases, recordAppraisal } from '../../../server/case-store';
+import { errorResponse, readJson } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { prepareForAppraisal, withoutClientDocuments } from '../../../server/intake';
+import { getActivePolicy } from '../../../server/policy';
+import { publishEvents } from '../../../server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+/** Cases in the signed-in user's branch (every branch for region-wide roles), newest first. */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  try {
+    const filter: CaseFilter = {
+      q: params.get('q') ?? undefined,
+      status: (params.get('status') as CaseStatus | null) ?? undefined,
+      decision: (params.get('decision') as Decision | null) ?? undefined,
+      loanPurpose: params.get('loanPurpose') ?? undefined,
+      risk: (params.get('risk') as RiskLevel | null) ?? undefined,
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+      branch: branchScope(requireUser(request)),
+    };
+
+    const cases = await listCases(filter);
+    return NextResponse.json({ cases: cases.map(summarizeCase) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Opens a case. `{ application, submit: true }` validates and appraises it
+ * immediately; otherwise the (possibly incomplete) application is saved as a draft.
+ */
+export async function POST(request: Request) {
+  const payload = await readJson(request);
+  if (!payload.ok) return payload.response;
+
+  const body = payload.body as { application?: unknown; submit?: boolean } | null;
+  if (typeof body?.application !== 'object' || body.application === null) {
+    return NextResponse.json({ error: 'application must be an object.' }, { status: 400 });
+  }
+
+  try {
+    const actor = requireUser(request);
+    if (!body.submit) {
+      const draft = await createDraft(withoutClientDocuments(body.application as Partial<LoanApplication>), actor);
+      return NextResponse.json(draft, { status: 201 });
+    }
+
+    const policy = getActivePolicy();
+    const validation = validateLoanApplication(withoutClientDocuments(body.application), policy);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid loan application.', details: validation.errors, fields: validation.fieldErrors }, { status: 422 });
+    }
+
+    const application = prepareForAppraisal(validation.application);
+    const result = appraise(application, policy);
+    const record = await recordAppraisal(undefined, application, result, actor, policy.delegation);
+    await publishEvents(caseEvents('appraised', record, actor.id));
+    return NextResponse.json(record, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { parseCsv } from '../../../../engine/batch';
+import { readFinancialTable } from '../../../../engine/financials';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+import { readXlsxTable } from '../../../../server/xlsx';
+
+const maxUploadBytes = 5 * 1024 * 1024;
+
+/**
+ * Reads uploaded balance sheet and P&L figures (multipart field `file`, CSV or
+ * .xlsx, line items down the first column and one column per year) into the
+ * `years` of an application's financial statements, oldest first.
+ */
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Upload the statements as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload the statements as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (file.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Uploads are limited to 5 MB.' }, { status: 413 });
+  }
+
+  try {
+    requireUser(request);
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const table = bytes.subarray(0, 2).toString('latin1') === 'PK' ? readXlsxTable(bytes) : parseCsv(bytes.toString('utf8'));
+    const parsed = readFinancialTable(table);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'The financial statements could not be read.', details: parsed.errors }, { status: 422 });
+    }
+    return NextResponse.json({ years: [...parsed.years].sort((a, b) => a.year.localeCompare(b.year)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { parseCsv } from '../../../../engine/batch';
+import { analyseBankStatement, parseBankStatement } from '../../../../engine/income-verification';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+import { readXlsxTable } from '../../../../server/xlsx';
+
+const maxUploadBytes = 5 * 1024 * 1024;
+
+/**
+ * Analyses an uploaded bank statement export (multipart field `file`, CSV or
+ * .xlsx). Only the analysis is returned; it is what gets attached to the
+ * application as income evidence.
+ */
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Upload the statement as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload the statement as multipart form data in a "file" field.' }, { status: 400 });
+  }
+  if (file.size > maxUploadBytes) {
+    return NextResponse.json({ error: 'Uploads are limited to 5 MB.' }, { status: 413 });
+  }
+
+  try {
+    requireUser(request);
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const table = bytes.subarray(0, 2).toString('latin1') === 'PK' ? readXlsxTable(bytes) : parseCsv(bytes.toString('utf8'));
+    const parsed = parseBankStatement(table);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'The bank statement could not be read.', details: parsed.errors }, { status: 422 });
+    }
+    return NextResponse.json({ analysis: analyseBankStatement(parsed.transactions) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
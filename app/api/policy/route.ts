@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { getActivePolicy } from '../../../server/policy';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    requireUser(request);
+    return NextResponse.json(getActivePolicy());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
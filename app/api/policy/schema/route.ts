@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { policyJsonSchema } from '../../../../engine/policy/schema';
+
+export async function GET() {
+  return NextResponse.json(policyJsonSchema);
+}
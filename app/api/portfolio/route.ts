@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../engine/access';
+import { computePortfolioAnalytics } from '../../../engine/portfolio';
+import { listCases } from '../../../server/case-store';
+import { errorResponse } from '../../../server/http';
+import { requireUser } from '../../../server/identity';
+import { getActivePolicy } from '../../../server/policy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Portfolio analytics over the user's branch (every branch for region-wide
+ * roles) for cases created between the optional `from` and `to` dates,
+ * against the active policy's limits.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  try {
+    const cases = await listCases({
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+      branch: branchScope(requireUser(request)),
+    });
+    const policy = getActivePolicy();
+    return NextResponse.json({
+      policyVersion: policy.version,
+      portfolio: policy.portfolio,
+      analytics: computePortfolioAnalytics(cases, policy.portfolio),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { branchScope, canReview, roleLabel } from '../../../engine/access';
+import { summarizeCase } from '../../../engine/cases';
+import { listCases } from '../../../server/case-store';
+import { errorResponse } from '../../../server/http';
+import { PermissionDeniedError, requireUser } from '../../../server/identity';
+
+export const dynamic = 'force-dynamic';
+
+/** The reviewer queue: every case in the reviewer's branch awaiting a checker decision, oldest first. */
+export async function GET(request: Request) {
+  try {
+    const user = requireUser(request);
+    if (!canReview(user)) throw new PermissionDeniedError(`A ${roleLabel(user.role).toLowerCase()} has no review queue.`);
+    const queued = await listCases({ status: 'UNDER_REVIEW', branch: branchScope(user) });
+    return NextResponse.json({ cases: queued.reverse().map(summarizeCase) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../../engine/access';
+import { computeOverrideStats } from '../../../../engine/review';
+import { listCases } from '../../../../server/case-store';
+import { errorResponse } from '../../../../server/http';
+import { requireUser } from '../../../../server/identity';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    return NextResponse.json(computeOverrideStats(await listCases({ branch: branchScope(requireUser(request)) })));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../../../../engine/access';
+import { errorResponse } from '../../../../../../server/http';
+import { PermissionDeniedError, requireUser } from '../../../../../../server/identity';
+import { replayDelivery } from '../../../../../../server/webhooks';
+
+/** Re-sends a delivery's event to its endpoint as a new delivery, whatever became of the original. */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = requireUser(request);
+    if (branchScope(user) !== undefined) throw new PermissionDeniedError('Webhooks are only available to region-wide roles.');
+    return NextResponse.json(await replayDelivery(params.id), { status: 202 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../../engine/access';
+import type { DeliveryStatus, WebhookEventType } from '../../../../engine/webhooks';
+import { errorResponse } from '../../../../server/http';
+import { PermissionDeniedError, requireUser } from '../../../../server/identity';
+import { listDeliveries } from '../../../../server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+/** The delivery log, newest first; filter with `?status=`, `?type=`, `?caseId=` or `?endpointId=`. */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  try {
+    const user = requireUser(request);
+    if (branchScope(user) !== undefined) throw new PermissionDeniedError('Webhooks are only available to region-wide roles.');
+    const deliveries = await listDeliveries({
+      status: (params.get('status') as DeliveryStatus | null) ?? undefined,
+      type: (params.get('type') as WebhookEventType | null) ?? undefined,
+      caseId: params.get('caseId') ?? undefined,
+      endpointId: params.get('endpointId') ?? undefined,
+    });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { receivedMockWebhooks, receiveMockWebhook } from '../../../../server/mock-webhook-receiver';
+
+export const dynamic = 'force-dynamic';
+
+const unavailable = () => process.env.NODE_ENV === 'production';
+
+/**
+ * Development-only webhook receiver. Point an endpoint in `WEBHOOKS_FILE` at
+ * `/api/webhooks/mock-receiver` with the mock secret; add `?fail=503` to the
+ * URL to have it refuse deliveries.
+ */
+export async function POST(request: Request) {
+  if (unavailable()) return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  const fail = Number(new URL(request.url).searchParams.get('fail'));
+  const entry = await receiveMockWebhook(request, fail >= 400 && fail <= 599 ? fail : undefined);
+  return entry.answered === 204 ? new NextResponse(null, { status: 204 }) : NextResponse.json(entry, { status: entry.answered });
+}
+
+/** What the mock receiver has been sent, newest first. */
+export async function GET() {
+  if (unavailable()) return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  return NextResponse.json({ received: receivedMockWebhooks() });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { branchScope } from '../../../engine/access';
+import type { WebhookEndpointSummary } from '../../../engine/webhooks';
+import { errorResponse } from '../../../server/http';
+import { PermissionDeniedError, requireUser } from '../../../server/identity';
+import { getWebhookEndpoints } from '../../../server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+/** Configured webhook endpoints, secrets withheld. */
+export async function GET(request: Request) {
+  try {
+    const user = requireUser(request);
+    if (branchScope(user) !== undefined) throw new PermissionDeniedError('Webhooks are only available to region-wide roles.');
+    const endpoints: WebhookEndpointSummary[] = getWebhookEndpoints().map(({ id, url, events, disabled }) => ({ id, url, events, disabled }));
+    return NextResponse.json({ endpoints });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
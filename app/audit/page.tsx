@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Fingerprint, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { ApiError, readApiJson } from '../../components/api';
+import { formatDateTime, formatInr } from '../../components/format';
+import { describeAuditEntry, type AuditEntry, type ChainVerification } from '../../engine/audit';
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/audit').then(response => readApiJson<{ entries: AuditEntry[] }>(response)),
+      fetch('/api/audit/verify').then(response => readApiJson<ChainVerification>(response))
+    ])
+      .then(([log, chain]) => {
+        setEntries([...log.entries].reverse());
+        setVerification(chain);
+      })
+      .catch(fetchError => setError(fetchError instanceof ApiError ? fetchError.message : 'Unable to load the audit log. Please try again.'));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <Fingerprint className="text-indigo-600" size={32} />
+            Appraisal Audit Log
+          </h1>
+          <Link href="/cases" className="text-sm font-medium text-indigo-700 hover:underline">
+            All cases
+          </Link>
+        </div>
+
+        {verification && (
+          <div
+            className={`rounded-lg border-2 p-4 mb-6 flex items-start gap-3 ${verification.ok
+              ? 'border-green-500 bg-green-50 text-green-800'
+              : 'border-red-500 bg-red-50 text-red-800'}`}
+          >
+            {verification.ok ? <ShieldCheck size={24} /> : <ShieldAlert size={24} />}
+            <div className="text-sm">
+              {verification.ok ? (
+                <>
+                  <div className="font-semibold">Chain intact across {verification.entries} entries.</div>
+                  <div className="font-mono text-xs break-all mt-1">Head: {verification.headHash}</div>
+                </>
+              ) : (
+                <div className="font-semibold">
+                  Tampering detected at entry #{verification.brokenAt}: {verification.reason}.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+          {error ? (
+            <p className="text-red-700 text-sm">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-500 text-sm">No appraisals have been recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-600 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4">#</th>
+                  <th className="py-2 pr-4">Recorded</th>
+                  <th className="py-2 pr-4">User</th>
+                  <th className="py-2 pr-4">Case</th>
+                  <th className="py-2 pr-4">Applicant</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Policy</th>
+                  <th className="py-2">Hash</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.sequence} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4 text-gray-700">{entry.sequence}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatDateTime(entry.at)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{entry.actor}</td>
+                    <td className="py-2 pr-4">
+                      {entry.caseId ? (
+                        <Link href={`/cases/${entry.caseId}`} className="font-medium text-indigo-700 hover:underline">
+                          {entry.caseId}
+                        </Link>
+                      ) : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-800">{entry.input.applicantName}</td>
+                    <td className="py-2 pr-4 text-right text-gray-800">{formatInr(entry.input.loanAmount)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{describeAuditEntry(entry)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{entry.policyVersion}</td>
+                    <td className="py-2 font-mono text-xs text-gray-500" title={entry.hash}>{entry.hash.slice(0, 12)}…</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { GitCompare, Play } from 'lucide-react';
+import { decisionShift, type BacktestReport } from '../../engine/backtest';
+import type { Decision } from '../../engine/types';
+
+const decisions: Decision[] = ['APPROVED', 'REVIEW_REQUIRED', 'REJECTED'];
+
+const shiftColor = (shift: number) => (shift < 0 ? 'text-green-700' : shift > 0 ? 'text-red-700' : 'text-gray-700');
+
+export default function BacktestPage() {
+  const [challenger, setChallenger] = useState<File | null>(null);
+  const [champion, setChampion] = useState<File | null>(null);
+  const [source, setSource] = useState<'cases' | 'file'>('cases');
+  const [sheet, setSheet] = useState<File | null>(null);
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    if (!challenger) return;
+    setLoading(true);
+    setError(null);
+    setReport(null);
+
+    const form = new FormData();
+    form.append('challenger', challenger);
+    if (champion) form.append('champion', champion);
+    if (source === 'file' && sheet) {
+      form.append('file', sheet);
+    } else {
+      if (range.from) form.append('from', range.from);
+      if (range.to) form.append('to', range.to);
+    }
+    try {
+      const response = await fetch('/api/backtest', { method: 'POST', body: form });
+      const body = await response.json();
+      if (!response.ok) {
+        setError([body.error, ...(body.details ?? [])].join(' '));
+        return;
+      }
+      setReport(body as BacktestReport);
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const shown = report?.cases.filter(diff => !changedOnly || diff.errors.length > 0 || decisionShift(diff) !== 0 || diff.checkChanges.length > 0) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <GitCompare className="text-indigo-600" size={32} />
+            Policy Backtest
+          </h1>
+          <Link href="/batch" className="text-sm font-medium text-indigo-700 hover:underline">
+            Batch upload
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Replay historical applications through the current (champion) policy and a candidate (challenger) policy
+            to see which decisions would change before the candidate goes live. Policies are JSON documents in the
+            shape published at <code className="text-xs">/api/policy</code>.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Challenger policy (JSON)</span>
+              <input type="file" accept=".json,application/json" onChange={e => setChallenger(e.target.files?.[0] ?? null)} className="text-gray-700" />
+            </label>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Champion policy (optional, defaults to the active policy)</span>
+              <input type="file" accept=".json,application/json" onChange={e => setChampion(e.target.files?.[0] ?? null)} className="text-gray-700" />
+            </label>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="radio" checked={source === 'cases'} onChange={() => setSource('cases')} className="text-indigo-600" />
+              Stored cases
+            </label>
+            {source === 'cases' && (
+              <div className="flex items-center gap-2">
+                <input type="date" value={range.from} onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))} className={inputClass} aria-label="From" />
+                <span className="text-gray-500">to</span>
+                <input type="date" value={range.to} onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))} className={inputClass} aria-label="To" />
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="radio" checked={source === 'file'} onChange={() => setSource('file')} className="text-indigo-600" />
+              Uploaded sheet
+            </label>
+            {source === 'file' && (
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={e => setSheet(e.target.files?.[0] ?? null)}
+                className="text-gray-700"
+              />
+            )}
+          </div>
+          <button
+            onClick={run}
+            disabled={!challenger || (source === 'file' && !sheet) || loading}
+            className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 flex items-center gap-2"
+          >
+            <Play size={18} />
+            {loading ? 'Replaying...' : 'Run Backtest'}
+          </button>
+          {error && <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">{error}</div>}
+        </div>
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-1">Decision Migration</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  {report.summary.compared} of {report.summary.total} applications compared · {report.summary.decisionChanges} change
+                  decision · policy {report.championVersion} → {report.challengerVersion}
+                  {report.summary.invalid > 0 && ` · ${report.summary.invalid} invalid under a policy`}
+                </p>
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-600 border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 pr-4">Champion ↓ / Challenger →</th>
+                      {decisions.map(decision => (
+                        <th key={decision} className="py-2 pr-4 text-right">{decision.replace('_', ' ')}</th>
+                      ))}
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {decisions.map(from => (
+                      <tr key={from} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 font-medium text-gray-800">{from.replace('_', ' ')}</td>
+                        {decisions.map(to => (
+                          <td
+                            key={to}
+                            className={`py-2 pr-4 text-right ${from === to ? 'text-gray-500' : `font-semibold ${shiftColor(decisions.indexOf(to) - decisions.indexOf(from))}`}`}
+                          >
+                            {report.summary.migration[from][to]}
+                          </td>
+                        ))}
+                        <td className="py-2 text-right font-semibold text-gray-800">{report.summary.champion[from]}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 pr-4 font-medium text-gray-800">Total</td>
+                      {decisions.map(to => (
+                        <td key={to} className="py-2 pr-4 text-right font-semibold text-gray-800">{report.summary.challenger[to]}</td>
+                      ))}
+                      <td className="py-2 text-right font-semibold text-gray-800">{report.summary.compared}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">Checks Driving the Shift</h2>
+                {report.drivers.length === 0 ? (
+                  <p className="text-sm text-gray-500">No check outcome changed.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-600 border-b border-gray-200">
+                      <tr>
+                        <th className="py-2 pr-4">Check</th>
+                        <th className="py-2 pr-4 text-right">Changed</th>
+                        <th className="py-2 pr-4 text-right">Stricter</th>
+                        <th className="py-2 pr-4 text-right">More lenient</th>
+                        <th className="py-2 text-right">With decision change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.drivers.map(driver => (
+                        <tr key={driver.id} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-4 text-gray-800">{driver.parameter}</td>
+                          <td className="py-2 pr-4 text-right text-gray-800">{driver.changed}</td>
+                          <td className="py-2 pr-4 text-right text-red-700">{driver.tightened}</td>
+                          <td className="py-2 pr-4 text-right text-green-700">{driver.loosened}</td>
+                          <td className="py-2 text-right font-semibold text-gray-800">{driver.withDecisionChange}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-800">Per-case Differences</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} className="rounded border-gray-300 text-indigo-600" />
+                  Only cases that changed
+                </label>
+              </div>
+              {shown.length === 0 ? (
+                <p className="text-sm text-gray-500">No case changed under the challenger.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-600 border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 pr-4">Case</th>
+                      <th className="py-2 pr-4">Applicant</th>
+                      <th className="py-2 pr-4">Champion</th>
+                      <th className="py-2 pr-4">Challenger</th>
+                      <th className="py-2">Check changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.map(diff => (
+                      <tr key={diff.id} className="border-b border-gray-100 last:border-0 align-top">
+                        <td className="py-2 pr-4 font-medium text-gray-800">
+                          {diff.id.startsWith('row ') ? diff.id : (
+                            <Link href={`/cases/${diff.id}`} className="text-indigo-700 hover:underline">{diff.id}</Link>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-800">{diff.applicantName || '—'}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {diff.champion ? `${diff.champion.decision.replace('_', ' ')} (${diff.champion.score.toFixed(1)}%)` : '—'}
+                        </td>
+                        <td className={`py-2 pr-4 font-semibold ${shiftColor(decisionShift(diff))}`}>
+                          {diff.challenger ? `${diff.challenger.decision.replace('_', ' ')} (${diff.challenger.score.toFixed(1)}%)` : '—'}
+                        </td>
+                        <td className="py-2 text-gray-700">
+                          {diff.errors.length > 0 && <div className="text-red-700">{diff.errors.join(' ')}</div>}
+                          {diff.checkChanges.map(change => (
+                            <div key={change.id}>
+                              {change.parameter}: {change.champion.replace('_', ' ')} → {change.challenger.replace('_', ' ')}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
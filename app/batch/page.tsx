@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { formatInr, getRiskColor } from '../../components/format';
+import { batchResultsCsv, batchTemplateCsv, type BatchReport } from '../../engine/batch';
+import type { Decision, RiskLevel } from '../../engine/types';
+
+const decisions: Decision[] = ['APPROVED', 'REVIEW_REQUIRED', 'REJECTED'];
+const riskLevels: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const downloadCsv = (content: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function BatchAppraisalPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    setReport(null);
+
+    const form = new FormData();
+    form.append('file', file);
+    try {
+      // No Content-Type: the browser sets the multipart boundary itself.
+      const response = await fetch('/api/batch', { method: 'POST', body: form });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error);
+        return;
+      }
+      setReport(body as BatchReport);
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const invalidRows = report?.rows.filter(row => row.errors.length > 0) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <FileSpreadsheet className="text-indigo-600" size={32} />
+            Batch Appraisal
+          </h1>
+          <Link href="/" className="text-sm font-medium text-indigo-700 hover:underline">
+            Single application
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <p className="text-sm text-gray-600 mb-4">
+            Upload a CSV or Excel (.xlsx) sheet with one application per row. Column headers must match the
+            application fields; download the template for the expected layout.
+          </p>
+          <div className="flex flex-col md:flex-row gap-3 md:items-center">
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+              className="text-sm text-gray-700"
+            />
+            <button
+              onClick={upload}
+              disabled={!file || loading}
+              className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 flex items-center gap-2"
+            >
+              <Upload size={18} />
+              {loading ? 'Appraising...' : 'Appraise Sheet'}
+            </button>
+            <button
+              onClick={() => downloadCsv(batchTemplateCsv(), 'appraisal-template.csv')}
+              className="text-sm font-medium text-indigo-700 hover:underline"
+            >
+              Download template
+            </button>
+          </div>
+          {error && <div className="mt-4 border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">{error}</div>}
+        </div>
+
+        {report && (
+          <>
+            <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-800">Summary</h2>
+                <button
+                  onClick={() => downloadCsv(batchResultsCsv(report), `appraisal-results-${report.policyVersion}.csv`)}
+                  className="border border-indigo-300 text-indigo-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-50 flex items-center gap-2"
+                >
+                  <Download size={16} />
+                  Download results
+                </button>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                {report.summary.total} rows · {report.summary.appraised} appraised · {report.summary.invalid} rejected by
+                validation · policy {report.policyVersion}
+              </p>
+              {report.ignoredColumns.length > 0 && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+                  Ignored unrecognised columns: {report.ignoredColumns.join(', ')}
+                </p>
+              )}
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600 border-b border-gray-200">
+                  <tr>
+                    <th className="py-2 pr-4">Decision</th>
+                    {riskLevels.map(risk => (
+                      <th key={risk} className={`py-2 pr-4 text-right ${getRiskColor(risk)}`}>{risk} risk</th>
+                    ))}
+                    <th className="py-2 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decisions.map(decision => (
+                    <tr key={decision} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-medium text-gray-800">{decision.replace('_', ' ')}</td>
+                      {riskLevels.map(risk => (
+                        <td key={risk} className="py-2 pr-4 text-right text-gray-700">{report.summary.matrix[decision][risk]}</td>
+                      ))}
+                      <td className="py-2 text-right font-semibold text-gray-800">{report.summary.byDecision[decision]}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 pr-4 font-medium text-gray-800">Total</td>
+                    {riskLevels.map(risk => (
+                      <td key={risk} className="py-2 pr-4 text-right font-semibold text-gray-800">{report.summary.byRisk[risk]}</td>
+                    ))}
+                    <td className="py-2 text-right font-semibold text-gray-800">{report.summary.appraised}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {invalidRows.length > 0 && (
+              <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">Rows With Errors</h2>
+                <ul className="space-y-2 text-sm">
+                  {invalidRows.map(row => (
+                    <li key={row.row} className="border-l-2 border-red-300 pl-3">
+                      <span className="font-medium text-gray-800">Row {row.row}{row.applicantName && ` (${row.applicantName})`}:</span>
+                      <span className="ml-2 text-red-700">{row.errors.join(' ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Results</h2>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600 border-b border-gray-200">
+                  <tr>
+                    <th className="py-2 pr-4">Row</th>
+                    <th className="py-2 pr-4">Applicant</th>
+                    <th className="py-2 pr-4 text-right">Amount</th>
+                    <th className="py-2 pr-4">Decision</th>
+                    <th className="py-2 pr-4 text-right">Score</th>
+                    <th className="py-2 pr-4">Risk</th>
+                    <th className="py-2 pr-4 text-right">Failed</th>
+                    <th className="py-2 text-right">Warnings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.filter(row => row.result).map(({ row, applicantName, application, result }) => (
+                    <tr key={row} className="border-b border-gray-100 last:border-0">
+                      <td className="py-2 pr-4 text-gray-600">{row}</td>
+                      <td className="py-2 pr-4 text-gray-800">{applicantName}</td>
+                      <td className="py-2 pr-4 text-right text-gray-800">{formatInr(application!.loanAmount)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{result!.decision.replace('_', ' ')}</td>
+                      <td className="py-2 pr-4 text-right text-gray-800">{result!.score.toFixed(1)}</td>
+                      <td className={`py-2 pr-4 font-semibold ${getRiskColor(result!.riskAssessment.overallRisk)}`}>
+                        {result!.riskAssessment.overallRisk}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-700">{result!.explanation.failures}</td>
+                      <td className="py-2 text-right text-gray-700">{result!.explanation.warnings}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
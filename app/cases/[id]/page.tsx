@@ -0,0 +1,239 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Download, FileText, History, Shield } from 'lucide-react';
+import { jsonHeaders } from '../../../components/api';
+import AppraisalResultPanel from '../../../components/AppraisalResultPanel';
+import AuditTrailPanel from '../../../components/AuditTrailPanel';
+import KycChecklistPanel from '../../../components/KycChecklistPanel';
+import { formatDateTime, formatInr, getCaseStatusColor } from '../../../components/format';
+import { loanPurposeLabel } from '../../../components/options';
+import ReviewPanel from '../../../components/ReviewPanel';
+import SignedInUser from '../../../components/SignedInUser';
+import { useCurrentUser } from '../../../components/useCurrentUser';
+import WhatIfPanel from '../../../components/WhatIfPanel';
+import type { CaseRecord } from '../../../engine/cases';
+import { documentKinds, documentUnavailableReason } from '../../../engine/documents';
+import type { LoanApplication } from '../../../engine/types';
+import { allowedTransitions, isTerminalStatus, manualStatuses } from '../../../engine/workflow';
+
+export default function CaseDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const currentUser = useCurrentUser();
+  const [record, setRecord] = useState<CaseRecord | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/cases/${id}`);
+    const body = await response.json();
+    if (!response.ok) {
+      setError(body.error);
+      return;
+    }
+    setRecord(body as CaseRecord);
+  }, [id]);
+
+  useEffect(() => {
+    load().catch(() => setError('Unable to load this case. Please try again.'));
+  }, [load]);
+
+  const post = async (path: string, payload?: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${id}${path}`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: payload ? JSON.stringify(payload) : undefined
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError([body.error, ...(body.details ?? [])].join(' '));
+        return;
+      }
+      setRecord(body as CaseRecord);
+      setNote('');
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!record) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+        <div className="max-w-7xl mx-auto text-gray-600">{error ?? 'Loading case...'}</div>
+      </div>
+    );
+  }
+
+  const actions = allowedTransitions(record.status).filter(status => manualStatuses.includes(status));
+  const documents = documentKinds.filter(option => !documentUnavailableReason(record, option.kind));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between">
+          <Link href="/cases" className="text-sm font-medium text-indigo-700 hover:underline">← All cases</Link>
+          <SignedInUser current={currentUser} />
+        </div>
+        <div className="flex items-center justify-between mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">{record.id}</h1>
+          <span className={`px-3 py-1 rounded text-sm font-semibold ${getCaseStatusColor(record.status)}`}>
+            {record.status.replace('_', ' ')}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <FileText className="text-indigo-600" />
+                Application
+              </h2>
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                <dt className="text-gray-600">Maker</dt>
+                <dd className="font-medium text-gray-800">{record.createdBy}{record.branch && ` · ${record.branch}`}</dd>
+                <dt className="text-gray-600">Applicant</dt>
+                <dd className="font-medium text-gray-800">{record.application.applicantName || '—'}</dd>
+                <dt className="text-gray-600">Purpose</dt>
+                <dd className="font-medium text-gray-800">{loanPurposeLabel(record.application.loanPurpose ?? '')}</dd>
+                <dt className="text-gray-600">Loan Amount</dt>
+                <dd className="font-medium text-gray-800">{formatInr(record.application.loanAmount ?? 0)}</dd>
+                <dt className="text-gray-600">Annual Income</dt>
+                <dd className="font-medium text-gray-800">{formatInr(record.application.annualIncome ?? 0)}</dd>
+                <dt className="text-gray-600">Credit Score</dt>
+                <dd className="font-medium text-gray-800">{record.application.creditScore ?? '—'}</dd>
+                <dt className="text-gray-600">Employment</dt>
+                <dd className="font-medium text-gray-800">
+                  {record.application.employmentType} · {record.application.employmentYears ?? 0} years
+                </dd>
+                <dt className="text-gray-600">Existing EMI</dt>
+                <dd className="font-medium text-gray-800">{formatInr(record.application.existingLoans ?? 0)}</dd>
+                <dt className="text-gray-600">Collateral Value</dt>
+                <dd className="font-medium text-gray-800">{formatInr(record.application.collateralValue ?? 0)}</dd>
+                <dt className="text-gray-600">Tenure / Rate</dt>
+                <dd className="font-medium text-gray-800">
+                  {record.application.tenureMonths ?? '—'} months @ {record.application.interestRate ?? '—'}%
+                </dd>
+              </dl>
+
+              {record.status === 'DRAFT' && (
+                <>
+                  <button
+                    onClick={() => post('/appraise')}
+                    disabled={busy || !currentUser}
+                    className="w-full mt-6 bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+                  >
+                    Submit for Appraisal
+                  </button>
+                  <Link
+                    href={`/?draft=${encodeURIComponent(record.id)}`}
+                    className="block text-center mt-3 text-sm font-medium text-indigo-700 hover:underline"
+                  >
+                    Continue editing
+                  </Link>
+                </>
+              )}
+            </div>
+
+            <KycChecklistPanel record={record} currentUserId={currentUser?.user.id} onChange={setRecord} />
+
+            <ReviewPanel record={record} current={currentUser} onReviewed={setRecord} />
+
+            {actions.length > 0 && (
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4">Move Case</h2>
+                <textarea
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Note (optional)"
+                  rows={2}
+                />
+                <div className="flex gap-3 mt-3">
+                  {actions.map(status => (
+                    <button
+                      key={status}
+                      onClick={() => post('/status', { status, note: note || undefined })}
+                      disabled={busy || !currentUser}
+                      className="flex-1 border border-indigo-600 text-indigo-700 py-2 rounded-lg text-sm font-medium hover:bg-indigo-50 disabled:border-gray-300 disabled:text-gray-400"
+                    >
+                      {status.replace('_', ' ')}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">{error}</div>
+            )}
+
+            {documents.length > 0 && (
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                  <Download className="text-indigo-600" />
+                  Documents
+                </h2>
+                <div className="space-y-2">
+                  {documents.map(option => (
+                    <a
+                      key={option.kind}
+                      href={`/api/cases/${record.id}/documents/${option.kind}`}
+                      className="block border border-indigo-200 text-indigo-700 py-2 px-3 rounded-lg text-sm font-medium hover:bg-indigo-50"
+                    >
+                      {option.label} (PDF)
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <History className="text-indigo-600" />
+                Status History
+              </h2>
+              <ol className="space-y-3 text-sm">
+                {record.history.map((change, idx) => (
+                  <li key={idx} className="border-l-2 border-indigo-200 pl-3">
+                    <div className="font-medium text-gray-800">
+                      {change.from ? `${change.from.replace('_', ' ')} → ` : ''}{change.to.replace('_', ' ')}
+                    </div>
+                    <div className="text-xs text-gray-500">{formatDateTime(change.at)} · {change.by}</div>
+                    {change.note && <div className="text-xs text-gray-700 mt-1">{change.note}</div>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <AuditTrailPanel caseId={record.id} version={record.updatedAt} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
+              <Shield className="text-indigo-600" />
+              Appraisal Results
+            </h2>
+            {record.result ? (
+              <div className="space-y-6">
+                <AppraisalResultPanel result={record.result} />
+                {!isTerminalStatus(record.status) && (
+                  <WhatIfPanel application={record.application as LoanApplication} result={record.result} />
+                )}
+              </div>
+            ) : (
+              <p className="text-gray-500">This case has not been appraised yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
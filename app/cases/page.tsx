@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FolderOpen, Search } from 'lucide-react';
+import { ApiError, readApiJson } from '../../components/api';
+import { formatDateTime, formatInr, getCaseStatusColor, getRiskColor } from '../../components/format';
+import { loanPurposeLabel, loanPurposeOptions } from '../../components/options';
+import type { CaseSummary } from '../../engine/cases';
+import { caseStatuses } from '../../engine/workflow';
+
+const emptyFilters = {
+  q: '',
+  status: '',
+  decision: '',
+  loanPurpose: '',
+  risk: '',
+  from: '',
+  to: '',
+};
+
+export default function CasesPage() {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value !== ''));
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetch(`/api/cases?${params}`, { signal: controller.signal })
+      .then(response => readApiJson<{ cases: CaseSummary[] }>(response))
+      .then(body => {
+        setCases(body.cases);
+        setError(null);
+      })
+      .catch(fetchError => {
+        if (fetchError.name !== 'AbortError') {
+          setError(fetchError instanceof ApiError ? fetchError.message : 'Unable to load cases. Please try again.');
+        }
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [filters]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <FolderOpen className="text-indigo-600" size={32} />
+            Application Cases
+          </h1>
+          <Link href="/" className="text-sm font-medium text-indigo-700 hover:underline">
+            + New application
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-2.5 text-gray-400" size={16} />
+              <input
+                type="text"
+                name="q"
+                value={filters.q}
+                onChange={handleFilterChange}
+                className={`${inputClass} pl-9`}
+                placeholder="Search by case ID or applicant"
+              />
+            </div>
+            <select name="decision" value={filters.decision} onChange={handleFilterChange} className={inputClass}>
+              <option value="">All decisions</option>
+              <option value="APPROVED">Approved</option>
+              <option value="REVIEW_REQUIRED">Review required</option>
+              <option value="REJECTED">Rejected</option>
+            </select>
+            <select name="loanPurpose" value={filters.loanPurpose} onChange={handleFilterChange} className={inputClass}>
+              <option value="">All purposes</option>
+              {loanPurposeOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select name="risk" value={filters.risk} onChange={handleFilterChange} className={inputClass}>
+              <option value="">All risk levels</option>
+              <option value="LOW">Low</option>
+              <option value="MEDIUM">Medium</option>
+              <option value="HIGH">High</option>
+            </select>
+            <select name="status" value={filters.status} onChange={handleFilterChange} className={inputClass}>
+              <option value="">All statuses</option>
+              {caseStatuses.map(status => (
+                <option key={status} value={status}>{status.replace('_', ' ')}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 md:col-span-2 lg:col-span-1">
+              <input type="date" name="from" value={filters.from} onChange={handleFilterChange} className={inputClass} aria-label="Created from" />
+              <input type="date" name="to" value={filters.to} onChange={handleFilterChange} className={inputClass} aria-label="Created to" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+          {error ? (
+            <p className="text-red-700 text-sm">{error}</p>
+          ) : loading ? (
+            <p className="text-gray-500 text-sm">Loading cases...</p>
+          ) : cases.length === 0 ? (
+            <p className="text-gray-500 text-sm">No cases match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-600 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4">Case ID</th>
+                  <th className="py-2 pr-4">Applicant</th>
+                  <th className="py-2 pr-4">Purpose</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 pr-4">Decision</th>
+                  <th className="py-2 pr-4">Risk</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2">Created</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cases.map(summary => (
+                  <tr key={summary.id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4">
+                      <Link href={`/cases/${summary.id}`} className="font-medium text-indigo-700 hover:underline">
+                        {summary.id}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-800">{summary.applicantName || '—'}</td>
+                    <td className="py-2 pr-4 text-gray-700">{loanPurposeLabel(summary.loanPurpose)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-800">{formatInr(summary.loanAmount)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{summary.decision?.replace('_', ' ') ?? '—'}</td>
+                    <td className={`py-2 pr-4 font-semibold ${getRiskColor(summary.overallRisk ?? '')}`}>
+                      {summary.overallRisk ?? '—'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-1 rounded text-xs font-semibold ${getCaseStatusColor(summary.status)}`}>
+                        {summary.status.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className="py-2 text-gray-600">{formatDateTime(summary.createdAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { jsonHeaders } from '../../components/api';
+
+export default function LoginPage() {
+  const [userId, setUserId] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify({ userId, password })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error);
+        return;
+      }
+      // Only same-site paths, so the sign-in page cannot be used to bounce users elsewhere.
+      const next = new URLSearchParams(window.location.search).get('next') ?? '/';
+      window.location.assign(next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4 flex items-center justify-center">
+      <form onSubmit={signIn} className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <Lock className="text-indigo-600" />
+          Sign in
+        </h1>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User ID</label>
+          <input type="text" value={userId} onChange={e => setUserId(e.target.value)} className={inputClass} autoComplete="username" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className={inputClass}
+            autoComplete="current-password"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy || userId.trim() === '' || password === ''}
+          className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+        >
+          {busy ? 'Signing in...' : 'Sign in'}
+        </button>
+        {error && <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">{error}</div>}
+      </form>
+    </div>
+  );
+}
@@ -1,251 +1,146 @@
 'use client';
 
 import { useState } from 'react';
-import { CheckCircle, XCircle, AlertTriangle, FileText, TrendingUp, Shield, Building2 } from 'lucide-react';
-
-interface LoanApplication {
-  applicantName: string;
-  loanAmount: number;
-  loanPurpose: string;
-  annualIncome: number;
-  creditScore: number;
-  employmentType: string;
-  employmentYears: number;
-  existingLoans: number;
-  collateralValue: number;
-  businessVintage?: number;
-  debtToIncome?: number;
-}
-
-interface AppraisalResult {
-  decision: 'APPROVED' | 'REJECTED' | 'REVIEW_REQUIRED';
-  score: number;
-  reasons: string[];
-  rbiCompliance: ComplianceCheck[];
-  bankPolicyCompliance: ComplianceCheck[];
-  riskAssessment: RiskAssessment;
-  recommendations: string[];
-}
-
-interface ComplianceCheck {
-  parameter: string;
-  status: 'PASS' | 'FAIL' | 'WARNING';
-  details: string;
-}
-
-interface RiskAssessment {
-  creditRisk: 'LOW' | 'MEDIUM' | 'HIGH';
-  collateralRisk: 'LOW' | 'MEDIUM' | 'HIGH';
-  overallRisk: 'LOW' | 'MEDIUM' | 'HIGH';
-  riskScore: number;
-}
+import { ArrowLeft, ArrowRight, FileText, TrendingUp, Shield, Building2 } from 'lucide-react';
+import Link from 'next/link';
+import { ApiError } from '../components/api';
+import AppraisalResultPanel from '../components/AppraisalResultPanel';
+import BureauReportField from '../components/BureauReportField';
+import CollateralFields from '../components/CollateralFields';
+import FinancialsFields from '../components/FinancialsFields';
+import FormField, { fieldInputClass } from '../components/FormField';
+import IncomeEvidenceFields from '../components/IncomeEvidenceFields';
+import KycFields from '../components/KycFields';
+import PartiesFields from '../components/PartiesFields';
+import SignedInUser from '../components/SignedInUser';
+import WhatIfPanel from '../components/WhatIfPanel';
+import WizardSteps from '../components/WizardSteps';
+import { formatDateTime, formatInr } from '../components/format';
+import { employmentTypeOptions, loanPurposeLabel, loanPurposeOptions } from '../components/options';
+import { useCurrentUser } from '../components/useCurrentUser';
+import { useDraftAutosave } from '../components/useDraftAutosave';
+import { branchScope, roleLabel } from '../engine/access';
+import {
+  applicationFields,
+  applicationSteps,
+  checkApplicationFields,
+  fieldMessages,
+  stepOf,
+  type ApplicationField,
+  type ApplicationStep,
+} from '../engine/application-schema';
+import { requiresBusinessVintage } from '../engine/employment';
+import { defaultPolicy } from '../engine/policy/default-policy';
+import type { CaseRecord } from '../engine/cases';
+import type { Role } from '../engine/policy/types';
+import type { AppraisalResult, LoanApplication } from '../engine/types';
+import { validateLoanApplication } from '../engine/validate';
+
+// Numbers start empty so an untouched field reads as missing rather than as a plausible zero.
+const initialApplication: Partial<LoanApplication> = {
+  applicantName: '',
+  loanPurpose: 'home',
+  employmentType: 'salaried',
+  existingLoans: 0,
+  collateralValue: 0,
+  coApplicants: [],
+  guarantors: [],
+};
+
+const numberFields = applicationFields.filter(rule => rule.kind === 'number').map(rule => rule.field as string);
 
 export default function Home() {
-  const [formData, setFormData] = useState<LoanApplication>({
-    applicantName: '',
-    loanAmount: 0,
-    loanPurpose: 'home',
-    annualIncome: 0,
-    creditScore: 0,
-    employmentType: 'salaried',
-    employmentYears: 0,
-    existingLoans: 0,
-    collateralValue: 0,
-    businessVintage: 0,
-    debtToIncome: 0,
-  });
+  const [formData, setFormData] = useState<Partial<LoanApplication>>(initialApplication);
+  const [step, setStep] = useState<ApplicationStep>('applicant');
+  const [reached, setReached] = useState(0);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<ApplicationField, string>>>({});
 
   const [result, setResult] = useState<AppraisalResult | null>(null);
+  const [appraisedApplication, setAppraisedApplication] = useState<LoanApplication | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const currentUser = useCurrentUser();
+  const [savedCase, setSavedCase] = useState<{ id: string; status: string; referredTo?: Role } | null>(null);
+
+  // A draft is worth keeping once the applicant step is complete.
+  const draft = useDraftAutosave(
+    formData,
+    !!currentUser && checkApplicationFields(formData, defaultPolicy, 'applicant').length === 0,
+    restored => {
+      setFormData({ ...initialApplication, ...restored });
+      setReached(applicationSteps.length - 1);
+    },
+  );
+
+  const stepIndex = applicationSteps.findIndex(entry => entry.step === step);
+  const needsBusinessVintage = requiresBusinessVintage(defaultPolicy, formData.employmentType ?? '', formData.loanPurpose ?? '');
+  const needsFinancials = ['business', 'msme'].includes(formData.loanPurpose ?? '');
+  const review = step === 'review' ? validateLoanApplication(formData, defaultPolicy) : null;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: ['loanAmount', 'annualIncome', 'creditScore', 'employmentYears', 'existingLoans', 'collateralValue', 'businessVintage', 'debtToIncome'].includes(name)
-        ? parseFloat(value) || 0
-        : value
+      [name]: numberFields.includes(name) ? (value === '' ? undefined : Number(value)) : value
     }));
+    setFieldErrors(prev => ({ ...prev, [name]: undefined }));
   };
 
-  const analyzeApplication = async () => {
-    setLoading(true);
-
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    const loanToIncome = formData.loanAmount / formData.annualIncome;
-    const loanToValue = formData.collateralValue > 0 ? formData.loanAmount / formData.collateralValue : 0;
-    const debtToIncome = formData.debtToIncome || (formData.existingLoans / formData.annualIncome) * 100;
-
-    // RBI Compliance Checks
-    const rbiCompliance: ComplianceCheck[] = [
-      {
-        parameter: 'Loan-to-Value (LTV) Ratio',
-        status: loanToValue <= 0.8 ? 'PASS' : loanToValue <= 0.9 ? 'WARNING' : 'FAIL',
-        details: `LTV: ${(loanToValue * 100).toFixed(2)}%. RBI guidelines recommend max 80% for priority sector loans.`
-      },
-      {
-        parameter: 'Credit Information Report',
-        status: formData.creditScore >= 700 ? 'PASS' : formData.creditScore >= 650 ? 'WARNING' : 'FAIL',
-        details: `Credit Score: ${formData.creditScore}. Min recommended: 650-700 as per CIBIL standards.`
-      },
-      {
-        parameter: 'KYC Compliance',
-        status: 'PASS',
-        details: 'Assumed KYC documents verified as per PMLA guidelines.'
-      },
-      {
-        parameter: 'Priority Sector Classification',
-        status: ['agriculture', 'msme', 'education'].includes(formData.loanPurpose) ? 'PASS' : 'WARNING',
-        details: formData.loanPurpose === 'agriculture' || formData.loanPurpose === 'msme'
-          ? 'Eligible for priority sector lending targets (40% for domestic banks).'
-          : 'Non-priority sector loan.'
-      }
-    ];
-
-    // Bank Policy Compliance
-    const bankPolicyCompliance: ComplianceCheck[] = [
-      {
-        parameter: 'Debt-to-Income Ratio',
-        status: debtToIncome <= 40 ? 'PASS' : debtToIncome <= 50 ? 'WARNING' : 'FAIL',
-        details: `DTI: ${debtToIncome.toFixed(2)}%. Bank policy: Max 40% recommended, 50% absolute limit.`
-      },
-      {
-        parameter: 'Employment Stability',
-        status: formData.employmentYears >= 2 ? 'PASS' : formData.employmentYears >= 1 ? 'WARNING' : 'FAIL',
-        details: `Employment: ${formData.employmentYears} years. Min required: 2 years for salaried, 3 years for self-employed.`
-      },
-      {
-        parameter: 'Loan Amount Eligibility',
-        status: loanToIncome <= 5 ? 'PASS' : loanToIncome <= 7 ? 'WARNING' : 'FAIL',
-        details: `Loan-to-Income: ${loanToIncome.toFixed(2)}x. Max recommended: 5x annual income.`
-      },
-      {
-        parameter: 'Collateral Coverage',
-        status: formData.collateralValue >= formData.loanAmount * 1.2 ? 'PASS' :
-                formData.collateralValue >= formData.loanAmount ? 'WARNING' : 'FAIL',
-        details: `Collateral coverage: ${((formData.collateralValue / formData.loanAmount) * 100).toFixed(2)}%. Min required: 120%.`
-      }
-    ];
-
-    // Risk Assessment
-    const creditRisk = formData.creditScore >= 750 ? 'LOW' : formData.creditScore >= 650 ? 'MEDIUM' : 'HIGH';
-    const collateralRisk = loanToValue <= 0.7 ? 'LOW' : loanToValue <= 0.85 ? 'MEDIUM' : 'HIGH';
-
-    const riskScores = {
-      LOW: 100,
-      MEDIUM: 65,
-      HIGH: 30
-    };
-
-    const overallRiskScore = (riskScores[creditRisk] + riskScores[collateralRisk]) / 2;
-    const overallRisk = overallRiskScore >= 80 ? 'LOW' : overallRiskScore >= 50 ? 'MEDIUM' : 'HIGH';
-
-    const riskAssessment: RiskAssessment = {
-      creditRisk,
-      collateralRisk,
-      overallRisk,
-      riskScore: overallRiskScore
-    };
-
-    // Calculate Score
-    let score = 0;
-    const allChecks = [...rbiCompliance, ...bankPolicyCompliance];
-    allChecks.forEach(check => {
-      if (check.status === 'PASS') score += 12.5;
-      else if (check.status === 'WARNING') score += 6.25;
-    });
-
-    // Decision Logic
-    const failedCritical = allChecks.filter(c => c.status === 'FAIL').length;
-    const warnings = allChecks.filter(c => c.status === 'WARNING').length;
-
-    let decision: 'APPROVED' | 'REJECTED' | 'REVIEW_REQUIRED';
-    let reasons: string[] = [];
-    let recommendations: string[] = [];
-
-    if (failedCritical >= 3 || overallRisk === 'HIGH') {
-      decision = 'REJECTED';
-      reasons.push(`High risk profile with ${failedCritical} critical compliance failures.`);
-      if (formData.creditScore < 650) reasons.push('Credit score below minimum threshold.');
-      if (debtToIncome > 50) reasons.push('Debt-to-income ratio exceeds acceptable limits.');
-      if (loanToValue > 0.9) reasons.push('Insufficient collateral coverage.');
-
-      recommendations.push('Applicant should improve credit score before reapplying.');
-      recommendations.push('Consider reducing loan amount or increasing collateral value.');
-      recommendations.push('Clear existing debts to improve DTI ratio.');
-    } else if (failedCritical >= 1 || warnings >= 3 || overallRisk === 'MEDIUM') {
-      decision = 'REVIEW_REQUIRED';
-      reasons.push(`Application requires senior management review due to ${warnings} warnings and ${failedCritical} failures.`);
-      if (formData.creditScore < 700) reasons.push('Credit score in acceptable but cautionary range.');
-      if (debtToIncome > 40) reasons.push('Debt-to-income ratio above recommended threshold.');
-
-      recommendations.push('Request additional documentation and income proof.');
-      recommendations.push('Consider co-applicant or guarantor to strengthen application.');
-      recommendations.push('Verify employment and conduct detailed background check.');
-      recommendations.push('May approve with higher interest rate or stricter terms.');
-    } else {
-      decision = 'APPROVED';
-      reasons.push('All critical compliance checks passed.');
-      reasons.push('Strong credit profile and adequate collateral coverage.');
-      reasons.push('Meets RBI and internal bank policy requirements.');
-
-      recommendations.push('Proceed with standard loan documentation.');
-      recommendations.push('Offer competitive interest rates as per risk category.');
-      recommendations.push('Complete legal and technical due diligence.');
-    }
+  const goTo = (target: ApplicationStep) => {
+    const index = applicationSteps.findIndex(entry => entry.step === target);
+    setReached(prev => Math.max(prev, index));
+    setStep(target);
+  };
 
-    const appraisalResult: AppraisalResult = {
-      decision,
-      score,
-      reasons,
-      rbiCompliance,
-      bankPolicyCompliance,
-      riskAssessment,
-      recommendations
-    };
-
-    setResult(appraisalResult);
-    setLoading(false);
+  const nextStep = () => {
+    const issues = checkApplicationFields(formData, defaultPolicy, step);
+    setFieldErrors(fieldMessages(issues));
+    if (issues.length === 0) goTo(applicationSteps[stepIndex + 1].step);
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'PASS':
-        return <CheckCircle className="text-green-500" size={20} />;
-      case 'WARNING':
-        return <AlertTriangle className="text-yellow-500" size={20} />;
-      case 'FAIL':
-        return <XCircle className="text-red-500" size={20} />;
-      default:
-        return null;
-    }
+  const startOver = () => {
+    draft.reset();
+    setFormData(initialApplication);
+    setFieldErrors({});
+    setReached(0);
+    setStep('applicant');
+    setSavedCase(null);
+    setError(null);
   };
 
-  const getDecisionColor = (decision: string) => {
-    switch (decision) {
-      case 'APPROVED':
-        return 'bg-green-100 text-green-800 border-green-300';
-      case 'REJECTED':
-        return 'bg-red-100 text-red-800 border-red-300';
-      case 'REVIEW_REQUIRED':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300';
+  const analyzeApplication = async () => {
+    const validation = validateLoanApplication(formData, defaultPolicy);
+    if (!validation.ok) {
+      setFieldErrors(validation.fieldErrors);
+      const first = Object.keys(validation.fieldErrors)[0];
+      if (first) setStep(stepOf(first) ?? 'review');
+      return;
     }
-  };
 
-  const getRiskColor = (risk: string) => {
-    switch (risk) {
-      case 'LOW':
-        return 'text-green-600';
-      case 'MEDIUM':
-        return 'text-yellow-600';
-      case 'HIGH':
-        return 'text-red-600';
-      default:
-        return 'text-gray-600';
+    setLoading(true);
+    setError(null);
+
+    try {
+      const draftId = await draft.flush();
+      const response = await fetch(`/api/cases/${draftId}/appraise`, { method: 'POST' });
+      const body = await response.json();
+
+      if (!response.ok) {
+        setResult(null);
+        setFieldErrors(body.fields ?? {});
+        setError([body.error, ...(body.details ?? [])].join(' '));
+        return;
+      }
+
+      const record = body as CaseRecord;
+      setSavedCase({ id: record.id, status: record.status, referredTo: record.referredTo });
+      setResult(record.result ?? null);
+      setAppraisedApplication(record.result ? (record.application as LoanApplication) : null);
+      draft.reset();
+    } catch (submitError) {
+      setError(submitError instanceof ApiError ? submitError.message : 'Unable to reach the appraisal service. Please try again.');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -259,162 +154,386 @@ export default function Home() {
           </div>
           <p className="text-gray-600 text-lg">AI-Powered Bank Lending Decision Support System</p>
           <p className="text-gray-500 text-sm mt-2">Compliant with RBI Guidelines & Bank Policies</p>
+          <div className="flex items-center justify-center gap-6 mt-3">
+            <Link href="/cases" className="text-sm font-medium text-indigo-700 hover:underline">
+              View all cases →
+            </Link>
+            <Link href="/reviews" className="text-sm font-medium text-indigo-700 hover:underline">
+              Review queue →
+            </Link>
+            <Link href="/batch" className="text-sm font-medium text-indigo-700 hover:underline">
+              Batch upload →
+            </Link>
+            <Link href="/portfolio" className="text-sm font-medium text-indigo-700 hover:underline">
+              Portfolio →
+            </Link>
+            <Link href="/backtest" className="text-sm font-medium text-indigo-700 hover:underline">
+              Policy backtest →
+            </Link>
+            {currentUser && branchScope(currentUser.user) === undefined && (
+              <Link href="/webhooks" className="text-sm font-medium text-indigo-700 hover:underline">
+                Webhooks →
+              </Link>
+            )}
+            <SignedInUser current={currentUser} />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Application Form */}
           <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
-              <FileText className="text-indigo-600" />
-              Loan Application Details
-            </h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+                <FileText className="text-indigo-600" />
+                Loan Application Details
+              </h2>
+              {(draft.draftId || savedCase) && (
+                <button onClick={startOver} className="text-sm font-medium text-indigo-700 hover:underline">
+                  New application
+                </button>
+              )}
+            </div>
+
+            <WizardSteps current={step} reached={reached} onSelect={goTo} />
 
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Applicant Name</label>
-                <input
-                  type="text"
-                  name="applicantName"
-                  value={formData.applicantName}
-                  onChange={handleInputChange}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  placeholder="Enter full name"
-                />
-              </div>
+              {step === 'applicant' && (
+                <>
+                  <FormField label="Applicant Name" error={fieldErrors.applicantName}>
+                    <input
+                      type="text"
+                      name="applicantName"
+                      value={formData.applicantName ?? ''}
+                      onChange={handleInputChange}
+                      className={fieldInputClass(fieldErrors.applicantName)}
+                      placeholder="Enter full name"
+                    />
+                  </FormField>
+
+                  <FormField label="Loan Purpose" error={fieldErrors.loanPurpose}>
+                    <select
+                      name="loanPurpose"
+                      value={formData.loanPurpose}
+                      onChange={handleInputChange}
+                      className={fieldInputClass(fieldErrors.loanPurpose)}
+                    >
+                      {loanPurposeOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </FormField>
+
+                  <PartiesFields
+                    coApplicants={formData.coApplicants ?? []}
+                    guarantors={formData.guarantors ?? []}
+                    onChange={parties => setFormData(prev => ({ ...prev, ...parties }))}
+                  />
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Loan Amount (₹)</label>
-                  <input
-                    type="number"
-                    name="loanAmount"
-                    value={formData.loanAmount || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="5000000"
+                  <KycFields
+                    kyc={formData.kyc}
+                    loanPurpose={formData.loanPurpose ?? ''}
+                    employmentType={formData.employmentType ?? ''}
+                    onChange={kyc => setFormData(prev => ({ ...prev, kyc }))}
                   />
-                </div>
+                </>
+              )}
+
+              {step === 'income' && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField label="Employment Type" error={fieldErrors.employmentType}>
+                      <select
+                        name="employmentType"
+                        value={formData.employmentType}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.employmentType)}
+                      >
+                        {employmentTypeOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </FormField>
+
+                    <FormField label="Employment Years" error={fieldErrors.employmentYears}>
+                      <input
+                        type="number"
+                        name="employmentYears"
+                        value={formData.employmentYears ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.employmentYears)}
+                        placeholder="5"
+                        min="0"
+                        step="0.5"
+                      />
+                    </FormField>
+                  </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Loan Purpose</label>
-                  <select
-                    name="loanPurpose"
-                    value={formData.loanPurpose}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  >
-                    <option value="home">Home Loan</option>
-                    <option value="personal">Personal Loan</option>
-                    <option value="business">Business Loan</option>
-                    <option value="vehicle">Vehicle Loan</option>
-                    <option value="education">Education Loan</option>
-                    <option value="agriculture">Agriculture Loan</option>
-                    <option value="msme">MSME Loan</option>
-                  </select>
-                </div>
-              </div>
+                  {needsBusinessVintage && (
+                    <FormField label="Business Vintage (years)" error={fieldErrors.businessVintage}>
+                      <input
+                        type="number"
+                        name="businessVintage"
+                        value={formData.businessVintage ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.businessVintage)}
+                        placeholder="3"
+                        min="0"
+                        step="0.5"
+                      />
+                    </FormField>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField label="Annual Income (₹)" error={fieldErrors.annualIncome}>
+                      <input
+                        type="number"
+                        name="annualIncome"
+                        value={formData.annualIncome ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.annualIncome)}
+                        placeholder="1200000"
+                        min="0"
+                      />
+                    </FormField>
+
+                    <FormField label="Credit Score" error={fieldErrors.creditScore}>
+                      <input
+                        type="number"
+                        name="creditScore"
+                        value={formData.creditScore ?? ''}
+                        onChange={handleInputChange}
+                        readOnly={!!formData.bureauReport}
+                        title={formData.bureauReport ? 'Taken from the attached bureau report' : undefined}
+                        className={fieldInputClass(fieldErrors.creditScore)}
+                        placeholder="750"
+                        min="300"
+                        max="900"
+                      />
+                    </FormField>
+                  </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Annual Income (₹)</label>
-                  <input
-                    type="number"
-                    name="annualIncome"
-                    value={formData.annualIncome || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="1200000"
+                  <IncomeEvidenceFields
+                    evidence={formData.incomeEvidence}
+                    onChange={incomeEvidence => setFormData(prev => ({ ...prev, incomeEvidence }))}
                   />
-                </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Credit Score</label>
-                  <input
-                    type="number"
-                    name="creditScore"
-                    value={formData.creditScore || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="750"
-                    min="300"
-                    max="900"
+                  <BureauReportField
+                    applicantName={formData.applicantName ?? ''}
+                    report={formData.bureauReport}
+                    onChange={loaded => setFormData(prev => (loaded
+                      ? { ...prev, bureauReport: loaded.report, creditScore: loaded.summary.score, existingLoans: loaded.summary.activeEmi }
+                      : { ...prev, bureauReport: undefined }))}
                   />
-                </div>
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Employment Type</label>
-                  <select
-                    name="employmentType"
-                    value={formData.employmentType}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  <FormField
+                    label="Existing EMI (₹/month)"
+                    error={fieldErrors.existingLoans}
+                    hint={formData.bureauReport && 'Filled from active bureau tradelines; add any loans the report does not show.'}
                   >
-                    <option value="salaried">Salaried</option>
-                    <option value="self-employed">Self-Employed</option>
-                    <option value="business">Business Owner</option>
-                    <option value="professional">Professional</option>
-                  </select>
-                </div>
+                    <input
+                      type="number"
+                      name="existingLoans"
+                      value={formData.existingLoans ?? ''}
+                      onChange={handleInputChange}
+                      className={fieldInputClass(fieldErrors.existingLoans)}
+                      placeholder="25000"
+                      min="0"
+                    />
+                  </FormField>
+
+                  {needsFinancials && (
+                    <FinancialsFields
+                      financials={formData.financials}
+                      onChange={financials => setFormData(prev => ({ ...prev, financials }))}
+                    />
+                  )}
+                </>
+              )}
+
+              {step === 'loan' && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField label="Loan Amount (₹)" error={fieldErrors.loanAmount}>
+                      <input
+                        type="number"
+                        name="loanAmount"
+                        value={formData.loanAmount ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.loanAmount)}
+                        placeholder="5000000"
+                        min="0"
+                      />
+                    </FormField>
+
+                    <FormField label="Collateral Value (₹)" error={fieldErrors.collateralValue}>
+                      <input
+                        type="number"
+                        name="collateralValue"
+                        value={formData.collateralValue ?? ''}
+                        onChange={handleInputChange}
+                        readOnly={(formData.collateral?.length ?? 0) > 0}
+                        title={formData.collateral?.length ? 'Total of the securities listed below' : undefined}
+                        className={fieldInputClass(fieldErrors.collateralValue)}
+                        placeholder="6000000"
+                        min="0"
+                      />
+                    </FormField>
+                  </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Employment Years</label>
-                  <input
-                    type="number"
-                    name="employmentYears"
-                    value={formData.employmentYears || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="5"
-                    step="0.5"
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField label="Tenure (months)" error={fieldErrors.tenureMonths}>
+                      <input
+                        type="number"
+                        name="tenureMonths"
+                        value={formData.tenureMonths ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.tenureMonths)}
+                        placeholder="240"
+                        min="1"
+                      />
+                    </FormField>
+
+                    <FormField label="Interest Rate (% p.a.)" error={fieldErrors.interestRate}>
+                      <input
+                        type="number"
+                        name="interestRate"
+                        value={formData.interestRate ?? ''}
+                        onChange={handleInputChange}
+                        className={fieldInputClass(fieldErrors.interestRate)}
+                        placeholder="8.5"
+                        min="0"
+                        step="0.05"
+                      />
+                    </FormField>
+                  </div>
+
+                  <CollateralFields
+                    securities={formData.collateral ?? []}
+                    onChange={collateral => setFormData(prev => ({
+                      ...prev,
+                      collateral,
+                      collateralValue: collateral.length > 0
+                        ? collateral.reduce((sum, security) => sum + security.marketValue, 0)
+                        : prev.collateralValue,
+                    }))}
                   />
-                </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Pricing Concessions</span>
+                    <div className="flex flex-wrap gap-4">
+                      {defaultPolicy.pricing.concessions.map(concession => (
+                        <label key={concession.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.concessions?.includes(concession.id) ?? false}
+                            onChange={e => setFormData(prev => {
+                              const others = (prev.concessions ?? []).filter(id => id !== concession.id);
+                              return { ...prev, concessions: e.target.checked ? [...others, concession.id] : others };
+                            })}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          {concession.label} ({concession.bps} bps)
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {step === 'review' && (
+                <>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <dt className="text-gray-600">Applicant</dt>
+                    <dd className="font-medium text-gray-800">{formData.applicantName || '—'}</dd>
+                    <dt className="text-gray-600">Purpose</dt>
+                    <dd className="font-medium text-gray-800">{loanPurposeLabel(formData.loanPurpose ?? '')}</dd>
+                    <dt className="text-gray-600">Co-applicants / Guarantors</dt>
+                    <dd className="font-medium text-gray-800">{formData.coApplicants?.length ?? 0} / {formData.guarantors?.length ?? 0}</dd>
+                    <dt className="text-gray-600">Employment</dt>
+                    <dd className="font-medium text-gray-800">{formData.employmentType} · {formData.employmentYears ?? '—'} years</dd>
+                    <dt className="text-gray-600">Annual Income</dt>
+                    <dd className="font-medium text-gray-800">{formData.annualIncome !== undefined ? formatInr(formData.annualIncome) : '—'}</dd>
+                    <dt className="text-gray-600">Credit Score</dt>
+                    <dd className="font-medium text-gray-800">{formData.creditScore ?? '—'}</dd>
+                    <dt className="text-gray-600">Existing EMI</dt>
+                    <dd className="font-medium text-gray-800">{formatInr(formData.existingLoans ?? 0)}</dd>
+                    <dt className="text-gray-600">Loan Amount</dt>
+                    <dd className="font-medium text-gray-800">{formData.loanAmount !== undefined ? formatInr(formData.loanAmount) : '—'}</dd>
+                    <dt className="text-gray-600">Tenure / Rate</dt>
+                    <dd className="font-medium text-gray-800">{formData.tenureMonths ?? '—'} months @ {formData.interestRate ?? '—'}%</dd>
+                    <dt className="text-gray-600">Collateral Value</dt>
+                    <dd className="font-medium text-gray-800">{formatInr(formData.collateralValue ?? 0)}</dd>
+                  </dl>
+
+                  {review && !review.ok && (
+                    <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">
+                      <div className="font-semibold mb-1">Fix these before submitting:</div>
+                      <ul className="list-disc list-inside space-y-1">
+                        {review.errors.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={analyzeApplication}
+                    disabled={loading || !currentUser || (review !== null && !review.ok)}
+                    className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {loading ? (
+                      <>
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                        Analyzing Application...
+                      </>
+                    ) : (
+                      <>
+                        <TrendingUp size={20} />
+                        Analyze & Generate Decision
+                      </>
+                    )}
+                  </button>
+                </>
+              )}
+
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => goTo(applicationSteps[stepIndex - 1].step)}
+                  disabled={stepIndex === 0}
+                  className="text-sm font-medium text-indigo-700 hover:underline flex items-center gap-1 disabled:text-gray-300 disabled:no-underline"
+                >
+                  <ArrowLeft size={16} />
+                  Back
+                </button>
+                <span className="text-xs text-gray-500">
+                  {draft.status === 'saving' && 'Saving draft…'}
+                  {draft.status === 'saved' && draft.savedAt && `Draft ${draft.draftId} saved ${formatDateTime(draft.savedAt)}`}
+                  {draft.status === 'error' && <span className="text-red-700">{draft.error}</span>}
+                  {draft.status === 'idle' && draft.error}
+                </span>
+                {step !== 'review' && (
+                  <button
+                    onClick={nextStep}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors flex items-center gap-1"
+                  >
+                    Next
+                    <ArrowRight size={16} />
+                  </button>
+                )}
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Existing EMI (₹/month)</label>
-                  <input
-                    type="number"
-                    name="existingLoans"
-                    value={formData.existingLoans || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="25000"
-                  />
+              {savedCase && (
+                <div className="border border-indigo-200 bg-indigo-50 text-indigo-800 rounded-lg p-3 text-sm">
+                  Saved as case{' '}
+                  <Link href={`/cases/${savedCase.id}`} className="font-semibold underline">{savedCase.id}</Link>
+                  {' '}({savedCase.status.replace('_', ' ')}).
+                  {savedCase.referredTo && ` The approval is beyond your sanction authority and has been referred to the ${roleLabel(savedCase.referredTo).toLowerCase()}.`}
                 </div>
+              )}
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Collateral Value (₹)</label>
-                  <input
-                    type="number"
-                    name="collateralValue"
-                    value={formData.collateralValue || ''}
-                    onChange={handleInputChange}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="6000000"
-                  />
+              {error && (
+                <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm">
+                  {error}
                 </div>
-              </div>
-
-              <button
-                onClick={analyzeApplication}
-                disabled={loading || !formData.applicantName || formData.loanAmount === 0}
-                className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-              >
-                {loading ? (
-                  <>
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                    Analyzing Application...
-                  </>
-                ) : (
-                  <>
-                    <TrendingUp size={20} />
-                    Analyze & Generate Decision
-                  </>
-                )}
-              </button>
+              )}
             </div>
           </div>
 
@@ -432,114 +551,8 @@ export default function Home() {
               </div>
             ) : (
               <div className="space-y-6">
-                {/* Decision Banner */}
-                <div className={`border-2 rounded-lg p-6 ${getDecisionColor(result.decision)}`}>
-                  <div className="flex items-center justify-between mb-2">
-                    <h3 className="text-2xl font-bold">Decision: {result.decision.replace('_', ' ')}</h3>
-                    <div className="text-3xl font-bold">{result.score.toFixed(1)}%</div>
-                  </div>
-                  <div className="w-full bg-white bg-opacity-50 rounded-full h-3 mt-3">
-                    <div
-                      className="h-3 rounded-full transition-all duration-500"
-                      style={{
-                        width: `${result.score}%`,
-                        backgroundColor: result.decision === 'APPROVED' ? '#10b981' : result.decision === 'REJECTED' ? '#ef4444' : '#f59e0b'
-                      }}
-                    ></div>
-                  </div>
-                </div>
-
-                {/* Risk Assessment */}
-                <div className="border border-gray-200 rounded-lg p-4">
-                  <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
-                    <AlertTriangle size={18} />
-                    Risk Assessment
-                  </h4>
-                  <div className="grid grid-cols-2 gap-3 text-sm">
-                    <div>
-                      <span className="text-gray-600">Credit Risk:</span>
-                      <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.creditRisk)}`}>
-                        {result.riskAssessment.creditRisk}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-gray-600">Collateral Risk:</span>
-                      <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.collateralRisk)}`}>
-                        {result.riskAssessment.collateralRisk}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-gray-600">Overall Risk:</span>
-                      <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.overallRisk)}`}>
-                        {result.riskAssessment.overallRisk}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-gray-600">Risk Score:</span>
-                      <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.overallRisk)}`}>
-                        {result.riskAssessment.riskScore.toFixed(1)}/100
-                      </span>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Reasons */}
-                <div className="border border-gray-200 rounded-lg p-4">
-                  <h4 className="font-semibold text-gray-800 mb-3">Decision Rationale</h4>
-                  <ul className="space-y-2 text-sm">
-                    {result.reasons.map((reason, idx) => (
-                      <li key={idx} className="flex items-start gap-2">
-                        <span className="text-indigo-600 mt-1">•</span>
-                        <span className="text-gray-700">{reason}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-
-                {/* RBI Compliance */}
-                <div className="border border-gray-200 rounded-lg p-4">
-                  <h4 className="font-semibold text-gray-800 mb-3">RBI Compliance Checks</h4>
-                  <div className="space-y-2">
-                    {result.rbiCompliance.map((check, idx) => (
-                      <div key={idx} className="flex items-start gap-2 text-sm border-b border-gray-100 pb-2 last:border-0">
-                        {getStatusIcon(check.status)}
-                        <div className="flex-1">
-                          <div className="font-medium text-gray-800">{check.parameter}</div>
-                          <div className="text-gray-600 text-xs mt-1">{check.details}</div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Bank Policy */}
-                <div className="border border-gray-200 rounded-lg p-4">
-                  <h4 className="font-semibold text-gray-800 mb-3">Bank Policy Compliance</h4>
-                  <div className="space-y-2">
-                    {result.bankPolicyCompliance.map((check, idx) => (
-                      <div key={idx} className="flex items-start gap-2 text-sm border-b border-gray-100 pb-2 last:border-0">
-                        {getStatusIcon(check.status)}
-                        <div className="flex-1">
-                          <div className="font-medium text-gray-800">{check.parameter}</div>
-                          <div className="text-gray-600 text-xs mt-1">{check.details}</div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Recommendations */}
-                <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-4">
-                  <h4 className="font-semibold text-indigo-900 mb-3">Recommendations</h4>
-                  <ul className="space-y-2 text-sm">
-                    {result.recommendations.map((rec, idx) => (
-                      <li key={idx} className="flex items-start gap-2">
-                        <span className="text-indigo-600 mt-1">→</span>
-                        <span className="text-indigo-800">{rec}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                <AppraisalResultPanel result={result} />
+                {appraisedApplication && <WhatIfPanel application={appraisedApplication} result={result} />}
               </div>
             )}
           </div>
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PieChart } from 'lucide-react';
+import { ApiError, readApiJson } from '../../components/api';
+import { formatInr } from '../../components/format';
+import { employmentTypeOptions, loanPurposeLabel } from '../../components/options';
+import { portfolioDimensions, type PortfolioAnalytics } from '../../engine/portfolio';
+import type { PortfolioDimension } from '../../engine/policy/types';
+
+const bucketLabel = (dimension: PortfolioDimension, key: string) => {
+  if (!key) return 'Not recorded';
+  if (dimension === 'loanPurpose') return loanPurposeLabel(key);
+  if (dimension === 'employmentType') return employmentTypeOptions.find(option => option.value === key)?.label ?? key;
+  return key;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export default function PortfolioPage() {
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [analytics, setAnalytics] = useState<PortfolioAnalytics | null>(null);
+  const [policyVersion, setPolicyVersion] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(Object.entries(range).filter(([, value]) => value !== ''));
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetch(`/api/portfolio?${params}`, { signal: controller.signal })
+      .then(response => readApiJson<{ analytics: PortfolioAnalytics; policyVersion: string }>(response))
+      .then(body => {
+        setAnalytics(body.analytics);
+        setPolicyVersion(body.policyVersion);
+        setError(null);
+      })
+      .catch(fetchError => {
+        if (fetchError.name !== 'AbortError') {
+          setError(fetchError instanceof ApiError ? fetchError.message : 'Unable to load portfolio analytics. Please try again.');
+        }
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [range]);
+
+  const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setRange(prev => ({ ...prev, [name]: value }));
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const priority = analytics?.prioritySector;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <PieChart className="text-indigo-600" size={32} />
+            Portfolio Analytics
+          </h1>
+          <div className="flex items-center gap-3 text-sm">
+            <input type="date" name="from" value={range.from} onChange={handleRangeChange} className={inputClass} aria-label="From" />
+            <span className="text-gray-500">to</span>
+            <input type="date" name="to" value={range.to} onChange={handleRangeChange} className={inputClass} aria-label="To" />
+            <Link href="/cases" className="font-medium text-indigo-700 hover:underline">All cases</Link>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="bg-white rounded-lg shadow-lg p-6 text-red-700 text-sm">{error}</div>
+        ) : loading && !analytics ? (
+          <div className="bg-white rounded-lg shadow-lg p-6 text-gray-500 text-sm">Loading portfolio...</div>
+        ) : analytics && priority && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              {[
+                ['Cases', analytics.totals.cases],
+                ['Appraised', analytics.totals.appraised],
+                ['Sanctioned', analytics.totals.sanctioned],
+                ['Declined', analytics.totals.declined],
+                ['Sanctioned exposure', formatInr(analytics.totals.exposure)],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-white rounded-lg shadow-lg p-4">
+                  <div className="text-gray-600">{label}</div>
+                  <div className="text-2xl font-bold text-gray-800">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-1">Priority Sector Lending</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  Sanctions passing the {priority.checkId} check, against a {percent(priority.target)} target.
+                </p>
+                <div className="flex items-baseline gap-3 mb-2">
+                  <span className={`text-3xl font-bold ${priority.share >= priority.target ? 'text-green-700' : 'text-red-700'}`}>
+                    {percent(priority.share)}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {formatInr(priority.exposure)} across {priority.sanctioned} sanctions
+                  </span>
+                </div>
+                <div className="relative h-3 bg-gray-100 rounded-full mb-4">
+                  <div className="h-3 bg-indigo-500 rounded-full" style={{ width: percent(Math.min(1, priority.share)) }} />
+                  <div className="absolute top-[-4px] h-5 border-l-2 border-gray-800" style={{ left: percent(priority.target) }} title="Target" />
+                </div>
+                {priority.shortfall > 0 ? (
+                  <p className="text-sm text-red-700 mb-3">
+                    Below target: a further {formatInr(priority.shortfall)} of priority-sector sanctions is needed.
+                  </p>
+                ) : (
+                  <p className="text-sm text-green-700 mb-3">Target met.</p>
+                )}
+                {priority.byPurpose.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {priority.byPurpose.map(entry => (
+                      <li key={entry.key} className="flex justify-between">
+                        <span className="text-gray-700">{loanPurposeLabel(entry.key)}</span>
+                        <span className="font-semibold text-gray-800">{formatInr(entry.exposure)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-1">Concentration Limits</h2>
+                <p className="text-xs text-gray-500 mb-4">Share of sanctioned exposure under policy version {policyVersion}.</p>
+                {analytics.concentration.length === 0 ? (
+                  <p className="text-sm text-gray-500">No sanctioned exposure yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-600 border-b border-gray-200">
+                      <tr>
+                        <th className="py-2 pr-4">Limit</th>
+                        <th className="py-2 pr-4">Bucket</th>
+                        <th className="py-2 pr-4 text-right">Share</th>
+                        <th className="py-2 text-right">Limit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.concentration.map(status => (
+                        <tr key={`${status.limitId}-${status.bucket}`} className="border-b border-gray-100 last:border-0">
+                          <td className="py-2 pr-4 text-gray-800">{status.label}</td>
+                          <td className="py-2 pr-4 text-gray-700">{bucketLabel(status.dimension, status.bucket)}</td>
+                          <td className={`py-2 pr-4 text-right font-semibold ${status.breached ? 'text-red-700' : 'text-gray-800'}`}>
+                            {percent(status.share)}
+                          </td>
+                          <td className="py-2 text-right text-gray-600">{percent(status.maxShare)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Decisions by Month</h2>
+              {analytics.trend.length === 0 ? (
+                <p className="text-sm text-gray-500">No appraised cases in this period.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-600 border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 pr-4">Month</th>
+                      <th className="py-2 pr-4 text-right">Appraised</th>
+                      <th className="py-2 pr-4">Approved / referred / rejected</th>
+                      <th className="py-2 pr-4 text-right">Approval rate</th>
+                      <th className="py-2 pr-4 text-right">Rejection rate</th>
+                      <th className="py-2 text-right">Sanctioned / declined</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.trend.map(period => (
+                      <tr key={period.period} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 font-medium text-gray-800">{period.period}</td>
+                        <td className="py-2 pr-4 text-right text-gray-800">{period.appraised}</td>
+                        <td className="py-2 pr-4">
+                          <div className="flex h-3 w-48 rounded overflow-hidden bg-gray-100" title={`${period.approved} / ${period.referred} / ${period.rejected}`}>
+                            <div className="bg-green-500" style={{ width: percent(period.approved / period.appraised) }} />
+                            <div className="bg-yellow-400" style={{ width: percent(period.referred / period.appraised) }} />
+                            <div className="bg-red-500" style={{ width: percent(period.rejected / period.appraised) }} />
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4 text-right text-gray-800">{percent(period.approvalRate)}</td>
+                        <td className="py-2 pr-4 text-right text-gray-800">{percent(period.rejectionRate)}</td>
+                        <td className="py-2 text-right text-gray-700">{period.sanctioned} / {period.declined}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {portfolioDimensions.map(({ dimension, label }) => (
+                <div key={dimension} className="bg-white rounded-lg shadow-lg p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">By {label.toLowerCase()}</h2>
+                  {analytics.distributions[dimension].length === 0 ? (
+                    <p className="text-sm text-gray-500">No appraised cases.</p>
+                  ) : (
+                    <ul className="space-y-3 text-sm">
+                      {analytics.distributions[dimension].map(bucket => (
+                        <li key={bucket.key}>
+                          <div className="flex justify-between mb-1">
+                            <span className="text-gray-800">{bucketLabel(dimension, bucket.key)}</span>
+                            <span className="text-gray-600">
+                              {bucket.appraised} appraised · {bucket.sanctioned} sanctioned · {formatInr(bucket.exposure)}
+                            </span>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full">
+                            <div className="h-2 bg-indigo-500 rounded-full" style={{ width: percent(bucket.share) }} />
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ClipboardCheck } from 'lucide-react';
+import { ApiError, readApiJson } from '../../components/api';
+import { formatDateTime, formatInr, getRiskColor } from '../../components/format';
+import { loanPurposeLabel } from '../../components/options';
+import { roleLabel } from '../../engine/access';
+import type { CaseSummary } from '../../engine/cases';
+import type { OverrideStats } from '../../engine/review';
+import type { Decision } from '../../engine/types';
+
+const systemDecisions: Decision[] = ['APPROVED', 'REVIEW_REQUIRED', 'REJECTED'];
+
+export default function ReviewQueuePage() {
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [stats, setStats] = useState<OverrideStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/reviews').then(response => readApiJson<{ cases: CaseSummary[] }>(response)),
+      fetch('/api/reviews/stats').then(response => readApiJson<OverrideStats>(response))
+    ])
+      .then(([queue, overrideStats]) => {
+        setCases(queue.cases);
+        setStats(overrideStats);
+      })
+      .catch(fetchError => setError(fetchError instanceof ApiError ? fetchError.message : 'Unable to load the review queue. Please try again.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <ClipboardCheck className="text-indigo-600" size={32} />
+            Review Queue
+          </h1>
+          <Link href="/cases" className="text-sm font-medium text-indigo-700 hover:underline">
+            All cases
+          </Link>
+        </div>
+
+        {stats && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Override Statistics</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="text-gray-600">Reviewed</div>
+                <div className="text-2xl font-bold text-gray-800">{stats.reviewed}</div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="text-gray-600">Override rate</div>
+                <div className="text-2xl font-bold text-gray-800">{(stats.overrideRate * 100).toFixed(1)}%</div>
+              </div>
+              {(['APPROVED', 'REJECTED'] as const).map(outcome => (
+                <div key={outcome} className="p-4 bg-gray-50 rounded-lg">
+                  <div className="text-gray-600">Reviewer {outcome.toLowerCase()}</div>
+                  <ul className="mt-1 space-y-1 text-gray-800">
+                    {systemDecisions.map(decision => (
+                      <li key={decision} className="flex justify-between">
+                        <span>from {decision.replace('_', ' ')}</span>
+                        <span className="font-semibold">{stats.outcomes[decision][outcome]}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+          {error ? (
+            <p className="text-red-700 text-sm">{error}</p>
+          ) : loading ? (
+            <p className="text-gray-500 text-sm">Loading queue...</p>
+          ) : cases.length === 0 ? (
+            <p className="text-gray-500 text-sm">No cases are awaiting review.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-600 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4">Case ID</th>
+                  <th className="py-2 pr-4">Applicant</th>
+                  <th className="py-2 pr-4">Purpose</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 pr-4 text-right">Score</th>
+                  <th className="py-2 pr-4">Risk</th>
+                  <th className="py-2 pr-4">Maker</th>
+                  <th className="py-2 pr-4">Referred to</th>
+                  <th className="py-2">Queued since</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cases.map(summary => (
+                  <tr key={summary.id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4">
+                      <Link href={`/cases/${summary.id}`} className="font-medium text-indigo-700 hover:underline">
+                        {summary.id}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-800">{summary.applicantName || '—'}</td>
+                    <td className="py-2 pr-4 text-gray-700">{loanPurposeLabel(summary.loanPurpose)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-800">{formatInr(summary.loanAmount)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-800">{summary.score?.toFixed(1) ?? '—'}</td>
+                    <td className={`py-2 pr-4 font-semibold ${getRiskColor(summary.overallRisk ?? '')}`}>
+                      {summary.overallRisk ?? '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{summary.createdBy}</td>
+                    <td className="py-2 pr-4 text-gray-700">{summary.referredTo ? roleLabel(summary.referredTo) : '—'}</td>
+                    <td className="py-2 text-gray-600">{formatDateTime(summary.updatedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RotateCcw, Webhook } from 'lucide-react';
+import { ApiError, readApiJson } from '../../components/api';
+import { formatDateTime } from '../../components/format';
+import {
+  webhookEventTypes,
+  type DeliveryStatus,
+  type WebhookDelivery,
+  type WebhookEndpointSummary,
+} from '../../engine/webhooks';
+
+const statusColor: Record<DeliveryStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const eventLabel = (type: string) => webhookEventTypes.find(option => option.type === type)?.label ?? type;
+
+export default function WebhooksPage() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [status, setStatus] = useState<DeliveryStatus | ''>('');
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    const query = status ? `?status=${status}` : '';
+    Promise.all([
+      fetch('/api/webhooks').then(response => readApiJson<{ endpoints: WebhookEndpointSummary[] }>(response)),
+      fetch(`/api/webhooks/deliveries${query}`).then(response => readApiJson<{ deliveries: WebhookDelivery[] }>(response)),
+    ])
+      .then(([config, log]) => {
+        setEndpoints(config.endpoints);
+        setDeliveries(log.deliveries);
+        setError(null);
+      })
+      .catch(fetchError => setError(fetchError instanceof ApiError ? fetchError.message : 'Unable to load webhooks. Please try again.'));
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replay = async (id: string) => {
+    setReplaying(id);
+    try {
+      await readApiJson<WebhookDelivery>(await fetch(`/api/webhooks/deliveries/${id}/replay`, { method: 'POST' }));
+      load();
+    } catch (replayError) {
+      setError(replayError instanceof ApiError ? replayError.message : 'Unable to replay the delivery.');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <Webhook className="text-indigo-600" size={32} />
+            Webhook Deliveries
+          </h1>
+          <Link href="/cases" className="text-sm font-medium text-indigo-700 hover:underline">
+            All cases
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Endpoints</h2>
+          {endpoints.length === 0 ? (
+            <p className="text-gray-500 text-sm">No endpoints are configured; set WEBHOOKS_FILE to send decisions to the LOS or CBS.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {endpoints.map(endpoint => (
+                <div key={endpoint.id} className="border border-gray-200 rounded-lg p-4 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-800">{endpoint.id}</span>
+                    {endpoint.disabled && <span className="text-xs font-medium text-gray-500">Disabled</span>}
+                  </div>
+                  <div className="font-mono text-xs text-gray-600 break-all mt-1">{endpoint.url}</div>
+                  <div className="text-xs text-gray-600 mt-2">
+                    {endpoint.events ? endpoint.events.map(eventLabel).join(', ') : 'All events'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6 overflow-x-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Delivery Log</h2>
+            <select
+              value={status}
+              onChange={e => setStatus(e.target.value as DeliveryStatus | '')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">All statuses</option>
+              <option value="PENDING">Pending</option>
+              <option value="DELIVERED">Delivered</option>
+              <option value="FAILED">Failed</option>
+            </select>
+          </div>
+          {error ? (
+            <p className="text-red-700 text-sm">{error}</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-gray-500 text-sm">No deliveries yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-600 border-b border-gray-200">
+                <tr>
+                  <th className="py-2 pr-4">Queued</th>
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Case</th>
+                  <th className="py-2 pr-4">Endpoint</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Attempts</th>
+                  <th className="py-2 pr-4">Last result</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => {
+                  const last = delivery.attempts[delivery.attempts.length - 1];
+                  return (
+                    <tr key={delivery.id} className="border-b border-gray-100 last:border-0">
+                      <td className="py-2 pr-4 text-gray-600">
+                        {formatDateTime(delivery.createdAt)}
+                        {delivery.replayOf && <div className="text-xs text-gray-500">Replay</div>}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{eventLabel(delivery.event.type)}</td>
+                      <td className="py-2 pr-4">
+                        <Link href={`/cases/${delivery.event.data.caseId}`} className="font-medium text-indigo-700 hover:underline">
+                          {delivery.event.data.caseId}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{delivery.endpointId}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${statusColor[delivery.status]}`}>{delivery.status}</span>
+                        {delivery.status === 'PENDING' && delivery.nextAttemptAt && delivery.attempts.length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">Retry {formatDateTime(delivery.nextAttemptAt)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{delivery.attempts.length}</td>
+                      <td className="py-2 pr-4 text-xs text-gray-600">
+                        {last ? (last.error ?? `${last.responseStatus} in ${last.durationMs} ms`) : '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => replay(delivery.id)}
+                          disabled={replaying !== null}
+                          className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1 disabled:text-gray-400"
+                        >
+                          <RotateCcw size={14} />
+                          {replaying === delivery.id ? 'Replaying…' : 'Replay'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import type { AppraisalResult } from '../engine/types';
+import DecisionExplanationPanel from './DecisionExplanationPanel';
+import { formatInr, getDecisionColor, getRiskColor } from './format';
+import KycPanel from './KycPanel';
+import PricingPanel from './PricingPanel';
+import ScorecardPanel from './ScorecardPanel';
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'PASS':
+      return <CheckCircle className="text-green-500" size={20} />;
+    case 'WARNING':
+      return <AlertTriangle className="text-yellow-500" size={20} />;
+    case 'FAIL':
+      return <XCircle className="text-red-500" size={20} />;
+    default:
+      return null;
+  }
+};
+
+export default function AppraisalResultPanel({ result }: { result: AppraisalResult }) {
+  return (
+    <div className="space-y-6">
+      {/* Decision Banner */}
+      <div className={`border-2 rounded-lg p-6 ${getDecisionColor(result.decision)}`}>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-2xl font-bold">Decision: {result.decision.replace('_', ' ')}</h3>
+          <div className="text-3xl font-bold">{result.score.toFixed(1)}%</div>
+        </div>
+        <div className="w-full bg-white bg-opacity-50 rounded-full h-3 mt-3">
+          <div
+            className="h-3 rounded-full transition-all duration-500"
+            style={{
+              width: `${result.score}%`,
+              backgroundColor: result.decision === 'APPROVED' ? '#10b981' : result.decision === 'REJECTED' ? '#ef4444' : '#f59e0b'
+            }}
+          ></div>
+        </div>
+        <p className="text-xs mt-3 opacity-75">Evaluated under policy version {result.policyVersion}</p>
+      </div>
+
+      {/* Absent on results stored before the scorecard existed */}
+      {result.scorecard && <ScorecardPanel scorecard={result.scorecard} />}
+      {result.pricing && <PricingPanel pricing={result.pricing} />}
+
+      {/* Risk Assessment */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
+          <AlertTriangle size={18} />
+          Risk Assessment
+        </h4>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <span className="text-gray-600">Credit Risk:</span>
+            <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.creditRisk)}`}>
+              {result.riskAssessment.creditRisk}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-600">Collateral Risk:</span>
+            <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.collateralRisk)}`}>
+              {result.riskAssessment.collateralRisk}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-600">Overall Risk:</span>
+            <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.overallRisk)}`}>
+              {result.riskAssessment.overallRisk}
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-600">Risk Score:</span>
+            <span className={`ml-2 font-semibold ${getRiskColor(result.riskAssessment.overallRisk)}`}>
+              {result.riskAssessment.riskScore.toFixed(1)}/100
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {/* Credit Bureau */}
+      {result.bureauSummary && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-3">Credit Bureau</h4>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-gray-600">Report:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.bureauSummary.bureau} {result.bureauSummary.reportId}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Score:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.bureauSummary.score}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Active Accounts:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.bureauSummary.activeAccounts} ({formatInr(result.bureauSummary.activeEmi)}/month)
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Outstanding:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.bureauSummary.totalOutstanding)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Worst DPD (24m):</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.bureauSummary.maxDpd24m}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Written Off / Settled:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.bureauSummary.writtenOffAccounts} / {result.bureauSummary.settledAccounts}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Enquiries (6m):</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.bureauSummary.enquiries6m}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Credit Vintage:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.bureauSummary.creditVintageMonths} months</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Employment & Income */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3">Employment & Income</h4>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <span className="text-gray-600">Profile:</span>
+            <span className="ml-2 font-semibold text-gray-800">{result.employmentAssessment.profileName}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Income Haircut:</span>
+            <span className="ml-2 font-semibold text-gray-800">{(result.employmentAssessment.incomeHaircut * 100).toFixed(0)}%</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Declared Income:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.employmentAssessment.declaredAnnualIncome)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Eligible Income:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.employmentAssessment.eligibleAnnualIncome)}</span>
+          </div>
+        </div>
+        <div className="mt-3 text-sm">
+          <span className="text-gray-600">Income proof required:</span>
+          <ul className="mt-1 space-y-1 text-xs text-gray-700">
+            {result.employmentAssessment.requiredIncomeProof.map(document => (
+              <li key={document}>• {document}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Applicants & Guarantors; absent on results stored before co-applicants existed */}
+      {result.partyAssessment && result.partyAssessment.parties.length > 1 && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-3">Applicants & Guarantors</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-1 pr-2">Party</th>
+                  <th className="py-1 pr-2">Score</th>
+                  <th className="py-1 pr-2 text-right">Counted Income</th>
+                  <th className="py-1 pr-2 text-right">Existing EMI</th>
+                  <th className="py-1 text-right">Net Worth</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.partyAssessment.parties.map((party, idx) => (
+                  <tr key={idx} className="border-b border-gray-100">
+                    <td className="py-1 pr-2">
+                      <div className="font-medium text-gray-800">{party.name || '—'}</div>
+                      <div className="text-gray-500">
+                        {party.role.replace('_', '-').toLowerCase()}
+                        {party.relationship ? ` · ${party.relationship}` : ''}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2">{party.creditScore}</td>
+                    <td className="py-1 pr-2 text-right">{party.role === 'GUARANTOR' ? '—' : formatInr(party.countedIncome)}</td>
+                    <td className="py-1 pr-2 text-right">{party.role === 'GUARANTOR' ? '—' : formatInr(party.existingEmi)}</td>
+                    <td className="py-1 text-right">{party.netWorth !== undefined ? formatInr(party.netWorth) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-sm mt-3">
+            <div>
+              <span className="text-gray-600">Combined Income:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.partyAssessment.combinedEligibleIncome)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Combined EMIs:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.partyAssessment.combinedExistingEmi)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Assessed Score:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.partyAssessment.assessedCreditScore} ({result.partyAssessment.creditScoreBasis})
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Guarantor Net Worth:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.partyAssessment.guarantorNetWorth)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Income Verification */}
+      {result.incomeVerification && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-3">Income Verification</h4>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-gray-600">Declared:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.incomeVerification.declaredAnnualIncome)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Verified:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {formatInr(result.incomeVerification.verifiedAnnualIncome)}
+                {' '}({result.incomeVerification.verifiedFrom === 'TAX_RETURN' ? 'tax return' : 'bank statement'})
+              </span>
+            </div>
+            {result.incomeVerification.bankAnnualIncome !== undefined && (
+              <div>
+                <span className="text-gray-600">Bank Statement (annualised):</span>
+                <span className="ml-2 font-semibold text-gray-800">{formatInr(result.incomeVerification.bankAnnualIncome)}</span>
+              </div>
+            )}
+            {result.incomeVerification.taxAnnualIncome !== undefined && (
+              <div>
+                <span className="text-gray-600">ITR / Form 16:</span>
+                <span className="ml-2 font-semibold text-gray-800">{formatInr(result.incomeVerification.taxAnnualIncome)}</span>
+              </div>
+            )}
+            <div>
+              <span className="text-gray-600">Variance:</span>
+              <span className={`ml-2 font-semibold ${result.incomeVerification.withinTolerance ? 'text-gray-800' : 'text-red-700'}`}>
+                {(result.incomeVerification.variance * 100).toFixed(1)}% (tolerance {(result.incomeVerification.tolerance * 100).toFixed(0)}%)
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Assessed Income:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.incomeVerification.assessedAnnualIncome)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Collateral; older results predate the itemised breakdown. */}
+      {result.collateral && result.collateral.marketValue > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-3">Collateral</h4>
+          {result.collateral.securities.length > 0 && (
+            <table className="w-full text-xs mb-3">
+              <thead className="text-left text-gray-600 border-b border-gray-200">
+                <tr>
+                  <th className="py-1 pr-2">Security</th>
+                  <th className="py-1 pr-2">Valuation</th>
+                  <th className="py-1 pr-2 text-right">Market</th>
+                  <th className="py-1 pr-2 text-right">Haircut</th>
+                  <th className="py-1 text-right">Eligible</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {result.collateral.securities.map((security, idx) => (
+                  <tr key={idx} className="border-b border-gray-100 last:border-0 align-top">
+                    <td className="py-1 pr-2">
+                      <div className="font-medium text-gray-800">{security.type.replace('_', ' ')}</div>
+                      {security.description && <div>{security.description}</div>}
+                      <div className="text-gray-500">{security.ownership.replace('_', ' ').toLowerCase()}</div>
+                    </td>
+                    <td className="py-1 pr-2">
+                      {security.valuationDate} · {security.valuer}
+                      <div className={security.stale ? 'text-red-700' : 'text-gray-500'}>
+                        {security.valuationAgeMonths} months old{security.stale && ', revaluation due'}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2 text-right">{formatInr(security.marketValue)}</td>
+                    <td className="py-1 pr-2 text-right">
+                      {(security.haircut * 100).toFixed(0)}%
+                      {security.ageingHaircut > 0 && <div className="text-gray-500">incl. {(security.ageingHaircut * 100).toFixed(0)}% ageing</div>}
+                    </td>
+                    <td className="py-1 text-right font-semibold">{formatInr(security.eligibleValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-gray-600">Market Value:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.collateral.marketValue)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Eligible Value:</span>
+              <span className="ml-2 font-semibold text-gray-800">{formatInr(result.collateral.eligibleValue)}</span>
+            </div>
+            {result.collateral.unlistedValue > 0 && (
+              <div className="col-span-2 text-xs text-gray-500">
+                Includes {formatInr(result.collateral.unlistedValue)} not itemised, after a{' '}
+                {(result.collateral.unlistedHaircut * 100).toFixed(0)}% haircut.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Only business applications with statements attached are analysed. */}
+      {result.financialAnalysis && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-3">Financial Analysis</h4>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-gray-600">Latest Year:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.financialAnalysis.latestYear} ({result.financialAnalysis.years} analysed)
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">MSME Class:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.financialAnalysis.msmeClass}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">DSCR:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.financialAnalysis.dscr.toFixed(2)}x</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Current Ratio:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.financialAnalysis.currentRatio.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">TOL / TNW:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.financialAnalysis.tangibleNetWorth > 0 ? result.financialAnalysis.tolTnw.toFixed(2) : 'TNW eroded'}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Interest Coverage:</span>
+              <span className="ml-2 font-semibold text-gray-800">{result.financialAnalysis.interestCoverage.toFixed(2)}x</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Turnover:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {formatInr(result.financialAnalysis.latestTurnover)} ({(result.financialAnalysis.turnoverGrowth * 100).toFixed(1)}% p.a.)
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-600">Facility:</span>
+              <span className="ml-2 font-semibold text-gray-800">
+                {result.financialAnalysis.facility === 'WORKING_CAPITAL' ? 'Working capital' : 'Term loan'}
+              </span>
+            </div>
+            {result.financialAnalysis.facility === 'WORKING_CAPITAL' && (
+              <div className="col-span-2 text-xs text-gray-600">
+                {result.financialAnalysis.workingCapital.method === 'TURNOVER' ? 'Turnover method' : 'MPBF (second method)'}:
+                requirement {formatInr(result.financialAnalysis.workingCapital.requirement)} less borrower margin
+                {' '}{formatInr(result.financialAnalysis.workingCapital.borrowerMargin)} gives an assessed limit of
+                {' '}<span className="font-semibold text-gray-800">{formatInr(result.financialAnalysis.workingCapital.assessedLimit)}</span>.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Results from before KYC capture carry no assessment. */}
+      {result.kyc && <KycPanel kyc={result.kyc} />}
+
+      {/* Loan Structure */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3">Loan Structure</h4>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <span className="text-gray-600">Requested Amount:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.loanStructure.loanAmount)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Max Sanctionable:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.loanStructure.maxSanctionableAmount)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Proposed EMI:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.loanStructure.proposedEmi)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Max Eligible (FOIR):</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.loanStructure.maxEligibleAmount)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">FOIR:</span>
+            <span className={`ml-2 font-semibold ${result.loanStructure.foir <= result.loanStructure.foirLimit ? 'text-green-600' : 'text-red-600'}`}>
+              {result.loanStructure.foir.toFixed(2)}% / {result.loanStructure.foirLimit}%
+            </span>
+          </div>
+          <div>
+            <span className="text-gray-600">Total Interest:</span>
+            <span className="ml-2 font-semibold text-gray-800">{formatInr(result.loanStructure.totalInterest)}</span>
+          </div>
+        </div>
+
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-indigo-700 font-medium">
+            Amortisation schedule ({result.loanStructure.tenureMonths} months @ {result.loanStructure.interestRate}%)
+          </summary>
+          <div className="mt-2 max-h-64 overflow-y-auto">
+            <table className="w-full text-xs text-right">
+              <thead className="text-gray-600 sticky top-0 bg-white">
+                <tr>
+                  <th className="py-1 text-left">Month</th>
+                  <th className="py-1">EMI</th>
+                  <th className="py-1">Principal</th>
+                  <th className="py-1">Interest</th>
+                  <th className="py-1">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700">
+                {result.loanStructure.schedule.map(row => (
+                  <tr key={row.month} className="border-t border-gray-100">
+                    <td className="py-1 text-left">{row.month}</td>
+                    <td className="py-1">{formatInr(row.emi)}</td>
+                    <td className="py-1">{formatInr(row.principal)}</td>
+                    <td className="py-1">{formatInr(row.interest)}</td>
+                    <td className="py-1">{formatInr(row.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      </div>
+
+      {/* Reasons */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3">Decision Rationale</h4>
+        <ul className="space-y-2 text-sm">
+          {result.reasons.map((reason, idx) => (
+            <li key={idx} className="flex items-start gap-2">
+              <span className="text-indigo-600 mt-1">•</span>
+              <span className="text-gray-700">{reason}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Results appraised before decision tracing was recorded have no explanation. */}
+      {result.explanation && <DecisionExplanationPanel result={result} />}
+
+      {/* RBI Compliance */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3">RBI Compliance Checks</h4>
+        <div className="space-y-2">
+          {result.rbiCompliance.map((check, idx) => (
+            <div key={idx} className="flex items-start gap-2 text-sm border-b border-gray-100 pb-2 last:border-0">
+              {getStatusIcon(check.status)}
+              <div className="flex-1">
+                <div className="font-medium text-gray-800">{check.parameter}</div>
+                <div className="text-gray-600 text-xs mt-1">{check.details}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Bank Policy */}
+      <div className="border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-800 mb-3">Bank Policy Compliance</h4>
+        <div className="space-y-2">
+          {result.bankPolicyCompliance.map((check, idx) => (
+            <div key={idx} className="flex items-start gap-2 text-sm border-b border-gray-100 pb-2 last:border-0">
+              {getStatusIcon(check.status)}
+              <div className="flex-1">
+                <div className="font-medium text-gray-800">{check.parameter}</div>
+                <div className="text-gray-600 text-xs mt-1">{check.details}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recommendations */}
+      <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-4">
+        <h4 className="font-semibold text-indigo-900 mb-3">Recommendations</h4>
+        <ul className="space-y-2 text-sm">
+          {result.recommendations.map((rec, idx) => (
+            <li key={idx} className="flex items-start gap-2">
+              <span className="text-indigo-600 mt-1">→</span>
+              <span className="text-indigo-800">{rec}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
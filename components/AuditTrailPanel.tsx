@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Fingerprint } from 'lucide-react';
+import { describeAuditEntry, type AuditEntry } from '../engine/audit';
+import { formatDateTime } from './format';
+
+/** Audit log entries for one case, appraisals and the reviews and status changes after them; re-fetched whenever `version` changes. */
+export default function AuditTrailPanel({ caseId, version }: { caseId: string; version: string }) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/audit?caseId=${encodeURIComponent(caseId)}`)
+      .then(response => response.json())
+      .then(body => setEntries(body.entries ?? []))
+      .catch(() => setEntries([]));
+  }, [caseId, version]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <Fingerprint className="text-indigo-600" />
+        Audit Trail
+      </h2>
+      <ol className="space-y-3 text-sm">
+        {entries.map(entry => (
+          <li key={entry.sequence} className="border-l-2 border-indigo-200 pl-3">
+            <div className="font-medium text-gray-800">
+              #{entry.sequence} · {describeAuditEntry(entry)} under policy {entry.policyVersion}
+            </div>
+            <div className="text-xs text-gray-500">{formatDateTime(entry.at)} · {entry.actor}</div>
+            <div className="text-xs text-gray-500 font-mono break-all mt-1">{entry.hash}</div>
+          </li>
+        ))}
+      </ol>
+      <Link href="/audit" className="inline-block mt-4 text-sm font-medium text-indigo-700 hover:underline">
+        Verify full audit chain
+      </Link>
+    </div>
+  );
+}
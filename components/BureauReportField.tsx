@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { FileSearch, Upload, X } from 'lucide-react';
+import { summariseBureauReport, type BureauReport, type BureauSummary } from '../engine/bureau';
+
+interface BureauReportFieldProps {
+  applicantName: string;
+  report?: BureauReport;
+  /** Called with the loaded report and its summary, or with nothing when it is removed. */
+  onChange: (loaded?: { report: BureauReport; summary: BureauSummary }) => void;
+}
+
+/** Pulls a credit report from the bureau or imports a downloaded one, and summarises what was attached. */
+export default function BureauReportField({ applicantName, report, onChange }: BureauReportFieldProps) {
+  const [pan, setPan] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (request: Promise<Response>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await request;
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error([body.error, ...(body.details ?? [])].filter(Boolean).join(' '));
+      }
+      onChange(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the bureau report.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pull = () => load(fetch('/api/bureau', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ applicantName, pan }),
+  }));
+
+  const upload = (file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    return load(fetch('/api/bureau/import', { method: 'POST', body: form }));
+  };
+
+  if (report) {
+    const summary = summariseBureauReport(report);
+    return (
+      <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-3 text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-medium text-indigo-900">
+            {summary.bureau} report {summary.reportId} · {summary.reportDate}
+          </span>
+          <button onClick={() => onChange()} className="text-indigo-700 hover:text-indigo-900" title="Remove report">
+            <X size={16} />
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2 text-xs text-gray-700">
+          <div>Score: <span className="font-semibold">{summary.score}</span></div>
+          <div>Active accounts: <span className="font-semibold">{summary.activeAccounts}</span></div>
+          <div>Active EMIs: <span className="font-semibold">₹{summary.activeEmi.toLocaleString('en-IN')}</span></div>
+          <div>Worst DPD (24m): <span className="font-semibold">{summary.maxDpd24m}</span></div>
+          <div>Written off / settled: <span className="font-semibold">{summary.writtenOffAccounts} / {summary.settledAccounts}</span></div>
+          <div>Enquiries (6m): <span className="font-semibold">{summary.enquiries6m}</span></div>
+          <div>Credit vintage: <span className="font-semibold">{summary.creditVintageMonths} months</span></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Credit Bureau Report</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={pan}
+          onChange={e => setPan(e.target.value.toUpperCase())}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          placeholder="PAN (optional)"
+          maxLength={10}
+        />
+        <button
+          onClick={pull}
+          disabled={busy || applicantName.trim() === ''}
+          className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:bg-gray-400 flex items-center gap-1"
+        >
+          <FileSearch size={16} />
+          Pull
+        </button>
+        <label className="px-3 py-2 border border-indigo-600 text-indigo-700 rounded-lg text-sm hover:bg-indigo-50 cursor-pointer flex items-center gap-1">
+          <Upload size={16} />
+          Import
+          <input
+            type="file"
+            accept=".json,.xml,application/json,text/xml"
+            className="hidden"
+            disabled={busy}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) upload(file);
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { collateralOwnerships, type CollateralSecurity } from '../engine/collateral';
+import { defaultPolicy } from '../engine/policy/default-policy';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const emptySecurity = (): CollateralSecurity => ({
+  type: 'PROPERTY',
+  description: '',
+  marketValue: 0,
+  valuationDate: '',
+  valuer: '',
+  ownership: 'APPLICANT',
+});
+
+interface CollateralFieldsProps {
+  securities: CollateralSecurity[];
+  onChange: (securities: CollateralSecurity[]) => void;
+}
+
+/** Itemised securities; once any are listed they replace the single collateral value. */
+export default function CollateralFields({ securities, onChange }: CollateralFieldsProps) {
+  const update = (index: number, change: Partial<CollateralSecurity>) =>
+    onChange(securities.map((security, idx) => (idx === index ? { ...security, ...change } : security)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">Securities</span>
+        <button
+          onClick={() => onChange([...securities, emptySecurity()])}
+          className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1"
+        >
+          <Plus size={14} />
+          Add security
+        </button>
+      </div>
+      {securities.map((security, idx) => (
+        <div key={idx} className="border border-gray-200 rounded-lg p-3 mb-2 grid grid-cols-2 gap-2">
+          <select
+            value={security.type}
+            onChange={e => update(idx, { type: e.target.value as CollateralSecurity['type'] })}
+            className={inputClass}
+          >
+            {defaultPolicy.collateral.types.map(rule => (
+              <option key={rule.type} value={rule.type}>{rule.label} ({(rule.haircut * 100).toFixed(0)}% haircut)</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={security.description}
+            onChange={e => update(idx, { description: e.target.value })}
+            className={inputClass}
+            placeholder="Description"
+          />
+          <input
+            type="number"
+            value={security.marketValue || ''}
+            onChange={e => update(idx, { marketValue: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+            placeholder="Market value (₹)"
+          />
+          <input
+            type="date"
+            value={security.valuationDate}
+            onChange={e => update(idx, { valuationDate: e.target.value })}
+            className={inputClass}
+            aria-label="Valuation date"
+          />
+          <input
+            type="text"
+            value={security.valuer}
+            onChange={e => update(idx, { valuer: e.target.value })}
+            className={inputClass}
+            placeholder="Valuer"
+          />
+          <div className="flex gap-2">
+            <select
+              value={security.ownership}
+              onChange={e => update(idx, { ownership: e.target.value as CollateralSecurity['ownership'] })}
+              className={inputClass}
+            >
+              {collateralOwnerships.map(option => (
+                <option key={option.ownership} value={option.ownership}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(securities.filter((_, i) => i !== idx))}
+              className="text-red-700 hover:text-red-900"
+              title="Remove"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { GitBranch } from 'lucide-react';
+import type { AppraisalResult } from '../engine/types';
+
+/** Traces the decision to the policy rule that fired and the checks that drove it. */
+export default function DecisionExplanationPanel({ result }: { result: AppraisalResult }) {
+  const { explanation, ratios } = result;
+  const checks = [...result.rbiCompliance, ...result.bankPolicyCompliance];
+  const parameterOf = (id: string) => checks.find(check => check.id === id)?.parameter ?? id;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <GitBranch size={18} />
+        How This Decision Was Reached
+      </h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-xs mb-4">
+        <div><span className="text-gray-600">LTV:</span> <span className="font-semibold">{(ratios.loanToValue * 100).toFixed(1)}%</span></div>
+        <div><span className="text-gray-600">LTI:</span> <span className="font-semibold">{ratios.loanToIncome.toFixed(2)}x</span></div>
+        <div><span className="text-gray-600">DTI:</span> <span className="font-semibold">{ratios.debtToIncome.toFixed(1)}%</span></div>
+        <div><span className="text-gray-600">FOIR:</span> <span className="font-semibold">{ratios.foir.toFixed(1)}%</span></div>
+        <div><span className="text-gray-600">Coverage:</span> <span className="font-semibold">{ratios.collateralCoverage.toFixed(2)}x</span></div>
+      </div>
+
+      <div className="text-sm space-y-1 mb-4">
+        <div>
+          <span className="text-gray-600">Failed checks ({explanation.failures}):</span>
+          <span className="ml-2 text-red-700">{explanation.failedChecks.map(parameterOf).join(', ') || 'none'}</span>
+        </div>
+        <div>
+          <span className="text-gray-600">Warnings ({explanation.warnings}):</span>
+          <span className="ml-2 text-yellow-700">{explanation.warningChecks.map(parameterOf).join(', ') || 'none'}</span>
+        </div>
+        <div>
+          <span className="text-gray-600">Overall risk:</span>
+          <span className="ml-2 font-semibold text-gray-800">{explanation.overallRisk}</span>
+        </div>
+      </div>
+
+      <ol className="space-y-2 text-sm">
+        {explanation.rules.map((rule, idx) => (
+          <li
+            key={idx}
+            className={`rounded-lg p-3 border ${rule.fired ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100'} ${rule.reached ? '' : 'opacity-50'}`}
+          >
+            <div className="font-medium text-gray-800">
+              Rule {idx + 1}: {rule.decision.replace('_', ' ')}
+              <span className="ml-2 text-xs text-gray-600">
+                {rule.fired ? '— fired' : rule.reached ? '— not met' : '— not reached'}
+              </span>
+            </div>
+            <ul className="mt-1 text-xs space-y-1">
+              {rule.matched.map(condition => (
+                <li key={condition} className="text-green-700">✓ {condition}</li>
+              ))}
+              {rule.unmet.map(condition => (
+                <li key={condition} className="text-gray-500">✗ {condition}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { financialLineItems, type FinancialStatements, type FinancialYear } from '../engine/financials';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const emptyYear = (year: string): FinancialYear => ({
+  year,
+  ...Object.fromEntries(financialLineItems.map(item => [item.field, 0])),
+} as FinancialYear);
+
+interface FinancialsFieldsProps {
+  financials?: FinancialStatements;
+  onChange: (financials?: FinancialStatements) => void;
+}
+
+/** Balance sheet and P&L entry, one column per financial year, or an imported CMA / accounts sheet. */
+export default function FinancialsFields({ financials, onChange }: FinancialsFieldsProps) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const years = financials?.years ?? [];
+  const facility = financials?.facility ?? 'TERM_LOAN';
+
+  const update = (change: Partial<FinancialStatements>) => {
+    const next = { facility, years, projectedTurnover: financials?.projectedTurnover, ...change };
+    onChange(next.years.length > 0 ? next : undefined);
+  };
+
+  const updateYear = (index: number, change: Partial<FinancialYear>) =>
+    update({ years: years.map((entry, idx) => (idx === index ? { ...entry, ...change } : entry)) });
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/financials/import', { method: 'POST', body: form });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error([body.error, ...(body.details ?? [])].filter(Boolean).join(' '));
+      }
+      update({ years: body.years });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the statements.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">Financial Statements</span>
+        <div className="flex items-center gap-3">
+          <label className="text-xs font-medium text-indigo-700 hover:underline cursor-pointer flex items-center gap-1">
+            <Upload size={14} />
+            {uploading ? 'Reading…' : 'Import CSV / XLSX'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              disabled={uploading}
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) upload(file);
+              }}
+            />
+          </label>
+          <button
+            onClick={() => update({ years: [...years, emptyYear('')] })}
+            disabled={years.length >= 5}
+            className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1 disabled:text-gray-400 disabled:no-underline"
+          >
+            <Plus size={14} />
+            Add year
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-700 mb-2">{error}</p>}
+      {years.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={facility}
+              onChange={e => update({ facility: e.target.value as FinancialStatements['facility'] })}
+              className={inputClass}
+            >
+              <option value="TERM_LOAN">Term loan</option>
+              <option value="WORKING_CAPITAL">Working capital (CC/OD)</option>
+            </select>
+            <input
+              type="number"
+              value={financials?.projectedTurnover ?? ''}
+              onChange={e => update({ projectedTurnover: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+              placeholder="Projected turnover (₹)"
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-600 pr-2">₹</th>
+                  {years.map((entry, idx) => (
+                    <th key={idx} className="px-1">
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="text"
+                          value={entry.year}
+                          onChange={e => updateYear(idx, { year: e.target.value })}
+                          className={inputClass}
+                          placeholder="2024-25"
+                        />
+                        <button
+                          onClick={() => update({ years: years.filter((_, i) => i !== idx) })}
+                          className="text-red-700 hover:text-red-900"
+                          title="Remove year"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {financialLineItems.map(item => (
+                  <tr key={item.field}>
+                    <td className="text-gray-700 pr-2 whitespace-nowrap">
+                      {item.label}
+                      {item.optional && <span className="text-gray-400"> (opt.)</span>}
+                    </td>
+                    {years.map((entry, idx) => (
+                      <td key={idx} className="px-1 py-0.5">
+                        <input
+                          type="number"
+                          value={entry[item.field] || ''}
+                          onChange={e => updateYear(idx, { [item.field]: parseFloat(e.target.value) || 0 })}
+                          className={inputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
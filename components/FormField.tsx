@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+
+/** Input styling for the application form, outlined in red while the field has an error. */
+export const fieldInputClass = (error?: string) =>
+  `w-full px-4 py-2 border ${error ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent read-only:bg-gray-100`;
+
+interface FormFieldProps {
+  label: string;
+  error?: string;
+  hint?: ReactNode;
+  children: ReactNode;
+}
+
+/** A labelled form control with its validation message underneath. */
+export default function FormField({ label, error, hint, children }: FormFieldProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {children}
+      {hint && !error && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+      {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Plus, Trash2, Upload, X } from 'lucide-react';
+import type { BankStatementAnalysis, IncomeEvidence, TaxReturn } from '../engine/income-verification';
+import { formatInr } from './format';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+interface IncomeEvidenceFieldsProps {
+  evidence?: IncomeEvidence;
+  onChange: (evidence?: IncomeEvidence) => void;
+}
+
+/** Bank statement upload and ITR / Form 16 entries the declared income is verified against. */
+export default function IncomeEvidenceFields({ evidence, onChange }: IncomeEvidenceFieldsProps) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const statement = evidence?.bankStatement;
+  const taxReturns = evidence?.taxReturns ?? [];
+
+  const update = (bankStatement: BankStatementAnalysis | undefined, returns: TaxReturn[]) =>
+    onChange(bankStatement || returns.length > 0 ? { bankStatement, taxReturns: returns.length > 0 ? returns : undefined } : undefined);
+
+  const updateReturn = (index: number, change: Partial<TaxReturn>) =>
+    update(statement, taxReturns.map((entry, idx) => (idx === index ? { ...entry, ...change } : entry)));
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/income/bank-statement', { method: 'POST', body: form });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error([body.error, ...(body.details ?? [])].filter(Boolean).join(' '));
+      }
+      update(body.analysis, taxReturns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not analyse the statement.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Bank Statement</label>
+        {statement ? (
+          <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-indigo-900">
+                {statement.fromDate} to {statement.toDate} · {statement.months} months, {statement.transactionCount} transactions
+              </span>
+              <button onClick={() => update(undefined, taxReturns)} className="text-indigo-700 hover:text-indigo-900" title="Remove statement">
+                <X size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-700">
+              <div>Avg credits: <span className="font-semibold">{formatInr(statement.averageMonthlyCredits)}/mo</span></div>
+              <div>Avg salary: <span className="font-semibold">{formatInr(statement.averageMonthlySalary)}</span></div>
+              <div>Salary months: <span className="font-semibold">{statement.salaryCreditMonths} of {statement.months}</span></div>
+              <div>Returns: <span className="font-semibold">{statement.bounceCount}</span></div>
+              <div>Avg balance: <span className="font-semibold">{formatInr(statement.averageBalance)}</span></div>
+              <div>Cash share: <span className="font-semibold">{(statement.cashDepositShare * 100).toFixed(0)}%</span></div>
+            </div>
+          </div>
+        ) : (
+          <label className="inline-flex px-3 py-2 border border-indigo-600 text-indigo-700 rounded-lg text-sm hover:bg-indigo-50 cursor-pointer items-center gap-1">
+            <Upload size={16} />
+            {uploading ? 'Analysing…' : 'Upload CSV / XLSX export'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              disabled={uploading}
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) upload(file);
+              }}
+            />
+          </label>
+        )}
+        {error && <p className="text-xs text-red-700 mt-1">{error}</p>}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">ITR / Form 16</span>
+          <button
+            onClick={() => update(statement, [...taxReturns, { assessmentYear: '', form: 'ITR', grossTotalIncome: 0 }])}
+            className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1"
+          >
+            <Plus size={14} />
+            Add year
+          </button>
+        </div>
+        {taxReturns.map((entry, idx) => (
+          <div key={idx} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 mb-2">
+            <input
+              type="text"
+              value={entry.assessmentYear}
+              onChange={e => updateReturn(idx, { assessmentYear: e.target.value })}
+              className={inputClass}
+              placeholder="2024-25"
+            />
+            <select
+              value={entry.form}
+              onChange={e => updateReturn(idx, { form: e.target.value as TaxReturn['form'] })}
+              className={inputClass}
+            >
+              <option value="ITR">ITR</option>
+              <option value="FORM16">Form 16</option>
+            </select>
+            <input
+              type="number"
+              value={entry.grossTotalIncome || ''}
+              onChange={e => updateReturn(idx, { grossTotalIncome: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+              placeholder="Gross total income (₹)"
+            />
+            <button
+              onClick={() => update(statement, taxReturns.filter((_, i) => i !== idx))}
+              className="text-red-700 hover:text-red-900"
+              title="Remove"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { BadgeCheck, Upload } from 'lucide-react';
+import type { CaseRecord } from '../engine/cases';
+import { assessKyc, kycRequirements } from '../engine/kyc';
+import { defaultPolicy } from '../engine/policy/default-policy';
+import { jsonHeaders } from './api';
+import { formatDateTime } from './format';
+
+const statusColor: Record<string, string> = {
+  VERIFIED: 'bg-green-100 text-green-800',
+  UPLOADED: 'bg-yellow-100 text-yellow-800',
+  PENDING: 'bg-gray-100 text-gray-700',
+  REJECTED: 'bg-red-100 text-red-800',
+};
+
+interface KycChecklistPanelProps {
+  record: CaseRecord;
+  /** The signed-in user; the uploader of a document cannot verify it. */
+  currentUserId?: string;
+  onChange: (record: CaseRecord) => void;
+}
+
+/** Upload and verification of a draft's KYC documents; the checklist is frozen once the case is submitted. */
+export default function KycChecklistPanel({ record, currentUserId, onChange }: KycChecklistPanelProps) {
+  const [remarks, setRemarks] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (record.status !== 'DRAFT') return null;
+
+  const requirements = kycRequirements(defaultPolicy.kyc, record.application.loanPurpose ?? '', record.application.employmentType ?? '');
+  const { checklist } = assessKyc(record.application.kyc, requirements);
+
+  const send = async (documentId: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${record.id}/kyc/${documentId}`, init);
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error);
+        return;
+      }
+      onChange(body as CaseRecord);
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const upload = (documentId: string, file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    // No Content-Type: the browser sets the multipart boundary itself.
+    return send(documentId, { method: 'POST', body: form });
+  };
+
+  const verify = (documentId: string, status: 'VERIFIED' | 'REJECTED') =>
+    send(documentId, {
+      method: 'PATCH',
+      headers: jsonHeaders,
+      body: JSON.stringify({ status, remarks: remarks[documentId] || undefined }),
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <BadgeCheck className="text-indigo-600" />
+        KYC Documents
+      </h2>
+      <div className="space-y-3">
+        {checklist.map(item => (
+          <div key={item.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-800">
+                {item.label}
+                {!item.mandatory && <span className="text-gray-500 font-normal"> (optional)</span>}
+              </span>
+              <span className={`px-2 py-0.5 rounded text-xs font-semibold ${statusColor[item.status]}`}>{item.status}</span>
+            </div>
+            {item.fileName && (
+              <div className="text-xs text-gray-600 mt-1">
+                <a href={`/api/cases/${record.id}/kyc/${item.id}`} className="text-indigo-700 hover:underline">{item.fileName}</a>
+                {item.uploadedBy && ` · uploaded by ${item.uploadedBy}`}
+                {item.uploadedAt && ` on ${formatDateTime(item.uploadedAt)}`}
+              </div>
+            )}
+            {item.verifiedBy && (
+              <div className="text-xs text-gray-600">
+                {item.status === 'REJECTED' ? 'Rejected' : 'Verified'} by {item.verifiedBy}
+                {item.verifiedAt && ` on ${formatDateTime(item.verifiedAt)}`}
+                {item.remarks && ` — ${item.remarks}`}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <label className={`inline-flex px-3 py-1 border border-indigo-600 text-indigo-700 rounded-lg text-xs items-center gap-1 ${busy ? 'opacity-50' : 'hover:bg-indigo-50 cursor-pointer'}`}>
+                <Upload size={14} />
+                {item.fileName ? 'Replace' : 'Upload'}
+                <input
+                  type="file"
+                  className="hidden"
+                  disabled={busy}
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) upload(item.id, file);
+                  }}
+                />
+              </label>
+              {item.status !== 'PENDING' && item.uploadedBy === currentUserId && (
+                <span className="text-xs text-gray-500">You uploaded this document, so another user must verify it.</span>
+              )}
+              {item.status !== 'PENDING' && item.uploadedBy !== currentUserId && (
+                <>
+                  <input
+                    type="text"
+                    value={remarks[item.id] ?? ''}
+                    onChange={e => setRemarks(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder="Remarks (required to reject)"
+                  />
+                  <button
+                    onClick={() => verify(item.id, 'VERIFIED')}
+                    disabled={busy}
+                    className="px-3 py-1 rounded-lg text-xs font-medium border border-green-600 text-green-700 hover:bg-green-50 disabled:border-gray-300 disabled:text-gray-400"
+                  >
+                    Verify
+                  </button>
+                  <button
+                    onClick={() => verify(item.id, 'REJECTED')}
+                    disabled={busy || !remarks[item.id]?.trim()}
+                    className="px-3 py-1 rounded-lg text-xs font-medium border border-red-600 text-red-700 hover:bg-red-50 disabled:border-gray-300 disabled:text-gray-400"
+                  >
+                    Reject
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {error && <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3 text-sm mt-3">{error}</div>}
+    </div>
+  );
+}
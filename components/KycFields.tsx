@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { addressProofTypes, isValidAadhaar, isValidPan, kycRequirements, type AddressProofType, type KycDetails } from '../engine/kyc';
+import { defaultPolicy } from '../engine/policy/default-policy';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+interface KycFieldsProps {
+  kyc?: KycDetails;
+  loanPurpose: string;
+  employmentType: string;
+  onChange: (kyc?: KycDetails) => void;
+}
+
+/**
+ * PAN, Aadhaar and address proof capture. The Aadhaar number is checked here
+ * and only its last four digits ever leave the browser.
+ */
+export default function KycFields({ kyc, loanPurpose, employmentType, onChange }: KycFieldsProps) {
+  const [aadhaar, setAadhaar] = useState('');
+  const current: KycDetails = kyc ?? { documents: [] };
+  const requirements = kycRequirements(defaultPolicy.kyc, loanPurpose, employmentType);
+
+  const update = (change: Partial<KycDetails>) => {
+    const next = { ...current, ...change };
+    onChange(next.pan || next.aadhaarLast4 || next.addressProof || next.documents.length > 0 ? next : undefined);
+  };
+
+  const pan = current.pan ?? '';
+  const aadhaarDigits = aadhaar.replace(/\s/g, '');
+  const panError = pan !== '' && !isValidPan(pan);
+  const aadhaarError = aadhaarDigits !== '' && !isValidAadhaar(aadhaarDigits);
+
+  return (
+    <div className="space-y-3">
+      <span className="block text-sm font-medium text-gray-700">KYC</span>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <input
+            type="text"
+            value={pan}
+            onChange={e => {
+              const value = e.target.value.toUpperCase().trim();
+              update({ pan: value || undefined });
+            }}
+            className={inputClass}
+            placeholder="PAN (ABCPE1234F)"
+            maxLength={10}
+          />
+          {panError && <p className="text-xs text-red-700 mt-1">Not a valid PAN.</p>}
+        </div>
+        <div>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={aadhaar}
+            onChange={e => {
+              const value = e.target.value.replace(/[^\d\s]/g, '');
+              const digits = value.replace(/\s/g, '');
+              setAadhaar(value);
+              update({ aadhaarLast4: isValidAadhaar(digits) ? digits.slice(-4) : undefined });
+            }}
+            className={inputClass}
+            placeholder="Aadhaar number"
+            maxLength={14}
+            autoComplete="off"
+          />
+          {aadhaarError && <p className="text-xs text-red-700 mt-1">Not a valid Aadhaar number.</p>}
+          {current.aadhaarLast4 && <p className="text-xs text-gray-500 mt-1">Stored as XXXX XXXX {current.aadhaarLast4}</p>}
+        </div>
+        <select
+          value={current.addressProof?.type ?? ''}
+          onChange={e => update({
+            addressProof: e.target.value
+              ? { type: e.target.value as AddressProofType, number: current.addressProof?.number ?? '' }
+              : undefined,
+          })}
+          className={inputClass}
+        >
+          <option value="">Address proof…</option>
+          {addressProofTypes.map(option => (
+            <option key={option.type} value={option.type}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={current.addressProof?.number ?? ''}
+          onChange={e => current.addressProof && update({ addressProof: { ...current.addressProof, number: e.target.value } })}
+          disabled={!current.addressProof}
+          className={inputClass}
+          placeholder="Document number"
+          maxLength={30}
+        />
+      </div>
+      {requirements.length > 0 && (
+        <div className="text-xs text-gray-600">
+          <span className="font-medium">Documents for this loan:</span>{' '}
+          {requirements.map(requirement => `${requirement.label}${requirement.mandatory ? '' : ' (optional)'}`).join(', ')}.
+          {' '}Save as a draft to upload them from the case page.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { addressProofTypes, type KycAssessment } from '../engine/kyc';
+import { formatDateTime } from './format';
+
+const statusColor: Record<string, string> = {
+  VERIFIED: 'text-green-700',
+  UPLOADED: 'text-yellow-700',
+  PENDING: 'text-gray-500',
+  REJECTED: 'text-red-700',
+};
+
+const screeningColor = {
+  CLEAR: 'text-green-700',
+  POTENTIAL_MATCH: 'text-yellow-700',
+  MATCH: 'text-red-700',
+};
+
+/** Captured identifiers, the document checklist and the sanctions/PEP screening outcome of an appraisal. */
+export default function KycPanel({ kyc }: { kyc: KycAssessment }) {
+  const addressProof = kyc.addressProof && addressProofTypes.find(option => option.type === kyc.addressProof?.type);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h4 className="font-semibold text-gray-800 mb-3">KYC &amp; Screening</h4>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="text-gray-600">PAN:</span>
+          <span className="ml-2 font-semibold text-gray-800">{kyc.pan ?? '—'}</span>
+        </div>
+        <div>
+          <span className="text-gray-600">Aadhaar:</span>
+          <span className="ml-2 font-semibold text-gray-800">{kyc.aadhaarMasked ?? '—'}</span>
+        </div>
+        <div className="col-span-2">
+          <span className="text-gray-600">Address Proof:</span>
+          <span className="ml-2 font-semibold text-gray-800">
+            {kyc.addressProof ? `${addressProof?.label ?? kyc.addressProof.type} · ${kyc.addressProof.number}` : '—'}
+          </span>
+        </div>
+      </div>
+
+      {kyc.checklist.length > 0 && (
+        <table className="w-full text-xs mt-3">
+          <tbody>
+            {kyc.checklist.map(item => (
+              <tr key={item.id} className="border-t border-gray-100">
+                <td className="py-1 text-gray-700">{item.label}{item.mandatory ? '' : ' (optional)'}</td>
+                <td className={`py-1 text-right font-semibold ${statusColor[item.status]}`}>{item.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="mt-3 text-sm">
+        <span className="text-gray-600">Sanctions / PEP Screening:</span>
+        {kyc.screening ? (
+          <>
+            <span className={`ml-2 font-semibold ${screeningColor[kyc.screening.status]}`}>{kyc.screening.status.replace('_', ' ')}</span>
+            <span className="ml-2 text-xs text-gray-500">
+              list {kyc.screening.listVersion} · {formatDateTime(kyc.screening.screenedAt)}
+            </span>
+            {kyc.screening.matches.map((match, idx) => (
+              <div key={idx} className="text-xs text-gray-700 mt-1">
+                {match.subject} ↔ {match.matchedOn} ({match.list}, {match.strength.toLowerCase()}) · {match.source}
+                {match.reference && ` ${match.reference}`}
+              </div>
+            ))}
+          </>
+        ) : (
+          <span className="ml-2 font-semibold text-gray-500">Not screened</span>
+        )}
+      </div>
+    </div>
+  );
+}
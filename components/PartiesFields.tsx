@@ -0,0 +1,136 @@
+import { Trash2, UserPlus } from 'lucide-react';
+import type { CoApplicant, Guarantor } from '../engine/types';
+import { employmentTypeOptions } from './options';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const emptyCoApplicant: CoApplicant = {
+  name: '',
+  relationship: '',
+  annualIncome: 0,
+  creditScore: 0,
+  employmentType: 'salaried',
+  employmentYears: 0,
+  existingLoans: 0,
+};
+
+const emptyGuarantor: Guarantor = { name: '', relationship: '', creditScore: 0, netWorth: 0 };
+
+interface PartiesFieldsProps {
+  coApplicants: CoApplicant[];
+  guarantors: Guarantor[];
+  onChange: (parties: { coApplicants: CoApplicant[]; guarantors: Guarantor[] }) => void;
+}
+
+/** Repeatable co-applicant and guarantor sub-forms for the application form. */
+export default function PartiesFields({ coApplicants, guarantors, onChange }: PartiesFieldsProps) {
+  const updateCoApplicant = (index: number, change: Partial<CoApplicant>) =>
+    onChange({ coApplicants: coApplicants.map((party, idx) => (idx === index ? { ...party, ...change } : party)), guarantors });
+  const updateGuarantor = (index: number, change: Partial<Guarantor>) =>
+    onChange({ coApplicants, guarantors: guarantors.map((party, idx) => (idx === index ? { ...party, ...change } : party)) });
+
+  const numberInput = (value: number, onValue: (value: number) => void, placeholder: string) => (
+    <input
+      type="number"
+      value={value || ''}
+      onChange={e => onValue(parseFloat(e.target.value) || 0)}
+      className={inputClass}
+      placeholder={placeholder}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Co-applicants</span>
+          <button
+            onClick={() => onChange({ coApplicants: [...coApplicants, { ...emptyCoApplicant }], guarantors })}
+            className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1"
+          >
+            <UserPlus size={14} />
+            Add co-applicant
+          </button>
+        </div>
+        {coApplicants.map((party, idx) => (
+          <div key={idx} className="border border-gray-200 rounded-lg p-3 mb-2 grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={party.name}
+              onChange={e => updateCoApplicant(idx, { name: e.target.value })}
+              className={inputClass}
+              placeholder="Name"
+            />
+            <input
+              type="text"
+              value={party.relationship}
+              onChange={e => updateCoApplicant(idx, { relationship: e.target.value })}
+              className={inputClass}
+              placeholder="Relationship"
+            />
+            {numberInput(party.annualIncome, value => updateCoApplicant(idx, { annualIncome: value }), 'Annual income (₹)')}
+            {numberInput(party.creditScore, value => updateCoApplicant(idx, { creditScore: value }), 'Credit score')}
+            <select
+              value={party.employmentType}
+              onChange={e => updateCoApplicant(idx, { employmentType: e.target.value })}
+              className={inputClass}
+            >
+              {employmentTypeOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {numberInput(party.employmentYears, value => updateCoApplicant(idx, { employmentYears: value }), 'Years employed')}
+            {numberInput(party.existingLoans, value => updateCoApplicant(idx, { existingLoans: value }), 'Existing EMIs (₹/month)')}
+            <button
+              onClick={() => onChange({ coApplicants: coApplicants.filter((_, i) => i !== idx), guarantors })}
+              className="text-xs text-red-700 hover:underline flex items-center gap-1 justify-self-end"
+            >
+              <Trash2 size={14} />
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Guarantors</span>
+          <button
+            onClick={() => onChange({ coApplicants, guarantors: [...guarantors, { ...emptyGuarantor }] })}
+            className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1"
+          >
+            <UserPlus size={14} />
+            Add guarantor
+          </button>
+        </div>
+        {guarantors.map((party, idx) => (
+          <div key={idx} className="border border-gray-200 rounded-lg p-3 mb-2 grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={party.name}
+              onChange={e => updateGuarantor(idx, { name: e.target.value })}
+              className={inputClass}
+              placeholder="Name"
+            />
+            <input
+              type="text"
+              value={party.relationship}
+              onChange={e => updateGuarantor(idx, { relationship: e.target.value })}
+              className={inputClass}
+              placeholder="Relationship"
+            />
+            {numberInput(party.creditScore, value => updateGuarantor(idx, { creditScore: value }), 'Credit score')}
+            {numberInput(party.netWorth, value => updateGuarantor(idx, { netWorth: value }), 'Net worth (₹)')}
+            <button
+              onClick={() => onChange({ coApplicants, guarantors: guarantors.filter((_, i) => i !== idx) })}
+              className="text-xs text-red-700 hover:underline flex items-center gap-1 col-span-2 justify-self-end"
+            >
+              <Trash2 size={14} />
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Percent } from 'lucide-react';
+import type { PricingQuote } from '../engine/types';
+import { formatInr } from './format';
+
+const formatBps = (bps: number) => `${bps > 0 ? '+' : ''}${bps} bps`;
+
+/** How the offered rate was built up from the benchmark, and what the loan costs with fees. */
+export default function PricingPanel({ pricing }: { pricing: PricingQuote }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <Percent size={18} />
+        Pricing
+      </h4>
+
+      <table className="w-full text-sm mb-4">
+        <tbody>
+          <tr className="border-b border-gray-100">
+            <td className="py-1 text-gray-600">{pricing.benchmark}</td>
+            <td className="py-1 text-right font-semibold text-gray-800">{pricing.benchmarkRate.toFixed(2)}%</td>
+          </tr>
+          {[...pricing.spreads, ...pricing.concessions].map(adjustment => (
+            <tr key={adjustment.id} className="border-b border-gray-100">
+              <td className="py-1 text-gray-600">{adjustment.label}</td>
+              <td className={`py-1 text-right ${adjustment.bps < 0 ? 'text-green-700' : 'text-gray-800'}`}>{formatBps(adjustment.bps)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td className="py-1 font-semibold text-gray-800">Offered rate ({formatBps(pricing.totalSpreadBps)} over benchmark)</td>
+            <td className="py-1 text-right font-bold text-indigo-700">{pricing.finalRate.toFixed(2)}%</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="text-gray-600">EMI at offered rate:</span>
+          <span className="ml-2 font-semibold text-gray-800">{formatInr(pricing.emi)}</span>
+        </div>
+        <div>
+          <span className="text-gray-600">Processing fee:</span>
+          <span className="ml-2 font-semibold text-gray-800">
+            {formatInr(pricing.processingFee)} + {formatInr(pricing.processingFeeGst)} GST
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-600">APR:</span>
+          <span className="ml-2 font-semibold text-gray-800">{pricing.apr.toFixed(2)}%</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { canReview, roleLabel } from '../engine/access';
+import type { CaseRecord } from '../engine/cases';
+import { sanctionConditionTypes, type ReviewDecision, type SanctionCondition } from '../engine/review';
+import { jsonHeaders } from './api';
+import { formatDateTime, formatInr } from './format';
+import type { CurrentUser } from './useCurrentUser';
+
+const conditionLabel = (condition: SanctionCondition) => {
+  const option = sanctionConditionTypes.find(candidate => candidate.type === condition.type);
+  const label = option?.label ?? condition.type;
+  return condition.value === undefined ? label : `${label} (${condition.value.toLocaleString('en-IN')} ${option?.valueLabel ?? ''})`.replace(' )', ')');
+};
+
+interface ReviewPanelProps {
+  record: CaseRecord;
+  current: CurrentUser | null;
+  onReviewed: (record: CaseRecord) => void;
+}
+
+/**
+ * Checker form for a queued case, or the recorded override once reviewed.
+ * Approvals beyond the reviewer's sanction authority are referred upward.
+ */
+export default function ReviewPanel({ record, current, onReviewed }: ReviewPanelProps) {
+  const [decision, setDecision] = useState<ReviewDecision>('APPROVED');
+  const [remarks, setRemarks] = useState('');
+  const [conditions, setConditions] = useState<(SanctionCondition & { selected: boolean })[]>(
+    (record.result?.suggestedConditions ?? []).map(condition => ({ ...condition, selected: false }))
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (record.review) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <ClipboardCheck className="text-indigo-600" />
+          Reviewer Decision
+        </h2>
+        <div className="text-sm space-y-2">
+          <div>
+            <span className="text-gray-600">System decision:</span>
+            <span className="ml-2 font-semibold text-gray-800">{record.review.systemDecision.replace('_', ' ')}</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Reviewer decision:</span>
+            <span className={`ml-2 font-semibold ${record.review.decision === 'APPROVED' ? 'text-green-700' : 'text-red-700'}`}>
+              {record.review.decision}
+            </span>
+          </div>
+          <div className="text-gray-600">
+            By {record.review.reviewer} (maker: {record.review.maker}) on {formatDateTime(record.review.at)}
+          </div>
+          <p className="text-gray-800 border-l-2 border-indigo-200 pl-3">{record.review.remarks}</p>
+          {record.review.conditions.length > 0 && (
+            <div>
+              <div className="text-gray-600 mb-1">Sanction conditions:</div>
+              <ul className="space-y-1 text-xs text-gray-700">
+                {record.review.conditions.map((condition, idx) => (
+                  <li key={idx}>• <span className="font-medium">{conditionLabel(condition)}</span> — {condition.description}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (record.status !== 'UNDER_REVIEW') return null;
+
+  const isMaker = current?.user.id === record.createdBy;
+  const risk = record.result?.riskAssessment.overallRisk;
+  const limit = current && risk ? current.limits[risk] : 0;
+  const reducedAmount = conditions.find(condition => condition.selected && condition.type === 'REDUCED_AMOUNT')?.value;
+  const beyondAuthority = (reducedAmount ?? record.result?.loanStructure.loanAmount ?? 0) > limit;
+
+  const updateCondition = (index: number, change: Partial<SanctionCondition & { selected: boolean }>) => {
+    setConditions(prev => prev.map((condition, idx) => (idx === index ? { ...condition, ...change } : condition)));
+  };
+
+  const submit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${record.id}/review`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          decision,
+          remarks,
+          conditions: decision === 'APPROVED'
+            ? conditions.filter(condition => condition.selected).map(({ selected, ...condition }) => condition)
+            : []
+        })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError([body.error, ...(body.details ?? [])].join(' '));
+        return;
+      }
+      onReviewed(body as CaseRecord);
+    } catch {
+      setError('Unable to reach the server. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <ClipboardCheck className="text-indigo-600" />
+        Checker Review
+      </h2>
+
+      {(record.referrals ?? []).length > 0 && (
+        <ul className="space-y-2 text-sm mb-4">
+          {record.referrals!.map((referral, idx) => (
+            <li key={idx} className="border-l-2 border-indigo-200 pl-3">
+              <div className="text-gray-600">
+                Recommended for approval by {referral.by} ({roleLabel(referral.role).toLowerCase()}) on {formatDateTime(referral.at)}
+              </div>
+              <div className="text-xs text-gray-500">{referral.reason}</div>
+              <p className="text-gray-800">{referral.remarks}</p>
+              {referral.conditions.length > 0 && (
+                <ul className="text-xs text-gray-700">
+                  {referral.conditions.map((condition, conditionIdx) => (
+                    <li key={conditionIdx}>• {conditionLabel(condition)} — {condition.description}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {record.referredTo && (
+        <p className="text-sm text-indigo-800 bg-indigo-50 border border-indigo-200 rounded-lg p-3 mb-4">
+          Referred to the {roleLabel(record.referredTo).toLowerCase()}; only that authority or a more senior one can decide this case.
+        </p>
+      )}
+
+      {current && !canReview(current.user) ? (
+        <p className="text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-3">
+          A {roleLabel(current.user.role).toLowerCase()} cannot review cases.
+        </p>
+      ) : isMaker ? (
+        <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          You opened this case, so it must be reviewed by another user.
+        </p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <div className="flex gap-3">
+            {(['APPROVED', 'REJECTED'] as ReviewDecision[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setDecision(option)}
+                className={`flex-1 py-2 rounded-lg border font-medium ${decision === option
+                  ? option === 'APPROVED' ? 'bg-green-600 border-green-600 text-white' : 'bg-red-600 border-red-600 text-white'
+                  : 'border-gray-300 text-gray-700'}`}
+              >
+                {option === 'APPROVED' ? 'Approve' : 'Reject'}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={remarks}
+            onChange={e => setRemarks(e.target.value)}
+            className={inputClass}
+            rows={3}
+            placeholder="Remarks (mandatory) — justify the decision"
+          />
+
+          {decision === 'APPROVED' && (
+            <div>
+              <div className="font-medium text-gray-800 mb-2">Sanction conditions</div>
+              <div className="space-y-2">
+                {conditions.map((condition, idx) => {
+                  const option = sanctionConditionTypes.find(candidate => candidate.type === condition.type);
+                  return (
+                    <div key={idx} className="flex items-start gap-2 border border-gray-100 rounded-lg p-2">
+                      <input
+                        type="checkbox"
+                        checked={condition.selected}
+                        onChange={e => updateCondition(idx, { selected: e.target.checked })}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 space-y-1">
+                        <select
+                          value={condition.type}
+                          onChange={e => updateCondition(idx, { type: e.target.value as SanctionCondition['type'] })}
+                          className={inputClass}
+                        >
+                          {sanctionConditionTypes.map(candidate => (
+                            <option key={candidate.type} value={candidate.type}>{candidate.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={condition.description}
+                          onChange={e => updateCondition(idx, { description: e.target.value })}
+                          className={inputClass}
+                        />
+                        {option?.valueLabel && (
+                          <input
+                            type="number"
+                            value={condition.value ?? ''}
+                            onChange={e => updateCondition(idx, { value: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                            className={inputClass}
+                            placeholder={option.valueLabel}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => setConditions(prev => [...prev, { type: 'OTHER', description: '', selected: true }])}
+                className="mt-2 text-indigo-700 font-medium hover:underline"
+              >
+                + Add condition
+              </button>
+            </div>
+          )}
+
+          {decision === 'APPROVED' && risk && beyondAuthority && (
+            <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+              Your sanction authority at {risk} risk is {formatInr(limit)}, so an approval will be recorded as your
+              recommendation and referred upward.
+            </p>
+          )}
+
+          <button
+            onClick={submit}
+            disabled={busy || !current || remarks.trim() === ''}
+            className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400"
+          >
+            Record Review Decision
+          </button>
+          {error && <div className="border border-red-300 bg-red-50 text-red-800 rounded-lg p-3">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
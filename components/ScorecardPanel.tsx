@@ -0,0 +1,64 @@
+import { BarChart3 } from 'lucide-react';
+import type { ScorecardResult } from '../engine/types';
+
+const gradeColor = (grade: string) => {
+  if (grade <= 'B') return 'bg-green-100 text-green-800';
+  if (grade <= 'D') return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+/** Scorecard grade and probability of default, with the attributes that cost the most points. */
+export default function ScorecardPanel({ scorecard }: { scorecard: ScorecardResult }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h4 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <BarChart3 size={18} />
+        Scorecard
+        <span className="text-xs font-normal text-gray-500">{scorecard.name} {scorecard.version}</span>
+      </h4>
+
+      <div className="flex items-center gap-6 mb-4">
+        <div className={`text-3xl font-bold px-4 py-2 rounded-lg ${gradeColor(scorecard.grade)}`}>{scorecard.grade}</div>
+        <div className="text-sm space-y-1">
+          <div>
+            <span className="text-gray-600">Probability of default:</span>
+            <span className="ml-2 font-semibold text-gray-800">{(scorecard.probabilityOfDefault * 100).toFixed(2)}%</span>
+          </div>
+          <div>
+            <span className="text-gray-600">Score:</span>
+            <span className="ml-2 font-semibold text-gray-800">{scorecard.score}</span>
+          </div>
+        </div>
+      </div>
+
+      {scorecard.reasonCodes.length > 0 && (
+        <div className="mb-4">
+          <span className="text-sm text-gray-600">Reason codes:</span>
+          <ul className="mt-1 space-y-1 text-sm">
+            {scorecard.reasonCodes.map(reason => (
+              <li key={reason.code} className="flex justify-between">
+                <span><span className="font-mono text-xs text-gray-500 mr-2">{reason.code}</span>{reason.description}</span>
+                <span className="text-red-700 text-xs">−{reason.pointsLost} pts</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-indigo-700">Attribute points</summary>
+        <table className="w-full mt-2">
+          <tbody>
+            {scorecard.contributions.map(contribution => (
+              <tr key={contribution.attributeId} className="border-b border-gray-100">
+                <td className="py-1 pr-2 text-gray-700">{contribution.label}</td>
+                <td className="py-1 pr-2 text-gray-500">{contribution.bin}</td>
+                <td className="py-1 text-right font-semibold">{contribution.points} / {contribution.maxPoints}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
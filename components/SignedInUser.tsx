@@ -0,0 +1,25 @@
+import { LogOut, UserCircle } from 'lucide-react';
+import { roleLabel } from '../engine/access';
+import type { CurrentUser } from './useCurrentUser';
+
+export default function SignedInUser({ current }: { current: CurrentUser | null }) {
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    window.location.assign('/login');
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-700">
+      <UserCircle className="text-indigo-600" size={20} />
+      <span>
+        <span className="font-medium text-gray-800">{current.user.name}</span>
+        {' · '}{roleLabel(current.user.role)} · {current.user.branch}
+      </span>
+      <button onClick={signOut} className="text-indigo-700 hover:text-indigo-900" title="Sign out">
+        <LogOut size={16} />
+      </button>
+    </div>
+  );
+}
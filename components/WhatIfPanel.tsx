@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { RotateCcw, SlidersHorizontal, Sparkles } from 'lucide-react';
+import { appraise } from '../engine/appraise';
+import type { PolicyDocument } from '../engine/policy/types';
+import { findProduct } from '../engine/products';
+import type { AppraisalResult, CheckStatus, LoanApplication } from '../engine/types';
+import { diffChecks, findCounterOffers, type CounterOffer } from '../engine/what-if';
+import { formatInr, getDecisionColor } from './format';
+
+const statusColor = (status?: CheckStatus) =>
+  status === 'PASS' ? 'text-green-700' : status === 'WARNING' ? 'text-yellow-700' : status === 'FAIL' ? 'text-red-700' : 'text-gray-500';
+
+type SliderField = 'loanAmount' | 'collateralValue' | 'tenureMonths' | 'existingLoans';
+
+/**
+ * Re-runs the engine in the browser against the active policy as the sliders
+ * move, so officers can see which checks an adjustment would flip.
+ */
+export default function WhatIfPanel({ application, result }: { application: LoanApplication; result: AppraisalResult }) {
+  const [policy, setPolicy] = useState<PolicyDocument | null>(null);
+  const [scenario, setScenario] = useState(application);
+  const [offers, setOffers] = useState<CounterOffer[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/policy')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setPolicy)
+      .catch(() => setPolicy(null));
+  }, []);
+
+  useEffect(() => {
+    setScenario(application);
+    setOffers(null);
+  }, [application]);
+
+  const simulated = useMemo(() => (policy ? appraise(scenario, policy) : null), [policy, scenario]);
+  const changes = simulated ? diffChecks(result, simulated) : [];
+
+  if (!policy || !simulated) return null;
+
+  const product = findProduct(policy, application.loanPurpose);
+  const monthlyIncome = application.annualIncome / 12;
+  const sliders: { field: SliderField; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+    { field: 'loanAmount', label: 'Loan Amount', min: 10000, max: Math.max(application.loanAmount * 2, 100000), step: 10000, format: formatInr },
+    { field: 'collateralValue', label: 'Collateral Value', min: 0, max: Math.max(application.loanAmount * 3, application.collateralValue * 2), step: 10000, format: formatInr },
+    {
+      field: 'tenureMonths',
+      label: 'Tenure',
+      min: Math.min(product?.minTenureMonths ?? 1, application.tenureMonths),
+      max: Math.max(product?.maxTenureMonths ?? 360, application.tenureMonths),
+      step: 1,
+      format: value => `${value} months`,
+    },
+    { field: 'existingLoans', label: 'Existing EMIs', min: 0, max: Math.max(application.existingLoans * 2, monthlyIncome), step: 500, format: formatInr },
+  ];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal size={18} />
+          What-If Simulator
+        </h4>
+        <button
+          onClick={() => setScenario(application)}
+          className="text-xs font-medium text-indigo-700 hover:underline flex items-center gap-1"
+        >
+          <RotateCcw size={12} />
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {sliders.map(slider => (
+          <label key={slider.field} className="block text-sm">
+            <div className="flex justify-between text-gray-700">
+              <span>{slider.label}</span>
+              <span className="font-semibold">{slider.format(scenario[slider.field])}</span>
+            </div>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={scenario[slider.field]}
+              onChange={e => setScenario(prev => ({ ...prev, [slider.field]: parseFloat(e.target.value) }))}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className={`border-2 rounded-lg p-3 mb-3 ${getDecisionColor(simulated.decision)}`}>
+        <div className="flex justify-between font-semibold">
+          <span>Simulated: {simulated.decision.replace('_', ' ')}</span>
+          <span>{simulated.score.toFixed(1)}%</span>
+        </div>
+        <div className="text-xs mt-1">
+          EMI {formatInr(simulated.loanStructure.proposedEmi)} · FOIR {simulated.loanStructure.foir.toFixed(2)}% · Overall risk {simulated.riskAssessment.overallRisk} · Grade {simulated.scorecard.grade} (PD {(simulated.scorecard.probabilityOfDefault * 100).toFixed(2)}%)
+        </div>
+      </div>
+
+      {changes.length > 0 ? (
+        <ul className="space-y-1 text-xs mb-4">
+          {changes.map(change => (
+            <li key={change.id} className="flex justify-between border-b border-gray-100 pb-1">
+              <span className="text-gray-700">{change.parameter}</span>
+              <span>
+                <span className={statusColor(change.from)}>{change.from ?? 'N/A'}</span>
+                {' → '}
+                <span className={`font-semibold ${statusColor(change.to)}`}>{change.to ?? 'N/A'}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 mb-4">No check changes status under this scenario.</p>
+      )}
+
+      {result.decision !== 'APPROVED' && (
+        <div className="border-t border-gray-100 pt-3">
+          <button
+            onClick={() => setOffers(findCounterOffers(application, policy))}
+            className="text-sm font-medium text-indigo-700 hover:underline flex items-center gap-1"
+          >
+            <Sparkles size={14} />
+            Find a counter-offer
+          </button>
+          {offers && offers.length === 0 && (
+            <p className="text-xs text-gray-600 mt-2">
+              Neither a lower amount nor additional collateral gets this application approved under the current policy.
+            </p>
+          )}
+          {offers && offers.length > 0 && (
+            <ul className="mt-2 space-y-2 text-sm">
+              {offers.map(offer => (
+                <li key={offer.kind} className="flex items-center justify-between bg-indigo-50 rounded-lg p-2">
+                  <span className="text-indigo-900">
+                    {offer.kind === 'REDUCED_AMOUNT'
+                      ? `Approve ${formatInr(offer.application.loanAmount)} at the declared collateral`
+                      : `Approve the full amount with ${formatInr(offer.additionalCollateral)} more collateral`}
+                    <span className="text-xs text-indigo-700"> (EMI {formatInr(offer.result.loanStructure.proposedEmi)})</span>
+                  </span>
+                  <button
+                    onClick={() => setScenario(offer.application)}
+                    className="text-xs font-medium text-indigo-700 hover:underline"
+                  >
+                    Apply
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Check } from 'lucide-react';
+import { applicationSteps, type ApplicationStep } from '../engine/application-schema';
+
+interface WizardStepsProps {
+  current: ApplicationStep;
+  /** Steps the user has reached so far; only those can be jumped back to. */
+  reached: number;
+  onSelect: (step: ApplicationStep) => void;
+}
+
+export default function WizardSteps({ current, reached, onSelect }: WizardStepsProps) {
+  const currentIndex = applicationSteps.findIndex(entry => entry.step === current);
+
+  return (
+    <ol className="flex items-center gap-2 mb-6">
+      {applicationSteps.map((entry, index) => (
+        <li key={entry.step} className="flex-1">
+          <button
+            onClick={() => onSelect(entry.step)}
+            disabled={index > reached}
+            className={`w-full flex items-center gap-2 text-left text-xs font-medium border-b-2 pb-2 disabled:cursor-not-allowed ${index === currentIndex
+              ? 'border-indigo-600 text-indigo-700'
+              : index < currentIndex ? 'border-indigo-300 text-gray-700' : 'border-gray-200 text-gray-400'}`}
+          >
+            <span
+              className={`flex items-center justify-center w-5 h-5 rounded-full text-[10px] ${index < currentIndex
+                ? 'bg-indigo-600 text-white'
+                : index === currentIndex ? 'border-2 border-indigo-600' : 'border border-gray-300'}`}
+            >
+              {index < currentIndex ? <Check size={12} /> : index + 1}
+            </span>
+            {entry.title}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,16 @@
+export const jsonHeaders: HeadersInit = { 'Content-Type': 'application/json' };
+
+/** An error response from the API, carrying the server's message. */
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Parses a JSON API response, rejecting with an `ApiError` when the status is not OK. */
+export async function readApiJson<T>(response: Response): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) throw new ApiError([body.error, ...(body.details ?? [])].filter(Boolean).join(' '), response.status);
+  return body as T;
+}
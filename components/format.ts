@@ -0,0 +1,46 @@
+export const formatInr = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+export const getDecisionColor = (decision: string) => {
+  switch (decision) {
+    case 'APPROVED':
+      return 'bg-green-100 text-green-800 border-green-300';
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800 border-red-300';
+    case 'REVIEW_REQUIRED':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-300';
+  }
+};
+
+export const getRiskColor = (risk: string) => {
+  switch (risk) {
+    case 'LOW':
+      return 'text-green-600';
+    case 'MEDIUM':
+      return 'text-yellow-600';
+    case 'HIGH':
+      return 'text-red-600';
+    default:
+      return 'text-gray-600';
+  }
+};
+
+export const getCaseStatusColor = (status: string) => {
+  switch (status) {
+    case 'SANCTIONED':
+      return 'bg-green-100 text-green-800';
+    case 'DECLINED':
+      return 'bg-red-100 text-red-800';
+    case 'UNDER_REVIEW':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'APPRAISED':
+      return 'bg-indigo-100 text-indigo-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,19 @@
+export const loanPurposeOptions = [
+  { value: 'home', label: 'Home Loan' },
+  { value: 'personal', label: 'Personal Loan' },
+  { value: 'business', label: 'Business Loan' },
+  { value: 'vehicle', label: 'Vehicle Loan' },
+  { value: 'education', label: 'Education Loan' },
+  { value: 'agriculture', label: 'Agriculture Loan' },
+  { value: 'msme', label: 'MSME Loan' },
+];
+
+export const employmentTypeOptions = [
+  { value: 'salaried', label: 'Salaried' },
+  { value: 'self-employed', label: 'Self-Employed' },
+  { value: 'business', label: 'Business Owner' },
+  { value: 'professional', label: 'Professional' },
+];
+
+export const loanPurposeLabel = (purpose: string) =>
+  loanPurposeOptions.find(option => option.value === purpose)?.label ?? purpose;
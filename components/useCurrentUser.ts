@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { User } from '../engine/access';
+import type { RiskLevel } from '../engine/types';
+
+export interface CurrentUser {
+  user: User;
+  /** The largest loan the user may sanction at each overall risk level. */
+  limits: Record<RiskLevel, number>;
+}
+
+export const loginPath = () => `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+
+/** The signed-in user, or null while loading; an expired session is sent back to the sign-in page. */
+export function useCurrentUser(): CurrentUser | null {
+  const [current, setCurrent] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(async response => {
+        if (response.status === 401) {
+          window.location.assign(loginPath());
+          return;
+        }
+        if (response.ok) setCurrent(await response.json());
+      })
+      .catch(() => undefined);
+  }, []);
+
+  return current;
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CaseRecord } from '../engine/cases';
+import type { LoanApplication } from '../engine/types';
+import { ApiError, jsonHeaders, readApiJson } from './api';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+export interface DraftAutosave {
+  draftId: string | null;
+  status: AutosaveStatus;
+  savedAt: string | null;
+  error: string | null;
+  /** Saves any change not yet saved and resolves to the draft's case id. */
+  flush: () => Promise<string>;
+  /** Forgets the draft, e.g. once it has been submitted, so further edits open a new one. */
+  reset: () => void;
+}
+
+const autosaveDelayMs = 1500;
+const draftParam = 'draft';
+
+const setDraftParam = (id: string | null) =>
+  window.history.replaceState(null, '', id ? `${window.location.pathname}?${draftParam}=${encodeURIComponent(id)}` : window.location.pathname);
+
+/**
+ * Keeps a draft case in step with the application form. The draft is opened
+ * once `ready` (there is enough to be worth keeping) and saved shortly after
+ * each change. Its id is put in the page URL, so after a reload the draft
+ * is fetched back and handed to `onRestore`.
+ */
+export function useDraftAutosave(
+  application: Partial<LoanApplication>,
+  ready: boolean,
+  onRestore: (application: Partial<LoanApplication>) => void,
+): DraftAutosave {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(true);
+  const idRef = useRef<string | null>(null);
+  const savedRef = useRef<string | null>(null);
+  const latestRef = useRef(application);
+  const onRestoreRef = useRef(onRestore);
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  latestRef.current = application;
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get(draftParam);
+    if (!id) {
+      setRestoring(false);
+      return;
+    }
+    fetch(`/api/cases/${encodeURIComponent(id)}`)
+      .then(response => readApiJson<CaseRecord>(response))
+      .then(record => {
+        // A draft submitted since (or from another tab) is a case now, not something to keep editing.
+        if (record.status !== 'DRAFT') {
+          setDraftParam(null);
+          return;
+        }
+        idRef.current = record.id;
+        savedRef.current = JSON.stringify(record.application);
+        setDraftId(record.id);
+        setSavedAt(record.updatedAt);
+        setStatus('saved');
+        onRestoreRef.current(record.application);
+      })
+      .catch(() => setError('The saved draft could not be loaded.'))
+      .finally(() => setRestoring(false));
+  }, []);
+
+  const save = useCallback((snapshot: Partial<LoanApplication>): Promise<string> => {
+    const run = queue.current.then(async () => {
+      const body = JSON.stringify(snapshot);
+      if (idRef.current && body === savedRef.current) return idRef.current;
+      setStatus('saving');
+      const response = idRef.current
+        ? await fetch(`/api/cases/${idRef.current}`, { method: 'PATCH', headers: jsonHeaders, body: JSON.stringify({ application: snapshot }) })
+        : await fetch('/api/cases', { method: 'POST', headers: jsonHeaders, body: JSON.stringify({ application: snapshot }) });
+      const record = await readApiJson<CaseRecord>(response);
+      if (!idRef.current) {
+        idRef.current = record.id;
+        setDraftId(record.id);
+        setDraftParam(record.id);
+      }
+      savedRef.current = body;
+      setSavedAt(record.updatedAt);
+      setStatus('saved');
+      setError(null);
+      return record.id;
+    });
+    queue.current = run.catch(() => undefined);
+    return run.catch(saveError => {
+      setStatus('error');
+      setError(saveError instanceof ApiError ? saveError.message : 'The draft could not be saved.');
+      throw saveError;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!ready || restoring) return;
+    const timer = setTimeout(() => save(application).catch(() => undefined), autosaveDelayMs);
+    return () => clearTimeout(timer);
+  }, [application, ready, restoring, save]);
+
+  const flush = useCallback(() => save(latestRef.current), [save]);
+
+  const reset = useCallback(() => {
+    idRef.current = null;
+    savedRef.current = null;
+    setDraftId(null);
+    setSavedAt(null);
+    setStatus('idle');
+    setDraftParam(null);
+  }, []);
+
+  return { draftId, status, savedAt, error, flush, reset };
+}
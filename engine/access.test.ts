@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { canSanction, outranks, requiredAuthority } from './access';
+import { defaultPolicy } from './policy/default-policy';
+
+const { delegation } = defaultPolicy;
+
+describe('canSanction', () => {
+  it.each([
+    ['LOAN_OFFICER', 'LOW', 1000000],
+    ['LOAN_OFFICER', 'MEDIUM', 500000],
+    ['CREDIT_ANALYST', 'LOW', 5000000],
+    ['CREDIT_ANALYST', 'MEDIUM', 2500000],
+    ['BRANCH_MANAGER', 'LOW', 20000000],
+    ['BRANCH_MANAGER', 'MEDIUM', 10000000],
+    ['BRANCH_MANAGER', 'HIGH', 2500000],
+    ['REGIONAL_CREDIT_COMMITTEE', 'HIGH', 25000000],
+  ] as const)('lets a %s sanction up to the %s risk limit of ₹%i and no further', (role, risk, limit) => {
+    expect(canSanction(delegation, role, limit, risk)).toBe(true);
+    expect(canSanction(delegation, role, limit + 1, risk)).toBe(false);
+  });
+
+  it.each([
+    ['LOAN_OFFICER', 1],
+    ['CREDIT_ANALYST', 1],
+    ['CREDIT_ANALYST', 0],
+    ['CREDIT_ANALYST', -1],
+  ] as const)('gives a %s no HIGH risk authority, even for ₹%i', (role, amount) => {
+    expect(canSanction(delegation, role, amount, 'HIGH')).toBe(false);
+  });
+
+  it('grants no authority to a role the policy does not delegate to', () => {
+    expect(canSanction(delegation.filter(authority => authority.role !== 'BRANCH_MANAGER'), 'BRANCH_MANAGER', 1, 'LOW')).toBe(false);
+  });
+});
+
+describe('requiredAuthority', () => {
+  it.each([
+    [2500000, 'LOW', 'CREDIT_ANALYST'],
+    [2500000, 'HIGH', 'BRANCH_MANAGER'],
+    [2500001, 'HIGH', 'REGIONAL_CREDIT_COMMITTEE'],
+    [500000, 'MEDIUM', 'LOAN_OFFICER'],
+  ] as const)('refers ₹%i at %s risk to the %s', (amount, risk, role) => {
+    expect(requiredAuthority(delegation, amount, risk)?.role).toBe(role);
+  });
+
+  it('finds nobody for an amount beyond every delegation, or at or below zero', () => {
+    expect(requiredAuthority(delegation, 25000001, 'HIGH')).toBeUndefined();
+    expect(requiredAuthority(delegation, 0, 'HIGH')).toBeUndefined();
+  });
+});
+
+describe('outranks', () => {
+  it('ranks roles in delegation order', () => {
+    expect(outranks(delegation, 'REGIONAL_CREDIT_COMMITTEE', 'BRANCH_MANAGER')).toBe(true);
+    expect(outranks(delegation, 'BRANCH_MANAGER', 'BRANCH_MANAGER')).toBe(true);
+    expect(outranks(delegation, 'CREDIT_ANALYST', 'BRANCH_MANAGER')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import type { CaseRecord } from './cases';
+import type { Role, SanctionAuthority } from './policy/types';
+import type { RiskLevel } from './types';
+
+/** A signed-in user as the app sees them; credentials stay in the server's user store. */
+export interface User {
+  id: string;
+  name: string;
+  role: Role;
+  /** Branch code the user works from, e.g. `MUM-ANDHERI`. */
+  branch: string;
+}
+
+/** Name of the cookie carrying the signed session; shared by the API and the page middleware. */
+export const sessionCookie = 'appraisal_session';
+
+export interface RoleDefinition {
+  role: Role;
+  label: string;
+  /** Sees every branch's cases rather than only the user's own. */
+  allBranches: boolean;
+  /** May act as checker on the review queue. */
+  reviews: boolean;
+}
+
+export const roleDefinitions: RoleDefinition[] = [
+  { role: 'LOAN_OFFICER', label: 'Loan officer', allBranches: false, reviews: false },
+  { role: 'CREDIT_ANALYST', label: 'Credit analyst', allBranches: false, reviews: true },
+  { role: 'BRANCH_MANAGER', label: 'Branch manager', allBranches: false, reviews: true },
+  { role: 'REGIONAL_CREDIT_COMMITTEE', label: 'Regional credit committee', allBranches: true, reviews: true },
+];
+
+const definitionOf = (role: Role): RoleDefinition =>
+  roleDefinitions.find(definition => definition.role === role) ?? roleDefinitions[0];
+
+export const roleLabel = (role: Role) => definitionOf(role).label;
+
+export const canReview = (user: User) => definitionOf(user.role).reviews;
+
+/** The branch a user's case lists are restricted to, or undefined for region-wide roles. */
+export const branchScope = (user: User): string | undefined => (definitionOf(user.role).allBranches ? undefined : user.branch);
+
+/** Cases opened before branch scoping carry no branch; only region-wide roles see those. */
+export function canAccessCase(user: User, record: CaseRecord): boolean {
+  const scope = branchScope(user);
+  return scope === undefined || record.branch === scope;
+}
+
+/** The most `role` may sanction at `risk`; roles the policy does not delegate to have no authority. */
+export function sanctionLimit(delegation: SanctionAuthority[], role: Role, risk: RiskLevel): number {
+  return delegation.find(authority => authority.role === role)?.limits[risk] ?? 0;
+}
+
+/** Nothing is sanctioned at or below zero, so a zero limit grants no authority whatever amount is claimed. */
+export const canSanction = (delegation: SanctionAuthority[], role: Role, amount: number, risk: RiskLevel) =>
+  amount > 0 && amount <= sanctionLimit(delegation, role, risk);
+
+/** The most junior authority that can sanction `amount` at `risk`; undefined when it is beyond every delegation. */
+export function requiredAuthority(delegation: SanctionAuthority[], amount: number, risk: RiskLevel): SanctionAuthority | undefined {
+  return delegation.find(authority => canSanction(delegation, authority.role, amount, risk));
+}
+
+/** Whether `role` ranks at or above `target` in the delegation order. */
+export function outranks(delegation: SanctionAuthority[], role: Role, target: Role): boolean {
+  const rank = (candidate: Role) => delegation.findIndex(authority => authority.role === candidate);
+  return rank(role) >= rank(target);
+}
@@ -0,0 +1,174 @@
+import { requiresBusinessVintage } from './employment';
+import type { PolicyDocument } from './policy/types';
+
+export type ApplicationStep = 'applicant' | 'income' | 'loan' | 'review';
+
+/** The application wizard's steps, in order; the last only reviews what the others collected. */
+export const applicationSteps: { step: ApplicationStep; title: string }[] = [
+  { step: 'applicant', title: 'Applicant' },
+  { step: 'income', title: 'Employment & Income' },
+  { step: 'loan', title: 'Loan & Collateral' },
+  { step: 'review', title: 'Review' },
+];
+
+export type ApplicationField =
+  | 'applicantName' | 'loanPurpose' | 'employmentType' | 'employmentYears' | 'businessVintage' | 'annualIncome'
+  | 'creditScore' | 'existingLoans' | 'debtToIncome' | 'loanAmount' | 'tenureMonths' | 'interestRate' | 'collateralValue';
+
+export interface FieldRule {
+  field: ApplicationField;
+  label: string;
+  step: Exclude<ApplicationStep, 'review'>;
+  kind: 'text' | 'number' | 'choice';
+  required: boolean | ((input: Record<string, unknown>, policy: PolicyDocument) => boolean);
+  min?: number;
+  max?: number;
+  /** Zero is not allowed either: ratios are taken over these fields. */
+  positive?: boolean;
+  integer?: boolean;
+  maxLength?: number;
+  /** The values the policy knows, for choice fields. */
+  choices?: (policy: PolicyDocument) => string[];
+  /** The field may be omitted when the application carries this instead (a non-empty list, for lists), which the value is then taken from. */
+  derivedFrom?: 'bureauReport' | 'collateral';
+}
+
+/**
+ * Every scalar field of a loan application, with the bounds the intake form
+ * and the API both enforce. Bounds only rule out nonsense; what the bank
+ * will lend against is for the policy checks to decide.
+ */
+export const applicationFields: FieldRule[] = [
+  { field: 'applicantName', label: 'Applicant name', step: 'applicant', kind: 'text', required: true, maxLength: 120 },
+  {
+    field: 'loanPurpose',
+    label: 'Loan purpose',
+    step: 'applicant',
+    kind: 'choice',
+    required: true,
+    choices: policy => policy.products.map(product => product.purpose),
+  },
+  {
+    field: 'employmentType',
+    label: 'Employment type',
+    step: 'income',
+    kind: 'choice',
+    required: true,
+    choices: policy => policy.employmentProfiles.map(profile => profile.employmentType),
+  },
+  { field: 'employmentYears', label: 'Employment years', step: 'income', kind: 'number', required: true, min: 0, max: 60 },
+  {
+    field: 'businessVintage',
+    label: 'Business vintage',
+    step: 'income',
+    kind: 'number',
+    required: (input, policy) =>
+      typeof input.employmentType === 'string' && typeof input.loanPurpose === 'string' &&
+      requiresBusinessVintage(policy, input.employmentType, input.loanPurpose),
+    min: 0,
+    max: 100,
+  },
+  { field: 'annualIncome', label: 'Annual income', step: 'income', kind: 'number', required: true, positive: true },
+  {
+    field: 'creditScore',
+    label: 'Credit score',
+    step: 'income',
+    kind: 'number',
+    required: true,
+    min: 300,
+    max: 900,
+    integer: true,
+    derivedFrom: 'bureauReport',
+  },
+  { field: 'existingLoans', label: 'Existing EMI', step: 'income', kind: 'number', required: true, min: 0 },
+  { field: 'debtToIncome', label: 'Debt-to-income', step: 'income', kind: 'number', required: false, min: 0 },
+  { field: 'loanAmount', label: 'Loan amount', step: 'loan', kind: 'number', required: true, positive: true },
+  { field: 'tenureMonths', label: 'Tenure', step: 'loan', kind: 'number', required: true, positive: true, integer: true, max: 480 },
+  { field: 'interestRate', label: 'Interest rate', step: 'loan', kind: 'number', required: true, positive: true, max: 50 },
+  { field: 'collateralValue', label: 'Collateral value', step: 'loan', kind: 'number', required: true, min: 0, derivedFrom: 'collateral' },
+];
+
+export interface FieldIssue {
+  field: ApplicationField;
+  label: string;
+  /** What is wrong, phrased to follow the field's name or label, e.g. `must be greater than zero.` */
+  requirement: string;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// An empty securities list values nothing, so it cannot stand in for the declared collateral value.
+const carries = (value: unknown) => value !== undefined && value !== null && (!Array.isArray(value) || value.length > 0);
+
+const checkField = (rule: FieldRule, input: Record<string, unknown>, policy: PolicyDocument): string | undefined => {
+  const value = input[rule.field];
+  const required = typeof rule.required === 'function' ? rule.required(input, policy) : rule.required;
+  if (value === undefined || value === null || value === '') {
+    if (rule.derivedFrom && carries(input[rule.derivedFrom])) return undefined;
+    if (!required) return undefined;
+    return rule.kind === 'number' ? 'is required and must be a number.' : 'is required and must be a non-empty string.';
+  }
+
+  if (rule.kind !== 'number') {
+    if (typeof value !== 'string' || value.trim() === '') return 'is required and must be a non-empty string.';
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) return `must be at most ${rule.maxLength} characters.`;
+    const choices = rule.choices?.(policy);
+    if (choices && !choices.includes(value)) return `must be one of: ${choices.join(', ')}.`;
+    return undefined;
+  }
+
+  if (!isNumber(value)) return required ? 'is required and must be a number.' : 'must be a number when provided.';
+  if (value < 0 && (rule.positive || rule.min === 0)) return 'must not be negative.';
+  if (rule.positive && value === 0) return 'must be greater than zero.';
+  if (rule.integer && !Number.isInteger(value)) return 'must be a whole number.';
+  if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+    return rule.min !== undefined && rule.max !== undefined
+      ? `must be between ${rule.min} and ${rule.max}.`
+      : rule.max !== undefined ? `must be at most ${rule.max}.` : `must be at least ${rule.min}.`;
+  }
+  return undefined;
+};
+
+/** Checks the application's scalar fields against `applicationFields`, optionally only those on one wizard step. */
+export function checkApplicationFields(
+  input: Record<string, unknown>,
+  policy: PolicyDocument,
+  step?: ApplicationStep,
+): FieldIssue[] {
+  return applicationFields
+    .filter(rule => !step || rule.step === step)
+    .flatMap(rule => {
+      const requirement = checkField(rule, input, policy);
+      return requirement ? [{ field: rule.field, label: rule.label, requirement }] : [];
+    });
+}
+
+export type PartyList = 'coApplicants' | 'guarantors';
+
+/** The applicant's fields each co-applicant or guarantor also declares. */
+export const partyFields: Record<PartyList, ApplicationField[]> = {
+  coApplicants: ['annualIncome', 'creditScore', 'employmentType', 'employmentYears', 'existingLoans'],
+  guarantors: ['creditScore'],
+};
+
+/**
+ * Checks one co-applicant or guarantor against the applicant's rules for the
+ * fields it shares. All are required: a party carries no bureau report to
+ * take its score from.
+ */
+export function checkPartyFields(party: Record<string, unknown>, list: PartyList, policy: PolicyDocument): FieldIssue[] {
+  return applicationFields
+    .filter(rule => partyFields[list].includes(rule.field))
+    .flatMap(rule => {
+      const requirement = checkField({ ...rule, required: true, derivedFrom: undefined }, party, policy);
+      return requirement ? [{ field: rule.field, label: rule.label, requirement }] : [];
+    });
+}
+
+/** Field-level messages for a form, keyed by field, e.g. `{ loanAmount: 'Loan amount must be greater than zero.' }`. */
+export const fieldMessages = (issues: FieldIssue[]): Partial<Record<ApplicationField, string>> =>
+  Object.fromEntries(issues.map(issue => [issue.field, `${issue.label} ${issue.requirement}`]));
+
+/** The step a field is entered on, for sending the user back to fix it. */
+export const stepOf = (field: string): ApplicationStep | undefined =>
+  applicationFields.find(rule => rule.field === field)?.step;
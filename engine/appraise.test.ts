@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { appraise } from './appraise';
+import { kycRequirements, type KycDetails } from './kyc';
+import { defaultPolicy } from './policy/default-policy';
+import type { CheckStatus, LoanApplication } from './types';
+
+// Itemised, so the band edges are not shifted by the haircut on undeclared security.
+const property = (marketValue: number): Partial<LoanApplication> => ({
+  collateralValue: marketValue,
+  collateral: [{
+    type: 'PROPERTY',
+    description: 'Flat 4B, Andheri East',
+    marketValue,
+    valuationDate: '2025-06-01',
+    valuer: 'Approved valuer',
+    ownership: 'APPLICANT',
+  }],
+});
+
+// Every mandatory document for a salaried home loan verified, and screened clear.
+const kyc: KycDetails = {
+  pan: 'ABCPE1234F',
+  aadhaarLast4: '2346',
+  addressProof: { type: 'PASSPORT', number: 'P1234567' },
+  documents: kycRequirements(defaultPolicy.kyc, 'home', 'salaried')
+    .map(requirement => ({ id: requirement.id, status: 'VERIFIED', verifiedBy: 'checker' })),
+  screening: { status: 'CLEAR', matches: [], listVersion: 'sample', screenedAt: '2025-06-30T10:00:00.000Z' },
+};
+
+// ₹1.2L a month with no haircut, and a home loan inside the ₹30L slab (80% / 90% LTV).
+const application: LoanApplication = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  collateralValue: 4000000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+  kyc,
+};
+
+const statusOf = (id: string, changes: Partial<LoanApplication>): CheckStatus | undefined => {
+  const result = appraise({ ...application, ...changes });
+  return [...result.rbiCompliance, ...result.bankPolicyCompliance].find(check => check.id === id)?.status;
+};
+
+describe('rbiCompliance', () => {
+  it.each([
+    [2399000, 'PASS'],
+    [2400000, 'PASS'],
+    [2401000, 'WARNING'],
+    [2700000, 'WARNING'],
+    [2701000, 'FAIL'],
+  ] as const)('LTV on ₹30 lakh of security for a ₹%i loan is %s', (loanAmount, status) => {
+    expect(statusOf('ltv', { loanAmount, ...property(3000000) })).toBe(status);
+  });
+
+  it('fails LTV when a secured product has no collateral', () => {
+    expect(statusOf('ltv', { collateralValue: 0 })).toBe('FAIL');
+  });
+
+  it('does not apply LTV to an unsecured product', () => {
+    expect(statusOf('ltv', { loanPurpose: 'personal', loanAmount: 500000, tenureMonths: 60, collateralValue: 0 })).toBeUndefined();
+  });
+
+  it.each([
+    [750, 'PASS'],
+    [700, 'PASS'],
+    [699, 'WARNING'],
+    [650, 'WARNING'],
+    [649, 'FAIL'],
+  ] as const)('credit score %i is %s', (creditScore, status) => {
+    expect(statusOf('credit-report', { creditScore })).toBe(status);
+  });
+
+  it.each([
+    ['agriculture', 'PASS'],
+    ['msme', 'PASS'],
+    ['education', 'PASS'],
+    ['home', 'WARNING'],
+  ] as const)('priority sector for %s lending is %s', (loanPurpose, status) => {
+    expect(statusOf('priority-sector', { loanPurpose, businessVintage: 5 })).toBe(status);
+  });
+});
+
+describe('kyc', () => {
+  const sanctionsHit = {
+    subject: 'Asha Rao', entry: 'Asha Rao', matchedOn: 'Asha Rao', list: 'SANCTIONS', source: 'UNSC', strength: 'EXACT',
+  } as const;
+
+  it.each([
+    ['complete and verified', {}, 'PASS'],
+    ['with one document uploaded but not verified', { documents: kyc.documents.map((document, index) => (index === 0 ? { ...document, status: 'UPLOADED' } : document)) }, 'WARNING'],
+    ['with one document rejected', { documents: kyc.documents.map((document, index) => (index === 0 ? { ...document, status: 'REJECTED' } : document)) }, 'FAIL'],
+    ['without proof of address', { addressProof: undefined }, 'WARNING'],
+    ['never screened', { screening: undefined }, 'WARNING'],
+    ['with a PEP alert', { screening: { ...kyc.screening!, status: 'POTENTIAL_MATCH', matches: [{ ...sanctionsHit, list: 'PEP' }] } }, 'WARNING'],
+    ['with an exact sanctions hit', { screening: { ...kyc.screening!, status: 'MATCH', matches: [sanctionsHit] } }, 'FAIL'],
+  ] as const)('is %s: %s', (_, changes, status) => {
+    expect(statusOf('kyc', { kyc: { ...kyc, ...changes } as KycDetails })).toBe(status);
+  });
+});
+
+describe('bankPolicyCompliance', () => {
+  it.each([
+    [39000, 'PASS'],
+    [40000, 'PASS'],
+    [40100, 'WARNING'],
+    [50000, 'WARNING'],
+    [50100, 'FAIL'],
+  ] as const)('DTI with existing EMIs of ₹%i on ₹1 lakh a month is %s', (existingLoans, status) => {
+    expect(statusOf('dti', { existingLoans })).toBe(status);
+  });
+
+  it('takes a declared debt-to-income above the computed one', () => {
+    expect(statusOf('dti', { debtToIncome: 45 })).toBe('WARNING');
+  });
+
+  it('does not let a declared debt-to-income lower the computed one', () => {
+    expect(statusOf('dti', { existingLoans: 50100, debtToIncome: 10 })).toBe('FAIL');
+  });
+
+  it.each([
+    [5, 'PASS'],
+    [2, 'PASS'],
+    [1.5, 'WARNING'],
+    [1, 'WARNING'],
+    [0.5, 'FAIL'],
+  ] as const)('employment stability at %s years for a salaried applicant is %s', (employmentYears, status) => {
+    expect(statusOf('employment-stability', { employmentYears })).toBe(status);
+  });
+
+  it.each([
+    [5900000, 'PASS'],
+    [6000000, 'PASS'],
+    [6001000, 'WARNING'],
+    [8400000, 'WARNING'],
+    [8401000, 'FAIL'],
+  ] as const)('loan-to-income for a ₹%i loan on ₹12 lakh a year is %s', (loanAmount, status) => {
+    expect(statusOf('loan-to-income', { loanAmount, collateralValue: 20000000 })).toBe(status);
+  });
+
+  it.each([
+    [1300000, 'PASS'],
+    [1200000, 'PASS'],
+    [1199000, 'WARNING'],
+    [1000000, 'WARNING'],
+    [999000, 'FAIL'],
+  ] as const)('collateral coverage of ₹%i on a ₹10 lakh loan is %s', (marketValue, status) => {
+    expect(statusOf('collateral-coverage', { loanAmount: 1000000, ...property(marketValue) })).toBe(status);
+  });
+});
+
+describe('appraise', () => {
+  it('approves an application that passes every check but priority sector', () => {
+    const result = appraise(application);
+    const notPassing = [...result.rbiCompliance, ...result.bankPolicyCompliance].filter(check => check.status !== 'PASS');
+    expect(notPassing.map(check => check.id)).toEqual(['priority-sector']);
+    expect(result.decision).toBe('APPROVED');
+    expect(result.policyVersion).toBeTruthy();
+  });
+
+  it('structures the loan at the priced rate, not the rate applied for', () => {
+    const result = appraise({ ...application, interestRate: 6 });
+    expect(result.pricing.finalRate).not.toBe(6);
+    expect(result.loanStructure.interestRate).toBe(result.pricing.finalRate);
+    expect(result.loanStructure.proposedEmi).toBeCloseTo(result.pricing.emi, 6);
+  });
+
+  it.each([
+    ['a well covered home loan', { collateralValue: 4000000 }, 'LOW'],
+    ['a home loan without security', { collateralValue: 0 }, 'HIGH'],
+    ['an unsecured personal loan', { loanPurpose: 'personal', loanAmount: 500000, tenureMonths: 60, collateralValue: 0 }, 'MEDIUM'],
+  ] as const)('rates collateral risk on %s as %s', (_, changes, collateralRisk) => {
+    expect(appraise({ ...application, ...changes }).riskAssessment.collateralRisk).toBe(collateralRisk);
+  });
+
+  it('does not rate a secured loan without security as low risk overall', () => {
+    expect(appraise({ ...application, collateralValue: 0 }).riskAssessment.overallRisk).not.toBe('LOW');
+  });
+
+  it('scores a thin file without a bureau report in the no-data bins, not the clean ones', () => {
+    const contributions = appraise(application).scorecard.contributions
+      .filter(contribution => contribution.attributeId === 'delinquency' || contribution.attributeId === 'enquiries');
+    expect(contributions).toEqual([
+      expect.objectContaining({ bin: 'No bureau report', points: 20 }),
+      expect.objectContaining({ bin: 'No bureau report', points: 20 }),
+    ]);
+  });
+
+  it('rejects on three failures', () => {
+    const result = appraise({ ...application, creditScore: 600, existingLoans: 60000, collateralValue: 1000000 });
+    expect(result.explanation.failures).toBeGreaterThanOrEqual(3);
+    expect(result.decision).toBe('REJECTED');
+  });
+});
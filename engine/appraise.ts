@@ -0,0 +1,154 @@
+import { findEmploymentProfile } from './employment';
+import { explainDecision } from './explain';
+import { buildMetricContext } from './metrics';
+import { defaultPolicy } from './policy/default-policy';
+import { matchesCondition, renderConditionalTexts, renderTemplate, selectBand, suggestConditions } from './policy/evaluate';
+import { evaluateExpression, type MetricContext } from './policy/expression';
+import type { Band, PolicyDocument, RiskDimension } from './policy/types';
+import { priceLoan } from './pricing';
+import { findProduct } from './products';
+import { runScorecard } from './scorecard';
+import type {
+  AppraisalResult,
+  ComplianceCheck,
+  LoanApplication,
+  RiskAssessment,
+  RiskLevel,
+} from './types';
+
+const resolveBand = <B extends Band<unknown>>(value: number | string, bands: B[], context: MetricContext, label: string): B => {
+  const band = selectBand(value, bands, context);
+  if (!band) throw new Error(`No band matched ${label} value ${value}; policy needs a fallback band.`);
+  return band;
+};
+
+const assessRisk = (dimension: RiskDimension, context: MetricContext, label: string): RiskLevel =>
+  resolveBand(evaluateExpression(dimension.metric, context), dimension.bands, context, label).result;
+
+/**
+ * Runs the RBI and bank checks that the policy's product for `loanPurpose`
+ * applies, with income and stability thresholds taken from the employment
+ * profile for `employmentType`, and derives the risk assessment, score and final decision.
+ * The policy's scorecard grades the application alongside, and the grade
+ * prices it; neither decides. The loan is priced first, on the rate applied
+ * for, and then structured and checked at the priced rate, so EMI, FOIR and
+ * eligibility are those of the loan actually offered.
+ * Pure: no I/O, no clock.
+ */
+export function appraise(application: LoanApplication, policy: PolicyDocument = defaultPolicy): AppraisalResult {
+  const product = findProduct(policy, application.loanPurpose);
+  if (!product) throw new Error(`Policy ${policy.version} has no product for purpose "${application.loanPurpose}".`);
+
+  const profile = findEmploymentProfile(policy, application.employmentType);
+  if (!profile) throw new Error(`Policy ${policy.version} has no employment profile "${application.employmentType}".`);
+
+  // Risk, the scorecard and so the price are read off the loan as applied for.
+  const applied = buildMetricContext(application, product, profile, policy);
+  const creditRisk = assessRisk(policy.risk.creditRisk, applied.context, 'creditRisk');
+  const collateralRisk = assessRisk(policy.risk.collateralRisk, applied.context, 'collateralRisk');
+  const overallRiskScore = (policy.risk.levelScores[creditRisk] + policy.risk.levelScores[collateralRisk]) / 2;
+  const overallRisk = resolveBand(overallRiskScore, policy.risk.overall, applied.context, 'overallRisk').result;
+
+  const riskAssessment: RiskAssessment = {
+    creditRisk,
+    collateralRisk,
+    overallRisk,
+    riskScore: overallRiskScore
+  };
+
+  const scorecard = runScorecard(policy.scorecard, applied.context);
+  const pricing = priceLoan(application, policy.pricing, {
+    ...applied.context,
+    overallRisk,
+    riskGrade: scorecard.grade,
+    probabilityOfDefault: scorecard.probabilityOfDefault,
+  });
+
+  const {
+    context, metrics, loanStructure, parties, bureau, incomeVerification, kyc, collateral, financialAnalysis,
+  } = pricing.finalRate === application.interestRate
+    ? applied
+    : buildMetricContext({ ...application, interestRate: pricing.finalRate }, product, profile, policy);
+
+  const rbiCompliance: ComplianceCheck[] = [];
+  const bankPolicyCompliance: ComplianceCheck[] = [];
+  let earned = 0;
+  let totalWeight = 0;
+
+  policy.checks.forEach(definition => {
+    if (!product.checks.includes(definition.id)) return;
+    const value = evaluateExpression(definition.metric, context);
+    if (definition.appliesWhen && !matchesCondition(value, definition.appliesWhen, context)) return;
+
+    const band = resolveBand(value, definition.bands, context, definition.id);
+    const check: ComplianceCheck = {
+      id: definition.id,
+      parameter: definition.parameter,
+      status: band.result,
+      details: renderTemplate(band.details ?? definition.details, context),
+    };
+
+    totalWeight += definition.weight;
+    if (check.status === 'PASS') earned += definition.weight;
+    else if (check.status === 'WARNING') earned += definition.weight * policy.scoring.warningCredit;
+
+    (definition.category === 'rbi' ? rbiCompliance : bankPolicyCompliance).push(check);
+  });
+
+  // Score is the share of applicable weight earned, so products that skip checks stay on a 0-100 scale.
+  const score = totalWeight > 0 ? (earned / totalWeight) * 100 : 0;
+
+  // Decision Logic
+  const allChecks = [...rbiCompliance, ...bankPolicyCompliance];
+  const explanation = explainDecision(policy.decisionRules, allChecks, overallRisk);
+  const decisionContext: MetricContext = {
+    ...context,
+    failures: explanation.failures,
+    warnings: explanation.warnings,
+    scorecardScore: scorecard.score,
+    probabilityOfDefault: scorecard.probabilityOfDefault,
+    riskGrade: scorecard.grade,
+    pricedRate: pricing.finalRate,
+    apr: pricing.apr,
+  };
+
+  const rule = policy.decisionRules[explanation.firedRule];
+  if (!rule) throw new Error(`Policy ${policy.version} has no decision rule for this outcome.`);
+
+  return {
+    decision: rule.decision,
+    score,
+    reasons: renderConditionalTexts(rule.reasons, decisionContext),
+    rbiCompliance,
+    bankPolicyCompliance,
+    riskAssessment,
+    recommendations: renderConditionalTexts(rule.recommendations, decisionContext),
+    suggestedConditions: suggestConditions(rule.recommendations, decisionContext),
+    loanStructure,
+    employmentAssessment: {
+      employmentType: profile.employmentType,
+      profileName: profile.name,
+      declaredAnnualIncome: application.annualIncome,
+      incomeHaircut: profile.incomeHaircut,
+      eligibleAnnualIncome: parties.parties[0].eligibleAnnualIncome,
+      requiredIncomeProof: profile.incomeProof,
+    },
+    partyAssessment: parties,
+    scorecard,
+    pricing,
+    bureauSummary: bureau,
+    incomeVerification,
+    kyc,
+    collateral,
+    financialAnalysis,
+    ratios: {
+      loanToValue: metrics.loanToValue,
+      loanToIncome: metrics.loanToIncome,
+      debtToIncome: metrics.debtToIncome,
+      foir: loanStructure.foir,
+      collateralCoverage: metrics.collateralCoverage,
+    },
+    explanation,
+    policyVersion: policy.version
+  };
+}
@@ -0,0 +1,125 @@
+import { roleLabel } from './access';
+import type { CaseRecord, Referral, StatusChange } from './cases';
+import type { ReviewOverride } from './review';
+import type {
+  AppraisalResult,
+  ComplianceCheck,
+  Decision,
+  DecisionExplanation,
+  KeyRatios,
+  LoanApplication,
+  RiskAssessment,
+} from './types';
+
+/** What an entry records; only entries written before case events were audited carry none, and those are appraisals. */
+export type AuditEvent = 'APPRAISAL' | 'REVIEW' | 'STATUS_CHANGE';
+
+/** One appraisal, or a later decision on its case, frozen for inspection alongside the appraisal it acted on. */
+export interface AuditEntry {
+  sequence: number;
+  at: string;
+  actor: string;
+  /** Absent for stateless appraisals that were never saved as a case. */
+  caseId?: string;
+  event?: AuditEvent;
+  /** The checker's decision, for a REVIEW that closed the case. */
+  review?: ReviewOverride;
+  /** For a REVIEW beyond the reviewer's sanction authority, passed up instead of closing the case. */
+  referral?: Referral;
+  /** The status the event moved the case to; absent for a referral, which leaves the case queued. */
+  statusChange?: StatusChange;
+  policyVersion: string;
+  input: LoanApplication;
+  ratios: KeyRatios;
+  checks: ComplianceCheck[];
+  riskAssessment: RiskAssessment;
+  score: number;
+  decision: Decision;
+  reasons: string[];
+  explanation: DecisionExplanation;
+  /** `hash` of the previous entry; all zeros for the first. */
+  prevHash: string;
+  /** SHA-256 over the canonical JSON of every other field, `prevHash` included. */
+  hash: string;
+}
+
+export type AuditEntryContent = Omit<AuditEntry, 'sequence' | 'prevHash' | 'hash'>;
+
+/** The last entry appended, kept outside the log so that lines cut off its end are noticed. */
+export interface AuditHead {
+  sequence: number;
+  hash: string;
+}
+
+export type ChainVerification =
+  | { ok: true; entries: number; headHash: string }
+  | { ok: false; entries: number; brokenAt: number; reason: string };
+
+export const genesisHash = '0'.repeat(64);
+
+export function auditContent(
+  application: LoanApplication,
+  result: AppraisalResult,
+  actor: string,
+  at: string,
+  caseId?: string,
+): AuditEntryContent {
+  return {
+    at,
+    actor,
+    caseId,
+    event: 'APPRAISAL',
+    policyVersion: result.policyVersion,
+    input: application,
+    ratios: result.ratios,
+    checks: [...result.rbiCompliance, ...result.bankPolicyCompliance],
+    riskAssessment: result.riskAssessment,
+    score: result.score,
+    decision: result.decision,
+    reasons: result.reasons,
+    explanation: result.explanation,
+  };
+}
+
+/** A review or manual status change on a case, recorded against the appraisal the case holds. */
+export function caseEventContent(
+  record: CaseRecord & { result: AppraisalResult },
+  event: Exclude<AuditEvent, 'APPRAISAL'>,
+  actor: string,
+  at: string,
+): AuditEntryContent {
+  const referral = event === 'REVIEW' && !record.review ? record.referrals?.[record.referrals.length - 1] : undefined;
+  return {
+    ...auditContent(record.application as LoanApplication, record.result, actor, at, record.id),
+    event,
+    review: event === 'REVIEW' ? record.review : undefined,
+    referral,
+    statusChange: referral ? undefined : record.history[record.history.length - 1],
+  };
+}
+
+/** One-line account of what an entry recorded, for listings. */
+export function describeAuditEntry(entry: AuditEntry): string {
+  if (entry.event === 'REVIEW') {
+    if (entry.referral) return `Referred to ${roleLabel(entry.referral.to)}`;
+    return `Reviewed: ${entry.review?.decision ?? entry.statusChange?.to ?? 'unknown'}`;
+  }
+  if (entry.event === 'STATUS_CHANGE') return `Moved to ${entry.statusChange?.to.replace('_', ' ') ?? 'unknown'}`;
+  return entry.decision.replace('_', ' ');
+}
+
+/**
+ * JSON with object keys sorted and `undefined` members dropped, so the same
+ * entry always serializes to the same bytes no matter how it was built.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const members = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
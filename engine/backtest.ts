@@ -0,0 +1,186 @@
+import { appraise } from './appraise';
+import type { PrepareApplication } from './batch';
+import type { PolicyDocument } from './policy/types';
+import type { AppraisalResult, CheckStatus, Decision } from './types';
+import { validateLoanApplication } from './validate';
+
+/** An application to replay: a stored case or an uploaded sheet row, not yet validated. */
+export interface BacktestCase {
+  /** Case id, or `row N` for an uploaded sheet. */
+  id: string;
+  applicantName: string;
+  payload: unknown;
+}
+
+/** A check's status on one side of the comparison; NOT_EVALUATED when that policy does not run it for the product. */
+export type BacktestCheckStatus = CheckStatus | 'NOT_EVALUATED';
+
+export interface BacktestOutcome {
+  decision: Decision;
+  score: number;
+  riskGrade?: string;
+  pricedRate?: number;
+}
+
+export interface BacktestCaseDiff {
+  id: string;
+  applicantName: string;
+  /** Absent when the application is invalid under that policy; see `errors`. */
+  champion?: BacktestOutcome;
+  challenger?: BacktestOutcome;
+  checkChanges: { id: string; parameter: string; champion: BacktestCheckStatus; challenger: BacktestCheckStatus }[];
+  errors: string[];
+}
+
+export interface BacktestCheckDriver {
+  id: string;
+  parameter: string;
+  /** Cases where the check's status differs between the policies. */
+  changed: number;
+  /** Of those, cases where it got stricter (towards FAIL) or more lenient. */
+  tightened: number;
+  loosened: number;
+  /** Changed cases whose decision also moved; the checks most likely behind the shift. */
+  withDecisionChange: number;
+}
+
+export interface BacktestReport {
+  championVersion: string;
+  challengerVersion: string;
+  summary: {
+    total: number;
+    compared: number;
+    /** Valid under one policy only, or under neither. */
+    invalid: number;
+    decisionChanges: number;
+    /** Decision counts keyed by champion decision, then challenger decision. */
+    migration: Record<Decision, Record<Decision, number>>;
+    champion: Record<Decision, number>;
+    challenger: Record<Decision, number>;
+  };
+  /** Checks whose outcome changed on at least one case, most decision changes first. */
+  drivers: BacktestCheckDriver[];
+  /** Every replayed case; compare `champion.decision` with `challenger.decision` to find the movers. */
+  cases: BacktestCaseDiff[];
+}
+
+const decisions: Decision[] = ['APPROVED', 'REVIEW_REQUIRED', 'REJECTED'];
+
+const severity: Record<BacktestCheckStatus, number> = { NOT_EVALUATED: 0, PASS: 1, WARNING: 2, FAIL: 3 };
+
+const run = (
+  payload: unknown,
+  policy: PolicyDocument,
+  prepare: PrepareApplication,
+  label: string,
+  errors: string[],
+): AppraisalResult | undefined => {
+  const validation = validateLoanApplication(payload, policy);
+  if (!validation.ok) {
+    errors.push(...validation.errors.map(error => `${label}: ${error}`));
+    return undefined;
+  }
+  const application = prepare(validation.application);
+  try {
+    return appraise(application, policy);
+  } catch (error) {
+    errors.push(`${label}: ${(error as Error).message}`);
+    return undefined;
+  }
+};
+
+const outcome = (result: AppraisalResult): BacktestOutcome => ({
+  decision: result.decision,
+  score: result.score,
+  riskGrade: result.scorecard?.grade,
+  pricedRate: result.pricing?.finalRate,
+});
+
+const checksOf = (result: AppraisalResult) => [...result.rbiCompliance, ...result.bankPolicyCompliance];
+
+/**
+ * Replays each case through the champion (current) and challenger policies
+ * and reports how decisions migrate and which checks changed along the way.
+ * Each application is validated against each policy separately, since a
+ * challenger may change products or limits the validator enforces. Uploaded
+ * rows need `prepare` to be judged as live submissions; stored cases already
+ * carry what it stamps.
+ */
+export function runBacktest(
+  cases: BacktestCase[],
+  champion: PolicyDocument,
+  challenger: PolicyDocument,
+  prepare: PrepareApplication = application => application,
+): BacktestReport {
+  const counts = (): Record<Decision, number> => ({ APPROVED: 0, REVIEW_REQUIRED: 0, REJECTED: 0 });
+  const summary: BacktestReport['summary'] = {
+    total: cases.length,
+    compared: 0,
+    invalid: 0,
+    decisionChanges: 0,
+    migration: { APPROVED: counts(), REVIEW_REQUIRED: counts(), REJECTED: counts() },
+    champion: counts(),
+    challenger: counts(),
+  };
+  const drivers = new Map<string, BacktestCheckDriver>();
+
+  const diffs = cases.map(({ id, applicantName, payload }): BacktestCaseDiff => {
+    const errors: string[] = [];
+    const before = run(payload, champion, prepare, 'champion', errors);
+    const after = run(payload, challenger, prepare, 'challenger', errors);
+    const diff: BacktestCaseDiff = {
+      id,
+      applicantName,
+      champion: before && outcome(before),
+      challenger: after && outcome(after),
+      checkChanges: [],
+      errors,
+    };
+    if (!before || !after) {
+      summary.invalid++;
+      return diff;
+    }
+
+    summary.compared++;
+    summary.champion[before.decision]++;
+    summary.challenger[after.decision]++;
+    summary.migration[before.decision][after.decision]++;
+    const decisionChanged = before.decision !== after.decision;
+    if (decisionChanged) summary.decisionChanges++;
+
+    const beforeChecks = checksOf(before);
+    const afterChecks = checksOf(after);
+    const ids = [...new Set([...beforeChecks, ...afterChecks].map(check => check.id))];
+    ids.forEach(checkId => {
+      const was = beforeChecks.find(check => check.id === checkId);
+      const now = afterChecks.find(check => check.id === checkId);
+      const from: BacktestCheckStatus = was?.status ?? 'NOT_EVALUATED';
+      const to: BacktestCheckStatus = now?.status ?? 'NOT_EVALUATED';
+      if (from === to) return;
+
+      const parameter = (now ?? was)!.parameter;
+      diff.checkChanges.push({ id: checkId, parameter, champion: from, challenger: to });
+      const driver = drivers.get(checkId) ?? { id: checkId, parameter, changed: 0, tightened: 0, loosened: 0, withDecisionChange: 0 };
+      driver.changed++;
+      if (severity[to] > severity[from]) driver.tightened++;
+      else driver.loosened++;
+      if (decisionChanged) driver.withDecisionChange++;
+      drivers.set(checkId, driver);
+    });
+    return diff;
+  });
+
+  return {
+    championVersion: champion.version,
+    challengerVersion: challenger.version,
+    summary,
+    drivers: [...drivers.values()].sort((a, b) => b.withDecisionChange - a.withDecisionChange || b.changed - a.changed),
+    cases: diffs,
+  };
+}
+
+/** Whether the challenger moved this case, and which way: towards approval (-1) or rejection (1). */
+export const decisionShift = (diff: BacktestCaseDiff): number => {
+  if (!diff.champion || !diff.challenger) return 0;
+  return Math.sign(decisions.indexOf(diff.challenger.decision) - decisions.indexOf(diff.champion.decision));
+};
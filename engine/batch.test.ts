@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { appraiseBatch, parseCsv } from './batch';
+import { defaultPolicy } from './policy/default-policy';
+
+const sheet = parseCsv([
+  'name,amount,purpose,income,cibil,employment,experience,existing emi,collateral,tenure,rate',
+  'Asha Rao,2000000,home,1200000,780,salaried,6,10000,4000000,240,8.5',
+  'Ravi Kumar,0,home,1200000,780,salaried,6,10000,4000000,240,8.5',
+].join('\n'));
+
+describe('appraiseBatch', () => {
+  it('appraises valid rows and reports invalid ones by sheet line', () => {
+    const report = appraiseBatch(sheet, defaultPolicy);
+    expect(report.summary).toMatchObject({ total: 2, appraised: 1, invalid: 1 });
+    expect(report.rows[1]).toMatchObject({ row: 3, applicantName: 'Ravi Kumar' });
+  });
+
+  it('prepares each valid row before appraising it', () => {
+    const report = appraiseBatch(sheet, defaultPolicy, application => ({ ...application, appraisalDate: '2025-06-30' }));
+    expect(report.rows[0].application?.appraisalDate).toBe('2025-06-30');
+  });
+});
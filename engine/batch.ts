@@ -0,0 +1,262 @@
+import { appraise } from './appraise';
+import type { PolicyDocument } from './policy/types';
+import type { AppraisalResult, Decision, LoanApplication, RiskLevel } from './types';
+import { validateLoanApplication } from './validate';
+
+/** Parties are not captured in uploads; sheets carry one borrower per row. */
+type BatchField = Exclude<
+  keyof LoanApplication,
+  'coApplicants' | 'guarantors' | 'bureauReport' | 'incomeEvidence' | 'concessions' | 'kyc' | 'collateral' | 'financials' | 'appraisalDate'
+>;
+
+/** Upload columns in template order. Headers match a field name or alias regardless of case, spaces and punctuation. */
+export const batchColumns: { field: BatchField; aliases: string[]; numeric: boolean }[] = [
+  { field: 'applicantName', aliases: ['name', 'applicant'], numeric: false },
+  { field: 'loanAmount', aliases: ['amount'], numeric: true },
+  { field: 'loanPurpose', aliases: ['purpose', 'product'], numeric: false },
+  { field: 'annualIncome', aliases: ['income'], numeric: true },
+  { field: 'creditScore', aliases: ['cibil', 'cibilscore', 'bureauscore'], numeric: true },
+  { field: 'employmentType', aliases: ['employment'], numeric: false },
+  { field: 'employmentYears', aliases: ['experience', 'yearsemployed'], numeric: true },
+  { field: 'existingLoans', aliases: ['existingemi', 'existingemis'], numeric: true },
+  { field: 'collateralValue', aliases: ['collateral'], numeric: true },
+  { field: 'tenureMonths', aliases: ['tenure'], numeric: true },
+  { field: 'interestRate', aliases: ['rate', 'roi'], numeric: true },
+  { field: 'businessVintage', aliases: ['vintage', 'businessvintageyears'], numeric: true },
+];
+
+/** Most rows accepted in one upload; larger portfolios should be split. */
+export const maxBatchRows = 2000;
+
+export interface BatchRowResult {
+  /** 1-based line in the uploaded sheet, header included, so errors point at the right row. */
+  row: number;
+  applicantName: string;
+  application?: LoanApplication;
+  result?: AppraisalResult;
+  errors: string[];
+}
+
+export interface BatchReport {
+  policyVersion: string;
+  /** Header cells that matched no field and were ignored. */
+  ignoredColumns: string[];
+  rows: BatchRowResult[];
+  summary: {
+    total: number;
+    appraised: number;
+    invalid: number;
+    byDecision: Record<Decision, number>;
+    byRisk: Record<RiskLevel, number>;
+    /** Decision counts broken down by overall risk. */
+    matrix: Record<Decision, Record<RiskLevel, number>>;
+  };
+}
+
+const isBlank = (cells: string[]) => cells.every(value => value.trim() === '');
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, doubled quotes and line breaks). Blank lines are kept so row
+ * numbers match the file.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const source = text.replace(/^﻿/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  while (rows.length > 0 && isBlank(rows[rows.length - 1])) rows.pop();
+  return rows;
+}
+
+const parseNumber = (value: string): number | string | undefined => {
+  const cleaned = value.replace(/[₹,\s]/g, '');
+  if (cleaned === '') return undefined;
+  const parsed = Number(cleaned);
+  // Leave unparseable text in place so validation reports it against the field.
+  return Number.isFinite(parsed) ? parsed : value;
+};
+
+/** A sheet row as an unvalidated application payload. */
+export interface BatchRow {
+  /** 1-based line in the sheet, header included. */
+  row: number;
+  applicantName: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Maps a sheet's header row onto `LoanApplication` fields and turns each
+ * non-blank data row into a payload for `validateLoanApplication`.
+ */
+export function readBatchRows(table: string[][]): { rows: BatchRow[]; ignoredColumns: string[] } {
+  const [header = [], ...dataRows] = table;
+
+  const columnFields = header.map(name => {
+    const key = normalizeHeader(name);
+    return batchColumns.find(column => normalizeHeader(column.field) === key || column.aliases.includes(key));
+  });
+
+  const rows = dataRows.flatMap((cells, index): BatchRow[] => {
+    if (isBlank(cells)) return [];
+    const payload: Record<string, unknown> = {};
+    columnFields.forEach((column, columnIndex) => {
+      if (!column) return;
+      const raw = (cells[columnIndex] ?? '').trim();
+      const value = column.numeric ? parseNumber(raw) : raw.toLowerCase();
+      if (value !== undefined) payload[column.field] = column.field === 'applicantName' ? raw : value;
+    });
+    const applicantName = typeof payload.applicantName === 'string' ? payload.applicantName : '';
+    return [{ row: index + 2, applicantName, payload }];
+  });
+
+  const ignoredColumns = header.filter((name, index) => !columnFields[index] && name.trim() !== '');
+  return { rows, ignoredColumns };
+}
+
+/** Stamps what the server owns onto a validated application, as for a single submission. */
+export type PrepareApplication = (application: LoanApplication) => LoanApplication;
+
+const appraiseRow = ({ row, applicantName, payload }: BatchRow, policy: PolicyDocument, prepare: PrepareApplication): BatchRowResult => {
+  const validation = validateLoanApplication(payload, policy);
+  if (!validation.ok) return { row, applicantName, errors: validation.errors };
+
+  const application = prepare(validation.application);
+  try {
+    return { row, applicantName, application, result: appraise(application, policy), errors: [] };
+  } catch (error) {
+    return { row, applicantName, errors: [(error as Error).message] };
+  }
+};
+
+/**
+ * Validates and appraises every row of a sheet. Invalid rows are reported
+ * with their errors and skipped; they do not stop the rest of the batch.
+ * Each valid row goes through `prepare` first, so it is appraised exactly as
+ * the same application submitted on its own would be.
+ */
+export function appraiseBatch(
+  table: string[][],
+  policy: PolicyDocument,
+  prepare: PrepareApplication = application => application,
+): BatchReport {
+  const sheet = readBatchRows(table);
+  const rows = sheet.rows.map(row => appraiseRow(row, policy, prepare));
+
+  const risks = (): Record<RiskLevel, number> => ({ LOW: 0, MEDIUM: 0, HIGH: 0 });
+  const summary: BatchReport['summary'] = {
+    total: rows.length,
+    appraised: 0,
+    invalid: 0,
+    byDecision: { APPROVED: 0, REVIEW_REQUIRED: 0, REJECTED: 0 },
+    byRisk: risks(),
+    matrix: { APPROVED: risks(), REVIEW_REQUIRED: risks(), REJECTED: risks() },
+  };
+  rows.forEach(({ result }) => {
+    if (!result) {
+      summary.invalid++;
+      return;
+    }
+    summary.appraised++;
+    summary.byDecision[result.decision]++;
+    summary.byRisk[result.riskAssessment.overallRisk]++;
+    summary.matrix[result.decision][result.riskAssessment.overallRisk]++;
+  });
+
+  return { policyVersion: policy.version, ignoredColumns: sheet.ignoredColumns, rows, summary };
+}
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  // Prefix text that a spreadsheet would run as a formula.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** One CSV line per uploaded row: inputs, outcome, and a column per check with its status. */
+export function batchResultsCsv(report: BatchReport): string {
+  const checkColumns: { id: string; parameter: string }[] = [];
+  report.rows.forEach(({ result }) => {
+    [...(result?.rbiCompliance ?? []), ...(result?.bankPolicyCompliance ?? [])].forEach(check => {
+      if (!checkColumns.some(column => column.id === check.id)) checkColumns.push({ id: check.id, parameter: check.parameter });
+    });
+  });
+
+  const header = [
+    'row',
+    ...batchColumns.map(column => column.field),
+    'decision',
+    'score',
+    'overallRisk',
+    'creditRisk',
+    'collateralRisk',
+    'riskGrade',
+    'probabilityOfDefault',
+    'reasonCodes',
+    'proposedEmi',
+    'foir',
+    'maxSanctionableAmount',
+    ...checkColumns.map(column => column.parameter),
+    'errors',
+  ];
+
+  const lines = report.rows.map(({ row, applicantName, application, result, errors }) => {
+    const checks = [...(result?.rbiCompliance ?? []), ...(result?.bankPolicyCompliance ?? [])];
+    return [
+      row,
+      ...batchColumns.map(column => (column.field === 'applicantName' ? applicantName : application?.[column.field])),
+      result?.decision,
+      result?.score.toFixed(1),
+      result?.riskAssessment.overallRisk,
+      result?.riskAssessment.creditRisk,
+      result?.riskAssessment.collateralRisk,
+      result?.scorecard.grade,
+      result?.scorecard.probabilityOfDefault.toFixed(4),
+      result?.scorecard.reasonCodes.map(reason => reason.code).join(' '),
+      result && Math.round(result.loanStructure.proposedEmi),
+      result?.loanStructure.foir.toFixed(2),
+      result && Math.round(result.loanStructure.maxSanctionableAmount),
+      ...checkColumns.map(column => checks.find(check => check.id === column.id)?.status ?? (result ? 'N/A' : undefined)),
+      errors.join(' '),
+    ].map(csvCell).join(',');
+  });
+
+  return [header.map(csvCell).join(','), ...lines].join('\r\n');
+}
+
+/** A header-only CSV to fill in. */
+export const batchTemplateCsv = () => `${batchColumns.map(column => column.field).join(',')}\r\n`;
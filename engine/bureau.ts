@@ -0,0 +1,214 @@
+export type TradelineStatus = 'ACTIVE' | 'CLOSED' | 'WRITTEN_OFF' | 'SETTLED';
+
+export const tradelineStatuses: TradelineStatus[] = ['ACTIVE', 'CLOSED', 'WRITTEN_OFF', 'SETTLED'];
+
+/** One month of a tradeline's repayment record; `dpd` is days past due at month end. */
+export interface PaymentRecord {
+  /** `YYYY-MM`. */
+  month: string;
+  dpd: number;
+}
+
+export interface Tradeline {
+  lender: string;
+  accountType: string;
+  status: TradelineStatus;
+  sanctionedAmount: number;
+  currentBalance: number;
+  /** Monthly instalment; only counted while the account is ACTIVE. */
+  emi: number;
+  /** `YYYY-MM-DD`. */
+  openedOn: string;
+  paymentHistory: PaymentRecord[];
+}
+
+export interface BureauEnquiry {
+  /** `YYYY-MM-DD`. */
+  date: string;
+  lender: string;
+  purpose: string;
+}
+
+/** A credit information report as issued by a bureau (CIBIL-style). */
+export interface BureauReport {
+  bureau: string;
+  reportId: string;
+  /** `YYYY-MM-DD`; the look-back windows below are measured from this date. */
+  reportDate: string;
+  subjectName: string;
+  pan?: string;
+  score: number;
+  accounts: Tradeline[];
+  enquiries: BureauEnquiry[];
+}
+
+export interface BureauSummary {
+  bureau: string;
+  reportId: string;
+  reportDate: string;
+  score: number;
+  activeAccounts: number;
+  /** Sum of EMIs on active tradelines; becomes the application's `existingLoans`. */
+  activeEmi: number;
+  totalOutstanding: number;
+  /** Worst days-past-due reported on any account in the last 24 months. */
+  maxDpd24m: number;
+  /** Accounts that were 90 or more days past due at least once in the last 24 months. */
+  dpd90Accounts24m: number;
+  writtenOffAccounts: number;
+  settledAccounts: number;
+  enquiries6m: number;
+  /** Months since the oldest tradeline was opened; 0 for a new-to-credit borrower. */
+  creditVintageMonths: number;
+}
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+const isoMonth = /^\d{4}-\d{2}$/;
+
+const monthIndex = (date: string) => parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1;
+
+const readNumber = (value: unknown): number | undefined => {
+  // XML reports carry every value as text.
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const readString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/** A single child element in an XML-derived report comes through as an object rather than a list. */
+const asList = (value: unknown): unknown[] => {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * Checks an untrusted report (parsed JSON, or XML converted to the same
+ * shape) and returns it typed. Errors name the offending path, e.g.
+ * `accounts[2].status`.
+ */
+export function normaliseBureauReport(payload: unknown): { ok: true; report: BureauReport } | { ok: false; errors: string[] } {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return { ok: false, errors: ['Bureau report must be an object.'] };
+  }
+  const input = payload as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const text = (record: Record<string, unknown>, key: string, where: string) => {
+    const value = readString(record[key]);
+    if (value === undefined) errors.push(`${where}${key} is required.`);
+    return value ?? '';
+  };
+  const amount = (record: Record<string, unknown>, key: string, where: string) => {
+    const value = readNumber(record[key] ?? 0);
+    if (value === undefined || value < 0) errors.push(`${where}${key} must be a non-negative number.`);
+    return value ?? 0;
+  };
+  const date = (record: Record<string, unknown>, key: string, where: string) => {
+    const value = text(record, key, where);
+    if (value !== '' && !isoDate.test(value)) errors.push(`${where}${key} must be a YYYY-MM-DD date.`);
+    return value;
+  };
+
+  const score = readNumber(input.score);
+  if (score === undefined || score < 300 || score > 900) {
+    errors.push('score must be between 300 and 900.');
+  }
+
+  const accounts = asList(asRecord(input.accounts).account ?? input.accounts).map((entry, index): Tradeline => {
+    const where = `accounts[${index}].`;
+    const record = asRecord(entry);
+    const status = readString(record.status)?.toUpperCase().replace(/[\s-]/g, '_') as TradelineStatus | undefined;
+    if (!status || !tradelineStatuses.includes(status)) {
+      errors.push(`${where}status must be one of: ${tradelineStatuses.join(', ')}.`);
+    }
+    const paymentHistory = asList(asRecord(record.paymentHistory).payment ?? record.paymentHistory).map((item, month) => {
+      const payment = asRecord(item);
+      const at = `${where}paymentHistory[${month}].`;
+      const monthValue = text(payment, 'month', at);
+      if (monthValue !== '' && !isoMonth.test(monthValue)) errors.push(`${at}month must be a YYYY-MM month.`);
+      return { month: monthValue, dpd: amount(payment, 'dpd', at) };
+    });
+    return {
+      lender: text(record, 'lender', where),
+      accountType: text(record, 'accountType', where),
+      status: status ?? 'ACTIVE',
+      sanctionedAmount: amount(record, 'sanctionedAmount', where),
+      currentBalance: amount(record, 'currentBalance', where),
+      emi: amount(record, 'emi', where),
+      openedOn: date(record, 'openedOn', where),
+      paymentHistory,
+    };
+  });
+
+  const enquiries = asList(asRecord(input.enquiries).enquiry ?? input.enquiries).map((entry, index): BureauEnquiry => {
+    const where = `enquiries[${index}].`;
+    const record = asRecord(entry);
+    return {
+      date: date(record, 'date', where),
+      lender: text(record, 'lender', where),
+      purpose: readString(record.purpose) ?? '',
+    };
+  });
+
+  const report: BureauReport = {
+    bureau: text(input, 'bureau', ''),
+    reportId: text(input, 'reportId', ''),
+    reportDate: date(input, 'reportDate', ''),
+    subjectName: text(input, 'subjectName', ''),
+    pan: readString(input.pan),
+    score: score ?? 0,
+    accounts,
+    enquiries,
+  };
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, report };
+}
+
+/**
+ * Derives the figures the policy checks on. Windows are counted in whole
+ * months back from the report date, so the same report always summarises
+ * the same way.
+ */
+export function summariseBureauReport(report: BureauReport): BureauSummary {
+  const reportMonth = monthIndex(report.reportDate);
+  const withinMonths = (date: string, months: number) => reportMonth - monthIndex(date) < months;
+
+  const active = report.accounts.filter(account => account.status === 'ACTIVE');
+  const recentDpd = report.accounts.map(account =>
+    Math.max(0, ...account.paymentHistory.filter(payment => withinMonths(payment.month, 24)).map(payment => payment.dpd)));
+  const oldest = Math.min(...report.accounts.map(account => monthIndex(account.openedOn)));
+
+  return {
+    bureau: report.bureau,
+    reportId: report.reportId,
+    reportDate: report.reportDate,
+    score: report.score,
+    activeAccounts: active.length,
+    activeEmi: active.reduce((sum, account) => sum + account.emi, 0),
+    totalOutstanding: active.reduce((sum, account) => sum + account.currentBalance, 0),
+    maxDpd24m: Math.max(0, ...recentDpd),
+    dpd90Accounts24m: recentDpd.filter(dpd => dpd >= 90).length,
+    writtenOffAccounts: report.accounts.filter(account => account.status === 'WRITTEN_OFF').length,
+    settledAccounts: report.accounts.filter(account => account.status === 'SETTLED').length,
+    enquiries6m: report.enquiries.filter(enquiry => withinMonths(enquiry.date, 6)).length,
+    creditVintageMonths: report.accounts.length > 0 ? Math.max(0, reportMonth - oldest) : 0,
+  };
+}
+
+/** Bureau figures policy checks can reference; `bureauReportAttached` is 0 and the rest zeros without a report. */
+export function bureauMetrics(summary: BureauSummary | undefined) {
+  return {
+    bureauReportAttached: summary ? 1 : 0,
+    bureauActiveAccounts: summary?.activeAccounts ?? 0,
+    bureauActiveEmi: summary?.activeEmi ?? 0,
+    bureauMaxDpd24m: summary?.maxDpd24m ?? 0,
+    bureauDpd90Accounts24m: summary?.dpd90Accounts24m ?? 0,
+    bureauWrittenOff: summary?.writtenOffAccounts ?? 0,
+    bureauSettled: summary?.settledAccounts ?? 0,
+    bureauEnquiries6m: summary?.enquiries6m ?? 0,
+    bureauVintageMonths: summary?.creditVintageMonths ?? 0,
+  };
+}
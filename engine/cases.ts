@@ -0,0 +1,111 @@
+import type { Role } from './policy/types';
+import type { ReviewOverride, SanctionCondition } from './review';
+import type { AppraisalResult, Decision, LoanApplication, RiskLevel } from './types';
+import type { CaseStatus } from './workflow';
+
+export interface StatusChange {
+  from: CaseStatus | null;
+  to: CaseStatus;
+  at: string;
+  by: string;
+  note?: string;
+}
+
+/** An approval recommended by a reviewer without the authority to sanction it, passed up the delegation. */
+export interface Referral {
+  by: string;
+  role: Role;
+  to: Role;
+  reason: string;
+  remarks: string;
+  /** Conditions the recommending reviewer proposed. */
+  conditions: SanctionCondition[];
+  at: string;
+}
+
+export interface CaseRecord {
+  id: string;
+  status: CaseStatus;
+  /** Drafts may be incomplete; once submitted the application has passed validation. */
+  application: Partial<LoanApplication>;
+  result?: AppraisalResult;
+  /** The checker's decision on a reviewed case; `result.decision` stays the system's. */
+  review?: ReviewOverride;
+  /** The maker who opened the case. */
+  createdBy: string;
+  /** The maker's branch; cases opened before branch scoping have none. */
+  branch?: string;
+  /** Set while an approval beyond the deciding user's sanction authority awaits a more senior one. */
+  referredTo?: Role;
+  referrals?: Referral[];
+  createdAt: string;
+  updatedAt: string;
+  history: StatusChange[];
+}
+
+export interface CaseSummary {
+  id: string;
+  status: CaseStatus;
+  applicantName: string;
+  loanPurpose: string;
+  loanAmount: number;
+  decision?: Decision;
+  reviewDecision?: Decision;
+  overallRisk?: RiskLevel;
+  score?: number;
+  createdBy: string;
+  branch?: string;
+  referredTo?: Role;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CaseFilter {
+  /** Case-insensitive match on case id or applicant name. */
+  q?: string;
+  status?: CaseStatus;
+  decision?: Decision;
+  loanPurpose?: string;
+  risk?: RiskLevel;
+  /** Exact branch code; cases without one never match. */
+  branch?: string;
+  /** Inclusive ISO dates (YYYY-MM-DD) on `createdAt`. */
+  from?: string;
+  to?: string;
+}
+
+export function summarizeCase(record: CaseRecord): CaseSummary {
+  return {
+    id: record.id,
+    status: record.status,
+    applicantName: record.application.applicantName ?? '',
+    loanPurpose: record.application.loanPurpose ?? '',
+    loanAmount: record.application.loanAmount ?? 0,
+    decision: record.result?.decision,
+    reviewDecision: record.review?.decision,
+    overallRisk: record.result?.riskAssessment.overallRisk,
+    score: record.result?.score,
+    createdBy: record.createdBy,
+    branch: record.branch,
+    referredTo: record.referredTo,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+export function matchesCaseFilter(record: CaseRecord, filter: CaseFilter): boolean {
+  const q = filter.q?.trim().toLowerCase();
+  if (q && !record.id.toLowerCase().includes(q) && !(record.application.applicantName ?? '').toLowerCase().includes(q)) {
+    return false;
+  }
+  if (filter.status && record.status !== filter.status) return false;
+  if (filter.decision && record.result?.decision !== filter.decision) return false;
+  if (filter.loanPurpose && record.application.loanPurpose !== filter.loanPurpose) return false;
+  if (filter.risk && record.result?.riskAssessment.overallRisk !== filter.risk) return false;
+  if (filter.branch && record.branch !== filter.branch) return false;
+
+  const createdOn = record.createdAt.slice(0, 10);
+  if (filter.from && createdOn < filter.from) return false;
+  if (filter.to && createdOn > filter.to) return false;
+  return true;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { assessCollateral, type CollateralSecurity } from './collateral';
+import { defaultPolicy } from './policy/default-policy';
+
+const rules = { ...defaultPolicy.collateral, unlistedHaircut: 0.2 };
+
+const gold: CollateralSecurity = {
+  type: 'GOLD',
+  description: 'Gold ornaments, 120 g',
+  marketValue: 800000,
+  valuationDate: '2025-06-01',
+  valuer: 'Branch appraiser',
+  ownership: 'APPLICANT',
+};
+
+describe('assessCollateral', () => {
+  it('haircuts a declared value with no securities behind it', () => {
+    expect(assessCollateral(undefined, 1000000, rules)).toMatchObject({
+      marketValue: 1000000,
+      unlistedValue: 1000000,
+      eligibleValue: 800000,
+    });
+  });
+
+  it('haircuts the declared value beyond the listed securities, on top of their own haircuts', () => {
+    // Gold: ₹8L less 25%; the ₹2L not itemised less 20%.
+    expect(assessCollateral([gold], 1000000, rules)).toMatchObject({ unlistedValue: 200000, eligibleValue: 760000 });
+  });
+
+  it('adds nothing unlisted when the securities cover the declared value', () => {
+    expect(assessCollateral([gold], 800000, rules).eligibleValue).toBe(600000);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { appraise } from './appraise';
+import type { CaseRecord } from './cases';
+import { documentData, documentUnavailableReason, effectiveDecision } from './documents';
+import { calculateEmi } from './loan-structure';
+import type { CaseStatus } from './workflow';
+
+const application = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  collateralValue: 4000000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+};
+
+// The system approves this application; the status is what a user did with it afterwards.
+const caseAt = (status: CaseStatus): CaseRecord => ({
+  id: 'LA-20250630-00001',
+  status,
+  application,
+  result: appraise(application),
+  createdBy: 'maker',
+  createdAt: '2025-06-30T10:00:00.000Z',
+  updatedAt: '2025-06-30T10:00:00.000Z',
+  history: [],
+});
+
+describe('documentUnavailableReason', () => {
+  it.each([
+    ['APPRAISED', 'sanction-letter', false],
+    ['APPRAISED', 'rejection-letter', false],
+    ['APPRAISED', 'appraisal-note', true],
+    ['UNDER_REVIEW', 'sanction-letter', false],
+    ['SANCTIONED', 'sanction-letter', true],
+    ['SANCTIONED', 'rejection-letter', false],
+    ['DECLINED', 'sanction-letter', false],
+    ['DECLINED', 'rejection-letter', true],
+  ] as const)('on a system-approved case that is %s, a %s can be issued: %s', (status, kind, issuable) => {
+    expect(documentUnavailableReason(caseAt(status), kind) === undefined).toBe(issuable);
+  });
+
+  it('states a system approval declined by hand as rejected', () => {
+    expect(effectiveDecision(caseAt('DECLINED'))).toBe('REJECTED');
+  });
+});
+
+describe('documentData', () => {
+  it('loads the priced rate and re-prices the EMI for a sanction with a rate loading', () => {
+    const record: CaseRecord = {
+      ...caseAt('SANCTIONED'),
+      review: {
+        systemDecision: 'APPROVED',
+        decision: 'APPROVED',
+        remarks: 'Sanctioned with a rate loading.',
+        conditions: [
+          { type: 'RATE_LOADING', description: 'Loading for thin file', value: 50 },
+          { type: 'REDUCED_AMOUNT', description: 'Reduced', value: 1500000 },
+        ],
+        reviewer: 'manager',
+        maker: 'maker',
+        at: '2025-06-30T11:00:00.000Z',
+      },
+    };
+    const { context } = documentData(record, 'Home Loan', '2025-06-30T12:00:00.000Z');
+    const finalRate = record.result!.pricing.finalRate;
+    expect(context.sanctionedRate).toBeCloseTo(finalRate + 0.5, 10);
+    expect(context.spreadBps).toBe(record.result!.pricing.totalSpreadBps + 50);
+    expect(context.sanctionedAmount).toBe(1500000);
+    expect(context.sanctionedEmi).toBeCloseTo(calculateEmi(1500000, finalRate + 0.5, 240), 6);
+    // 0.5% of ₹15 lakh with 18% GST.
+    expect([context.processingFee, context.processingFeeGst]).toEqual([7500, 1350]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { CaseRecord } from './cases';
+import type { CollateralLine } from './collateral';
+import type { FinancialAnalysis } from './financials';
+import { calculateApr, calculateEmi } from './loan-structure';
+import { processingFeeFor } from './pricing';
+import { renderTemplate } from './policy/evaluate';
+import type { MetricContext } from './policy/expression';
+import type { ComplianceCheck, Decision } from './types';
+
+export type DocumentKind = 'appraisal-note' | 'sanction-letter' | 'rejection-letter';
+
+export const documentKinds: { kind: DocumentKind; label: string }[] = [
+  { kind: 'appraisal-note', label: 'Credit appraisal note' },
+  { kind: 'sanction-letter', label: 'Sanction letter' },
+  { kind: 'rejection-letter', label: 'Rejection letter' },
+];
+
+export type DocumentBlockKind = 'title' | 'heading' | 'paragraph' | 'bullet' | 'rule';
+
+export interface DocumentBlock {
+  kind: DocumentBlockKind;
+  text: string;
+}
+
+export interface RenderedDocument {
+  blocks: DocumentBlock[];
+  /** Printed at the foot of every page; set with an `@footer` line in the template. */
+  footer?: string;
+}
+
+/** Scalar placeholders plus the lists a template can expand with `{{each name}}`. */
+export interface DocumentData {
+  context: MetricContext;
+  lists: Record<string, string[]>;
+}
+
+/** What the case was closed as where it has been, otherwise the reviewer's decision or the system's. */
+export const effectiveDecision = (record: CaseRecord): Decision | undefined => {
+  if (record.status === 'SANCTIONED') return 'APPROVED';
+  if (record.status === 'DECLINED') return 'REJECTED';
+  return record.review?.decision ?? record.result?.decision;
+};
+
+/** The amount sanctioned: the reviewer's reduced amount where one was set, otherwise the amount appraised. */
+export const sanctionedAmountOf = (record: CaseRecord): number =>
+  record.review?.conditions.find(condition => condition.type === 'REDUCED_AMOUNT')?.value ??
+  record.result?.loanStructure.loanAmount ??
+  record.application.loanAmount ??
+  0;
+
+/**
+ * Why `kind` cannot be issued for this case, or undefined when it can. Letters
+ * follow the case status, not a decision: a system approval declined by hand
+ * is DECLINED, and an appraised case is not sanctioned until someone does so.
+ */
+export function documentUnavailableReason(record: CaseRecord, kind: DocumentKind): string | undefined {
+  if (!record.result) return 'the case has not been appraised';
+  if (record.status === 'UNDER_REVIEW' && kind !== 'appraisal-note') return 'the case is awaiting a reviewer decision';
+  if (kind === 'sanction-letter' && record.status !== 'SANCTIONED') return 'sanction letters are only issued for sanctioned cases';
+  if (kind === 'rejection-letter' && record.status !== 'DECLINED') return 'rejection letters are only issued for declined cases';
+  return undefined;
+}
+
+const checkLine = (check: ComplianceCheck) => `[${check.status}] ${check.parameter}: ${check.details}`;
+
+const rupees = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const securityLine = (security: CollateralLine) =>
+  `${security.type.replace('_', ' ')}${security.description ? ` (${security.description})` : ''}: ${rupees(security.marketValue)} ` +
+  `valued by ${security.valuer} on ${security.valuationDate}, ${(security.haircut * 100).toFixed(0)}% haircut, eligible ${rupees(security.eligibleValue)}`;
+
+const financialLines = (analysis: FinancialAnalysis) => [
+  `${analysis.years} year(s) analysed to ${analysis.latestYear}; turnover ${rupees(analysis.latestTurnover)}, ` +
+    `growing ${(analysis.turnoverGrowth * 100).toFixed(1)}% a year; MSME class ${analysis.msmeClass}`,
+  `DSCR ${analysis.dscr.toFixed(2)}x, current ratio ${analysis.currentRatio.toFixed(2)}, ` +
+    `TOL/TNW ${analysis.tangibleNetWorth > 0 ? analysis.tolTnw.toFixed(2) : 'n/a (net worth eroded)'}, ` +
+    `interest coverage ${analysis.interestCoverage.toFixed(2)}x`,
+  ...(analysis.facility === 'WORKING_CAPITAL'
+    ? [`Working capital (${analysis.workingCapital.method === 'TURNOVER' ? 'turnover method' : 'MPBF'}): assessed limit ${rupees(analysis.workingCapital.assessedLimit)}`]
+    : []),
+];
+
+/**
+ * Flattens a decided case into template data. Sanction terms start from the
+ * risk-based price and apply any reduced-amount and rate-loading conditions
+ * the reviewer attached, so the letter states what was actually sanctioned
+ * rather than what was asked for.
+ */
+export function documentData(record: CaseRecord, productName: string, issuedAt: string): DocumentData {
+  const result = record.result;
+  if (!result) throw new Error(`Case ${record.id} has no appraisal to document.`);
+
+  const conditions = record.review?.conditions ?? [];
+  const rateLoadingBps = conditions.find(condition => condition.type === 'RATE_LOADING')?.value ?? 0;
+  const sanctionedAmount = sanctionedAmountOf(record);
+  // Results from before risk-based pricing carry only the requested rate.
+  const sanctionedRate = (result.pricing?.finalRate ?? result.loanStructure.interestRate) + rateLoadingBps / 100;
+  const fees = result.pricing ? processingFeeFor(sanctionedAmount, result.pricing.feeSchedule) : { fee: 0, gst: 0 };
+  const checks = [...result.rbiCompliance, ...result.bankPolicyCompliance];
+
+  const principalReasons = [
+    ...checks.filter(check => check.status === 'FAIL').map(check => `${check.parameter}: ${check.details}`),
+    ...(result.decision === 'REJECTED' ? result.reasons : []),
+  ];
+
+  return {
+    context: {
+      caseId: record.id,
+      issuedDate: issuedAt.slice(0, 10),
+      applicantName: record.application.applicantName ?? '',
+      productName,
+      employmentProfile: result.employmentAssessment.profileName,
+      policyVersion: result.policyVersion,
+      systemDecision: result.decision.replace('_', ' '),
+      finalDecision: (effectiveDecision(record) ?? result.decision).replace('_', ' '),
+      score: result.score,
+      creditRisk: result.riskAssessment.creditRisk,
+      collateralRisk: result.riskAssessment.collateralRisk,
+      overallRisk: result.riskAssessment.overallRisk,
+      riskScore: result.riskAssessment.riskScore,
+      requestedAmount: result.loanStructure.loanAmount,
+      maxSanctionableAmount: result.loanStructure.maxSanctionableAmount,
+      declaredIncome: result.employmentAssessment.declaredAnnualIncome,
+      eligibleIncome: result.employmentAssessment.eligibleAnnualIncome,
+      foir: result.loanStructure.foir,
+      foirLimit: result.loanStructure.foirLimit,
+      loanToValue: result.ratios.loanToValue * 100,
+      collateralMarketValue: result.collateral?.marketValue ?? record.application.collateralValue ?? 0,
+      eligibleCollateralValue: result.collateral?.eligibleValue ?? record.application.collateralValue ?? 0,
+      debtToIncome: result.ratios.debtToIncome,
+      sanctionedAmount,
+      sanctionedRate,
+      tenureMonths: result.loanStructure.tenureMonths,
+      sanctionedEmi: calculateEmi(sanctionedAmount, sanctionedRate, result.loanStructure.tenureMonths),
+      benchmark: result.pricing?.benchmark ?? 'Fixed rate',
+      benchmarkRate: result.pricing?.benchmarkRate ?? sanctionedRate,
+      spreadBps: result.pricing ? result.pricing.totalSpreadBps + rateLoadingBps : rateLoadingBps,
+      riskGrade: result.scorecard?.grade ?? 'N/A',
+      processingFee: fees.fee,
+      processingFeeGst: fees.gst,
+      sanctionedApr: calculateApr(sanctionedAmount, sanctionedRate, result.loanStructure.tenureMonths, fees.fee + fees.gst),
+      reviewer: record.review?.reviewer ?? 'system',
+      reviewRemarks: record.review?.remarks ?? 'Not reviewed.',
+    },
+    lists: {
+      rbiChecks: result.rbiCompliance.map(checkLine),
+      bankChecks: result.bankPolicyCompliance.map(checkLine),
+      reasons: result.reasons,
+      recommendations: result.recommendations,
+      requiredIncomeProof: result.employmentAssessment.requiredIncomeProof,
+      securities: result.collateral?.securities.length
+        ? result.collateral.securities.map(securityLine)
+        : ['No itemised securities.'],
+      financials: result.financialAnalysis ? financialLines(result.financialAnalysis) : ['No financial statements analysed.'],
+      conditions: conditions.length > 0 ? conditions.map(condition => condition.description) : ['No conditions beyond the standard terms.'],
+      principalReasons: principalReasons.length > 0 ? principalReasons : result.reasons,
+    },
+  };
+}
+
+const eachPattern = /\{\{\s*each\s+(\w+)\s*\}\}/;
+
+/**
+ * Renders a document template. Templates are line based: `# ` is the title,
+ * `## ` a heading, `- ` a bullet, `---` a rule, and consecutive plain lines
+ * form a paragraph that keeps their line breaks. A line containing
+ * `{{each list}}` is repeated once per list item; other placeholders use the
+ * policy template syntax, so `{{sanctionedAmount | inr}}` works as it does in
+ * policy texts.
+ */
+export function renderDocument(template: string, data: DocumentData): RenderedDocument {
+  const blocks: DocumentBlock[] = [];
+  let footer: string | undefined;
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  const expand = (line: string): string[] => {
+    const match = line.match(eachPattern);
+    if (!match) return [renderTemplate(line, data.context)];
+    const items = data.lists[match[1]];
+    if (!items) throw new Error(`Template refers to unknown list "${match[1]}".`);
+    // Render the line once with a marker in place of the list so item text is never parsed as a placeholder.
+    const rendered = renderTemplate(line.replace(eachPattern, '\u0000'), data.context);
+    return items.map(item => rendered.replace('\u0000', () => item));
+  };
+
+  template.split(/\r?\n/).forEach(raw => {
+    const line = raw.trimEnd();
+    if (line.startsWith('@footer ')) {
+      footer = renderTemplate(line.slice('@footer '.length), data.context);
+      return;
+    }
+    if (line.trim() === '') return flush();
+    if (line.trim() === '---') {
+      flush();
+      blocks.push({ kind: 'rule', text: '' });
+      return;
+    }
+
+    expand(line).forEach(text => {
+      if (text.startsWith('## ')) {
+        flush();
+        blocks.push({ kind: 'heading', text: text.slice(3) });
+      } else if (text.startsWith('# ')) {
+        flush();
+        blocks.push({ kind: 'title', text: text.slice(2) });
+      } else if (text.startsWith('- ')) {
+        flush();
+        blocks.push({ kind: 'bullet', text: text.slice(2) });
+      } else {
+        paragraph.push(text.trim());
+      }
+    });
+  });
+  flush();
+
+  return { blocks, footer };
+}
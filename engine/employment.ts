@@ -0,0 +1,35 @@
+import type { EmploymentProfile, PolicyDocument, ProductDefinition } from './policy/types';
+import { findProduct } from './products';
+
+export interface EmploymentMetrics {
+  employmentProfileName: string;
+  minEmploymentYears: number;
+  warningEmploymentYears: number;
+  /** Strictest of the profile and product vintage requirements; 0 when none applies. */
+  minBusinessVintage: number;
+  incomeHaircut: number;
+  /** 1 when the profile expects monthly salary credits, else 0. */
+  salaryCreditsExpected: number;
+}
+
+export function findEmploymentProfile(policy: Pick<PolicyDocument, 'employmentProfiles'>, employmentType: string): EmploymentProfile | undefined {
+  return policy.employmentProfiles.find(profile => profile.employmentType === employmentType);
+}
+
+export function employmentMetrics(profile: EmploymentProfile, product: ProductDefinition): EmploymentMetrics {
+  return {
+    employmentProfileName: profile.name,
+    minEmploymentYears: profile.minEmploymentYears,
+    warningEmploymentYears: profile.warningEmploymentYears,
+    minBusinessVintage: Math.max(profile.minBusinessVintageYears ?? 0, product.minBusinessVintageYears ?? 0),
+    incomeHaircut: profile.incomeHaircut,
+    salaryCreditsExpected: profile.salaryCredits ? 1 : 0,
+  };
+}
+
+/** Whether `businessVintage` must be captured for this employment type and purpose. */
+export function requiresBusinessVintage(policy: PolicyDocument, employmentType: string, loanPurpose: string): boolean {
+  const profile = findEmploymentProfile(policy, employmentType);
+  const product = findProduct(policy, loanPurpose);
+  return (profile?.minBusinessVintageYears ?? 0) > 0 || (product?.minBusinessVintageYears ?? 0) > 0;
+}
@@ -0,0 +1,54 @@
+import type { DecisionRule } from './policy/types';
+import type { ComplianceCheck, DecisionExplanation, RiskLevel, RuleTrace } from './types';
+
+const traceRule = (rule: DecisionRule, failures: number, warnings: number, overallRisk: RiskLevel) => {
+  const matched: string[] = [];
+  const unmet: string[] = [];
+  const test = (holds: boolean, description: string) => (holds ? matched : unmet).push(description);
+
+  if (rule.minFailures !== undefined) {
+    test(failures >= rule.minFailures, `${failures} failed check(s) against a threshold of ${rule.minFailures}`);
+  }
+  if (rule.minWarnings !== undefined) {
+    test(warnings >= rule.minWarnings, `${warnings} warning(s) against a threshold of ${rule.minWarnings}`);
+  }
+  if (rule.overallRisk) {
+    test(rule.overallRisk.includes(overallRisk), `overall risk ${overallRisk} against ${rule.overallRisk.join('/')}`);
+  }
+  if (matched.length === 0 && unmet.length === 0) matched.push('fallback rule with no thresholds');
+
+  return { matched, unmet };
+};
+
+/**
+ * Walks the decision rules in policy order, recording for each one which of
+ * its thresholds held, so a decision can be traced to the exact branch taken.
+ * Rules after the one that fired are reported as not reached.
+ */
+export function explainDecision(
+  rules: DecisionRule[],
+  checks: ComplianceCheck[],
+  overallRisk: RiskLevel,
+): DecisionExplanation {
+  const failedChecks = checks.filter(check => check.status === 'FAIL').map(check => check.id);
+  const warningChecks = checks.filter(check => check.status === 'WARNING').map(check => check.id);
+
+  let firedAt = -1;
+  const traces: RuleTrace[] = rules.map((rule, index) => {
+    const { matched, unmet } = traceRule(rule, failedChecks.length, warningChecks.length, overallRisk);
+    const reached = firedAt === -1;
+    const fired = reached && matched.length > 0;
+    if (fired) firedAt = index;
+    return { decision: rule.decision, reached, fired, matched, unmet };
+  });
+
+  return {
+    failures: failedChecks.length,
+    warnings: warningChecks.length,
+    overallRisk,
+    failedChecks,
+    warningChecks,
+    rules: traces,
+    firedRule: firedAt,
+  };
+}
@@ -0,0 +1,210 @@
+import type { FinancialAnalysisRules, MsmeClass } from './policy/types';
+
+/** One financial year's audited (or provisional) balance sheet and P&L figures, in rupees. */
+export interface FinancialYear {
+  /** Financial year label, e.g. `2023-24`. */
+  year: string;
+  turnover: number;
+  profitBeforeTax: number;
+  profitAfterTax: number;
+  depreciation: number;
+  interestExpense: number;
+  /** Term loan instalments (principal) falling due in the year. */
+  principalRepayment: number;
+  currentAssets: number;
+  currentLiabilities: number;
+  /** Short-term bank borrowings (CC/OD) included in current liabilities. */
+  bankBorrowings: number;
+  totalOutsideLiabilities: number;
+  tangibleNetWorth: number;
+  /** Investment in plant and machinery or equipment, for MSME classification. */
+  plantAndMachinery: number;
+}
+
+export type FacilityType = 'TERM_LOAN' | 'WORKING_CAPITAL';
+
+export interface FinancialStatements {
+  facility: FacilityType;
+  /** Oldest first. */
+  years: FinancialYear[];
+  /** Turnover the borrower projects for the coming year; the latest actual when omitted. */
+  projectedTurnover?: number;
+}
+
+export interface WorkingCapitalAssessment {
+  method: 'TURNOVER' | 'MPBF';
+  projectedTurnover: number;
+  /** Turnover method: gross working capital requirement; MPBF: current assets less other current liabilities. */
+  requirement: number;
+  borrowerMargin: number;
+  assessedLimit: number;
+}
+
+export interface FinancialAnalysis {
+  facility: FacilityType;
+  latestYear: string;
+  years: number;
+  /** Cash accruals over existing debt service plus a year of the proposed facility. */
+  dscr: number;
+  currentRatio: number;
+  /** Total outside liabilities to tangible net worth; 0 when net worth is eroded (see `tangibleNetWorth`). */
+  tolTnw: number;
+  tangibleNetWorth: number;
+  /** EBIT over interest, capped at `ratioCap` when there is no interest expense. */
+  interestCoverage: number;
+  /** Compound annual growth of turnover across the years given. */
+  turnoverGrowth: number;
+  latestTurnover: number;
+  workingCapital: WorkingCapitalAssessment;
+  msmeClass: MsmeClass | 'NONE';
+}
+
+/** Stands in for an unbounded ratio (nothing to service) so results stay JSON-safe. */
+export const ratioCap = 99;
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? Math.min(ratioCap, numerator / denominator) : ratioCap;
+
+/** Labels accepted for each line item in an imported statement, compared without case, spaces or punctuation. */
+const lineItems: { field: Exclude<keyof FinancialYear, 'year'>; label: string; aliases: string[]; optional?: boolean }[] = [
+  { field: 'turnover', label: 'Turnover', aliases: ['turnover', 'net sales', 'sales', 'revenue from operations', 'revenue'] },
+  { field: 'profitBeforeTax', label: 'Profit before tax', aliases: ['profit before tax', 'pbt'] },
+  { field: 'profitAfterTax', label: 'Profit after tax', aliases: ['profit after tax', 'pat', 'net profit'] },
+  { field: 'depreciation', label: 'Depreciation', aliases: ['depreciation', 'depreciation and amortisation', 'depreciation and amortization'] },
+  { field: 'interestExpense', label: 'Interest expense', aliases: ['interest', 'interest expense', 'finance cost', 'finance costs'] },
+  {
+    field: 'principalRepayment',
+    label: 'Principal repayment',
+    aliases: ['principal repayment', 'repayment of term loans', 'current maturities of long term debt', 'cpltd'],
+    optional: true,
+  },
+  { field: 'currentAssets', label: 'Current assets', aliases: ['current assets', 'total current assets'] },
+  { field: 'currentLiabilities', label: 'Current liabilities', aliases: ['current liabilities', 'total current liabilities'] },
+  {
+    field: 'bankBorrowings',
+    label: 'Bank borrowings (CC/OD)',
+    aliases: ['bank borrowings', 'short term bank borrowings', 'working capital borrowings', 'cc od'],
+    optional: true,
+  },
+  { field: 'totalOutsideLiabilities', label: 'Total outside liabilities', aliases: ['total outside liabilities', 'tol'] },
+  { field: 'tangibleNetWorth', label: 'Tangible net worth', aliases: ['tangible net worth', 'tnw', 'net worth'] },
+  {
+    field: 'plantAndMachinery',
+    label: 'Plant and machinery',
+    aliases: ['plant and machinery', 'investment in plant and machinery', 'gross block'],
+    optional: true,
+  },
+];
+
+/** Line items in statement order, for entry forms; optional ones default to 0. */
+export const financialLineItems = lineItems.map(({ field, label, optional }) => ({ field, label, optional: !!optional }));
+
+const normalise = (label: string) => label.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseFigure = (text: string | undefined): number | undefined => {
+  const value = (text ?? '').replace(/[,₹\s]/g, '');
+  if (value === '' || value === '-') return 0;
+  // Accounts show losses in brackets.
+  const bracketed = /^\((.*)\)$/.exec(value);
+  const parsed = Number(bracketed ? `-${bracketed[1]}` : value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Reads a statement laid out the way CMA data and audited accounts usually
+ * are: line items down the first column, one column per financial year, the
+ * header row naming the years. Unknown line items are ignored.
+ */
+export function readFinancialTable(table: string[][]): { ok: true; years: FinancialYear[] } | { ok: false; errors: string[] } {
+  const [header = [], ...rows] = table;
+  const yearColumns = header.slice(1).map((label, index) => ({ label: label.trim(), column: index + 1 })).filter(({ label }) => label !== '');
+  if (yearColumns.length === 0) return { ok: false, errors: ['The header row must name at least one financial year after the first column.'] };
+
+  const errors: string[] = [];
+  const years = yearColumns.map(({ label }) => ({ year: label } as FinancialYear));
+  lineItems.forEach(({ field, label: item, aliases, optional }) => {
+    const wanted = aliases.map(normalise);
+    const row = rows.find(cells => wanted.includes(normalise(cells[0] ?? '')));
+    if (!row) {
+      if (optional) years.forEach(year => { year[field] = 0; });
+      else errors.push(`No "${item}" row was found.`);
+      return;
+    }
+    yearColumns.forEach(({ label, column }, index) => {
+      const value = parseFigure(row[column]);
+      if (value === undefined) errors.push(`${item} for ${label}: "${row[column]}" is not a number.`);
+      else years[index][field] = value;
+    });
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, years };
+}
+
+const classify = (investment: number, turnover: number, rules: FinancialAnalysisRules): MsmeClass | 'NONE' =>
+  rules.msmeClasses.find(threshold => investment <= threshold.maxInvestment && turnover <= threshold.maxTurnover)?.class ?? 'NONE';
+
+/**
+ * Computes the SME desk's ratios from the latest year, turnover growth across
+ * all years, and the working capital limit the turnover supports.
+ * `proposedDebtService` is a year's servicing of the facility applied for.
+ */
+export function analyseFinancials(
+  statements: FinancialStatements,
+  rules: FinancialAnalysisRules,
+  proposedDebtService: number,
+): FinancialAnalysis {
+  const first = statements.years[0];
+  const latest = statements.years[statements.years.length - 1];
+  const periods = statements.years.length - 1;
+
+  const cashAccruals = latest.profitAfterTax + latest.depreciation + latest.interestExpense;
+  const debtService = latest.interestExpense + latest.principalRepayment + proposedDebtService;
+  const turnoverGrowth = periods > 0 && first.turnover > 0 && latest.turnover > 0
+    ? (latest.turnover / first.turnover) ** (1 / periods) - 1
+    : 0;
+
+  const { workingCapital: wc } = rules;
+  const projectedTurnover = statements.projectedTurnover ?? latest.turnover;
+  let workingCapital: WorkingCapitalAssessment;
+  if (projectedTurnover <= wc.turnoverMethodLimit) {
+    const requirement = projectedTurnover * wc.requirementShare;
+    const borrowerMargin = projectedTurnover * wc.marginShare;
+    workingCapital = { method: 'TURNOVER', projectedTurnover, requirement, borrowerMargin, assessedLimit: Math.max(0, requirement - borrowerMargin) };
+  } else {
+    const requirement = latest.currentAssets - (latest.currentLiabilities - latest.bankBorrowings);
+    const borrowerMargin = latest.currentAssets * wc.mpbfMargin;
+    workingCapital = { method: 'MPBF', projectedTurnover, requirement, borrowerMargin, assessedLimit: Math.max(0, requirement - borrowerMargin) };
+  }
+
+  return {
+    facility: statements.facility,
+    latestYear: latest.year,
+    years: statements.years.length,
+    dscr: ratio(cashAccruals, debtService),
+    currentRatio: ratio(latest.currentAssets, latest.currentLiabilities),
+    tolTnw: latest.tangibleNetWorth > 0 ? latest.totalOutsideLiabilities / latest.tangibleNetWorth : 0,
+    tangibleNetWorth: latest.tangibleNetWorth,
+    interestCoverage: ratio(latest.profitBeforeTax + latest.interestExpense, latest.interestExpense),
+    turnoverGrowth,
+    latestTurnover: latest.turnover,
+    workingCapital,
+    msmeClass: classify(latest.plantAndMachinery, latest.turnover, rules),
+  };
+}
+
+/** Financial figures policy checks can reference; zeros (and `NONE`) when no statements were given. */
+export function financialMetrics(analysis: FinancialAnalysis | undefined, rules: FinancialAnalysisRules) {
+  return {
+    financialYears: analysis?.years ?? 0,
+    minFinancialYears: rules.minYears,
+    dscr: analysis?.dscr ?? 0,
+    currentRatio: analysis?.currentRatio ?? 0,
+    tolTnw: analysis?.tolTnw ?? 0,
+    tangibleNetWorth: analysis?.tangibleNetWorth ?? 0,
+    interestCoverage: analysis?.interestCoverage ?? 0,
+    turnoverGrowth: analysis?.turnoverGrowth ?? 0,
+    latestTurnover: analysis?.latestTurnover ?? 0,
+    workingCapitalFacility: analysis?.facility === 'WORKING_CAPITAL' ? 1 : 0,
+    workingCapitalLimit: analysis?.workingCapital.assessedLimit ?? 0,
+    msmeClass: analysis?.msmeClass ?? 'NONE',
+  };
+}
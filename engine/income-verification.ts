@@ -0,0 +1,260 @@
+import type { IncomeVerificationRules } from './policy/types';
+import type { LoanApplication } from './types';
+
+export interface BankTransaction {
+  /** `YYYY-MM-DD`. */
+  date: string;
+  narration: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface BankStatementAnalysis {
+  fromDate: string;
+  toDate: string;
+  /** Calendar months the statement spans, part months included. */
+  months: number;
+  transactionCount: number;
+  averageMonthlyCredits: number;
+  /** Months in which at least one salary credit was seen. */
+  salaryCreditMonths: number;
+  /** `salaryCreditMonths / months`, 0-1. */
+  salaryRegularity: number;
+  /** Average salary per month that had one; 0 when no salary credits were found. */
+  averageMonthlySalary: number;
+  /** Cheque, ECS and NACH returns; the charges levied for them are not counted again. */
+  bounceCount: number;
+  /** Mean end-of-day balance over every day of the statement period. */
+  averageBalance: number;
+  /** Cash deposits as a share of all credits, 0-1. */
+  cashDepositShare: number;
+}
+
+export type TaxDocumentForm = 'ITR' | 'FORM16';
+
+export interface TaxReturn {
+  /** e.g. `2024-25`. */
+  assessmentYear: string;
+  form: TaxDocumentForm;
+  grossTotalIncome: number;
+}
+
+/** Documents the declared income is checked against; analysed figures only, not the raw statement. */
+export interface IncomeEvidence {
+  bankStatement?: BankStatementAnalysis;
+  taxReturns?: TaxReturn[];
+}
+
+export interface IncomeVerification {
+  declaredAnnualIncome: number;
+  /** Annualised salary credits, or all credits when salary is not regular. */
+  bankAnnualIncome?: number;
+  /** Gross total income from the latest assessment year on file. */
+  taxAnnualIncome?: number;
+  /** Tax documents when available, otherwise the bank statement. */
+  verifiedAnnualIncome: number;
+  verifiedFrom: 'TAX_RETURN' | 'BANK_STATEMENT';
+  /** How far declared income exceeds verified, as a fraction of verified; negative when declared is lower. */
+  variance: number;
+  tolerance: number;
+  withinTolerance: boolean;
+  /** The income eligibility and ratios were computed on. */
+  assessedAnnualIncome: number;
+}
+
+const statementColumns = {
+  date: ['date', 'txn date', 'transaction date', 'value date', 'posting date'],
+  narration: ['narration', 'description', 'particulars', 'remarks', 'details'],
+  debit: ['debit', 'withdrawal', 'withdrawals', 'withdrawal amt', 'dr'],
+  credit: ['credit', 'deposit', 'deposits', 'deposit amt', 'cr'],
+  amount: ['amount', 'txn amount', 'transaction amount'],
+  type: ['type', 'dr/cr', 'cr/dr', 'debit/credit'],
+  balance: ['balance', 'closing balance', 'running balance'],
+};
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Accepts the formats Indian banks export: `YYYY-MM-DD`, `DD/MM/YYYY`, `DD-MM-YY` and `DD-Mon-YYYY`. */
+const parseStatementDate = (text: string): string | undefined => {
+  const value = text.trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (match) return `${match[1]}-${pad(+match[2])}-${pad(+match[3])}`;
+  match = /^(\d{1,2})[/.\- ]([A-Za-z]{3}|\d{1,2})[/.\- ](\d{2}|\d{4})$/.exec(value);
+  if (!match) return undefined;
+  const month = /\d/.test(match[2]) ? +match[2] : monthNames.indexOf(match[2].toLowerCase()) + 1;
+  const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+  if (month < 1 || month > 12 || +match[1] < 1 || +match[1] > 31) return undefined;
+  return `${year}-${pad(month)}-${pad(+match[1])}`;
+};
+
+const parseAmount = (text: string | undefined): number | undefined => {
+  const value = (text ?? '').replace(/[,₹\s]|Rs\.?|INR/gi, '').replace(/(Cr|Dr)$/i, '');
+  if (value === '' || value === '-') return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const salaryPattern = /\b(SAL|SALARY|PAYROLL)\b/i;
+const bouncePattern = /BOUNCE|\bRTN\b|RETURN|DISHONOU?R|INSUFF/i;
+const chargePattern = /CHG|CHRG|CHARGE|\bFEE\b|\bGST\b/i;
+const cashPattern = /\bCASH\b|\bCDM\b|\bBY CASH\b/i;
+
+/**
+ * Reads a bank statement export (rows as `parseCsv` or the XLSX reader return
+ * them) into transactions. Either separate debit and credit columns or a
+ * signed amount column are accepted; rows before the header are skipped, as
+ * banks put account details there.
+ */
+export function parseBankStatement(table: string[][]): { ok: true; transactions: BankTransaction[] } | { ok: false; errors: string[] } {
+  const normalise = (cell: string) => cell.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.:]$/, '').replace(/\s*\(.*\)$/, '');
+  const headerIndex = table.findIndex(row => {
+    const cells = row.map(normalise);
+    return cells.some(cell => statementColumns.date.includes(cell)) && cells.some(cell => statementColumns.balance.includes(cell));
+  });
+  if (headerIndex < 0) return { ok: false, errors: ['No header row with date and balance columns was found.'] };
+
+  const header = table[headerIndex].map(normalise);
+  const column = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+  const at = {
+    date: column(statementColumns.date),
+    narration: column(statementColumns.narration),
+    debit: column(statementColumns.debit),
+    credit: column(statementColumns.credit),
+    amount: column(statementColumns.amount),
+    type: column(statementColumns.type),
+    balance: column(statementColumns.balance),
+  };
+  if ((at.debit < 0 || at.credit < 0) && at.amount < 0) {
+    return { ok: false, errors: ['The statement needs debit and credit columns, or an amount column.'] };
+  }
+
+  const errors: string[] = [];
+  const transactions: BankTransaction[] = [];
+  table.slice(headerIndex + 1).forEach((row, index) => {
+    if (row.every(cell => cell.trim() === '')) return;
+    const line = headerIndex + index + 2;
+    const date = parseStatementDate(row[at.date] ?? '');
+    // Banks close the export with totals or a disclaimer; rows without a date are not transactions.
+    if (!date) {
+      if ((row[at.date] ?? '').trim() !== '' && /\d/.test(row[at.date])) errors.push(`Row ${line}: unrecognised date "${row[at.date]}".`);
+      return;
+    }
+
+    let debit: number | undefined;
+    let credit: number | undefined;
+    if (at.debit >= 0 && at.credit >= 0) {
+      debit = parseAmount(row[at.debit]);
+      credit = parseAmount(row[at.credit]);
+    } else {
+      const amount = parseAmount(row[at.amount]);
+      const type = (row[at.type] ?? '').trim().toLowerCase();
+      const isDebit = type.startsWith('d') || (type === '' && (amount ?? 0) < 0);
+      debit = amount === undefined ? undefined : isDebit ? Math.abs(amount) : 0;
+      credit = amount === undefined ? undefined : isDebit ? 0 : Math.abs(amount);
+    }
+    const balance = parseAmount(row[at.balance]);
+    if (debit === undefined || credit === undefined || balance === undefined) {
+      errors.push(`Row ${line}: amounts must be numbers.`);
+      return;
+    }
+    transactions.push({ date, narration: at.narration >= 0 ? (row[at.narration] ?? '').trim() : '', debit, credit, balance });
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  if (transactions.length === 0) return { ok: false, errors: ['The statement has no transactions.'] };
+  return { ok: true, transactions: transactions.sort((a, b) => a.date.localeCompare(b.date)) };
+}
+
+const dayNumber = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) / 86_400_000;
+const monthNumber = (date: string) => +date.slice(0, 4) * 12 + +date.slice(5, 7) - 1;
+
+/** Summarises transactions, sorted by date, into the figures income is verified on. */
+export function analyseBankStatement(transactions: BankTransaction[]): BankStatementAnalysis {
+  const fromDate = transactions[0].date;
+  const toDate = transactions[transactions.length - 1].date;
+  const months = monthNumber(toDate) - monthNumber(fromDate) + 1;
+
+  const credits = transactions.filter(txn => txn.credit > 0);
+  const totalCredits = credits.reduce((sum, txn) => sum + txn.credit, 0);
+  const salary = credits.filter(txn => salaryPattern.test(txn.narration));
+  const salaryMonths = new Set(salary.map(txn => txn.date.slice(0, 7))).size;
+  const cash = credits.filter(txn => cashPattern.test(txn.narration)).reduce((sum, txn) => sum + txn.credit, 0);
+
+  // Carry each day's closing balance forward across days without transactions.
+  const closing = new Map(transactions.map(txn => [dayNumber(txn.date), txn.balance]));
+  const firstDay = dayNumber(fromDate);
+  const lastDay = dayNumber(toDate);
+  let balance = 0;
+  let balanceDays = 0;
+  for (let day = firstDay; day <= lastDay; day++) {
+    balance = closing.get(day) ?? balance;
+    balanceDays += balance;
+  }
+
+  return {
+    fromDate,
+    toDate,
+    months,
+    transactionCount: transactions.length,
+    averageMonthlyCredits: totalCredits / months,
+    salaryCreditMonths: salaryMonths,
+    salaryRegularity: Math.min(1, salaryMonths / months),
+    averageMonthlySalary: salaryMonths > 0 ? salary.reduce((sum, txn) => sum + txn.credit, 0) / salaryMonths : 0,
+    bounceCount: transactions.filter(txn => bouncePattern.test(txn.narration) && !chargePattern.test(txn.narration)).length,
+    averageBalance: balanceDays / (lastDay - firstDay + 1),
+    cashDepositShare: totalCredits > 0 ? cash / totalCredits : 0,
+  };
+}
+
+/**
+ * Compares declared income with what the attached documents support. When
+ * declared income overshoots verified by more than the policy tolerance and
+ * the policy caps at verified, the verified figure is assessed instead.
+ * Undefined when no evidence is attached.
+ */
+export function verifyIncome(application: LoanApplication, rules: IncomeVerificationRules): IncomeVerification | undefined {
+  const statement = application.incomeEvidence?.bankStatement;
+  const latestReturn = [...application.incomeEvidence?.taxReturns ?? []]
+    .sort((a, b) => b.assessmentYear.localeCompare(a.assessmentYear))[0];
+  if (!statement && !latestReturn) return undefined;
+
+  const bankAnnualIncome = statement
+    ? (statement.salaryRegularity >= rules.minSalaryRegularity ? statement.averageMonthlySalary : statement.averageMonthlyCredits) * 12
+    : undefined;
+  const taxAnnualIncome = latestReturn?.grossTotalIncome;
+  const verifiedAnnualIncome = taxAnnualIncome ?? bankAnnualIncome ?? 0;
+  const variance = (application.annualIncome - verifiedAnnualIncome) / Math.max(verifiedAnnualIncome, 1);
+  const withinTolerance = variance <= rules.tolerance;
+
+  return {
+    declaredAnnualIncome: application.annualIncome,
+    bankAnnualIncome,
+    taxAnnualIncome,
+    verifiedAnnualIncome,
+    verifiedFrom: taxAnnualIncome !== undefined ? 'TAX_RETURN' : 'BANK_STATEMENT',
+    variance,
+    tolerance: rules.tolerance,
+    withinTolerance,
+    assessedAnnualIncome: !withinTolerance && rules.capAtVerified ? verifiedAnnualIncome : application.annualIncome,
+  };
+}
+
+/** Verification and banking-conduct figures for policy checks; zeros when nothing is attached. */
+export function incomeVerificationMetrics(verification: IncomeVerification | undefined, statement: BankStatementAnalysis | undefined) {
+  return {
+    incomeVerified: verification ? 1 : 0,
+    verifiedAnnualIncome: verification?.verifiedAnnualIncome ?? 0,
+    assessedAnnualIncome: verification?.assessedAnnualIncome ?? 0,
+    incomeVariance: verification?.variance ?? 0,
+    incomeTolerance: verification?.tolerance ?? 0,
+    bankStatementMonths: statement?.months ?? 0,
+    averageMonthlyCredits: statement?.averageMonthlyCredits ?? 0,
+    salaryRegularity: statement?.salaryRegularity ?? 0,
+    bounceCount: statement?.bounceCount ?? 0,
+    averageBalance: statement?.averageBalance ?? 0,
+    cashDepositShare: statement?.cashDepositShare ?? 0,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { assessKyc, isValidAadhaar, isValidPan, kycMetrics, kycRequirements, screenNames, type ScreeningEntry } from './kyc';
+import { defaultPolicy } from './policy/default-policy';
+
+const entries: ScreeningEntry[] = [
+  { name: 'Viktor Drazhenko', aliases: ['Viktor Drazenko'], list: 'SANCTIONS', source: 'UNSC Consolidated List (sample)' },
+  { name: 'Anaya Rao Kesari', list: 'PEP', source: 'Internal PEP register (sample)' },
+];
+
+describe('isValidPan', () => {
+  it.each([
+    ['ABCPE1234F', true],
+    ['AAACB1234C', true],
+    ['ABCXE1234F', false],
+    ['ABCPE12345', false],
+    ['abcpe1234f', false],
+    ['ABCPE123F', false],
+  ])('%s is %s', (pan, valid) => {
+    expect(isValidPan(pan)).toBe(valid);
+  });
+});
+
+describe('isValidAadhaar', () => {
+  it.each([
+    ['234123412346', true],
+    ['2341 2341 2346', true],
+    ['234123412345', false],
+    ['134123412346', false],
+    ['23412341234', false],
+  ])('%s is %s', (aadhaar, valid) => {
+    expect(isValidAadhaar(aadhaar)).toBe(valid);
+  });
+});
+
+describe('screenNames', () => {
+  const screen = (...names: string[]) => screenNames(names, entries, 'sample', '2025-06-30T10:00:00.000Z');
+
+  it('reports an exact sanctions hit in any word order and with honorifics as a MATCH', () => {
+    const result = screen('Asha Rao', 'Mr. DRAZHENKO Viktor');
+    expect(result.status).toBe('MATCH');
+    expect(result.matches).toEqual([expect.objectContaining({ subject: 'Mr. DRAZHENKO Viktor', strength: 'EXACT', list: 'SANCTIONS' })]);
+  });
+
+  it('reports a one-letter misspelling as a potential match', () => {
+    expect(screen('Viktor Drazhenco')).toMatchObject({ status: 'POTENTIAL_MATCH', matches: [{ strength: 'PARTIAL' }] });
+  });
+
+  it('reports a PEP hit as a potential match', () => {
+    expect(screen('Anaya Rao Kesari').status).toBe('POTENTIAL_MATCH');
+  });
+
+  it('clears names that share only one word with an entry', () => {
+    expect(screen('Viktor Sharma', 'Asha Rao')).toMatchObject({ status: 'CLEAR', matches: [] });
+  });
+});
+
+describe('kycMetrics', () => {
+  const requirements = kycRequirements(defaultPolicy.kyc, 'personal', 'salaried');
+  const verifiedAll = requirements.map(requirement => ({ id: requirement.id, status: 'VERIFIED' as const, verifiedBy: 'checker' }));
+
+  it('counts only verified documents, not uploaded ones', () => {
+    const uploaded = verifiedAll.map(document => ({ ...document, status: 'UPLOADED' as const, verifiedBy: undefined }));
+    const metrics = kycMetrics(assessKyc({ documents: uploaded }, requirements));
+    expect(metrics.kycDocumentsVerified).toBe(0);
+    expect(metrics.kycDocumentsPending).toBe(metrics.kycDocumentsRequired);
+  });
+
+  it('clears the checklist once every mandatory document is verified', () => {
+    const metrics = kycMetrics(assessKyc({ documents: verifiedAll }, requirements));
+    expect(metrics.kycDocumentsPending).toBe(0);
+  });
+});
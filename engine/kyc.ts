@@ -0,0 +1,243 @@
+import type { KycDocumentRequirement, KycRules } from './policy/types';
+
+export type KycDocumentStatus = 'PENDING' | 'UPLOADED' | 'VERIFIED' | 'REJECTED';
+
+export const kycDocumentStatuses: KycDocumentStatus[] = ['PENDING', 'UPLOADED', 'VERIFIED', 'REJECTED'];
+
+/** Officially valid documents accepted as proof of address under the RBI KYC Master Direction. */
+export type AddressProofType = 'PASSPORT' | 'DRIVING_LICENCE' | 'VOTER_ID' | 'AADHAAR' | 'NREGA_JOB_CARD' | 'NPR_LETTER';
+
+export const addressProofTypes: { type: AddressProofType; label: string }[] = [
+  { type: 'PASSPORT', label: 'Passport' },
+  { type: 'DRIVING_LICENCE', label: 'Driving licence' },
+  { type: 'VOTER_ID', label: 'Voter ID card' },
+  { type: 'AADHAAR', label: 'Aadhaar (proof of possession)' },
+  { type: 'NREGA_JOB_CARD', label: 'NREGA job card' },
+  { type: 'NPR_LETTER', label: 'National Population Register letter' },
+];
+
+/** A checklist document on a case; the file itself is kept by the server. */
+export interface KycDocument {
+  /** A `KycDocumentRequirement.id` from the policy. */
+  id: string;
+  status: KycDocumentStatus;
+  fileName?: string;
+  uploadedBy?: string;
+  uploadedAt?: string;
+  verifiedBy?: string;
+  verifiedAt?: string;
+  remarks?: string;
+}
+
+export type ScreeningListType = 'SANCTIONS' | 'PEP';
+
+/** One person on a sanctions or politically exposed persons list. */
+export interface ScreeningEntry {
+  name: string;
+  aliases?: string[];
+  list: ScreeningListType;
+  source: string;
+  reference?: string;
+}
+
+export interface ScreeningMatch {
+  /** The applicant, co-applicant or guarantor name that matched. */
+  subject: string;
+  entry: string;
+  matchedOn: string;
+  list: ScreeningListType;
+  source: string;
+  reference?: string;
+  /** EXACT: same words in any order. PARTIAL: every word of the shorter name found, allowing a typo. */
+  strength: 'EXACT' | 'PARTIAL';
+}
+
+export interface ScreeningResult {
+  /** MATCH for an exact sanctions hit; POTENTIAL_MATCH for partial hits or any PEP hit. */
+  status: 'CLEAR' | 'POTENTIAL_MATCH' | 'MATCH';
+  matches: ScreeningMatch[];
+  listVersion: string;
+  screenedAt: string;
+}
+
+export interface KycDetails {
+  /** Upper-case, validated against the PAN structure. */
+  pan?: string;
+  /** Only the last four digits are kept; the full number is checksum-validated at capture and discarded. */
+  aadhaarLast4?: string;
+  addressProof?: { type: AddressProofType; number: string };
+  documents: KycDocument[];
+  /** Set by the server when the application is submitted; never taken from the client. */
+  screening?: ScreeningResult;
+}
+
+export interface KycChecklistItem extends KycDocument {
+  label: string;
+  mandatory: boolean;
+}
+
+export interface KycAssessment {
+  pan?: string;
+  aadhaarMasked?: string;
+  addressProof?: { type: AddressProofType; number: string };
+  checklist: KycChecklistItem[];
+  screening?: ScreeningResult;
+}
+
+const panPattern = /^[A-Z]{3}[ABCFGHLJPT][A-Z][0-9]{4}[A-Z]$/;
+
+/** PAN structure: five letters (the fourth the holder type, P for individuals), four digits, a check letter. */
+export const isValidPan = (pan: string): boolean => panPattern.test(pan);
+
+const verhoeffMultiplication = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const verhoeffPermutation = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** Verhoeff check over a digit string whose last digit is the check digit. */
+export function verhoeffValid(digits: string): boolean {
+  let check = 0;
+  [...digits].reverse().forEach((digit, index) => {
+    check = verhoeffMultiplication[check][verhoeffPermutation[index % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+/** Twelve digits, not starting with 0 or 1, with a valid Verhoeff check digit; spaces are ignored. */
+export function isValidAadhaar(aadhaar: string): boolean {
+  const digits = aadhaar.replace(/\s/g, '');
+  return /^[2-9]\d{11}$/.test(digits) && verhoeffValid(digits);
+}
+
+export const maskAadhaar = (last4: string) => `XXXX XXXX ${last4}`;
+
+const honorifics = new Set(['MR', 'MRS', 'MS', 'MISS', 'DR', 'SHRI', 'SRI', 'SMT', 'KUMARI', 'KM']);
+
+const nameTokens = (name: string): string[] =>
+  name.toUpperCase().replace(/[^A-Z\s]/g, ' ').split(/\s+/).filter(token => token !== '' && !honorifics.has(token));
+
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1 || Math.min(a.length, b.length) < 5) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+const compareNames = (subject: string[], candidate: string[]): ScreeningMatch['strength'] | undefined => {
+  if (subject.length === 0 || candidate.length === 0) return undefined;
+  if ([...subject].sort().join(' ') === [...candidate].sort().join(' ')) return 'EXACT';
+  const [shorter, longer] = subject.length <= candidate.length ? [subject, candidate] : [candidate, subject];
+  if (shorter.length < 2) return undefined;
+  return shorter.every(token => longer.some(other => withinOneEdit(token, other))) ? 'PARTIAL' : undefined;
+};
+
+/**
+ * Screens each name against the list. Names are compared word by word after
+ * dropping honorifics and punctuation, so "Dr. Ravi K. Sharma" and "SHARMA
+ * RAVI" are compared on the same footing.
+ */
+export function screenNames(names: string[], entries: ScreeningEntry[], listVersion: string, screenedAt: string): ScreeningResult {
+  const matches: ScreeningMatch[] = [];
+  names.forEach(subject => {
+    const subjectTokens = nameTokens(subject);
+    entries.forEach(entry => {
+      const candidates = [entry.name, ...(entry.aliases ?? [])];
+      const hits = candidates.flatMap(candidate => {
+        const strength = compareNames(subjectTokens, nameTokens(candidate));
+        return strength ? [{ candidate, strength }] : [];
+      });
+      const best = hits.find(hit => hit.strength === 'EXACT') ?? hits[0];
+      if (!best) return;
+      matches.push({
+        subject,
+        entry: entry.name,
+        matchedOn: best.candidate,
+        list: entry.list,
+        source: entry.source,
+        reference: entry.reference,
+        strength: best.strength,
+      });
+    });
+  });
+
+  const status = matches.some(match => match.list === 'SANCTIONS' && match.strength === 'EXACT')
+    ? 'MATCH'
+    : matches.length > 0 ? 'POTENTIAL_MATCH' : 'CLEAR';
+  return { status, matches, listVersion, screenedAt };
+}
+
+/** The policy's documents required for this product and employment type, in policy order. */
+export function kycRequirements(rules: KycRules, loanPurpose: string, employmentType: string): KycDocumentRequirement[] {
+  return rules.documents.filter(requirement =>
+    (!requirement.products || requirement.products.includes(loanPurpose)) &&
+    (!requirement.employmentTypes || requirement.employmentTypes.includes(employmentType)));
+}
+
+/** Merges the captured documents onto the checklist; anything not yet captured is PENDING. */
+export function assessKyc(kyc: KycDetails | undefined, requirements: KycDocumentRequirement[]): KycAssessment {
+  return {
+    pan: kyc?.pan,
+    aadhaarMasked: kyc?.aadhaarLast4 ? maskAadhaar(kyc.aadhaarLast4) : undefined,
+    addressProof: kyc?.addressProof,
+    checklist: requirements.map(requirement => ({
+      ...(kyc?.documents.find(document => document.id === requirement.id) ?? { id: requirement.id, status: 'PENDING' as const }),
+      label: requirement.label,
+      mandatory: requirement.mandatory,
+    })),
+    screening: kyc?.screening,
+  };
+}
+
+/** KYC figures policy checks can reference. */
+export function kycMetrics(assessment: KycAssessment) {
+  const mandatory = assessment.checklist.filter(item => item.mandatory);
+  const matches = assessment.screening?.matches ?? [];
+  const sanctionsHits = matches.filter(match => match.list === 'SANCTIONS' && match.strength === 'EXACT').length;
+  return {
+    kycPanCaptured: assessment.pan ? 1 : 0,
+    kycAadhaarCaptured: assessment.aadhaarMasked ? 1 : 0,
+    kycAddressProofCaptured: assessment.addressProof ? 1 : 0,
+    kycDocumentsRequired: mandatory.length,
+    kycDocumentsVerified: mandatory.filter(item => item.status === 'VERIFIED').length,
+    kycDocumentsPending: mandatory.filter(item => item.status !== 'VERIFIED').length,
+    kycDocumentsRejected: assessment.checklist.filter(item => item.status === 'REJECTED').length,
+    kycScreened: assessment.screening ? 1 : 0,
+    kycSanctionsMatches: sanctionsHits,
+    kycScreeningAlerts: matches.length - sanctionsHits,
+  };
+}
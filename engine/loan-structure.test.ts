@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { amortisationSchedule, calculateApr, calculateEmi, principalForEmi } from './loan-structure';
+
+// ₹1 lakh over 12 months at 12%: r = 1% a month, 1.01^12 = 1.126825, so EMI = 1,000 × 1.126825 / 0.126825.
+describe('calculateEmi', () => {
+  it('matches the EMI worked out by hand', () => {
+    expect(calculateEmi(100000, 12, 12)).toBeCloseTo(8884.88, 2);
+  });
+
+  it('splits the principal evenly at a zero rate', () => {
+    expect(calculateEmi(120000, 0, 12)).toBe(10000);
+  });
+
+  it('inverts through principalForEmi', () => {
+    expect(principalForEmi(calculateEmi(2000000, 9.1, 240), 9.1, 240)).toBeCloseTo(2000000, 4);
+  });
+});
+
+describe('amortisationSchedule', () => {
+  const schedule = amortisationSchedule(100000, 12, 12);
+
+  it('charges the first month 1% interest on the full principal', () => {
+    expect(schedule[0].interest).toBeCloseTo(1000, 6);
+    expect(schedule[0].principal).toBeCloseTo(7884.88, 2);
+    expect(schedule[0].balance).toBeCloseTo(92115.12, 2);
+  });
+
+  it('repays the principal exactly, closing the balance at zero', () => {
+    expect(schedule).toHaveLength(12);
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(100000, 6);
+    expect(schedule[11].balance).toBe(0);
+    schedule.forEach(row => expect(row.emi).toBeCloseTo(8884.88, 2));
+  });
+});
+
+describe('calculateApr', () => {
+  // ₹8,884.88 a month repaying a net ₹98,000 is a monthly IRR of 1.32121%, 15.8545% a year.
+  it('matches the APR worked out by hand for a 2% upfront charge', () => {
+    expect(calculateApr(100000, 12, 12, 2000)).toBeCloseTo(15.8545, 3);
+  });
+
+  it('is the contract rate when nothing is charged upfront', () => {
+    expect(calculateApr(100000, 12, 12, 0)).toBeCloseTo(12, 6);
+  });
+});
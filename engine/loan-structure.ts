@@ -0,0 +1,100 @@
+import type { AmortisationRow, LoanStructure } from './types';
+
+const monthlyRate = (annualRatePercent: number) => annualRatePercent / 12 / 100;
+
+/** Equated monthly instalment for a reducing-balance loan. */
+export function calculateEmi(principal: number, annualRatePercent: number, tenureMonths: number): number {
+  if (principal <= 0 || tenureMonths <= 0) return 0;
+  const r = monthlyRate(annualRatePercent);
+  if (r === 0) return principal / tenureMonths;
+  const growth = Math.pow(1 + r, tenureMonths);
+  return (principal * r * growth) / (growth - 1);
+}
+
+/** Inverse of `calculateEmi`: the principal an EMI of `emi` services. */
+export function principalForEmi(emi: number, annualRatePercent: number, tenureMonths: number): number {
+  if (emi <= 0 || tenureMonths <= 0) return 0;
+  const r = monthlyRate(annualRatePercent);
+  if (r === 0) return emi * tenureMonths;
+  return (emi * (1 - Math.pow(1 + r, -tenureMonths))) / r;
+}
+
+/**
+ * Annual percentage rate (%) of a loan whose upfront charges are deducted
+ * from the amount disbursed: the rate at which the EMIs repay only the net
+ * amount received. Solved by bisection, to well under a basis point.
+ */
+export function calculateApr(principal: number, annualRatePercent: number, tenureMonths: number, upfrontCharges: number): number {
+  const emi = calculateEmi(principal, annualRatePercent, tenureMonths);
+  const net = principal - upfrontCharges;
+  if (emi <= 0 || net <= 0) return annualRatePercent;
+  let low = annualRatePercent;
+  let high = annualRatePercent + 100;
+  for (let step = 0; step < 60; step++) {
+    const mid = (low + high) / 2;
+    if (principalForEmi(emi, mid, tenureMonths) > net) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+export function amortisationSchedule(principal: number, annualRatePercent: number, tenureMonths: number): AmortisationRow[] {
+  const emi = calculateEmi(principal, annualRatePercent, tenureMonths);
+  const r = monthlyRate(annualRatePercent);
+  const rows: AmortisationRow[] = [];
+  let balance = principal;
+
+  for (let month = 1; month <= tenureMonths; month++) {
+    const interest = balance * r;
+    // The final instalment absorbs rounding so the balance closes at zero.
+    const principalPaid = month === tenureMonths ? balance : emi - interest;
+    balance = Math.max(0, balance - principalPaid);
+    rows.push({
+      month,
+      emi: principalPaid + interest,
+      principal: principalPaid,
+      interest,
+      balance,
+    });
+  }
+
+  return rows;
+}
+
+export interface StructuringInputs {
+  loanAmount: number;
+  interestRate: number;
+  tenureMonths: number;
+  monthlyIncome: number;
+  existingEmi: number;
+  foirLimit: number;
+  /** Upper bounds other than FOIR, e.g. the product ceiling or LTV-implied amount. */
+  caps: number[];
+}
+
+/**
+ * Sizes the proposed loan: its EMI and schedule, the FOIR it results in, and
+ * the largest amount the FOIR limit allows, found by solving the EMI formula
+ * backwards from the instalment headroom left after existing obligations.
+ */
+export function structureLoan(inputs: StructuringInputs): LoanStructure {
+  const proposedEmi = calculateEmi(inputs.loanAmount, inputs.interestRate, inputs.tenureMonths);
+  const schedule = amortisationSchedule(inputs.loanAmount, inputs.interestRate, inputs.tenureMonths);
+  const totalPayable = schedule.reduce((sum, row) => sum + row.emi, 0);
+  const emiHeadroom = (inputs.monthlyIncome * inputs.foirLimit) / 100 - inputs.existingEmi;
+  const maxEligibleAmount = principalForEmi(emiHeadroom, inputs.interestRate, inputs.tenureMonths);
+
+  return {
+    loanAmount: inputs.loanAmount,
+    tenureMonths: inputs.tenureMonths,
+    interestRate: inputs.interestRate,
+    proposedEmi,
+    totalInterest: totalPayable - inputs.loanAmount,
+    totalPayable,
+    foir: ((inputs.existingEmi + proposedEmi) / inputs.monthlyIncome) * 100,
+    foirLimit: inputs.foirLimit,
+    maxEligibleAmount,
+    maxSanctionableAmount: Math.max(0, Math.min(maxEligibleAmount, ...inputs.caps)),
+    schedule,
+  };
+}
@@ -0,0 +1,151 @@
+import { bureauMetrics, summariseBureauReport, type BureauSummary } from './bureau';
+import { assessCollateral, collateralMetrics, type CollateralAssessment } from './collateral';
+import { employmentMetrics } from './employment';
+import { analyseFinancials, financialMetrics, type FinancialAnalysis } from './financials';
+import { incomeVerificationMetrics, verifyIncome, type IncomeVerification } from './income-verification';
+import { assessKyc, kycMetrics, kycRequirements, type KycAssessment } from './kyc';
+import { structureLoan } from './loan-structure';
+import type { MetricContext } from './policy/expression';
+import type { EmploymentProfile, PolicyDocument, ProductDefinition } from './policy/types';
+import { productMetrics } from './products';
+import { assessParties, partyMetrics } from './parties';
+import type { LoanApplication, LoanStructure, PartyAssessment } from './types';
+
+export interface DerivedMetrics {
+  loanAmount: number;
+  annualIncome: number;
+  /** Applicant and co-applicant income after haircuts; all income ratios use this. */
+  eligibleAnnualIncome: number;
+  monthlyIncome: number;
+  /** The score selected by the policy's `creditScoreBasis`. */
+  creditScore: number;
+  applicantCreditScore: number;
+  employmentYears: number;
+  /** Monthly EMIs of the applicant and co-applicants. */
+  existingLoans: number;
+  collateralValue: number;
+  /** Security value after haircuts and valuation ageing; LTV and coverage use this. */
+  eligibleCollateralValue: number;
+  tenureMonths: number;
+  interestRate: number;
+  businessVintage: number;
+  loanPurpose: string;
+  employmentType: string;
+  loanToIncome: number;
+  loanToValue: number;
+  /** Existing monthly EMIs as a percentage of monthly income. */
+  debtToIncome: number;
+  collateralCoverage: number;
+}
+
+/** Computes the borrower-level ratios every check and risk dimension is expressed in. */
+export function deriveMetrics(application: LoanApplication, parties: PartyAssessment, collateral: CollateralAssessment): DerivedMetrics {
+  const eligibleAnnualIncome = parties.combinedEligibleIncome;
+  const monthlyIncome = eligibleAnnualIncome / 12;
+  const existingLoans = parties.combinedExistingEmi;
+  const eligibleCollateralValue = collateral.eligibleValue;
+  return {
+    loanAmount: application.loanAmount,
+    annualIncome: application.annualIncome,
+    eligibleAnnualIncome,
+    monthlyIncome,
+    creditScore: parties.assessedCreditScore,
+    applicantCreditScore: application.creditScore,
+    employmentYears: application.employmentYears,
+    existingLoans,
+    collateralValue: collateral.marketValue,
+    eligibleCollateralValue,
+    tenureMonths: application.tenureMonths,
+    interestRate: application.interestRate,
+    businessVintage: application.businessVintage ?? 0,
+    loanPurpose: application.loanPurpose,
+    employmentType: application.employmentType,
+    loanToIncome: application.loanAmount / eligibleAnnualIncome,
+    loanToValue: eligibleCollateralValue > 0 ? application.loanAmount / eligibleCollateralValue : 0,
+    // A declared DTI can only raise the computed one, never stand in for it.
+    debtToIncome: Math.max(application.debtToIncome ?? 0, (existingLoans / monthlyIncome) * 100),
+    collateralCoverage: eligibleCollateralValue / application.loanAmount,
+  };
+}
+
+/**
+ * Assembles everything a policy expression can reference: borrower metrics,
+ * co-applicant and guarantor figures, the bureau report summary, income
+ * verification and banking conduct, KYC and screening state, the securities
+ * after haircuts, business financial ratios, the product's and employment
+ * profile's limits and the structured loan (EMI, FOIR, eligibility).
+ */
+export function buildMetricContext(
+  application: LoanApplication,
+  product: ProductDefinition,
+  profile: EmploymentProfile,
+  policy: Pick<PolicyDocument, 'structuring' | 'parties' | 'employmentProfiles' | 'incomeVerification' | 'kyc' | 'collateral' | 'financialAnalysis'>,
+): {
+  context: MetricContext;
+  metrics: DerivedMetrics;
+  loanStructure: LoanStructure;
+  parties: PartyAssessment;
+  bureau?: BureauSummary;
+  incomeVerification?: IncomeVerification;
+  kyc: KycAssessment;
+  collateral: CollateralAssessment;
+  financialAnalysis?: FinancialAnalysis;
+} {
+  const employment = employmentMetrics(profile, product);
+  const bureau = application.bureauReport ? summariseBureauReport(application.bureauReport) : undefined;
+  const incomeVerification = verifyIncome(application, policy.incomeVerification);
+  const parties = assessParties(application, profile, policy, incomeVerification?.assessedAnnualIncome);
+  const collateral = assessCollateral(application.collateral, application.collateralValue, policy.collateral, application.appraisalDate);
+  const metrics = deriveMetrics(application, parties, collateral);
+  const kyc = assessKyc(application.kyc, kycRequirements(policy.kyc, application.loanPurpose, application.employmentType));
+  const limits = productMetrics(product, application.loanAmount);
+  const caps = [product.maxTicket];
+  if (limits.collateralRequired) caps.push(collateral.eligibleValue * limits.ltvMaxCap);
+
+  const loanStructure = structureLoan({
+    loanAmount: application.loanAmount,
+    interestRate: application.interestRate,
+    tenureMonths: application.tenureMonths,
+    monthlyIncome: metrics.monthlyIncome,
+    existingEmi: metrics.existingLoans,
+    foirLimit: policy.structuring.foirLimit,
+    caps,
+  });
+  // A working capital limit is serviced by interest on the drawn limit; a term loan by its EMIs.
+  const financialAnalysis = application.financials && application.financials.years.length > 0
+    ? analyseFinancials(
+      application.financials,
+      policy.financialAnalysis,
+      application.financials.facility === 'WORKING_CAPITAL'
+        ? application.loanAmount * application.interestRate / 100
+        : loanStructure.proposedEmi * 12,
+    )
+    : undefined;
+
+  return {
+    context: {
+      ...metrics,
+      ...limits,
+      ...employment,
+      ...partyMetrics(application, parties),
+      ...bureauMetrics(bureau),
+      ...incomeVerificationMetrics(incomeVerification, application.incomeEvidence?.bankStatement),
+      ...kycMetrics(kyc),
+      ...collateralMetrics(collateral),
+      ...financialMetrics(financialAnalysis, policy.financialAnalysis),
+      foirLimit: loanStructure.foirLimit,
+      proposedEmi: loanStructure.proposedEmi,
+      foir: loanStructure.foir,
+      maxEligibleAmount: loanStructure.maxEligibleAmount,
+      maxSanctionableAmount: loanStructure.maxSanctionableAmount,
+    },
+    metrics,
+    loanStructure,
+    parties,
+    bureau,
+    incomeVerification,
+    kyc,
+    collateral,
+    financialAnalysis,
+  };
+}
@@ -0,0 +1,87 @@
+import { findEmploymentProfile } from './employment';
+import type { EmploymentProfile, PolicyDocument } from './policy/types';
+import type { LoanApplication, PartyAssessment, PartyBreakdown } from './types';
+
+/**
+ * Breaks the application down by party and combines them under the policy's
+ * party rules: co-applicants' incomes (after their own profile's haircut) and
+ * EMIs join the applicant's, the credit score is the applicant's or the
+ * weakest borrower's, and guarantor net worth is totalled. The applicant's
+ * income is `assessedAnnualIncome` where verification capped it.
+ */
+export function assessParties(
+  application: LoanApplication,
+  profile: EmploymentProfile,
+  policy: Pick<PolicyDocument, 'parties' | 'employmentProfiles'>,
+  assessedAnnualIncome: number = application.annualIncome,
+): PartyAssessment {
+  const applicantIncome = assessedAnnualIncome * (1 - profile.incomeHaircut);
+  const parties: PartyBreakdown[] = [{
+    role: 'APPLICANT',
+    name: application.applicantName,
+    creditScore: application.creditScore,
+    employmentType: application.employmentType,
+    declaredAnnualIncome: application.annualIncome,
+    incomeHaircut: profile.incomeHaircut,
+    eligibleAnnualIncome: applicantIncome,
+    countedIncome: applicantIncome,
+    existingEmi: application.existingLoans,
+  }];
+
+  (application.coApplicants ?? []).forEach(coApplicant => {
+    const coProfile = findEmploymentProfile(policy, coApplicant.employmentType);
+    if (!coProfile) throw new Error(`No employment profile "${coApplicant.employmentType}" for co-applicant ${coApplicant.name}.`);
+    const eligible = coApplicant.annualIncome * (1 - coProfile.incomeHaircut);
+    parties.push({
+      role: 'CO_APPLICANT',
+      name: coApplicant.name,
+      relationship: coApplicant.relationship,
+      creditScore: coApplicant.creditScore,
+      employmentType: coApplicant.employmentType,
+      declaredAnnualIncome: coApplicant.annualIncome,
+      incomeHaircut: coProfile.incomeHaircut,
+      eligibleAnnualIncome: eligible,
+      countedIncome: eligible * policy.parties.coApplicantIncomeShare,
+      existingEmi: coApplicant.existingLoans,
+    });
+  });
+
+  (application.guarantors ?? []).forEach(guarantor => {
+    parties.push({
+      role: 'GUARANTOR',
+      name: guarantor.name,
+      relationship: guarantor.relationship,
+      creditScore: guarantor.creditScore,
+      declaredAnnualIncome: 0,
+      incomeHaircut: 0,
+      eligibleAnnualIncome: 0,
+      countedIncome: 0,
+      existingEmi: 0,
+      netWorth: guarantor.netWorth,
+    });
+  });
+
+  const borrowers = parties.filter(party => party.role !== 'GUARANTOR');
+  return {
+    parties,
+    combinedEligibleIncome: borrowers.reduce((sum, party) => sum + party.countedIncome, 0),
+    combinedExistingEmi: borrowers.reduce((sum, party) => sum + party.existingEmi, 0),
+    creditScoreBasis: policy.parties.creditScoreBasis,
+    assessedCreditScore: policy.parties.creditScoreBasis === 'weakest'
+      ? Math.min(...borrowers.map(party => party.creditScore))
+      : application.creditScore,
+    guarantorNetWorth: parties.reduce((sum, party) => sum + (party.netWorth ?? 0), 0),
+  };
+}
+
+/** Party counts and guarantor figures policy checks can reference; zeros when there are none. */
+export function partyMetrics(application: LoanApplication, assessment: PartyAssessment) {
+  const guarantors = assessment.parties.filter(party => party.role === 'GUARANTOR');
+  return {
+    coApplicantCount: application.coApplicants?.length ?? 0,
+    guarantorCount: guarantors.length,
+    guarantorNetWorth: assessment.guarantorNetWorth,
+    guarantorCoverage: assessment.guarantorNetWorth / application.loanAmount,
+    guarantorMinCreditScore: guarantors.length > 0 ? Math.min(...guarantors.map(party => party.creditScore)) : 0,
+  };
+}
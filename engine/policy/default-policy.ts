@@ -0,0 +1,1031 @@
+import type { PolicyDocument } from './types';
+
+const securedChecks = [
+  'ltv',
+  'credit-report',
+  'kyc',
+  'priority-sector',
+  'dti',
+  'foir',
+  'employment-stability',
+  'business-vintage',
+  'loan-to-income',
+  'collateral-coverage',
+  'ticket-size',
+  'tenure',
+  'guarantor-net-worth',
+  'guarantor-credit',
+  'bureau-dpd',
+  'bureau-write-off',
+  'bureau-enquiries',
+  'income-verification',
+  'salary-regularity',
+  'banking-conduct',
+  'cash-deposits',
+];
+
+const unsecuredChecks = securedChecks.filter(id => id !== 'ltv' && id !== 'collateral-coverage');
+
+/** Business lending adds the SME desk's financial statement analysis. */
+const businessChecks = [
+  ...securedChecks,
+  'financial-statements',
+  'dscr',
+  'current-ratio',
+  'tol-tnw',
+  'interest-coverage',
+  'turnover-growth',
+  'working-capital',
+];
+
+/**
+ * The policy shipped with the engine. Deployments can replace it at runtime
+ * with a JSON document of the same shape (see `server/policy.ts`).
+ */
+export const defaultPolicy: PolicyDocument = {
+  version: '2025.06',
+  effectiveFrom: '2024-04-01',
+  description: 'Baseline RBI and bank credit policy.',
+  scoring: {
+    warningCredit: 0.5,
+  },
+  structuring: {
+    foirLimit: 50,
+  },
+  parties: {
+    creditScoreBasis: 'weakest',
+    coApplicantIncomeShare: 1,
+    maxCoApplicants: 3,
+    maxGuarantors: 2,
+  },
+  incomeVerification: {
+    tolerance: 0.15,
+    capAtVerified: true,
+    minSalaryRegularity: 0.8,
+  },
+  checks: [
+    {
+      id: 'ltv',
+      parameter: 'Loan-to-Value (LTV) Ratio',
+      category: 'rbi',
+      metric: 'loanToValue',
+      appliesWhen: { metric: 'collateralRequired', gte: 1 },
+      bands: [
+        {
+          when: { metric: 'collateralValue', lte: 0 },
+          result: 'FAIL',
+          details: 'No collateral offered. {{productName}} requires security above the collateral-free limit.',
+        },
+        {
+          when: { metric: 'eligibleCollateralValue', lte: 0 },
+          result: 'FAIL',
+          details: 'No eligible security: {{collateralStaleSecurities}} valuation(s) too old to lend against. Revalue before sanction.',
+        },
+        { when: { lte: 'ltvPassCap' }, result: 'PASS' },
+        { when: { lte: 'ltvMaxCap' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'LTV: {{loanToValue * 100 | fixed:2}}% on eligible security of ₹{{eligibleCollateralValue | inr}} (market ₹{{collateralValue | inr}}). {{productName}} ceiling for this ticket size: {{ltvMaxCap * 100 | fixed:0}}% (recommended max {{ltvPassCap * 100 | fixed:0}}%).',
+    },
+    {
+      id: 'credit-report',
+      parameter: 'Credit Information Report',
+      category: 'rbi',
+      metric: 'creditScore',
+      bands: [
+        { when: { gte: 700 }, result: 'PASS' },
+        { when: { gte: 650 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Credit Score: {{creditScore}}. Min recommended: 650-700 as per CIBIL standards.',
+    },
+    {
+      id: 'kyc',
+      parameter: 'KYC Compliance',
+      category: 'rbi',
+      metric: 'kycSanctionsMatches',
+      bands: [
+        {
+          when: { gt: 0 },
+          result: 'FAIL',
+          details: 'A party matches an entry on the sanctions list; the relationship must not be opened.',
+        },
+        {
+          when: { metric: 'kycDocumentsRejected', gt: 0 },
+          result: 'FAIL',
+          details: '{{kycDocumentsRejected}} KYC document(s) rejected on verification.',
+        },
+        {
+          when: { metric: 'kycScreeningAlerts', gt: 0 },
+          result: 'WARNING',
+          details: '{{kycScreeningAlerts}} possible sanctions or PEP match(es); enhanced due diligence required.',
+        },
+        {
+          when: { metric: 'kycPanCaptured + kycAadhaarCaptured + kycAddressProofCaptured', lt: 3 },
+          result: 'WARNING',
+          details: 'PAN, Aadhaar and proof of address details are incomplete.',
+        },
+        {
+          when: { metric: 'kycDocumentsPending', gt: 0 },
+          result: 'WARNING',
+          details: '{{kycDocumentsPending}} of {{kycDocumentsRequired}} mandatory KYC documents not yet verified.',
+        },
+        {
+          when: { metric: 'kycScreened', lte: 0 },
+          result: 'WARNING',
+          details: 'Sanctions and PEP screening has not been run.',
+        },
+        { result: 'PASS' },
+      ],
+      weight: 12.5,
+      details: 'PAN and Aadhaar validated, {{kycDocumentsVerified}} KYC documents verified and sanctions/PEP screening clear (PMLA).',
+    },
+    {
+      id: 'priority-sector',
+      parameter: 'Priority Sector Classification',
+      category: 'rbi',
+      metric: 'loanPurpose',
+      bands: [
+        {
+          when: { in: ['agriculture', 'msme', 'education'] },
+          result: 'PASS',
+          details: 'Eligible for priority sector lending targets (40% for domestic banks).',
+        },
+        { result: 'WARNING' },
+      ],
+      weight: 12.5,
+      details: 'Non-priority sector loan.',
+    },
+    {
+      id: 'dti',
+      parameter: 'Debt-to-Income Ratio',
+      category: 'bank',
+      metric: 'debtToIncome',
+      bands: [
+        { when: { lte: 40 }, result: 'PASS' },
+        { when: { lte: 50 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'DTI: {{debtToIncome | fixed:2}}% of monthly income already committed to existing EMIs. Bank policy: Max 40% recommended, 50% absolute limit.',
+    },
+    {
+      id: 'foir',
+      parameter: 'Fixed Obligations to Income Ratio (FOIR)',
+      category: 'bank',
+      metric: 'foir',
+      bands: [
+        { when: { lte: 'foirLimit' }, result: 'PASS' },
+        { when: { lte: 'foirLimit + 10' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'FOIR: {{foir | fixed:2}}% including proposed EMI of ₹{{proposedEmi | inr}}. Bank policy: Max {{foirLimit}}%.',
+    },
+    {
+      id: 'employment-stability',
+      parameter: 'Employment Stability',
+      category: 'bank',
+      metric: 'employmentYears',
+      bands: [
+        { when: { gte: 'minEmploymentYears' }, result: 'PASS' },
+        { when: { gte: 'warningEmploymentYears' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Employment: {{employmentYears}} years. Min required for {{employmentProfileName}}: {{minEmploymentYears}} years.',
+    },
+    {
+      id: 'business-vintage',
+      parameter: 'Business Vintage',
+      category: 'bank',
+      metric: 'businessVintage',
+      appliesWhen: { metric: 'minBusinessVintage', gt: 0 },
+      bands: [
+        { when: { gte: 'minBusinessVintage' }, result: 'PASS' },
+        { when: { gte: 'minBusinessVintage - 1' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Business vintage: {{businessVintage}} years. Min required: {{minBusinessVintage}} years of operations.',
+    },
+    {
+      id: 'loan-to-income',
+      parameter: 'Loan Amount Eligibility',
+      category: 'bank',
+      metric: 'loanToIncome',
+      bands: [
+        { when: { lte: 5 }, result: 'PASS' },
+        { when: { lte: 7 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Loan-to-Income: {{loanToIncome | fixed:2}}x of eligible income ₹{{eligibleAnnualIncome | inr}}. Max recommended: 5x annual income.',
+    },
+    {
+      id: 'collateral-coverage',
+      parameter: 'Collateral Coverage',
+      category: 'bank',
+      metric: 'collateralCoverage',
+      appliesWhen: { metric: 'collateralRequired', gte: 1 },
+      bands: [
+        { when: { gte: 1.2 }, result: 'PASS' },
+        { when: { gte: 1 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Collateral coverage: {{collateralCoverage * 100 | fixed:2}}% after haircuts. Min required: 120%.',
+    },
+    {
+      id: 'financial-statements',
+      parameter: 'Financial Statements',
+      category: 'bank',
+      metric: 'financialYears',
+      bands: [
+        { when: { lte: 0 }, result: 'WARNING', details: 'No balance sheet or P&L provided; the business has been assessed on declared income alone.' },
+        { when: { lt: 'minFinancialYears' }, result: 'WARNING' },
+        { result: 'PASS' },
+      ],
+      weight: 5,
+      details: '{{financialYears}} year(s) of financial statements analysed; {{minFinancialYears}} expected.',
+    },
+    {
+      id: 'dscr',
+      parameter: 'Debt Service Coverage Ratio',
+      category: 'bank',
+      metric: 'dscr',
+      appliesWhen: { metric: 'financialYears', gte: 1 },
+      bands: [
+        { when: { gte: 1.5 }, result: 'PASS' },
+        { when: { gte: 1.25 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 10,
+      details: 'DSCR: {{dscr | fixed:2}}x including the proposed facility. Min required: 1.25x (comfortable at 1.5x).',
+    },
+    {
+      id: 'current-ratio',
+      parameter: 'Current Ratio',
+      category: 'bank',
+      metric: 'currentRatio',
+      appliesWhen: { metric: 'financialYears', gte: 1 },
+      bands: [
+        { when: { gte: 1.33 }, result: 'PASS' },
+        { when: { gte: 1 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Current ratio: {{currentRatio | fixed:2}}. Benchmark: 1.33.',
+    },
+    {
+      id: 'tol-tnw',
+      parameter: 'TOL / TNW',
+      category: 'bank',
+      metric: 'tolTnw',
+      appliesWhen: { metric: 'financialYears', gte: 1 },
+      bands: [
+        {
+          when: { metric: 'tangibleNetWorth', lte: 0 },
+          result: 'FAIL',
+          details: 'Tangible net worth is eroded (₹{{tangibleNetWorth | inr}}).',
+        },
+        { when: { lte: 3 }, result: 'PASS' },
+        { when: { lte: 4 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'TOL/TNW: {{tolTnw | fixed:2}}. Max acceptable: 3 (4 with justification).',
+    },
+    {
+      id: 'interest-coverage',
+      parameter: 'Interest Coverage Ratio',
+      category: 'bank',
+      metric: 'interestCoverage',
+      appliesWhen: { metric: 'financialYears', gte: 1 },
+      bands: [
+        { when: { gte: 2 }, result: 'PASS' },
+        { when: { gte: 1.5 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Interest coverage: {{interestCoverage | fixed:2}}x. Min required: 1.5x.',
+    },
+    {
+      id: 'turnover-growth',
+      parameter: 'Turnover Trend',
+      category: 'bank',
+      metric: 'turnoverGrowth',
+      appliesWhen: { metric: 'financialYears', gte: 2 },
+      bands: [
+        { when: { gte: 0 }, result: 'PASS' },
+        { when: { gte: -0.1 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Turnover growth: {{turnoverGrowth * 100 | fixed:1}}% a year to ₹{{latestTurnover | inr}}.',
+    },
+    {
+      id: 'working-capital',
+      parameter: 'Working Capital Assessment',
+      category: 'bank',
+      metric: 'loanAmount',
+      appliesWhen: { metric: 'financialYears * workingCapitalFacility', gte: 1 },
+      bands: [
+        { when: { lte: 'workingCapitalLimit' }, result: 'PASS' },
+        { when: { lte: 'workingCapitalLimit * 1.1' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 10,
+      details: 'Limit sought ₹{{loanAmount | inr}} against an assessed working capital limit of ₹{{workingCapitalLimit | inr}}.',
+    },
+    {
+      id: 'msme-classification',
+      parameter: 'MSME Classification',
+      category: 'bank',
+      metric: 'msmeClass',
+      bands: [
+        {
+          when: { metric: 'financialYears', lte: 0 },
+          result: 'WARNING',
+          details: 'MSME status cannot be confirmed without financial statements.',
+        },
+        { when: { in: ['MICRO', 'SMALL', 'MEDIUM'] }, result: 'PASS' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Enterprise classified as {{msmeClass}} on investment in plant and machinery and turnover.',
+    },
+    {
+      id: 'ticket-size',
+      parameter: 'Product Ticket Size',
+      category: 'bank',
+      metric: 'loanAmount',
+      bands: [
+        { when: { gte: 'minTicket', lte: 'maxTicket' }, result: 'PASS' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Loan amount ₹{{loanAmount | inr}}. {{productName}} range: ₹{{minTicket | inr}} to ₹{{maxTicket | inr}}.',
+    },
+    {
+      id: 'tenure',
+      parameter: 'Product Tenure',
+      category: 'bank',
+      metric: 'tenureMonths',
+      bands: [
+        { when: { gte: 'minTenureMonths', lte: 'maxTenureMonths' }, result: 'PASS' },
+        { result: 'FAIL' },
+      ],
+      weight: 12.5,
+      details: 'Tenure: {{tenureMonths}} months. {{productName}} allows {{minTenureMonths}} to {{maxTenureMonths}} months.',
+    },
+    {
+      id: 'guarantor-net-worth',
+      parameter: 'Guarantor Net Worth',
+      category: 'bank',
+      metric: 'guarantorCoverage',
+      appliesWhen: { metric: 'guarantorCount', gt: 0 },
+      bands: [
+        { when: { gte: 1 }, result: 'PASS' },
+        { when: { gte: 0.5 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 7.5,
+      details: 'Guarantor net worth ₹{{guarantorNetWorth | inr}} covers {{guarantorCoverage * 100 | fixed:0}}% of the loan. Full cover expected.',
+    },
+    {
+      id: 'guarantor-credit',
+      parameter: 'Guarantor Credit Standing',
+      category: 'bank',
+      metric: 'guarantorMinCreditScore',
+      appliesWhen: { metric: 'guarantorCount', gt: 0 },
+      bands: [
+        { when: { gte: 700 }, result: 'PASS' },
+        { when: { gte: 650 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 7.5,
+      details: 'Lowest guarantor credit score: {{guarantorMinCreditScore}}. Min recommended: 700.',
+    },
+    {
+      id: 'bureau-dpd',
+      parameter: 'Repayment Track Record',
+      category: 'rbi',
+      metric: 'bureauMaxDpd24m',
+      appliesWhen: { metric: 'bureauReportAttached', gt: 0 },
+      bands: [
+        { when: { lt: 30 }, result: 'PASS' },
+        {
+          when: { lt: 90 },
+          result: 'WARNING',
+          details: 'Delinquency of {{bureauMaxDpd24m}} days past due in the last 24 months.',
+        },
+        {
+          result: 'FAIL',
+          details: '{{bureauDpd90Accounts24m}} account(s) 90+ days past due in the last 24 months (worst: {{bureauMaxDpd24m}} DPD).',
+        },
+      ],
+      weight: 10,
+      details: 'No account more than 30 days past due in the last 24 months.',
+    },
+    {
+      id: 'bureau-write-off',
+      parameter: 'Write-offs and Settlements',
+      category: 'rbi',
+      metric: 'bureauWrittenOff',
+      appliesWhen: { metric: 'bureauReportAttached', gt: 0 },
+      bands: [
+        { when: { gt: 0 }, result: 'FAIL', details: '{{bureauWrittenOff}} written-off account(s) on the bureau report.' },
+        { when: { metric: 'bureauSettled', gt: 0 }, result: 'WARNING', details: '{{bureauSettled}} account(s) closed by settlement.' },
+        { result: 'PASS' },
+      ],
+      weight: 10,
+      details: 'No written-off or settled accounts reported.',
+    },
+    {
+      id: 'bureau-enquiries',
+      parameter: 'Recent Credit Enquiries',
+      category: 'bank',
+      metric: 'bureauEnquiries6m',
+      appliesWhen: { metric: 'bureauReportAttached', gt: 0 },
+      bands: [
+        { when: { lte: 3 }, result: 'PASS' },
+        { when: { lte: 6 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: '{{bureauEnquiries6m}} credit enquiries in the last 6 months. More than 3 suggests credit hunger.',
+    },
+    {
+      id: 'income-verification',
+      parameter: 'Income Verification',
+      category: 'bank',
+      metric: 'incomeVariance',
+      appliesWhen: { metric: 'incomeVerified', gt: 0 },
+      bands: [
+        { when: { lte: 'incomeTolerance' }, result: 'PASS' },
+        { when: { lte: 'incomeTolerance * 2' }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 10,
+      details: 'Declared ₹{{annualIncome | inr}} against verified ₹{{verifiedAnnualIncome | inr}} ({{incomeVariance * 100 | fixed:1}}% over; tolerance {{incomeTolerance * 100 | fixed:0}}%). Assessed on ₹{{assessedAnnualIncome | inr}}.',
+    },
+    {
+      id: 'salary-regularity',
+      parameter: 'Salary Credit Regularity',
+      category: 'bank',
+      metric: 'salaryRegularity',
+      appliesWhen: { metric: 'salaryCreditsExpected * bankStatementMonths', gt: 0 },
+      bands: [
+        { when: { gte: 0.8 }, result: 'PASS' },
+        { when: { gte: 0.5 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Salary credited in {{salaryRegularity * 100 | fixed:0}}% of the {{bankStatementMonths}} statement months.',
+    },
+    {
+      id: 'banking-conduct',
+      parameter: 'Cheque and ECS Returns',
+      category: 'bank',
+      metric: 'bounceCount',
+      appliesWhen: { metric: 'bankStatementMonths', gt: 0 },
+      bands: [
+        { when: { lte: 0 }, result: 'PASS' },
+        { when: { lte: 2 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 7.5,
+      details: '{{bounceCount}} cheque/ECS return(s) in {{bankStatementMonths}} months; average balance ₹{{averageBalance | inr}}.',
+    },
+    {
+      id: 'cash-deposits',
+      parameter: 'Cash Deposit Share',
+      category: 'bank',
+      metric: 'cashDepositShare',
+      appliesWhen: { metric: 'bankStatementMonths', gt: 0 },
+      bands: [
+        { when: { lte: 0.3 }, result: 'PASS' },
+        { when: { lte: 0.5 }, result: 'WARNING' },
+        { result: 'FAIL' },
+      ],
+      weight: 5,
+      details: 'Cash deposits are {{cashDepositShare * 100 | fixed:0}}% of credits. Above 30% income is hard to verify.',
+    },
+  ],
+  products: [
+    {
+      purpose: 'home',
+      name: 'Home Loan',
+      collateralMandatory: true,
+      // RBI housing loan LTV ceilings: 90% up to ₹30L, 80% up to ₹75L, 75% above.
+      ltvSlabs: [
+        { upToAmount: 3000000, passLtv: 0.8, maxLtv: 0.9 },
+        { upToAmount: 7500000, passLtv: 0.75, maxLtv: 0.8 },
+        { passLtv: 0.7, maxLtv: 0.75 },
+      ],
+      minTicket: 100000,
+      maxTicket: 100000000,
+      minTenureMonths: 60,
+      maxTenureMonths: 360,
+      checks: securedChecks,
+    },
+    {
+      purpose: 'personal',
+      name: 'Personal Loan',
+      collateralMandatory: false,
+      ltvSlabs: [],
+      minTicket: 50000,
+      maxTicket: 4000000,
+      minTenureMonths: 12,
+      maxTenureMonths: 60,
+      checks: unsecuredChecks,
+    },
+    {
+      purpose: 'business',
+      name: 'Business Loan',
+      collateralMandatory: true,
+      ltvSlabs: [{ passLtv: 0.75, maxLtv: 0.8 }],
+      minTicket: 500000,
+      maxTicket: 50000000,
+      minTenureMonths: 12,
+      maxTenureMonths: 120,
+      minBusinessVintageYears: 3,
+      checks: businessChecks,
+    },
+    {
+      purpose: 'vehicle',
+      name: 'Vehicle Loan',
+      collateralMandatory: true,
+      ltvSlabs: [{ passLtv: 0.85, maxLtv: 0.9 }],
+      minTicket: 100000,
+      maxTicket: 10000000,
+      minTenureMonths: 12,
+      maxTenureMonths: 84,
+      checks: securedChecks,
+    },
+    {
+      purpose: 'education',
+      name: 'Education Loan',
+      collateralMandatory: true,
+      // IBA model scheme: no collateral up to ₹7.5L.
+      collateralFreeLimit: 750000,
+      ltvSlabs: [{ passLtv: 0.8, maxLtv: 0.9 }],
+      minTicket: 50000,
+      maxTicket: 15000000,
+      minTenureMonths: 12,
+      maxTenureMonths: 180,
+      checks: securedChecks,
+    },
+    {
+      purpose: 'agriculture',
+      name: 'Agriculture Loan',
+      collateralMandatory: true,
+      // RBI collateral-free limit for agricultural loans.
+      collateralFreeLimit: 160000,
+      ltvSlabs: [{ passLtv: 0.8, maxLtv: 0.9 }],
+      minTicket: 10000,
+      maxTicket: 20000000,
+      minTenureMonths: 6,
+      maxTenureMonths: 120,
+      checks: securedChecks,
+    },
+    {
+      purpose: 'msme',
+      name: 'MSME Loan',
+      collateralMandatory: true,
+      // RBI mandate: no collateral for MSE loans up to ₹10L.
+      collateralFreeLimit: 1000000,
+      ltvSlabs: [{ passLtv: 0.75, maxLtv: 0.85 }],
+      minTicket: 100000,
+      maxTicket: 100000000,
+      minTenureMonths: 12,
+      maxTenureMonths: 120,
+      minBusinessVintageYears: 2,
+      checks: [...businessChecks, 'msme-classification'],
+    },
+  ],
+  employmentProfiles: [
+    {
+      employmentType: 'salaried',
+      name: 'Salaried',
+      minEmploymentYears: 2,
+      warningEmploymentYears: 1,
+      incomeProof: ['Salary slips for the last 3 months', 'Form 16 for the last 2 years', 'Salary account statement for 6 months'],
+      incomeHaircut: 0,
+      salaryCredits: true,
+    },
+    {
+      employmentType: 'self-employed',
+      name: 'Self-Employed',
+      minEmploymentYears: 3,
+      warningEmploymentYears: 2,
+      minBusinessVintageYears: 3,
+      incomeProof: ['ITR with computation of income for the last 2 years', 'Bank statements for 12 months'],
+      incomeHaircut: 0.2,
+    },
+    {
+      employmentType: 'business',
+      name: 'Business Owner',
+      minEmploymentYears: 3,
+      warningEmploymentYears: 2,
+      minBusinessVintageYears: 3,
+      incomeProof: [
+        'ITR for the last 3 years',
+        'CA-audited balance sheet and P&L for the last 3 years',
+        'GST returns for 12 months',
+        'Current account statement for 12 months',
+      ],
+      incomeHaircut: 0.25,
+    },
+    {
+      employmentType: 'professional',
+      name: 'Self-Employed Professional',
+      minEmploymentYears: 2,
+      warningEmploymentYears: 1,
+      incomeProof: ['ITR for the last 2 years', 'Professional qualification certificate', 'Bank statements for 12 months'],
+      incomeHaircut: 0.1,
+    },
+  ],
+  scorecard: {
+    model: 'points',
+    name: 'Retail application scorecard',
+    version: 'RAS-1.1',
+    // 600 points ≈ 30:1 good:bad; every 40 points doubles the odds.
+    basePoints: 350,
+    baseScore: 600,
+    baseOdds: 30,
+    pointsToDoubleOdds: 40,
+    attributes: [
+      {
+        id: 'bureau-score',
+        label: 'Credit score',
+        metric: 'creditScore',
+        bins: [
+          { when: { gte: 750 }, result: 60, label: '750+' },
+          { when: { gte: 700 }, result: 45, label: '700-749' },
+          { when: { gte: 650 }, result: 30, label: '650-699' },
+          { when: { gte: 600 }, result: 15, label: '600-649' },
+          { result: 5, label: 'Below 600' },
+        ],
+        reasonCode: 'RC01',
+        reason: 'Credit score below the prime band',
+      },
+      {
+        id: 'foir',
+        label: 'FOIR',
+        metric: 'foir',
+        bins: [
+          { when: { lte: 40 }, result: 45, label: 'Up to 40%' },
+          { when: { lte: 50 }, result: 30, label: '40-50%' },
+          { when: { lte: 60 }, result: 15, label: '50-60%' },
+          { result: 5, label: 'Above 60%' },
+        ],
+        reasonCode: 'RC02',
+        reason: 'High fixed obligations relative to income',
+      },
+      {
+        id: 'ltv',
+        label: 'Loan to value',
+        metric: 'loanToValue',
+        bins: [
+          { when: { metric: 'collateralRequired', lte: 0 }, result: 25, label: 'Unsecured' },
+          { when: { metric: 'eligibleCollateralValue', lte: 0 }, result: 5, label: 'No eligible security' },
+          { when: { lte: 0.6 }, result: 45, label: 'Up to 60%' },
+          { when: { lte: 0.8 }, result: 35, label: '60-80%' },
+          { when: { lte: 0.9 }, result: 20, label: '80-90%' },
+          { result: 5, label: 'Above 90%' },
+        ],
+        reasonCode: 'RC03',
+        reason: 'Little or no collateral cover for the loan amount',
+      },
+      {
+        id: 'loan-to-income',
+        label: 'Loan to income',
+        metric: 'loanToIncome',
+        bins: [
+          { when: { lte: 2 }, result: 45, label: 'Up to 2x' },
+          { when: { lte: 4 }, result: 35, label: '2-4x' },
+          { when: { lte: 6 }, result: 20, label: '4-6x' },
+          { result: 5, label: 'Above 6x' },
+        ],
+        reasonCode: 'RC04',
+        reason: 'Loan amount high relative to annual income',
+      },
+      {
+        id: 'employment-years',
+        label: 'Years in employment',
+        metric: 'employmentYears',
+        bins: [
+          { when: { gte: 5 }, result: 40, label: '5+ years' },
+          { when: { gte: 2 }, result: 30, label: '2-5 years' },
+          { when: { gte: 1 }, result: 15, label: '1-2 years' },
+          { result: 5, label: 'Under 1 year' },
+        ],
+        reasonCode: 'RC05',
+        reason: 'Short employment or business history',
+      },
+      {
+        id: 'employment-type',
+        label: 'Employment type',
+        metric: 'employmentType',
+        bins: [
+          { when: { in: ['salaried'] }, result: 35, label: 'Salaried' },
+          { when: { in: ['professional'] }, result: 30, label: 'Professional' },
+          { result: 20, label: 'Self-employed / business' },
+        ],
+        reasonCode: 'RC06',
+        reason: 'Variable income source',
+      },
+      {
+        id: 'delinquency',
+        label: 'Worst DPD (24 months)',
+        metric: 'bureauMaxDpd24m',
+        bins: [
+          { when: { metric: 'bureauReportAttached', lte: 0 }, result: 20, label: 'No bureau report' },
+          { when: { gte: 90 }, result: 0, label: '90+ DPD' },
+          { when: { gte: 30 }, result: 15, label: '30-89 DPD' },
+          { result: 40, label: 'Under 30 DPD' },
+        ],
+        reasonCode: 'RC07',
+        reason: 'Recent delinquency, or no bureau report to show repayment history',
+      },
+      {
+        id: 'enquiries',
+        label: 'Enquiries (6 months)',
+        metric: 'bureauEnquiries6m',
+        bins: [
+          { when: { metric: 'bureauReportAttached', lte: 0 }, result: 20, label: 'No bureau report' },
+          { when: { lte: 3 }, result: 35, label: 'Up to 3' },
+          { when: { lte: 6 }, result: 20, label: '4-6' },
+          { result: 5, label: 'More than 6' },
+        ],
+        reasonCode: 'RC08',
+        reason: 'Many recent credit enquiries, or no bureau report to count them',
+      },
+    ],
+    grades: [
+      { when: { lte: 0.01 }, result: 'A' },
+      { when: { lte: 0.02 }, result: 'B' },
+      { when: { lte: 0.04 }, result: 'C' },
+      { when: { lte: 0.08 }, result: 'D' },
+      { when: { lte: 0.15 }, result: 'E' },
+      { result: 'F' },
+    ],
+    reasonCodeCount: 4,
+  },
+  pricing: {
+    benchmark: {
+      name: 'Repo-linked EBLR',
+      repoRate: 6.5,
+      markup: 2.25,
+    },
+    spreads: [
+      {
+        id: 'risk-grade',
+        label: 'Risk grade',
+        metric: 'riskGrade',
+        bands: [
+          { when: { in: ['A'] }, result: 0 },
+          { when: { in: ['B'] }, result: 25 },
+          { when: { in: ['C'] }, result: 50 },
+          { when: { in: ['D'] }, result: 100 },
+          { when: { in: ['E'] }, result: 175 },
+          { result: 250 },
+        ],
+      },
+      {
+        id: 'purpose',
+        label: 'Product',
+        metric: 'loanPurpose',
+        bands: [
+          { when: { in: ['home'] }, result: 0 },
+          { when: { in: ['education', 'agriculture'] }, result: 50 },
+          { when: { in: ['vehicle'] }, result: 75 },
+          { when: { in: ['business', 'msme'] }, result: 150 },
+          { result: 300 },
+        ],
+      },
+      {
+        id: 'ltv',
+        label: 'LTV band',
+        metric: 'loanToValue',
+        bands: [
+          { when: { metric: 'collateralRequired', lte: 0 }, result: 0 },
+          { when: { metric: 'eligibleCollateralValue', lte: 0 }, result: 25 },
+          { when: { lte: 0.6 }, result: 0 },
+          { when: { lte: 0.8 }, result: 10 },
+          { result: 25 },
+        ],
+      },
+      {
+        id: 'ticket-size',
+        label: 'Ticket size',
+        metric: 'loanAmount',
+        bands: [
+          { when: { gte: 7500000 }, result: -10 },
+          { when: { gte: 3000000 }, result: 0 },
+          { result: 10 },
+        ],
+      },
+    ],
+    minSpreadBps: 0,
+    concessions: [
+      { id: 'women-borrower', label: 'Woman borrower', bps: 5 },
+      { id: 'salary-account', label: 'Salary account with the bank', bps: 10 },
+    ],
+    maxConcessionBps: 15,
+    processingFee: {
+      percent: 0.5,
+      min: 2500,
+      max: 20000,
+      gstPercent: 18,
+    },
+  },
+  kyc: {
+    documents: [
+      { id: 'pan-card', label: 'PAN card', mandatory: true },
+      { id: 'photograph', label: 'Recent photograph', mandatory: true },
+      { id: 'address-proof', label: 'Proof of address (OVD)', mandatory: true },
+      { id: 'property-title', label: 'Title deed and encumbrance certificate', products: ['home'], mandatory: true },
+      { id: 'vehicle-quotation', label: 'Dealer quotation', products: ['vehicle'], mandatory: true },
+      { id: 'admission-letter', label: 'Admission letter and fee schedule', products: ['education'], mandatory: true },
+      { id: 'land-records', label: 'Land records (RoR)', products: ['agriculture'], mandatory: true },
+      { id: 'business-registration', label: 'Udyam or GST registration', products: ['business', 'msme'], mandatory: true },
+      {
+        id: 'business-address-proof',
+        label: 'Business address proof',
+        employmentTypes: ['self-employed', 'business'],
+        mandatory: false,
+      },
+    ],
+  },
+  collateral: {
+    unlistedHaircut: 0.2,
+    types: [
+      {
+        type: 'PROPERTY',
+        label: 'Immovable property',
+        haircut: 0,
+        ageing: [{ when: { lte: 12 }, result: 0 }, { when: { lte: 36 }, result: 0.1 }, { result: 1 }],
+      },
+      {
+        type: 'VEHICLE',
+        label: 'Vehicle',
+        haircut: 0.2,
+        ageing: [{ when: { lte: 6 }, result: 0 }, { when: { lte: 12 }, result: 0.15 }, { result: 1 }],
+      },
+      {
+        type: 'GOLD',
+        label: 'Gold ornaments',
+        haircut: 0.25,
+        ageing: [{ when: { lte: 1 }, result: 0 }, { when: { lte: 3 }, result: 0.1 }, { result: 1 }],
+      },
+      { type: 'FIXED_DEPOSIT', label: 'Fixed deposit (lien marked)', haircut: 0.1, ageing: [{ result: 0 }] },
+      {
+        type: 'SHARES',
+        label: 'Listed shares',
+        haircut: 0.5,
+        ageing: [{ when: { lte: 1 }, result: 0 }, { when: { lte: 3 }, result: 0.1 }, { result: 1 }],
+      },
+    ],
+  },
+  financialAnalysis: {
+    minYears: 2,
+    workingCapital: {
+      // Nayak committee: 25% of projected turnover, a fifth of it from the borrower, for turnover up to ₹5 crore.
+      turnoverMethodLimit: 50000000,
+      requirementShare: 0.25,
+      marginShare: 0.05,
+      mpbfMargin: 0.25,
+    },
+    // MSMED Act limits as revised with effect from 1 April 2025.
+    msmeClasses: [
+      { class: 'MICRO', maxInvestment: 25000000, maxTurnover: 100000000 },
+      { class: 'SMALL', maxInvestment: 250000000, maxTurnover: 1000000000 },
+      { class: 'MEDIUM', maxInvestment: 1250000000, maxTurnover: 5000000000 },
+    ],
+  },
+  delegation: [
+    { role: 'LOAN_OFFICER', label: 'Loan officer', limits: { LOW: 1000000, MEDIUM: 500000, HIGH: 0 } },
+    { role: 'CREDIT_ANALYST', label: 'Credit analyst', limits: { LOW: 5000000, MEDIUM: 2500000, HIGH: 0 } },
+    { role: 'BRANCH_MANAGER', label: 'Branch manager', limits: { LOW: 20000000, MEDIUM: 10000000, HIGH: 2500000 } },
+    {
+      role: 'REGIONAL_CREDIT_COMMITTEE',
+      label: 'Regional credit committee',
+      limits: { LOW: 250000000, MEDIUM: 100000000, HIGH: 25000000 },
+    },
+  ],
+  portfolio: {
+    ticketSizes: [
+      { when: { lte: 500000 }, result: 'Up to ₹5 lakh' },
+      { when: { lte: 2500000 }, result: '₹5-25 lakh' },
+      { when: { lte: 10000000 }, result: '₹25 lakh-1 crore' },
+      { result: 'Above ₹1 crore' },
+    ],
+    concentrationLimits: [
+      { id: 'purpose', label: 'Single product', dimension: 'loanPurpose', maxShare: 0.4 },
+      { id: 'employment', label: 'Single employment segment', dimension: 'employmentType', maxShare: 0.6 },
+      { id: 'high-risk', label: 'High-risk borrowers', dimension: 'overallRisk', buckets: ['HIGH'], maxShare: 0.1 },
+      { id: 'large-ticket', label: 'Loans above ₹1 crore', dimension: 'ticketSize', buckets: ['Above ₹1 crore'], maxShare: 0.25 },
+    ],
+    prioritySector: {
+      checkId: 'priority-sector',
+      target: 0.4,
+    },
+  },
+  risk: {
+    creditRisk: {
+      metric: 'creditScore',
+      bands: [
+        { when: { gte: 750 }, result: 'LOW' },
+        { when: { gte: 650 }, result: 'MEDIUM' },
+        { result: 'HIGH' },
+      ],
+    },
+    collateralRisk: {
+      metric: 'loanToValue',
+      bands: [
+        // LTV is zero both without security and for unsecured products, so neither may read as well covered.
+        { when: { metric: 'collateralRequired', lte: 0 }, result: 'MEDIUM' },
+        { when: { metric: 'eligibleCollateralValue', lte: 0 }, result: 'HIGH' },
+        { when: { lte: 0.7 }, result: 'LOW' },
+        { when: { lte: 0.85 }, result: 'MEDIUM' },
+        { result: 'HIGH' },
+      ],
+    },
+    levelScores: {
+      LOW: 100,
+      MEDIUM: 65,
+      HIGH: 30,
+    },
+    overall: [
+      { when: { gte: 80 }, result: 'LOW' },
+      { when: { gte: 50 }, result: 'MEDIUM' },
+      { result: 'HIGH' },
+    ],
+  },
+  decisionRules: [
+    {
+      decision: 'REJECTED',
+      minFailures: 3,
+      overallRisk: ['HIGH'],
+      reasons: [
+        { text: 'High risk profile with {{failures}} critical compliance failures.' },
+        { text: 'Credit score below minimum threshold.', metric: 'creditScore', when: { lt: 650 } },
+        { text: 'Debt-to-income ratio exceeds acceptable limits.', metric: 'debtToIncome', when: { gt: 50 } },
+        { text: 'Insufficient collateral coverage.', metric: 'loanToValue * collateralRequired', when: { gt: 'ltvMaxCap' } },
+        { text: 'Proposed EMI takes FOIR to {{foir | fixed:2}}%, beyond the {{foirLimit}}% limit.', metric: 'foir', when: { gt: 'foirLimit + 10' } },
+      ],
+      recommendations: [
+        { text: 'Applicant should improve credit score before reapplying.' },
+        { text: 'Consider reducing loan amount or increasing collateral value.' },
+        {
+          text: 'Maximum sanctionable amount under current policy is ₹{{maxSanctionableAmount | inr}}.',
+          metric: 'maxSanctionableAmount',
+          when: { gt: 0 },
+        },
+        { text: 'Clear existing debts to improve DTI ratio.' },
+      ],
+    },
+    {
+      decision: 'REVIEW_REQUIRED',
+      minFailures: 1,
+      minWarnings: 3,
+      overallRisk: ['MEDIUM'],
+      reasons: [
+        { text: 'Application requires senior management review due to {{warnings}} warnings and {{failures}} failures.' },
+        { text: 'Credit score in acceptable but cautionary range.', metric: 'creditScore', when: { lt: 700 } },
+        { text: 'Debt-to-income ratio above recommended threshold.', metric: 'debtToIncome', when: { gt: 40 } },
+        { text: 'FOIR of {{foir | fixed:2}}% exceeds the {{foirLimit}}% limit.', metric: 'foir', when: { gt: 'foirLimit' } },
+      ],
+      recommendations: [
+        { text: 'Request additional documentation and income proof.', condition: { type: 'ADDITIONAL_DOCUMENTATION' } },
+        { text: 'Consider co-applicant or guarantor to strengthen application.', condition: { type: 'CO_APPLICANT_OR_GUARANTOR' } },
+        { text: 'Verify employment and conduct detailed background check.', condition: { type: 'FIELD_VERIFICATION' } },
+        { text: 'May approve with higher interest rate or stricter terms.', condition: { type: 'RATE_LOADING', value: '50' } },
+        {
+          text: 'Restructure to ₹{{maxSanctionableAmount | inr}} or extend tenure to bring FOIR within limit.',
+          metric: 'loanAmount',
+          when: { gt: 'maxSanctionableAmount' },
+          condition: { type: 'REDUCED_AMOUNT', value: 'maxSanctionableAmount' },
+        },
+      ],
+    },
+    {
+      decision: 'APPROVED',
+      reasons: [
+        { text: 'All critical compliance checks passed.' },
+        { text: 'Strong credit profile and adequate collateral coverage.' },
+        { text: 'Meets RBI and internal bank policy requirements.' },
+      ],
+      recommendations: [
+        { text: 'Proceed with standard loan documentation.' },
+        { text: 'Offer {{pricedRate | fixed:2}}% p.a. (APR {{apr | fixed:2}}%) as priced for risk grade {{riskGrade}}.' },
+        { text: 'Complete legal and technical due diligence.' },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,77 @@
+import { evaluateExpression, ExpressionError, type MetricContext, type MetricValue } from './expression';
+import type { SanctionCondition } from '../review';
+import type { Band, Bound, Condition, ConditionalText } from './types';
+
+const resolveBound = (bound: Bound | undefined, context: MetricContext): number | undefined => {
+  if (bound === undefined || typeof bound === 'number') return bound;
+  const value = evaluateExpression(bound, context);
+  if (typeof value !== 'number') throw new ExpressionError('Bound must be numeric', bound);
+  return value;
+};
+
+export function matchesCondition(subject: MetricValue, condition: Condition = {}, context: MetricContext = {}): boolean {
+  const value = condition.metric ? evaluateExpression(condition.metric, context) : subject;
+  if (condition.in && !condition.in.includes(String(value))) return false;
+  if (condition.notIn && condition.notIn.includes(String(value))) return false;
+
+  const lt = resolveBound(condition.lt, context);
+  const lte = resolveBound(condition.lte, context);
+  const gt = resolveBound(condition.gt, context);
+  const gte = resolveBound(condition.gte, context);
+  if (typeof value !== 'number') {
+    return lt === undefined && lte === undefined && gt === undefined && gte === undefined;
+  }
+  if (lt !== undefined && !(value < lt)) return false;
+  if (lte !== undefined && !(value <= lte)) return false;
+  if (gt !== undefined && !(value > gt)) return false;
+  if (gte !== undefined && !(value >= gte)) return false;
+  return true;
+}
+
+/** Returns the first band whose condition matches, or undefined if none does. */
+export function selectBand<B extends Band<unknown>>(value: MetricValue, bands: B[], context: MetricContext = {}): B | undefined {
+  return bands.find(band => matchesCondition(value, band.when, context));
+}
+
+/**
+ * Renders `{{expression}}` placeholders. A placeholder may carry a formatter:
+ * `{{loanToValue * 100 | fixed:2}}` renders with two decimals and
+ * `{{loanAmount | inr}}` with Indian digit grouping.
+ */
+export function renderTemplate(template: string, context: MetricContext): string {
+  return template.replace(/\{\{([^}]+)\}\}/g, (_, body: string) => {
+    const [expression, format] = body.split('|').map(part => part.trim());
+    const value = evaluateExpression(expression, context);
+    if (format && format.startsWith('fixed:') && typeof value === 'number') {
+      return value.toFixed(parseInt(format.slice('fixed:'.length), 10));
+    }
+    if (format === 'inr' && typeof value === 'number') {
+      return value.toLocaleString('en-IN', { maximumFractionDigits: 0 });
+    }
+    return String(value);
+  });
+}
+
+const entryApplies = (entry: ConditionalText, context: MetricContext) =>
+  !entry.metric || matchesCondition(evaluateExpression(entry.metric, context), entry.when, context);
+
+/** Renders each entry whose condition holds, dropping the rest. */
+export function renderConditionalTexts(entries: ConditionalText[], context: MetricContext): string[] {
+  return entries
+    .filter(entry => entryApplies(entry, context))
+    .map(entry => renderTemplate(entry.text, context));
+}
+
+/** Structured sanction conditions for the applicable entries tagged with one. */
+export function suggestConditions(entries: ConditionalText[], context: MetricContext): SanctionCondition[] {
+  return entries
+    .filter(entry => entry.condition && entryApplies(entry, context))
+    .map(entry => {
+      const value = entry.condition!.value !== undefined ? evaluateExpression(entry.condition!.value, context) : undefined;
+      return {
+        type: entry.condition!.type,
+        description: renderTemplate(entry.text, context),
+        ...(typeof value === 'number' ? { value: Math.round(value) } : {}),
+      };
+    });
+}
@@ -0,0 +1,104 @@
+export type MetricValue = number | string;
+
+export type MetricContext = Record<string, MetricValue>;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in expression "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' | '(' | ')' };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?/i.exec(expression.slice(i));
+      if (!match) throw new ExpressionError(`Malformed number at position ${i}`, expression);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(expression.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0] });
+      i += match[0].length;
+    } else if ('+-*/()'.includes(char)) {
+      tokens.push({ kind: 'operator', value: char as '+' | '-' | '*' | '/' | '(' | ')' });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}"`, expression);
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates a metric expression such as `loanToValue * 100` against a context
+ * of named metrics. Supports numbers, identifiers, `+ - * /`, unary minus and
+ * parentheses — deliberately nothing else, so policy files cannot run code.
+ * A bare identifier may resolve to a string (e.g. `loanPurpose`).
+ */
+export function evaluateExpression(expression: string, context: MetricContext): MetricValue {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (token: Token | undefined, value: string) =>
+    token !== undefined && token.kind === 'operator' && token.value === value;
+
+  const numeric = (value: MetricValue): number => {
+    if (typeof value !== 'number') {
+      throw new ExpressionError(`Cannot apply arithmetic to "${value}"`, expression);
+    }
+    return value;
+  };
+
+  const parsePrimary = (): MetricValue => {
+    const token = tokens[position++];
+    if (!token) throw new ExpressionError('Unexpected end of input', expression);
+    if (token.kind === 'number') return token.value;
+    if (token.kind === 'identifier') {
+      if (!(token.value in context)) throw new ExpressionError(`Unknown metric "${token.value}"`, expression);
+      return context[token.value];
+    }
+    if (token.value === '-') return -numeric(parsePrimary());
+    if (token.value === '(') {
+      const value = parseSum();
+      if (!isOperator(tokens[position++], ')')) throw new ExpressionError('Missing closing parenthesis', expression);
+      return value;
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`, expression);
+  };
+
+  const parseProduct = (): MetricValue => {
+    let value = parsePrimary();
+    while (isOperator(peek(), '*') || isOperator(peek(), '/')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = numeric(parsePrimary());
+      value = operator === '*' ? numeric(value) * right : numeric(value) / right;
+    }
+    return value;
+  };
+
+  const parseSum = (): MetricValue => {
+    let value = parseProduct();
+    while (isOperator(peek(), '+') || isOperator(peek(), '-')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = numeric(parseProduct());
+      value = operator === '+' ? numeric(value) + right : numeric(value) - right;
+    }
+    return value;
+  };
+
+  const value = parseSum();
+  if (position < tokens.length) throw new ExpressionError('Unexpected trailing input', expression);
+  return value;
+}
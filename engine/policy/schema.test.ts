@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { defaultPolicy } from './default-policy';
+import { validatePolicyDocument } from './schema';
+import type { DecisionRule } from './types';
+
+const withRules = (decisionRules: unknown[]) => validatePolicyDocument({ ...defaultPolicy, decisionRules });
+
+const errorsOf = (decisionRules: unknown[]) => {
+  const validation = withRules(decisionRules);
+  return validation.ok ? [] : validation.errors;
+};
+
+const [rejectRule, reviewRule, approveRule] = defaultPolicy.decisionRules as [DecisionRule, DecisionRule, DecisionRule];
+
+describe('validatePolicyDocument decisionRules', () => {
+  it('accepts the default policy', () => {
+    expect(validatePolicyDocument(defaultPolicy).ok).toBe(true);
+  });
+
+  it.each([
+    ['minFailures', { ...rejectRule, minFailures: '3' }],
+    ['minFailures', { ...rejectRule, minFailures: 1.5 }],
+    ['minWarnings', { ...reviewRule, minWarnings: -1 }],
+    ['overallRisk', { ...rejectRule, overallRisk: 'HIGH' }],
+    ['overallRisk', { ...rejectRule, overallRisk: ['SEVERE'] }],
+    ['overallRisk', { ...rejectRule, overallRisk: [] }],
+  ])('rejects a malformed %s', (field, rule) => {
+    expect(errorsOf([rule, reviewRule, approveRule]).join(' ')).toContain(`decisionRules[0].${field}`);
+  });
+
+  it('requires the last rule to be an unconditional fallback', () => {
+    expect(errorsOf([rejectRule, reviewRule])).toContain(
+      'decisionRules[1] is the fallback rule and must not set minFailures, minWarnings or overallRisk.',
+    );
+  });
+});
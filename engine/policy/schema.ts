@@ -0,0 +1,1029 @@
+import { buildMetricContext } from '../metrics';
+import { sanctionConditionTypes } from '../review';
+import { evaluateExpression, type MetricContext } from './expression';
+import type { PolicyDocument } from './types';
+
+const boundSchema = { type: ['number', 'string'] };
+
+const conditionSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    metric: { type: 'string' },
+    lt: boundSchema,
+    lte: boundSchema,
+    gt: boundSchema,
+    gte: boundSchema,
+    in: { type: 'array', items: { type: 'string' } },
+    notIn: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const bandSchema = (result: string[], extra: Record<string, unknown> = {}) => ({
+  type: 'object',
+  required: ['result'],
+  additionalProperties: false,
+  properties: { when: conditionSchema, result: { enum: result }, ...extra },
+});
+
+const riskLevels = ['LOW', 'MEDIUM', 'HIGH'];
+
+const portfolioDimensions = ['loanPurpose', 'employmentType', 'overallRisk', 'ticketSize'];
+
+const collateralTypes = ['PROPERTY', 'VEHICLE', 'GOLD', 'FIXED_DEPOSIT', 'SHARES'];
+const msmeClasses = ['MICRO', 'SMALL', 'MEDIUM'];
+const roles = ['LOAN_OFFICER', 'CREDIT_ANALYST', 'BRANCH_MANAGER', 'REGIONAL_CREDIT_COMMITTEE'];
+
+const conditionalTextSchema = {
+  type: 'object',
+  required: ['text'],
+  additionalProperties: false,
+  properties: {
+    text: { type: 'string' },
+    metric: { type: 'string' },
+    when: conditionSchema,
+    condition: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { enum: sanctionConditionTypes.map(option => option.type) },
+        value: { type: 'string' },
+      },
+    },
+  },
+};
+
+/**
+ * JSON Schema (draft-07) for policy documents, published at `GET /api/policy/schema`
+ * so the credit policy team can validate edits in their own tooling.
+ */
+export const policyJsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Loan appraisal policy document',
+  type: 'object',
+  required: [
+    'version', 'effectiveFrom', 'scoring', 'structuring', 'parties', 'incomeVerification', 'kyc', 'collateral', 'financialAnalysis',
+    'delegation', 'checks', 'products', 'employmentProfiles', 'scorecard', 'pricing', 'portfolio', 'risk', 'decisionRules',
+  ],
+  properties: {
+    version: { type: 'string', minLength: 1 },
+    effectiveFrom: { type: 'string', format: 'date' },
+    description: { type: 'string' },
+    scoring: {
+      type: 'object',
+      required: ['warningCredit'],
+      properties: { warningCredit: { type: 'number', minimum: 0, maximum: 1 } },
+    },
+    structuring: {
+      type: 'object',
+      required: ['foirLimit'],
+      properties: { foirLimit: { type: 'number', exclusiveMinimum: 0, maximum: 100 } },
+    },
+    parties: {
+      type: 'object',
+      required: ['creditScoreBasis', 'coApplicantIncomeShare', 'maxCoApplicants', 'maxGuarantors'],
+      properties: {
+        creditScoreBasis: { enum: ['primary', 'weakest'] },
+        coApplicantIncomeShare: { type: 'number', minimum: 0, maximum: 1 },
+        maxCoApplicants: { type: 'integer', minimum: 0 },
+        maxGuarantors: { type: 'integer', minimum: 0 },
+      },
+    },
+    incomeVerification: {
+      type: 'object',
+      required: ['tolerance', 'capAtVerified', 'minSalaryRegularity'],
+      properties: {
+        tolerance: { type: 'number', minimum: 0 },
+        capAtVerified: { type: 'boolean' },
+        minSalaryRegularity: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    kyc: {
+      type: 'object',
+      required: ['documents'],
+      properties: {
+        documents: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'label', 'mandatory'],
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              products: { type: 'array', items: { type: 'string' } },
+              employmentTypes: { type: 'array', items: { type: 'string' } },
+              mandatory: { type: 'boolean' },
+            },
+          },
+        },
+      },
+    },
+    collateral: {
+      type: 'object',
+      required: ['types', 'unlistedHaircut'],
+      properties: {
+        unlistedHaircut: { type: 'number', minimum: 0, maximum: 1 },
+        types: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['type', 'label', 'haircut', 'ageing'],
+            properties: {
+              type: { enum: collateralTypes },
+              label: { type: 'string' },
+              haircut: { type: 'number', minimum: 0, maximum: 1 },
+              ageing: { type: 'array', minItems: 1, items: { type: 'object', required: ['result'] } },
+            },
+          },
+        },
+      },
+    },
+    financialAnalysis: {
+      type: 'object',
+      required: ['minYears', 'workingCapital', 'msmeClasses'],
+      properties: {
+        minYears: { type: 'integer', minimum: 1 },
+        workingCapital: {
+          type: 'object',
+          required: ['turnoverMethodLimit', 'requirementShare', 'marginShare', 'mpbfMargin'],
+          properties: {
+            turnoverMethodLimit: { type: 'number', minimum: 0 },
+            requirementShare: { type: 'number', minimum: 0, maximum: 1 },
+            marginShare: { type: 'number', minimum: 0, maximum: 1 },
+            mpbfMargin: { type: 'number', minimum: 0, maximum: 1 },
+          },
+        },
+        msmeClasses: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['class', 'maxInvestment', 'maxTurnover'],
+            properties: {
+              class: { enum: msmeClasses },
+              maxInvestment: { type: 'number', minimum: 0 },
+              maxTurnover: { type: 'number', minimum: 0 },
+            },
+          },
+        },
+      },
+    },
+    delegation: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['role', 'label', 'limits'],
+        properties: {
+          role: { enum: roles },
+          label: { type: 'string' },
+          limits: {
+            type: 'object',
+            required: riskLevels,
+            properties: Object.fromEntries(riskLevels.map(level => [level, { type: 'number', minimum: 0 }])),
+          },
+        },
+      },
+    },
+    checks: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'parameter', 'category', 'metric', 'bands', 'weight', 'details'],
+        properties: {
+          id: { type: 'string' },
+          parameter: { type: 'string' },
+          category: { enum: ['rbi', 'bank'] },
+          metric: { type: 'string' },
+          appliesWhen: conditionSchema,
+          bands: { type: 'array', minItems: 1, items: bandSchema(['PASS', 'WARNING', 'FAIL'], { details: { type: 'string' } }) },
+          weight: { type: 'number', minimum: 0 },
+          details: { type: 'string' },
+        },
+      },
+    },
+    products: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: [
+          'purpose', 'name', 'collateralMandatory', 'ltvSlabs', 'minTicket', 'maxTicket',
+          'minTenureMonths', 'maxTenureMonths', 'checks',
+        ],
+        properties: {
+          purpose: { type: 'string' },
+          name: { type: 'string' },
+          collateralMandatory: { type: 'boolean' },
+          collateralFreeLimit: { type: 'number', minimum: 0 },
+          ltvSlabs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['passLtv', 'maxLtv'],
+              properties: {
+                upToAmount: { type: 'number' },
+                passLtv: { type: 'number', minimum: 0 },
+                maxLtv: { type: 'number', minimum: 0 },
+              },
+            },
+          },
+          minTicket: { type: 'number', minimum: 0 },
+          maxTicket: { type: 'number', minimum: 0 },
+          minTenureMonths: { type: 'integer', minimum: 1 },
+          maxTenureMonths: { type: 'integer', minimum: 1 },
+          minBusinessVintageYears: { type: 'number', minimum: 0 },
+          checks: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    employmentProfiles: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['employmentType', 'name', 'minEmploymentYears', 'warningEmploymentYears', 'incomeProof', 'incomeHaircut'],
+        properties: {
+          employmentType: { type: 'string' },
+          name: { type: 'string' },
+          minEmploymentYears: { type: 'number', minimum: 0 },
+          warningEmploymentYears: { type: 'number', minimum: 0 },
+          minBusinessVintageYears: { type: 'number', minimum: 0 },
+          incomeProof: { type: 'array', items: { type: 'string' } },
+          incomeHaircut: { type: 'number', minimum: 0, exclusiveMaximum: 1 },
+          salaryCredits: { type: 'boolean' },
+        },
+      },
+    },
+    scorecard: {
+      type: 'object',
+      required: [
+        'model', 'name', 'version', 'basePoints', 'baseScore', 'baseOdds', 'pointsToDoubleOdds', 'attributes', 'grades',
+        'reasonCodeCount',
+      ],
+      properties: {
+        model: { enum: ['points'] },
+        name: { type: 'string' },
+        version: { type: 'string' },
+        basePoints: { type: 'number' },
+        baseScore: { type: 'number' },
+        baseOdds: { type: 'number', exclusiveMinimum: 0 },
+        pointsToDoubleOdds: { type: 'number', exclusiveMinimum: 0 },
+        attributes: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['id', 'label', 'metric', 'bins', 'reasonCode', 'reason'],
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              metric: { type: 'string' },
+              bins: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['result', 'label'],
+                  additionalProperties: false,
+                  properties: { when: conditionSchema, result: { type: 'number' }, label: { type: 'string' } },
+                },
+              },
+              reasonCode: { type: 'string' },
+              reason: { type: 'string' },
+            },
+          },
+        },
+        grades: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['result'],
+            additionalProperties: false,
+            properties: { when: conditionSchema, result: { type: 'string', minLength: 1 } },
+          },
+        },
+        reasonCodeCount: { type: 'integer', minimum: 0 },
+      },
+    },
+    pricing: {
+      type: 'object',
+      required: ['benchmark', 'spreads', 'minSpreadBps', 'concessions', 'maxConcessionBps', 'processingFee'],
+      properties: {
+        benchmark: {
+          type: 'object',
+          required: ['name', 'repoRate', 'markup'],
+          properties: { name: { type: 'string' }, repoRate: { type: 'number', minimum: 0 }, markup: { type: 'number' } },
+        },
+        spreads: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'label', 'metric', 'bands'],
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              metric: { type: 'string' },
+              bands: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['result'],
+                  additionalProperties: false,
+                  properties: { when: conditionSchema, result: { type: 'number' } },
+                },
+              },
+            },
+          },
+        },
+        minSpreadBps: { type: 'number' },
+        concessions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'label', 'bps'],
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              bps: { type: 'number', minimum: 0 },
+              appliesWhen: { ...conditionSchema, required: ['metric'] },
+            },
+          },
+        },
+        maxConcessionBps: { type: 'number', minimum: 0 },
+        processingFee: {
+          type: 'object',
+          required: ['percent', 'min', 'max', 'gstPercent'],
+          properties: {
+            percent: { type: 'number', minimum: 0 },
+            min: { type: 'number', minimum: 0 },
+            max: { type: 'number', minimum: 0 },
+            gstPercent: { type: 'number', minimum: 0 },
+          },
+        },
+      },
+    },
+    portfolio: {
+      type: 'object',
+      required: ['ticketSizes', 'concentrationLimits', 'prioritySector'],
+      properties: {
+        ticketSizes: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['result'],
+            additionalProperties: false,
+            properties: { when: conditionSchema, result: { type: 'string', minLength: 1 } },
+          },
+        },
+        concentrationLimits: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'label', 'dimension', 'maxShare'],
+            properties: {
+              id: { type: 'string' },
+              label: { type: 'string' },
+              dimension: { enum: portfolioDimensions },
+              buckets: { type: 'array', items: { type: 'string' } },
+              maxShare: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+            },
+          },
+        },
+        prioritySector: {
+          type: 'object',
+          required: ['checkId', 'target'],
+          properties: { checkId: { type: 'string' }, target: { type: 'number', minimum: 0, maximum: 1 } },
+        },
+      },
+    },
+    risk: {
+      type: 'object',
+      required: ['creditRisk', 'collateralRisk', 'levelScores', 'overall'],
+      properties: {
+        creditRisk: { $ref: '#/definitions/riskDimension' },
+        collateralRisk: { $ref: '#/definitions/riskDimension' },
+        levelScores: {
+          type: 'object',
+          required: riskLevels,
+          properties: Object.fromEntries(riskLevels.map(level => [level, { type: 'number' }])),
+        },
+        overall: { type: 'array', minItems: 1, items: bandSchema(riskLevels) },
+      },
+    },
+    decisionRules: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['decision', 'reasons', 'recommendations'],
+        properties: {
+          decision: { enum: ['APPROVED', 'REJECTED', 'REVIEW_REQUIRED'] },
+          minFailures: { type: 'integer', minimum: 0 },
+          minWarnings: { type: 'integer', minimum: 0 },
+          overallRisk: { type: 'array', minItems: 1, items: { enum: riskLevels } },
+          reasons: { type: 'array', items: conditionalTextSchema },
+          recommendations: { type: 'array', items: conditionalTextSchema },
+        },
+      },
+    },
+  },
+  definitions: {
+    riskDimension: {
+      type: 'object',
+      required: ['metric', 'bands'],
+      properties: { metric: { type: 'string' }, bands: { type: 'array', minItems: 1, items: bandSchema(riskLevels) } },
+    },
+  },
+} as const;
+
+export type PolicyValidationResult =
+  | { ok: true; policy: PolicyDocument }
+  | { ok: false; errors: string[] };
+
+const sampleContext: MetricContext = {
+  ...buildMetricContext(
+    {
+      applicantName: 'sample',
+      loanAmount: 1,
+      loanPurpose: 'sample',
+      annualIncome: 12,
+      creditScore: 1,
+      employmentType: 'salaried',
+      employmentYears: 1,
+      existingLoans: 0,
+      collateralValue: 1,
+      tenureMonths: 1,
+      interestRate: 1,
+    },
+    {
+      purpose: 'sample',
+      name: 'sample',
+      collateralMandatory: true,
+      ltvSlabs: [],
+      minTicket: 0,
+      maxTicket: 1,
+      minTenureMonths: 1,
+      maxTenureMonths: 1,
+      checks: [],
+    },
+    {
+      employmentType: 'salaried',
+      name: 'sample',
+      minEmploymentYears: 1,
+      warningEmploymentYears: 1,
+      incomeProof: [],
+      incomeHaircut: 0,
+    },
+    {
+      structuring: { foirLimit: 50 },
+      parties: { creditScoreBasis: 'primary', coApplicantIncomeShare: 1, maxCoApplicants: 0, maxGuarantors: 0 },
+      incomeVerification: { tolerance: 0, capAtVerified: false, minSalaryRegularity: 1 },
+      kyc: { documents: [] },
+      collateral: { types: [], unlistedHaircut: 0 },
+      financialAnalysis: {
+        minYears: 1,
+        workingCapital: { turnoverMethodLimit: 0, requirementShare: 0, marginShare: 0, mpbfMargin: 0 },
+        msmeClasses: [],
+      },
+      employmentProfiles: [],
+    },
+  ).context,
+  failures: 0,
+  warnings: 0,
+  scorecardScore: 0,
+  probabilityOfDefault: 0,
+  riskGrade: 'sample',
+  overallRisk: 'LOW',
+  pricedRate: 0,
+  apr: 0,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Structural validation of an untrusted policy document. Beyond shape, every
+ * metric expression and detail template is dry-run against a sample context
+ * so a typo in a metric name is caught at load time rather than mid-appraisal.
+ */
+export function validatePolicyDocument(document: unknown): PolicyValidationResult {
+  if (!isObject(document)) return { ok: false, errors: ['Policy must be a JSON object.'] };
+
+  const errors: string[] = [];
+  const tryExpression = (expression: unknown, where: string) => {
+    if (typeof expression !== 'string') {
+      errors.push(`${where} must be a string.`);
+      return;
+    }
+    try {
+      evaluateExpression(expression, sampleContext);
+    } catch (error) {
+      errors.push(`${where}: ${(error as Error).message}`);
+    }
+  };
+  const tryTemplate = (template: unknown, where: string) => {
+    if (typeof template !== 'string') {
+      errors.push(`${where} must be a string.`);
+      return;
+    }
+    for (const match of template.matchAll(/\{\{([^}]+)\}\}/g)) {
+      tryExpression(match[1].split('|')[0].trim(), where);
+    }
+  };
+  const checkCondition = (condition: unknown, where: string) => {
+    if (condition === undefined) return;
+    if (!isObject(condition)) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+    if (condition.metric !== undefined) tryExpression(condition.metric, `${where}.metric`);
+    (['lt', 'lte', 'gt', 'gte'] as const).forEach(bound => {
+      if (typeof condition[bound] === 'string') tryExpression(condition[bound], `${where}.${bound}`);
+      else if (condition[bound] !== undefined && typeof condition[bound] !== 'number') {
+        errors.push(`${where}.${bound} must be a number or metric expression.`);
+      }
+    });
+  };
+  /** `allowed` lists the permitted results, or names the type free-form results must have. */
+  const checkBands = (bands: unknown, allowed: string[] | 'number' | 'string', where: string) => {
+    if (!Array.isArray(bands) || bands.length === 0) {
+      errors.push(`${where} must be a non-empty array.`);
+      return;
+    }
+    const validResult = (result: unknown) =>
+      Array.isArray(allowed) ? allowed.includes(result as string) : typeof result === allowed && result !== '';
+    bands.forEach((band, index) => {
+      if (!isObject(band) || !validResult(band.result)) {
+        errors.push(`${where}[${index}].result must be ${Array.isArray(allowed) ? `one of ${allowed.join(', ')}` : `a ${allowed}`}.`);
+      } else {
+        checkCondition(band.when, `${where}[${index}].when`);
+      }
+    });
+    const last = bands[bands.length - 1];
+    if (isObject(last) && last.when !== undefined) {
+      errors.push(`${where} must end with a fallback band without "when".`);
+    }
+  };
+
+  if (typeof document.version !== 'string' || document.version === '') errors.push('version is required.');
+  if (typeof document.effectiveFrom !== 'string') errors.push('effectiveFrom is required.');
+  if (!isObject(document.scoring) || typeof document.scoring.warningCredit !== 'number') {
+    errors.push('scoring.warningCredit must be a number.');
+  }
+  if (!isObject(document.structuring) || typeof document.structuring.foirLimit !== 'number' || document.structuring.foirLimit <= 0) {
+    errors.push('structuring.foirLimit must be a positive number.');
+  }
+  if (!isObject(document.parties)) {
+    errors.push('parties is required.');
+  } else {
+    if (document.parties.creditScoreBasis !== 'primary' && document.parties.creditScoreBasis !== 'weakest') {
+      errors.push('parties.creditScoreBasis must be "primary" or "weakest".');
+    }
+    const share = document.parties.coApplicantIncomeShare;
+    if (typeof share !== 'number' || share < 0 || share > 1) {
+      errors.push('parties.coApplicantIncomeShare must be a number between 0 and 1.');
+    }
+    (['maxCoApplicants', 'maxGuarantors'] as const).forEach(field => {
+      const limit = (document.parties as Record<string, unknown>)[field];
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0) {
+        errors.push(`parties.${field} must be a non-negative whole number.`);
+      }
+    });
+  }
+
+  if (!isObject(document.incomeVerification)) {
+    errors.push('incomeVerification is required.');
+  } else {
+    const { tolerance, capAtVerified, minSalaryRegularity } = document.incomeVerification;
+    if (typeof tolerance !== 'number' || tolerance < 0) errors.push('incomeVerification.tolerance must be a non-negative number.');
+    if (typeof capAtVerified !== 'boolean') errors.push('incomeVerification.capAtVerified must be true or false.');
+    if (typeof minSalaryRegularity !== 'number' || minSalaryRegularity < 0 || minSalaryRegularity > 1) {
+      errors.push('incomeVerification.minSalaryRegularity must be a number between 0 and 1.');
+    }
+  }
+
+  if (!isObject(document.kyc) || !Array.isArray(document.kyc.documents)) {
+    errors.push('kyc.documents must be an array.');
+  } else {
+    const ids = new Set<string>();
+    document.kyc.documents.forEach((requirement, index) => {
+      const where = `kyc.documents[${index}]`;
+      if (!isObject(requirement) || typeof requirement.id !== 'string' || ids.has(requirement.id)) {
+        errors.push(`${where}.id must be a unique string.`);
+        return;
+      }
+      ids.add(requirement.id);
+      if (typeof requirement.label !== 'string') errors.push(`${where}.label must be a string.`);
+      if (typeof requirement.mandatory !== 'boolean') errors.push(`${where}.mandatory must be true or false.`);
+      (['products', 'employmentTypes'] as const).forEach(field => {
+        const list = requirement[field];
+        if (list !== undefined && (!Array.isArray(list) || list.some(entry => typeof entry !== 'string'))) {
+          errors.push(`${where}.${field} must be an array of strings.`);
+        }
+      });
+    });
+  }
+
+  if (!isObject(document.collateral) || !Array.isArray(document.collateral.types)) {
+    errors.push('collateral.types must be an array.');
+  } else {
+    const seen = new Set<string>();
+    document.collateral.types.forEach((rule, index) => {
+      const where = `collateral.types[${index}]`;
+      if (!isObject(rule) || !collateralTypes.includes(rule.type as string) || seen.has(rule.type as string)) {
+        errors.push(`${where}.type must be one of ${collateralTypes.join(', ')}, listed once.`);
+        return;
+      }
+      seen.add(rule.type as string);
+      if (typeof rule.label !== 'string') errors.push(`${where}.label must be a string.`);
+      if (typeof rule.haircut !== 'number' || rule.haircut < 0 || rule.haircut > 1) {
+        errors.push(`${where}.haircut must be a number between 0 and 1.`);
+      }
+      checkBands(rule.ageing, 'number', `${where}.ageing`);
+    });
+  }
+
+  if (!isObject(document.financialAnalysis)) {
+    errors.push('financialAnalysis must be an object.');
+  } else {
+    const { minYears, workingCapital, msmeClasses: thresholds } = document.financialAnalysis;
+    if (typeof minYears !== 'number' || !Number.isInteger(minYears) || minYears < 1) {
+      errors.push('financialAnalysis.minYears must be a positive integer.');
+    }
+    if (!isObject(workingCapital)) {
+      errors.push('financialAnalysis.workingCapital must be an object.');
+    } else {
+      if (typeof workingCapital.turnoverMethodLimit !== 'number' || workingCapital.turnoverMethodLimit < 0) {
+        errors.push('financialAnalysis.workingCapital.turnoverMethodLimit must be a non-negative number.');
+      }
+      (['requirementShare', 'marginShare', 'mpbfMargin'] as const).forEach(field => {
+        const value = workingCapital[field];
+        if (typeof value !== 'number' || value < 0 || value > 1) {
+          errors.push(`financialAnalysis.workingCapital.${field} must be a number between 0 and 1.`);
+        }
+      });
+    }
+    if (!Array.isArray(thresholds)) {
+      errors.push('financialAnalysis.msmeClasses must be an array.');
+    } else {
+      thresholds.forEach((threshold, index) => {
+        const where = `financialAnalysis.msmeClasses[${index}]`;
+        if (!isObject(threshold) || !msmeClasses.includes(threshold.class as string)) {
+          errors.push(`${where}.class must be one of ${msmeClasses.join(', ')}.`);
+          return;
+        }
+        (['maxInvestment', 'maxTurnover'] as const).forEach(field => {
+          if (typeof threshold[field] !== 'number' || (threshold[field] as number) < 0) {
+            errors.push(`${where}.${field} must be a non-negative number.`);
+          }
+        });
+      });
+    }
+  }
+
+  if (!Array.isArray(document.delegation) || document.delegation.length === 0) {
+    errors.push('delegation must be a non-empty array.');
+  } else {
+    const seen = new Set<string>();
+    document.delegation.forEach((authority, index) => {
+      const where = `delegation[${index}]`;
+      if (!isObject(authority) || !roles.includes(authority.role as string) || seen.has(authority.role as string)) {
+        errors.push(`${where}.role must be one of ${roles.join(', ')}, listed once.`);
+        return;
+      }
+      seen.add(authority.role as string);
+      if (typeof authority.label !== 'string') errors.push(`${where}.label must be a string.`);
+      if (!isObject(authority.limits) || riskLevels.some(level => {
+        const limit = (authority.limits as Record<string, unknown>)[level];
+        return typeof limit !== 'number' || limit < 0;
+      })) {
+        errors.push(`${where}.limits must give a non-negative amount for each of ${riskLevels.join(', ')}.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(document.checks) || document.checks.length === 0) {
+    errors.push('checks must be a non-empty array.');
+  } else {
+    const ids = new Set<string>();
+    document.checks.forEach((check, index) => {
+      const where = `checks[${index}]`;
+      if (!isObject(check)) {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      if (typeof check.id !== 'string' || ids.has(check.id)) errors.push(`${where}.id must be a unique string.`);
+      else ids.add(check.id);
+      if (typeof check.parameter !== 'string') errors.push(`${where}.parameter must be a string.`);
+      if (check.category !== 'rbi' && check.category !== 'bank') errors.push(`${where}.category must be "rbi" or "bank".`);
+      if (typeof check.weight !== 'number' || check.weight < 0) errors.push(`${where}.weight must be a non-negative number.`);
+      tryExpression(check.metric, `${where}.metric`);
+      checkCondition(check.appliesWhen, `${where}.appliesWhen`);
+      tryTemplate(check.details, `${where}.details`);
+      checkBands(check.bands, ['PASS', 'WARNING', 'FAIL'], `${where}.bands`);
+      if (Array.isArray(check.bands)) {
+        check.bands.forEach((band, bandIndex) => {
+          if (isObject(band) && band.details !== undefined) tryTemplate(band.details, `${where}.bands[${bandIndex}].details`);
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(document.products) || document.products.length === 0) {
+    errors.push('products must be a non-empty array.');
+  } else {
+    const checkIds = Array.isArray(document.checks)
+      ? document.checks.map(check => (isObject(check) ? check.id : undefined))
+      : [];
+    const purposes = new Set<string>();
+    document.products.forEach((product, index) => {
+      const where = `products[${index}]`;
+      if (!isObject(product)) {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      if (typeof product.purpose !== 'string' || purposes.has(product.purpose)) {
+        errors.push(`${where}.purpose must be a unique string.`);
+      } else {
+        purposes.add(product.purpose);
+      }
+      if (typeof product.name !== 'string') errors.push(`${where}.name must be a string.`);
+      if (typeof product.collateralMandatory !== 'boolean') errors.push(`${where}.collateralMandatory must be a boolean.`);
+      (['minTicket', 'maxTicket', 'minTenureMonths', 'maxTenureMonths'] as const).forEach(field => {
+        if (typeof product[field] !== 'number') errors.push(`${where}.${field} must be a number.`);
+      });
+      if ((product.minTicket as number) > (product.maxTicket as number)) errors.push(`${where}.minTicket exceeds maxTicket.`);
+      if ((product.minTenureMonths as number) > (product.maxTenureMonths as number)) {
+        errors.push(`${where}.minTenureMonths exceeds maxTenureMonths.`);
+      }
+      if (!Array.isArray(product.ltvSlabs)) {
+        errors.push(`${where}.ltvSlabs must be an array.`);
+      } else {
+        product.ltvSlabs.forEach((slab, slabIndex) => {
+          if (!isObject(slab) || typeof slab.passLtv !== 'number' || typeof slab.maxLtv !== 'number' || slab.passLtv > slab.maxLtv) {
+            errors.push(`${where}.ltvSlabs[${slabIndex}] needs numeric passLtv <= maxLtv.`);
+          }
+        });
+        if (product.collateralMandatory === true && product.ltvSlabs.length === 0) {
+          errors.push(`${where}.ltvSlabs must not be empty when collateral is mandatory.`);
+        }
+      }
+      if (!Array.isArray(product.checks)) {
+        errors.push(`${where}.checks must be an array.`);
+      } else {
+        product.checks
+          .filter(id => !checkIds.includes(id))
+          .forEach(id => errors.push(`${where}.checks references unknown check "${id}".`));
+      }
+    });
+  }
+
+  if (!Array.isArray(document.employmentProfiles) || document.employmentProfiles.length === 0) {
+    errors.push('employmentProfiles must be a non-empty array.');
+  } else {
+    const types = new Set<string>();
+    document.employmentProfiles.forEach((profile, index) => {
+      const where = `employmentProfiles[${index}]`;
+      if (!isObject(profile)) {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      if (typeof profile.employmentType !== 'string' || types.has(profile.employmentType)) {
+        errors.push(`${where}.employmentType must be a unique string.`);
+      } else {
+        types.add(profile.employmentType);
+      }
+      if (typeof profile.name !== 'string') errors.push(`${where}.name must be a string.`);
+      if (typeof profile.minEmploymentYears !== 'number' || typeof profile.warningEmploymentYears !== 'number' ||
+        profile.warningEmploymentYears > profile.minEmploymentYears) {
+        errors.push(`${where} needs numeric warningEmploymentYears <= minEmploymentYears.`);
+      }
+      if (!Array.isArray(profile.incomeProof)) errors.push(`${where}.incomeProof must be an array.`);
+      if (typeof profile.incomeHaircut !== 'number' || profile.incomeHaircut < 0 || profile.incomeHaircut >= 1) {
+        errors.push(`${where}.incomeHaircut must be a number in [0, 1).`);
+      }
+      if (profile.salaryCredits !== undefined && typeof profile.salaryCredits !== 'boolean') {
+        errors.push(`${where}.salaryCredits must be true or false when provided.`);
+      }
+    });
+  }
+
+  if (!isObject(document.risk)) {
+    errors.push('risk is required.');
+  } else {
+    (['creditRisk', 'collateralRisk'] as const).forEach(name => {
+      const dimension = (document.risk as Record<string, unknown>)[name];
+      if (!isObject(dimension)) {
+        errors.push(`risk.${name} is required.`);
+        return;
+      }
+      tryExpression(dimension.metric, `risk.${name}.metric`);
+      checkBands(dimension.bands, riskLevels, `risk.${name}.bands`);
+    });
+    const levelScores = document.risk.levelScores;
+    if (!isObject(levelScores) || riskLevels.some(level => typeof levelScores[level] !== 'number')) {
+      errors.push('risk.levelScores must define numeric LOW, MEDIUM and HIGH.');
+    }
+    checkBands(document.risk.overall, riskLevels, 'risk.overall');
+  }
+
+  if (!isObject(document.scorecard)) {
+    errors.push('scorecard is required.');
+  } else {
+    const scorecard = document.scorecard;
+    if (scorecard.model !== 'points') errors.push('scorecard.model must be "points".');
+    if (typeof scorecard.name !== 'string' || typeof scorecard.version !== 'string') {
+      errors.push('scorecard.name and scorecard.version must be strings.');
+    }
+    if (typeof scorecard.basePoints !== 'number' || typeof scorecard.baseScore !== 'number') {
+      errors.push('scorecard.basePoints and scorecard.baseScore must be numbers.');
+    }
+    (['baseOdds', 'pointsToDoubleOdds'] as const).forEach(field => {
+      if (typeof scorecard[field] !== 'number' || (scorecard[field] as number) <= 0) errors.push(`scorecard.${field} must be a positive number.`);
+    });
+    if (typeof scorecard.reasonCodeCount !== 'number' || !Number.isInteger(scorecard.reasonCodeCount) || scorecard.reasonCodeCount < 0) {
+      errors.push('scorecard.reasonCodeCount must be a non-negative whole number.');
+    }
+    if (!Array.isArray(scorecard.attributes) || scorecard.attributes.length === 0) {
+      errors.push('scorecard.attributes must be a non-empty array.');
+    } else {
+      const ids = new Set<string>();
+      scorecard.attributes.forEach((attribute, index) => {
+        const where = `scorecard.attributes[${index}]`;
+        if (!isObject(attribute)) {
+          errors.push(`${where} must be an object.`);
+          return;
+        }
+        if (typeof attribute.id !== 'string' || ids.has(attribute.id)) errors.push(`${where}.id must be a unique string.`);
+        else ids.add(attribute.id);
+        (['label', 'reasonCode', 'reason'] as const).forEach(field => {
+          if (typeof attribute[field] !== 'string') errors.push(`${where}.${field} must be a string.`);
+        });
+        tryExpression(attribute.metric, `${where}.metric`);
+        checkBands(attribute.bins, 'number', `${where}.bins`);
+        if (Array.isArray(attribute.bins) && attribute.bins.some(bin => !isObject(bin) || typeof bin.label !== 'string')) {
+          errors.push(`${where}.bins each need a label.`);
+        }
+      });
+    }
+    checkBands(scorecard.grades, 'string', 'scorecard.grades');
+  }
+
+  if (!isObject(document.pricing)) {
+    errors.push('pricing is required.');
+  } else {
+    const pricing = document.pricing;
+    const benchmark = pricing.benchmark;
+    if (!isObject(benchmark) || typeof benchmark.name !== 'string' || typeof benchmark.repoRate !== 'number' ||
+      typeof benchmark.markup !== 'number') {
+      errors.push('pricing.benchmark needs a name and numeric repoRate and markup.');
+    }
+    (['minSpreadBps', 'maxConcessionBps'] as const).forEach(field => {
+      if (typeof pricing[field] !== 'number') errors.push(`pricing.${field} must be a number.`);
+    });
+    if (!Array.isArray(pricing.spreads)) {
+      errors.push('pricing.spreads must be an array.');
+    } else {
+      pricing.spreads.forEach((spread, index) => {
+        const where = `pricing.spreads[${index}]`;
+        if (!isObject(spread) || typeof spread.id !== 'string' || typeof spread.label !== 'string') {
+          errors.push(`${where} needs an id and label.`);
+          return;
+        }
+        tryExpression(spread.metric, `${where}.metric`);
+        checkBands(spread.bands, 'number', `${where}.bands`);
+      });
+    }
+    if (!Array.isArray(pricing.concessions)) {
+      errors.push('pricing.concessions must be an array.');
+    } else {
+      const ids = new Set<string>();
+      pricing.concessions.forEach((concession, index) => {
+        const where = `pricing.concessions[${index}]`;
+        if (!isObject(concession) || typeof concession.id !== 'string' || ids.has(concession.id)) {
+          errors.push(`${where}.id must be a unique string.`);
+          return;
+        }
+        ids.add(concession.id);
+        if (typeof concession.label !== 'string') errors.push(`${where}.label must be a string.`);
+        if (typeof concession.bps !== 'number' || concession.bps < 0) errors.push(`${where}.bps must be a non-negative number.`);
+        if (concession.appliesWhen !== undefined) {
+          if (!isObject(concession.appliesWhen) || concession.appliesWhen.metric === undefined) {
+            errors.push(`${where}.appliesWhen must name a metric.`);
+          } else {
+            checkCondition(concession.appliesWhen, `${where}.appliesWhen`);
+          }
+        }
+      });
+    }
+    const fee = pricing.processingFee;
+    if (!isObject(fee) || (['percent', 'min', 'max', 'gstPercent'] as const).some(field => typeof fee[field] !== 'number' || (fee[field] as number) < 0)) {
+      errors.push('pricing.processingFee needs non-negative percent, min, max and gstPercent.');
+    } else if ((fee.min as number) > (fee.max as number)) {
+      errors.push('pricing.processingFee.min must not exceed max.');
+    }
+  }
+
+  if (!isObject(document.portfolio)) {
+    errors.push('portfolio is required.');
+  } else {
+    const portfolio = document.portfolio;
+    checkBands(portfolio.ticketSizes, 'string', 'portfolio.ticketSizes');
+    if (!Array.isArray(portfolio.concentrationLimits)) {
+      errors.push('portfolio.concentrationLimits must be an array.');
+    } else {
+      const ids = new Set<string>();
+      portfolio.concentrationLimits.forEach((limit, index) => {
+        const where = `portfolio.concentrationLimits[${index}]`;
+        if (!isObject(limit) || typeof limit.id !== 'string' || ids.has(limit.id)) {
+          errors.push(`${where}.id must be a unique string.`);
+          return;
+        }
+        ids.add(limit.id);
+        if (typeof limit.label !== 'string') errors.push(`${where}.label must be a string.`);
+        if (!portfolioDimensions.includes(limit.dimension as string)) {
+          errors.push(`${where}.dimension must be one of: ${portfolioDimensions.join(', ')}.`);
+        }
+        if (limit.buckets !== undefined && (!Array.isArray(limit.buckets) || limit.buckets.some(bucket => typeof bucket !== 'string'))) {
+          errors.push(`${where}.buckets must be an array of strings.`);
+        }
+        if (typeof limit.maxShare !== 'number' || limit.maxShare <= 0 || limit.maxShare > 1) {
+          errors.push(`${where}.maxShare must be a number in (0, 1].`);
+        }
+      });
+    }
+    const prioritySector = portfolio.prioritySector;
+    if (!isObject(prioritySector)) {
+      errors.push('portfolio.prioritySector is required.');
+    } else {
+      const checks = Array.isArray(document.checks) ? document.checks : [];
+      if (!checks.some(check => isObject(check) && check.id === prioritySector.checkId)) {
+        errors.push('portfolio.prioritySector.checkId must name a policy check.');
+      }
+      if (typeof prioritySector.target !== 'number' || prioritySector.target < 0 || prioritySector.target > 1) {
+        errors.push('portfolio.prioritySector.target must be a number in [0, 1].');
+      }
+    }
+  }
+
+  if (!Array.isArray(document.decisionRules) || document.decisionRules.length === 0) {
+    errors.push('decisionRules must be a non-empty array.');
+  } else {
+    document.decisionRules.forEach((rule, index, rules) => {
+      const where = `decisionRules[${index}]`;
+      if (!isObject(rule)) {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      if (!['APPROVED', 'REJECTED', 'REVIEW_REQUIRED'].includes(rule.decision as string)) {
+        errors.push(`${where}.decision must be APPROVED, REJECTED or REVIEW_REQUIRED.`);
+      }
+      (['minFailures', 'minWarnings'] as const).forEach(threshold => {
+        const value = rule[threshold];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+          errors.push(`${where}.${threshold} must be a non-negative integer.`);
+        }
+      });
+      if (rule.overallRisk !== undefined && (
+        !Array.isArray(rule.overallRisk) || rule.overallRisk.length === 0 ||
+        rule.overallRisk.some(level => !riskLevels.includes(level as string))
+      )) {
+        errors.push(`${where}.overallRisk must be a non-empty list drawn from ${riskLevels.join(', ')}.`);
+      }
+      // The last rule is the fallback: without it some outcome would match no rule and appraisal could not decide.
+      if (index === rules.length - 1 &&
+        (rule.minFailures !== undefined || rule.minWarnings !== undefined || rule.overallRisk !== undefined)) {
+        errors.push(`${where} is the fallback rule and must not set minFailures, minWarnings or overallRisk.`);
+      }
+      (['reasons', 'recommendations'] as const).forEach(list => {
+        if (!Array.isArray(rule[list])) {
+          errors.push(`${where}.${list} must be an array.`);
+          return;
+        }
+        (rule[list] as unknown[]).forEach((entry, entryIndex) => {
+          const entryWhere = `${where}.${list}[${entryIndex}]`;
+          if (!isObject(entry)) {
+            errors.push(`${entryWhere} must be an object.`);
+            return;
+          }
+          tryTemplate(entry.text, `${entryWhere}.text`);
+          if (entry.metric !== undefined) tryExpression(entry.metric, `${entryWhere}.metric`);
+          checkCondition(entry.when, `${entryWhere}.when`);
+          if (entry.condition !== undefined) {
+            if (!isObject(entry.condition) || !sanctionConditionTypes.some(option => option.type === (entry.condition as Record<string, unknown>).type)) {
+              errors.push(`${entryWhere}.condition.type is not a known sanction condition type.`);
+            } else if (entry.condition.value !== undefined) {
+              tryExpression(entry.condition.value, `${entryWhere}.condition.value`);
+            }
+          }
+        });
+      });
+    });
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, policy: document as unknown as PolicyDocument };
+}
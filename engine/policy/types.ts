@@ -0,0 +1,361 @@
+import type { SanctionConditionType } from '../review';
+import type { CheckStatus, CreditScoreBasis, Decision, RiskLevel } from '../types';
+
+/** A numeric bound: a literal, or a metric expression such as `ltvMaxCap`. */
+export type Bound = number | string;
+
+/**
+ * A band condition on a metric value. Every bound that is present must hold;
+ * an empty condition always matches and acts as the fallback band. When
+ * `metric` is set the bounds are tested against that expression instead of
+ * the value being banded.
+ */
+export interface Condition {
+  metric?: string;
+  lt?: Bound;
+  lte?: Bound;
+  gt?: Bound;
+  gte?: Bound;
+  in?: string[];
+  notIn?: string[];
+}
+
+export interface Band<T> {
+  when?: Condition;
+  result: T;
+}
+
+export interface StatusBand extends Band<CheckStatus> {
+  /** Overrides the check's `details` template when this band is selected. */
+  details?: string;
+}
+
+export type CheckCategory = 'rbi' | 'bank';
+
+export interface CheckDefinition {
+  id: string;
+  parameter: string;
+  category: CheckCategory;
+  /** Metric expression evaluated against the derived metrics, e.g. `loanAmount / annualIncome`. */
+  metric: string;
+  /** When present, the check is skipped (and carries no weight) unless this holds. */
+  appliesWhen?: Condition;
+  /** Evaluated top to bottom; the first matching band decides the status. */
+  bands: StatusBand[];
+  weight: number;
+  /** Template with `{{expression}}` or `{{expression | fixed:2}}` placeholders. */
+  details: string;
+}
+
+export interface RiskDimension {
+  metric: string;
+  bands: Band<RiskLevel>[];
+}
+
+/** A reason or recommendation emitted only when its condition holds. */
+export interface ConditionalText {
+  text: string;
+  metric?: string;
+  when?: Condition;
+  /** Marks a recommendation as a sanction condition a reviewer can attach. */
+  condition?: {
+    type: SanctionConditionType;
+    /** Metric expression for the condition's amount or basis points. */
+    value?: string;
+  };
+}
+
+/** How co-applicants and guarantors are folded into the assessment. */
+export interface PartyRules {
+  /** `primary`: the applicant's score; `weakest`: the lowest of applicant and co-applicants. */
+  creditScoreBasis: CreditScoreBasis;
+  /** Fraction (0-1) of each co-applicant's post-haircut income added to the applicant's. */
+  coApplicantIncomeShare: number;
+  maxCoApplicants: number;
+  maxGuarantors: number;
+}
+
+/** How declared income is checked against bank statements and tax documents. */
+export interface IncomeVerificationRules {
+  /** Fraction by which declared income may exceed verified income, e.g. 0.15. */
+  tolerance: number;
+  /** Assess on verified income when declared exceeds it beyond `tolerance`. */
+  capAtVerified: boolean;
+  /** Salary regularity (0-1) from which bank income is taken as salary credits rather than all credits. */
+  minSalaryRegularity: number;
+}
+
+/** A bin of a scorecard attribute; `result` is the points it awards. */
+export interface ScorecardBin extends Band<number> {
+  label: string;
+}
+
+export interface ScorecardAttribute {
+  id: string;
+  label: string;
+  /** Metric expression binned by `bins`, e.g. `foir` or `loanToValue`. */
+  metric: string;
+  /** First match wins; the last bin must be a fallback without `when`. */
+  bins: ScorecardBin[];
+  /** Reported when this attribute is among the largest point shortfalls. */
+  reasonCode: string;
+  reason: string;
+}
+
+/**
+ * A points scorecard: the score is `basePoints` plus each attribute's bin
+ * points, and scales to odds as `baseOdds` (good:bad) at `baseScore`,
+ * doubling every `pointsToDoubleOdds` points.
+ */
+export interface ScorecardDefinition {
+  /** Selects the scoring model in `engine/scorecard.ts`. */
+  model: 'points';
+  name: string;
+  version: string;
+  basePoints: number;
+  baseScore: number;
+  baseOdds: number;
+  pointsToDoubleOdds: number;
+  attributes: ScorecardAttribute[];
+  /** Bands over probability of default (0-1) giving the risk grade. */
+  grades: Band<string>[];
+  /** How many reason codes to report, largest shortfall first. */
+  reasonCodeCount: number;
+}
+
+/** A spread component: `bands` over `metric` give basis points added to the benchmark. */
+export interface PricingSpread {
+  id: string;
+  label: string;
+  metric: string;
+  bands: Band<number>[];
+}
+
+/** A rate concession the borrower can claim, e.g. for women borrowers. */
+export interface PricingConcession {
+  id: string;
+  label: string;
+  bps: number;
+  /** Further restricts who may claim it, e.g. home loans only. */
+  appliesWhen?: Condition;
+}
+
+export interface PricingPolicy {
+  /** External benchmark: the policy repo rate plus the bank's markup (EBLR). */
+  benchmark: {
+    name: string;
+    repoRate: number;
+    markup: number;
+  };
+  /** Spreads are evaluated against the appraisal metrics plus `overallRisk`, `riskGrade` and `probabilityOfDefault`. */
+  spreads: PricingSpread[];
+  /** Lowest total spread (bps) over the benchmark after concessions. */
+  minSpreadBps: number;
+  concessions: PricingConcession[];
+  maxConcessionBps: number;
+  processingFee: FeeSchedule;
+}
+
+export interface FeeSchedule {
+  /** Percent of the loan amount, bounded by `min` and `max`. */
+  percent: number;
+  min: number;
+  max: number;
+  gstPercent: number;
+}
+
+/** A document on the KYC checklist; `products` and `employmentTypes` narrow who must provide it. */
+export interface KycDocumentRequirement {
+  id: string;
+  label: string;
+  products?: string[];
+  employmentTypes?: string[];
+  /** Mandatory documents must be verified for the KYC check to pass. */
+  mandatory: boolean;
+}
+
+export interface KycRules {
+  documents: KycDocumentRequirement[];
+}
+
+export type CollateralType = 'PROPERTY' | 'VEHICLE' | 'GOLD' | 'FIXED_DEPOSIT' | 'SHARES';
+
+/** How much of a security's market value is lent against, and how quickly its valuation goes stale. */
+export interface CollateralTypeRule {
+  type: CollateralType;
+  label: string;
+  /** Share (0-1) of market value disregarded, e.g. 0.25 for gold. */
+  haircut: number;
+  /**
+   * Bands over the valuation's age in whole months, giving an extra haircut on
+   * top of `haircut`; a combined haircut of 1 makes the security ineligible
+   * until it is revalued. Bounds must be literal month counts.
+   */
+  ageing: Band<number>[];
+}
+
+export interface CollateralRules {
+  types: CollateralTypeRule[];
+  /**
+   * Share (0-1) disregarded of declared collateral value that no listed
+   * security backs, since nothing about it has been valued or verified.
+   */
+  unlistedHaircut: number;
+}
+
+export type MsmeClass = 'MICRO' | 'SMALL' | 'MEDIUM';
+
+/** Upper limits of an MSME class under the MSMED Act notification; an enterprise must be within both. */
+export interface MsmeThreshold {
+  class: MsmeClass;
+  maxInvestment: number;
+  maxTurnover: number;
+}
+
+export interface FinancialAnalysisRules {
+  /** Years of statements the SME desk expects; fewer leaves the statements check at WARNING. */
+  minYears: number;
+  workingCapital: {
+    /** Projected turnover up to which the Nayak committee turnover method applies; MPBF (second method) beyond it. */
+    turnoverMethodLimit: number;
+    /** Working capital requirement as a share of projected turnover, 0.25 under the turnover method. */
+    requirementShare: number;
+    /** Borrower's contribution as a share of projected turnover, 0.05 under the turnover method. */
+    marginShare: number;
+    /** Share of current assets the borrower funds under MPBF. */
+    mpbfMargin: number;
+  };
+  /** Ascending; an enterprise takes the first class it fits. */
+  msmeClasses: MsmeThreshold[];
+}
+
+export type Role = 'LOAN_OFFICER' | 'CREDIT_ANALYST' | 'BRANCH_MANAGER' | 'REGIONAL_CREDIT_COMMITTEE';
+
+/** A role's delegated sanction power: the largest loan it may sanction at each overall risk level (0 for none). */
+export interface SanctionAuthority {
+  role: Role;
+  label: string;
+  limits: Record<RiskLevel, number>;
+}
+
+export type PortfolioDimension = 'loanPurpose' | 'employmentType' | 'overallRisk' | 'ticketSize';
+
+/** Caps the share of sanctioned exposure any one bucket of `dimension` may hold. */
+export interface ConcentrationLimit {
+  id: string;
+  label: string;
+  dimension: PortfolioDimension;
+  /** Buckets the limit covers; every bucket of the dimension when omitted. */
+  buckets?: string[];
+  /** Largest share (0-1) of sanctioned exposure. */
+  maxShare: number;
+}
+
+export interface PortfolioPolicy {
+  /** Bands over the loan amount naming the ticket-size buckets; bounds must be literal amounts. */
+  ticketSizes: Band<string>[];
+  concentrationLimits: ConcentrationLimit[];
+  prioritySector: {
+    /** The check whose PASS marks a case as priority-sector lending. */
+    checkId: string;
+    /** Share (0-1) of sanctioned exposure to be priority-sector lending. */
+    target: number;
+  };
+}
+
+export interface DecisionRule {
+  decision: Decision;
+  /** The rule fires when any of these thresholds is met; the last rule should have none. */
+  minFailures?: number;
+  minWarnings?: number;
+  overallRisk?: RiskLevel[];
+  reasons: ConditionalText[];
+  recommendations: ConditionalText[];
+}
+
+/** LTV ceilings for loans up to `upToAmount` (open-ended when omitted). */
+export interface LtvSlab {
+  upToAmount?: number;
+  /** LTV at or below which the check passes. */
+  passLtv: number;
+  /** Regulatory or policy ceiling; LTV above this fails. */
+  maxLtv: number;
+}
+
+export interface ProductDefinition {
+  /** Matches `LoanApplication.loanPurpose`. */
+  purpose: string;
+  name: string;
+  collateralMandatory: boolean;
+  /** Ticket size up to which collateral is waived even when mandatory above it. */
+  collateralFreeLimit?: number;
+  /** Ordered by ascending `upToAmount`; the first slab covering the loan amount applies. */
+  ltvSlabs: LtvSlab[];
+  minTicket: number;
+  maxTicket: number;
+  minTenureMonths: number;
+  maxTenureMonths: number;
+  /** Minimum years in business expected of any applicant for this product. */
+  minBusinessVintageYears?: number;
+  /** Ids of the policy checks evaluated for this product. */
+  checks: string[];
+}
+
+export interface EmploymentProfile {
+  /** Matches `LoanApplication.employmentType`. */
+  employmentType: string;
+  name: string;
+  minEmploymentYears: number;
+  /** Below `minEmploymentYears` but at or above this the stability check warns. */
+  warningEmploymentYears: number;
+  /** Minimum years the business has operated; omitted for salaried income. */
+  minBusinessVintageYears?: number;
+  /** Documents accepted as proof of the declared income. */
+  incomeProof: string[];
+  /** Fraction of declared income disregarded for eligibility, for variable income. */
+  incomeHaircut: number;
+  /** Income arrives as monthly salary credits, so bank statements are checked for their regularity. */
+  salaryCredits?: boolean;
+}
+
+export interface PolicyDocument {
+  version: string;
+  effectiveFrom: string;
+  description?: string;
+  scoring: {
+    /** Fraction of a check's weight earned on WARNING. */
+    warningCredit: number;
+  };
+  structuring: {
+    /** FOIR (%) up to which the proposed EMI is comfortably serviceable; drives max eligible amount. */
+    foirLimit: number;
+  };
+  parties: PartyRules;
+  incomeVerification: IncomeVerificationRules;
+  kyc: KycRules;
+  collateral: CollateralRules;
+  /** Ratio analysis of business balance sheets and P&L, and MSME classification. */
+  financialAnalysis: FinancialAnalysisRules;
+  /**
+   * Delegation of sanction powers, most junior first. An approval beyond the
+   * deciding user's authority is referred to the first role listed that covers it.
+   */
+  delegation: SanctionAuthority[];
+  /** Grades and prices the application; the checks and decision rules stay the knock-outs. */
+  scorecard: ScorecardDefinition;
+  pricing: PricingPolicy;
+  /** Limits and targets the portfolio dashboard monitors; they do not affect individual decisions. */
+  portfolio: PortfolioPolicy;
+  checks: CheckDefinition[];
+  products: ProductDefinition[];
+  employmentProfiles: EmploymentProfile[];
+  risk: {
+    creditRisk: RiskDimension;
+    collateralRisk: RiskDimension;
+    levelScores: Record<RiskLevel, number>;
+    /** Bands over the averaged risk score. */
+    overall: Band<RiskLevel>[];
+  };
+  /** Evaluated top to bottom; the first rule whose thresholds are met decides. */
+  decisionRules: DecisionRule[];
+}
@@ -0,0 +1,186 @@
+import type { CaseRecord } from './cases';
+import { sanctionedAmountOf } from './documents';
+import { selectBand } from './policy/evaluate';
+import type { PortfolioDimension, PortfolioPolicy } from './policy/types';
+
+export const portfolioDimensions: { dimension: PortfolioDimension; label: string }[] = [
+  { dimension: 'loanPurpose', label: 'Product' },
+  { dimension: 'employmentType', label: 'Employment type' },
+  { dimension: 'overallRisk', label: 'Risk bucket' },
+  { dimension: 'ticketSize', label: 'Ticket size' },
+];
+
+/** Appraisal outcomes for one calendar month, by the month the case was appraised. */
+export interface PortfolioPeriod {
+  /** `YYYY-MM`. */
+  period: string;
+  appraised: number;
+  approved: number;
+  referred: number;
+  rejected: number;
+  sanctioned: number;
+  declined: number;
+  /** System approvals and rejections as a share of cases appraised. */
+  approvalRate: number;
+  rejectionRate: number;
+}
+
+export interface PortfolioBucket {
+  key: string;
+  appraised: number;
+  /** Cases sanctioned, and the amount sanctioned across them. */
+  sanctioned: number;
+  exposure: number;
+  /** This bucket's share (0-1) of total sanctioned exposure. */
+  share: number;
+}
+
+export interface ConcentrationStatus {
+  limitId: string;
+  label: string;
+  dimension: PortfolioDimension;
+  bucket: string;
+  exposure: number;
+  share: number;
+  maxShare: number;
+  breached: boolean;
+}
+
+export interface PrioritySectorPosition {
+  checkId: string;
+  target: number;
+  sanctioned: number;
+  exposure: number;
+  share: number;
+  /** Further priority-sector sanctions needed to reach the target; 0 once it is met. */
+  shortfall: number;
+  byPurpose: { key: string; exposure: number }[];
+}
+
+export interface PortfolioAnalytics {
+  totals: {
+    cases: number;
+    appraised: number;
+    sanctioned: number;
+    declined: number;
+    exposure: number;
+  };
+  trend: PortfolioPeriod[];
+  distributions: Record<PortfolioDimension, PortfolioBucket[]>;
+  /** Every bucket a limit covers that holds exposure, breaches first. */
+  concentration: ConcentrationStatus[];
+  prioritySector: PrioritySectorPosition;
+}
+
+const appraisedAt = (record: CaseRecord) =>
+  record.history.find(change => change.to === 'APPRAISED')?.at ?? record.createdAt;
+
+const share = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+/**
+ * Summarises stored cases for the portfolio dashboard. Volumes count every
+ * appraised case; exposure counts only sanctioned ones, at the amount
+ * actually sanctioned. A case is priority-sector lending when the
+ * configured check passed on its appraisal.
+ */
+export function computePortfolioAnalytics(records: CaseRecord[], policy: PortfolioPolicy): PortfolioAnalytics {
+  const appraised = records.filter(record => record.result);
+  const sanctioned = appraised.filter(record => record.status === 'SANCTIONED');
+  const exposure = sanctioned.reduce((sum, record) => sum + sanctionedAmountOf(record), 0);
+
+  const bucketOf = (record: CaseRecord, dimension: PortfolioDimension): string => {
+    switch (dimension) {
+      case 'loanPurpose': return record.application.loanPurpose ?? '';
+      case 'employmentType': return record.application.employmentType ?? '';
+      case 'overallRisk': return record.result?.riskAssessment.overallRisk ?? '';
+      case 'ticketSize': return selectBand(sanctionedAmountOf(record), policy.ticketSizes)?.result ?? '';
+    }
+  };
+
+  const periods = new Map<string, PortfolioPeriod>();
+  appraised.forEach(record => {
+    const period = appraisedAt(record).slice(0, 7);
+    const entry = periods.get(period) ?? {
+      period, appraised: 0, approved: 0, referred: 0, rejected: 0, sanctioned: 0, declined: 0, approvalRate: 0, rejectionRate: 0,
+    };
+    entry.appraised++;
+    if (record.result!.decision === 'APPROVED') entry.approved++;
+    else if (record.result!.decision === 'REJECTED') entry.rejected++;
+    else entry.referred++;
+    if (record.status === 'SANCTIONED') entry.sanctioned++;
+    if (record.status === 'DECLINED') entry.declined++;
+    periods.set(period, entry);
+  });
+  const trend = [...periods.values()]
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .map(entry => ({ ...entry, approvalRate: share(entry.approved, entry.appraised), rejectionRate: share(entry.rejected, entry.appraised) }));
+
+  const distribute = (dimension: PortfolioDimension): PortfolioBucket[] => {
+    const buckets = new Map<string, PortfolioBucket>();
+    appraised.forEach(record => {
+      const key = bucketOf(record, dimension);
+      const bucket = buckets.get(key) ?? { key, appraised: 0, sanctioned: 0, exposure: 0, share: 0 };
+      bucket.appraised++;
+      if (record.status === 'SANCTIONED') {
+        bucket.sanctioned++;
+        bucket.exposure += sanctionedAmountOf(record);
+      }
+      buckets.set(key, bucket);
+    });
+    return [...buckets.values()]
+      .map(bucket => ({ ...bucket, share: share(bucket.exposure, exposure) }))
+      .sort((a, b) => b.exposure - a.exposure || b.appraised - a.appraised);
+  };
+  const distributions = Object.fromEntries(
+    portfolioDimensions.map(({ dimension }) => [dimension, distribute(dimension)]),
+  ) as Record<PortfolioDimension, PortfolioBucket[]>;
+
+  const concentration = policy.concentrationLimits
+    .flatMap(limit => distributions[limit.dimension]
+      .filter(bucket => bucket.exposure > 0 && (!limit.buckets || limit.buckets.includes(bucket.key)))
+      .map((bucket): ConcentrationStatus => ({
+        limitId: limit.id,
+        label: limit.label,
+        dimension: limit.dimension,
+        bucket: bucket.key,
+        exposure: bucket.exposure,
+        share: bucket.share,
+        maxShare: limit.maxShare,
+        breached: bucket.share > limit.maxShare,
+      })))
+    .sort((a, b) => Number(b.breached) - Number(a.breached) || b.share / b.maxShare - a.share / a.maxShare);
+
+  const { checkId, target } = policy.prioritySector;
+  const priority = sanctioned.filter(record =>
+    [...record.result!.rbiCompliance, ...record.result!.bankPolicyCompliance]
+      .some(check => check.id === checkId && check.status === 'PASS'));
+  const priorityExposure = priority.reduce((sum, record) => sum + sanctionedAmountOf(record), 0);
+  const byPurpose = new Map<string, number>();
+  priority.forEach(record => {
+    const key = record.application.loanPurpose ?? '';
+    byPurpose.set(key, (byPurpose.get(key) ?? 0) + sanctionedAmountOf(record));
+  });
+
+  return {
+    totals: {
+      cases: records.length,
+      appraised: appraised.length,
+      sanctioned: sanctioned.length,
+      declined: appraised.filter(record => record.status === 'DECLINED').length,
+      exposure,
+    },
+    trend,
+    distributions,
+    concentration,
+    prioritySector: {
+      checkId,
+      target,
+      sanctioned: priority.length,
+      exposure: priorityExposure,
+      share: share(priorityExposure, exposure),
+      // New priority lending x meets the target when (p + x) / (total + x) = target.
+      shortfall: target < 1 ? Math.max(0, (target * exposure - priorityExposure) / (1 - target)) : 0,
+      byPurpose: [...byPurpose.entries()].map(([key, amount]) => ({ key, exposure: amount })).sort((a, b) => b.exposure - a.exposure),
+    },
+  };
+}
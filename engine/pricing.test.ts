@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { defaultPolicy } from './policy/default-policy';
+import { priceLoan, processingFeeFor } from './pricing';
+import type { LoanApplication } from './types';
+
+const application: LoanApplication = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  collateralValue: 4000000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+};
+
+// Grade B (+25 bps), home (0), LTV 50% (0) and a ticket under ₹30 lakh (+10) on the 8.75% EBLR.
+const context = {
+  riskGrade: 'B',
+  loanPurpose: 'home',
+  loanToValue: 0.5,
+  collateralRequired: 1,
+  eligibleCollateralValue: 4000000,
+  loanAmount: 2000000,
+};
+
+describe('priceLoan', () => {
+  it('prices a home loan at the benchmark plus its spreads', () => {
+    const quote = priceLoan(application, defaultPolicy.pricing, context);
+    expect(quote.benchmarkRate).toBe(8.75);
+    expect(quote.totalSpreadBps).toBe(35);
+    expect(quote.finalRate).toBeCloseTo(9.1, 10);
+    // r = 0.758333% a month over 240 months.
+    expect(quote.emi).toBeCloseTo(18123.35, 2);
+  });
+
+  it('charges 0.5% processing fee with 18% GST and folds both into the APR', () => {
+    const quote = priceLoan(application, defaultPolicy.pricing, context);
+    expect(quote.processingFee).toBe(10000);
+    expect(quote.processingFeeGst).toBe(1800);
+    // ₹18,123.35 a month repaying a net ₹19,88,200 is a monthly IRR of 0.765271%, 9.1833% a year.
+    expect(quote.apr).toBeCloseTo(9.1833, 3);
+  });
+
+  it('caps claimed concessions at the policy maximum', () => {
+    const quote = priceLoan({ ...application, concessions: ['women-borrower', 'salary-account'] }, defaultPolicy.pricing, context);
+    expect(quote.concessions.reduce((sum, concession) => sum + concession.bps, 0)).toBe(-15);
+    expect(quote.finalRate).toBeCloseTo(8.95, 10);
+  });
+});
+
+describe('processingFeeFor', () => {
+  it.each([
+    [100000, 2500, 450],
+    [2000000, 10000, 1800],
+    [10000000, 20000, 3600],
+  ])('charges ₹%i a fee of ₹%i plus ₹%i GST', (amount, fee, gst) => {
+    expect(processingFeeFor(amount, defaultPolicy.pricing.processingFee)).toEqual({ fee, gst });
+  });
+});
@@ -0,0 +1,61 @@
+import { calculateApr, calculateEmi } from './loan-structure';
+import { matchesCondition, selectBand } from './policy/evaluate';
+import { evaluateExpression, type MetricContext } from './policy/expression';
+import type { FeeSchedule, PricingPolicy } from './policy/types';
+import type { LoanApplication, PricingAdjustment, PricingQuote } from './types';
+
+/** Processing fee and the GST on it for `amount` under `schedule`. */
+export function processingFeeFor(amount: number, schedule: FeeSchedule): { fee: number; gst: number } {
+  const fee = Math.min(schedule.max, Math.max(schedule.min, (amount * schedule.percent) / 100));
+  return { fee, gst: (fee * schedule.gstPercent) / 100 };
+}
+
+/**
+ * Prices the loan off the external benchmark: spread components by risk,
+ * purpose, LTV and ticket size, less claimed concessions (capped), floored
+ * at the minimum spread. `context` must carry the appraisal metrics and the
+ * risk outcome the spreads reference.
+ */
+export function priceLoan(application: LoanApplication, pricing: PricingPolicy, context: MetricContext): PricingQuote {
+  const benchmarkRate = pricing.benchmark.repoRate + pricing.benchmark.markup;
+
+  const spreads = pricing.spreads.map((spread): PricingAdjustment => {
+    const value = evaluateExpression(spread.metric, context);
+    const band = selectBand(value, spread.bands, context);
+    if (!band) throw new Error(`No band matched pricing spread ${spread.id} value ${value}; it needs a fallback band.`);
+    return { id: spread.id, label: spread.label, bps: band.result };
+  });
+
+  const claimed = application.concessions ?? [];
+  let remaining = pricing.maxConcessionBps;
+  const concessions: PricingAdjustment[] = [];
+  pricing.concessions.forEach(concession => {
+    if (!claimed.includes(concession.id) || remaining <= 0) return;
+    if (concession.appliesWhen && !matchesCondition(0, concession.appliesWhen, context)) return;
+    const bps = Math.min(concession.bps, remaining);
+    remaining -= bps;
+    concessions.push({ id: concession.id, label: concession.label, bps: -bps });
+  });
+
+  const totalSpreadBps = Math.max(
+    pricing.minSpreadBps,
+    [...spreads, ...concessions].reduce((sum, adjustment) => sum + adjustment.bps, 0),
+  );
+  const finalRate = benchmarkRate + totalSpreadBps / 100;
+
+  const { fee, gst } = processingFeeFor(application.loanAmount, pricing.processingFee);
+
+  return {
+    benchmark: pricing.benchmark.name,
+    benchmarkRate,
+    spreads,
+    concessions,
+    totalSpreadBps,
+    finalRate,
+    emi: calculateEmi(application.loanAmount, finalRate, application.tenureMonths),
+    processingFee: fee,
+    processingFeeGst: gst,
+    feeSchedule: pricing.processingFee,
+    apr: calculateApr(application.loanAmount, finalRate, application.tenureMonths, fee + gst),
+  };
+}
@@ -0,0 +1,36 @@
+import type { LtvSlab, PolicyDocument, ProductDefinition } from './policy/types';
+
+export interface ProductMetrics {
+  productName: string;
+  minTicket: number;
+  maxTicket: number;
+  minTenureMonths: number;
+  maxTenureMonths: number;
+  /** 1 when security must be offered for this product and ticket size, else 0. */
+  collateralRequired: number;
+  ltvPassCap: number;
+  ltvMaxCap: number;
+}
+
+export function findProduct(policy: PolicyDocument, purpose: string): ProductDefinition | undefined {
+  return policy.products.find(product => product.purpose === purpose);
+}
+
+export function selectLtvSlab(product: ProductDefinition, loanAmount: number): LtvSlab | undefined {
+  return product.ltvSlabs.find(slab => slab.upToAmount === undefined || loanAmount <= slab.upToAmount);
+}
+
+export function productMetrics(product: ProductDefinition, loanAmount: number): ProductMetrics {
+  const slab = selectLtvSlab(product, loanAmount);
+  const collateralWaived = product.collateralFreeLimit !== undefined && loanAmount <= product.collateralFreeLimit;
+  return {
+    productName: product.name,
+    minTicket: product.minTicket,
+    maxTicket: product.maxTicket,
+    minTenureMonths: product.minTenureMonths,
+    maxTenureMonths: product.maxTenureMonths,
+    collateralRequired: product.collateralMandatory && !collateralWaived ? 1 : 0,
+    ltvPassCap: slab?.passLtv ?? 0,
+    ltvMaxCap: slab?.maxLtv ?? 0,
+  };
+}
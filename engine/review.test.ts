@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { validateReviewInput } from './review';
+
+const review = (type: string, value?: number) => validateReviewInput({
+  decision: 'APPROVED',
+  remarks: 'Approved with conditions.',
+  conditions: [{ type, description: 'Condition', value }],
+});
+
+describe('validateReviewInput', () => {
+  it.each([
+    ['REDUCED_AMOUNT', 0],
+    ['REDUCED_AMOUNT', -1],
+    ['REDUCED_AMOUNT', undefined],
+    ['ADDITIONAL_COLLATERAL', 0],
+    ['RATE_LOADING', -25],
+  ] as const)('refuses a %s of %s', (type, value) => {
+    expect(review(type, value).ok).toBe(false);
+  });
+
+  it.each([
+    ['REDUCED_AMOUNT', 1500000],
+    ['ADDITIONAL_COLLATERAL', 500000],
+    ['RATE_LOADING', 0],
+    ['RATE_LOADING', 50],
+  ] as const)('accepts a %s of %s', (type, value) => {
+    expect(review(type, value).ok).toBe(true);
+  });
+});
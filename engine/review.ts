@@ -0,0 +1,144 @@
+import type { CaseRecord } from './cases';
+import type { Decision } from './types';
+
+export type SanctionConditionType =
+  | 'CO_APPLICANT_OR_GUARANTOR'
+  | 'RATE_LOADING'
+  | 'ADDITIONAL_DOCUMENTATION'
+  | 'FIELD_VERIFICATION'
+  | 'REDUCED_AMOUNT'
+  | 'ADDITIONAL_COLLATERAL'
+  | 'OTHER';
+
+export interface SanctionCondition {
+  type: SanctionConditionType;
+  description: string;
+  /** Basis points for RATE_LOADING; rupees for REDUCED_AMOUNT and ADDITIONAL_COLLATERAL. */
+  value?: number;
+}
+
+export const sanctionConditionTypes: { type: SanctionConditionType; label: string; valueLabel?: string }[] = [
+  { type: 'CO_APPLICANT_OR_GUARANTOR', label: 'Co-applicant or guarantor' },
+  { type: 'RATE_LOADING', label: 'Interest rate loading', valueLabel: 'bps' },
+  { type: 'ADDITIONAL_DOCUMENTATION', label: 'Additional documentation' },
+  { type: 'FIELD_VERIFICATION', label: 'Employment / field verification' },
+  { type: 'REDUCED_AMOUNT', label: 'Sanction at reduced amount', valueLabel: '₹' },
+  { type: 'ADDITIONAL_COLLATERAL', label: 'Additional collateral', valueLabel: '₹' },
+  { type: 'OTHER', label: 'Other' },
+];
+
+export type ReviewDecision = 'APPROVED' | 'REJECTED';
+
+/** A checker's decision, kept alongside (never in place of) the system's `AppraisalResult.decision`. */
+export interface ReviewOverride {
+  systemDecision: Decision;
+  decision: ReviewDecision;
+  remarks: string;
+  conditions: SanctionCondition[];
+  reviewer: string;
+  maker: string;
+  at: string;
+}
+
+export interface ReviewInput {
+  decision: ReviewDecision;
+  remarks: string;
+  conditions: SanctionCondition[];
+}
+
+export function validateReviewInput(payload: unknown): { ok: true; input: ReviewInput } | { ok: false; errors: string[] } {
+  const body = payload as Partial<ReviewInput> | null;
+  const errors: string[] = [];
+
+  if (body?.decision !== 'APPROVED' && body?.decision !== 'REJECTED') {
+    errors.push('decision must be APPROVED or REJECTED.');
+  }
+  if (typeof body?.remarks !== 'string' || body.remarks.trim().length < 10) {
+    errors.push('remarks are mandatory and must be at least 10 characters.');
+  }
+
+  const conditions = body?.conditions ?? [];
+  if (!Array.isArray(conditions)) {
+    errors.push('conditions must be an array.');
+  } else {
+    conditions.forEach((condition, index) => {
+      if (!sanctionConditionTypes.some(option => option.type === condition?.type)) {
+        errors.push(`conditions[${index}].type is not a known condition type.`);
+      }
+      if (typeof condition?.description !== 'string' || condition.description.trim() === '') {
+        errors.push(`conditions[${index}].description is required.`);
+      }
+      if (condition?.value !== undefined && (typeof condition.value !== 'number' || !Number.isFinite(condition.value))) {
+        errors.push(`conditions[${index}].value must be a number.`);
+      } else if (condition?.type === 'REDUCED_AMOUNT' && !(condition.value! > 0)) {
+        errors.push(`conditions[${index}].value must be a reduced amount above zero.`);
+      } else if (condition?.type === 'ADDITIONAL_COLLATERAL' && condition.value !== undefined && condition.value <= 0) {
+        errors.push(`conditions[${index}].value must be above zero.`);
+      } else if (condition?.type === 'RATE_LOADING' && condition.value !== undefined && condition.value < 0) {
+        errors.push(`conditions[${index}].value cannot be negative; a loading only raises the rate.`);
+      }
+    });
+    if (body?.decision === 'REJECTED' && conditions.length > 0) {
+      errors.push('conditions only apply to approvals.');
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    input: {
+      decision: body!.decision as ReviewDecision,
+      remarks: body!.remarks!.trim(),
+      conditions: conditions as SanctionCondition[],
+    },
+  };
+}
+
+/**
+ * Checks conditions against the appraisal they attach to. A reduced amount is
+ * what gets sanctioned and measured against delegation, so it must lie above
+ * zero and within the amount appraised.
+ */
+export function conditionErrorsFor(conditions: SanctionCondition[], appraisedAmount: number): string[] {
+  return conditions.flatMap((condition, index) => {
+    if (condition.type !== 'REDUCED_AMOUNT') return [];
+    const value = condition.value ?? 0;
+    return value > 0 && value <= appraisedAmount
+      ? []
+      : [`conditions[${index}].value must be above zero and no more than the appraised amount of ${appraisedAmount}.`];
+  });
+}
+
+export interface OverrideStats {
+  /** Cases the engine has decided, by system decision. */
+  systemDecisions: Record<Decision, number>;
+  reviewed: number;
+  /** Reviewer outcome keyed by the system decision it replaced. */
+  outcomes: Record<Decision, Record<ReviewDecision, number>>;
+  /** Share of system-decided cases where a reviewer's decision replaced the system's. */
+  overrideRate: number;
+}
+
+export function computeOverrideStats(records: CaseRecord[]): OverrideStats {
+  const empty = () => ({ APPROVED: 0, REJECTED: 0 });
+  const stats: OverrideStats = {
+    systemDecisions: { APPROVED: 0, REJECTED: 0, REVIEW_REQUIRED: 0 },
+    reviewed: 0,
+    outcomes: { APPROVED: empty(), REJECTED: empty(), REVIEW_REQUIRED: empty() },
+    overrideRate: 0,
+  };
+
+  let overridden = 0;
+  records.forEach(record => {
+    if (!record.result) return;
+    stats.systemDecisions[record.result.decision]++;
+    if (!record.review) return;
+    stats.reviewed++;
+    stats.outcomes[record.review.systemDecision][record.review.decision]++;
+    if (record.review.decision !== record.review.systemDecision) overridden++;
+  });
+
+  const decided = stats.systemDecisions.APPROVED + stats.systemDecisions.REJECTED + stats.systemDecisions.REVIEW_REQUIRED;
+  stats.overrideRate = decided > 0 ? overridden / decided : 0;
+  return stats;
+}
@@ -0,0 +1,58 @@
+import { selectBand } from './policy/evaluate';
+import { evaluateExpression, type MetricContext } from './policy/expression';
+import type { ScorecardDefinition } from './policy/types';
+import type { ScorecardContribution, ScorecardResult } from './types';
+
+type ScoringModel = (definition: ScorecardDefinition, context: MetricContext) => ScorecardResult;
+
+/** Points scorecard with log-odds scaling, the usual form of a binned logistic regression. */
+const pointsScorecard: ScoringModel = (definition, context) => {
+  const contributions = definition.attributes.map((attribute): ScorecardContribution => {
+    const value = evaluateExpression(attribute.metric, context);
+    const bin = selectBand(value, attribute.bins, context);
+    if (!bin) throw new Error(`No bin matched scorecard attribute ${attribute.id} value ${value}; it needs a fallback bin.`);
+    return {
+      attributeId: attribute.id,
+      label: attribute.label,
+      value,
+      bin: bin.label,
+      points: bin.result,
+      maxPoints: Math.max(...attribute.bins.map(candidate => candidate.result)),
+    };
+  });
+
+  const score = definition.basePoints + contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  const odds = definition.baseOdds * 2 ** ((score - definition.baseScore) / definition.pointsToDoubleOdds);
+  const probabilityOfDefault = 1 / (1 + odds);
+  const grade = selectBand(probabilityOfDefault, definition.grades, context);
+  if (!grade) throw new Error(`No grade matched probability of default ${probabilityOfDefault}; grades need a fallback band.`);
+
+  const reasonCodes = definition.attributes
+    .map((attribute, index) => ({
+      code: attribute.reasonCode,
+      description: attribute.reason,
+      pointsLost: contributions[index].maxPoints - contributions[index].points,
+    }))
+    .filter(reason => reason.pointsLost > 0)
+    .sort((a, b) => b.pointsLost - a.pointsLost)
+    .slice(0, definition.reasonCodeCount);
+
+  return {
+    name: definition.name,
+    version: definition.version,
+    score,
+    probabilityOfDefault,
+    grade: grade.result,
+    contributions,
+    reasonCodes,
+  };
+};
+
+/** Scoring models by `ScorecardDefinition.model`; a new model type registers here. */
+export const scoringModels: Record<ScorecardDefinition['model'], ScoringModel> = {
+  points: pointsScorecard,
+};
+
+export function runScorecard(definition: ScorecardDefinition, context: MetricContext): ScorecardResult {
+  return scoringModels[definition.model](definition, context);
+}
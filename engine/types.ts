@@ -0,0 +1,257 @@
+import type { BureauReport, BureauSummary } from './bureau';
+import type { CollateralAssessment, CollateralSecurity } from './collateral';
+import type { FinancialAnalysis, FinancialStatements } from './financials';
+import type { IncomeEvidence, IncomeVerification } from './income-verification';
+import type { KycAssessment, KycDetails } from './kyc';
+import type { FeeSchedule } from './policy/types';
+import type { SanctionCondition } from './review';
+
+export interface LoanApplication {
+  applicantName: string;
+  loanAmount: number;
+  loanPurpose: string;
+  annualIncome: number;
+  creditScore: number;
+  employmentType: string;
+  employmentYears: number;
+  existingLoans: number;
+  /** Market value of the security; the sum of `collateral` when securities are itemised. */
+  collateralValue: number;
+  tenureMonths: number;
+  /** Annual interest rate in percent. */
+  interestRate: number;
+  businessVintage?: number;
+  /** Declared debt-to-income in percent; counts only where above the computed one. */
+  debtToIncome?: number;
+  coApplicants?: CoApplicant[];
+  guarantors?: Guarantor[];
+  /** Ids of the policy's pricing concessions the borrower claims. */
+  concessions?: string[];
+  /** When attached, its score and active EMIs replace the typed-in `creditScore` and floor `existingLoans`. */
+  bureauReport?: BureauReport;
+  incomeEvidence?: IncomeEvidence;
+  kyc?: KycDetails;
+  collateral?: CollateralSecurity[];
+  /** Business balance sheets and P&L, for business and MSME lending. */
+  financials?: FinancialStatements;
+  /** `YYYY-MM-DD` the application is appraised as of, stamped by the server; valuation ageing is measured to it. */
+  appraisalDate?: string;
+}
+
+/** A co-borrower whose income and obligations are assessed with the applicant's. */
+export interface CoApplicant {
+  name: string;
+  relationship: string;
+  annualIncome: number;
+  creditScore: number;
+  employmentType: string;
+  employmentYears: number;
+  /** Monthly EMIs already being paid. */
+  existingLoans: number;
+}
+
+/** Stands surety for the loan; income is not counted, net worth backs the exposure. */
+export interface Guarantor {
+  name: string;
+  relationship: string;
+  creditScore: number;
+  netWorth: number;
+}
+
+export type Decision = 'APPROVED' | 'REJECTED' | 'REVIEW_REQUIRED';
+
+export type CheckStatus = 'PASS' | 'FAIL' | 'WARNING';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface AppraisalResult {
+  decision: Decision;
+  score: number;
+  reasons: string[];
+  rbiCompliance: ComplianceCheck[];
+  bankPolicyCompliance: ComplianceCheck[];
+  riskAssessment: RiskAssessment;
+  recommendations: string[];
+  /** Recommendations the policy marks as attachable sanction conditions. */
+  suggestedConditions: SanctionCondition[];
+  loanStructure: LoanStructure;
+  employmentAssessment: EmploymentAssessment;
+  partyAssessment: PartyAssessment;
+  /** Present when the application carried a bureau report. */
+  bureauSummary?: BureauSummary;
+  /** Present when bank statements or tax documents were attached. */
+  incomeVerification?: IncomeVerification;
+  kyc: KycAssessment;
+  collateral: CollateralAssessment;
+  /** Present when financial statements were attached. */
+  financialAnalysis?: FinancialAnalysis;
+  scorecard: ScorecardResult;
+  pricing: PricingQuote;
+  ratios: KeyRatios;
+  explanation: DecisionExplanation;
+  /** Version of the `PolicyDocument` that produced this result. */
+  policyVersion: string;
+}
+
+export interface ComplianceCheck {
+  /** Stable identifier of the policy check that produced this result. */
+  id: string;
+  parameter: string;
+  status: CheckStatus;
+  details: string;
+}
+
+export interface RiskAssessment {
+  creditRisk: RiskLevel;
+  collateralRisk: RiskLevel;
+  overallRisk: RiskLevel;
+  riskScore: number;
+}
+
+export interface AmortisationRow {
+  month: number;
+  emi: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface LoanStructure {
+  loanAmount: number;
+  tenureMonths: number;
+  /** The priced rate (`PricingQuote.finalRate`), which may differ from the rate applied for. */
+  interestRate: number;
+  proposedEmi: number;
+  totalInterest: number;
+  totalPayable: number;
+  /** Fixed obligations (existing + proposed EMI) as a percentage of monthly income. */
+  foir: number;
+  foirLimit: number;
+  /** Largest amount whose EMI keeps FOIR within `foirLimit`. */
+  maxEligibleAmount: number;
+  /** `maxEligibleAmount` further capped by the product ticket size and LTV ceiling. */
+  maxSanctionableAmount: number;
+  schedule: AmortisationRow[];
+}
+
+export interface EmploymentAssessment {
+  employmentType: string;
+  profileName: string;
+  declaredAnnualIncome: number;
+  incomeHaircut: number;
+  /** The applicant's income after the haircut; co-applicants' is added in `PartyAssessment`. */
+  eligibleAnnualIncome: number;
+  requiredIncomeProof: string[];
+}
+
+/** Ratios the checks were evaluated on: LTV, LTI and coverage as multiples, DTI and FOIR in percent. */
+export interface KeyRatios {
+  loanToValue: number;
+  loanToIncome: number;
+  debtToIncome: number;
+  foir: number;
+  collateralCoverage: number;
+}
+
+export interface RuleTrace {
+  decision: Decision;
+  /** False for rules below the one that fired; they were never evaluated by the engine. */
+  reached: boolean;
+  fired: boolean;
+  matched: string[];
+  unmet: string[];
+}
+
+export interface DecisionExplanation {
+  failures: number;
+  warnings: number;
+  overallRisk: RiskLevel;
+  failedChecks: string[];
+  warningChecks: string[];
+  rules: RuleTrace[];
+  /** Index into `rules` of the rule that decided. */
+  firedRule: number;
+}
+
+export type PartyRole = 'APPLICANT' | 'CO_APPLICANT' | 'GUARANTOR';
+
+export interface PartyBreakdown {
+  role: PartyRole;
+  name: string;
+  relationship?: string;
+  creditScore: number;
+  employmentType?: string;
+  declaredAnnualIncome: number;
+  incomeHaircut: number;
+  eligibleAnnualIncome: number;
+  /** The part of `eligibleAnnualIncome` counted towards the loan. */
+  countedIncome: number;
+  existingEmi: number;
+  netWorth?: number;
+}
+
+export interface PartyAssessment {
+  parties: PartyBreakdown[];
+  /** Counted income of the applicant and all co-applicants; the basis for loan-to-income, DTI and FOIR. */
+  combinedEligibleIncome: number;
+  combinedExistingEmi: number;
+  creditScoreBasis: CreditScoreBasis;
+  /** The score the credit checks and risk bands were evaluated on. */
+  assessedCreditScore: number;
+  guarantorNetWorth: number;
+}
+
+export type CreditScoreBasis = 'primary' | 'weakest';
+
+export interface ScorecardContribution {
+  attributeId: string;
+  label: string;
+  value: number | string;
+  bin: string;
+  points: number;
+  /** Best points any bin of the attribute awards; the shortfall ranks reason codes. */
+  maxPoints: number;
+}
+
+export interface ReasonCode {
+  code: string;
+  description: string;
+  pointsLost: number;
+}
+
+export interface ScorecardResult {
+  name: string;
+  version: string;
+  score: number;
+  /** 0-1. */
+  probabilityOfDefault: number;
+  grade: string;
+  contributions: ScorecardContribution[];
+  /** Top negative contributors, largest shortfall first. */
+  reasonCodes: ReasonCode[];
+}
+
+export interface PricingAdjustment {
+  id: string;
+  label: string;
+  bps: number;
+}
+
+export interface PricingQuote {
+  benchmark: string;
+  /** Benchmark rate (%) the spread is added to. */
+  benchmarkRate: number;
+  spreads: PricingAdjustment[];
+  /** Concessions granted, as negative basis points, after the policy cap. */
+  concessions: PricingAdjustment[];
+  totalSpreadBps: number;
+  /** Offered rate of interest (% per annum). */
+  finalRate: number;
+  emi: number;
+  processingFee: number;
+  processingFeeGst: number;
+  /** The schedule the fee was charged under, so a reduced sanction can be re-priced. */
+  feeSchedule: FeeSchedule;
+  /** Annual percentage rate (%) including the processing fee and its GST. */
+  apr: number;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { validateLoanApplication } from './validate';
+
+const payload = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+};
+
+const security = {
+  type: 'PROPERTY',
+  description: 'Flat 4B',
+  marketValue: 3000000,
+  valuationDate: '2025-01-10',
+  valuer: 'Panel valuer',
+  ownership: 'APPLICANT',
+};
+
+describe('validateLoanApplication', () => {
+  it('takes collateralValue from the listed securities', () => {
+    const validation = validateLoanApplication({ ...payload, collateral: [security] });
+    expect(validation.ok && validation.application.collateralValue).toBe(3000000);
+  });
+
+  it('requires collateralValue when the securities list is empty', () => {
+    const validation = validateLoanApplication({ ...payload, collateral: [] });
+    expect(validation.ok).toBe(false);
+    expect(!validation.ok && validation.fieldErrors.collateralValue).toMatch(/required/);
+  });
+
+  it('accepts an empty securities list alongside a declared collateralValue', () => {
+    const validation = validateLoanApplication({ ...payload, collateral: [], collateralValue: 3000000 });
+    expect(validation.ok && validation.application.collateralValue).toBe(3000000);
+  });
+
+  it('requires creditScore without a bureau report', () => {
+    const validation = validateLoanApplication({ ...payload, creditScore: undefined, collateralValue: 3000000 });
+    expect(!validation.ok && validation.fieldErrors.creditScore).toMatch(/required/);
+  });
+
+  it.each([
+    ['coApplicants', { name: 'Meera Rao', annualIncome: 600000, creditScore: 5000, employmentType: 'salaried', employmentYears: 3, existingLoans: 0 }, 'creditScore must be between 300 and 900.'],
+    ['coApplicants', { name: 'Meera Rao', annualIncome: 0, creditScore: 760, employmentType: 'salaried', employmentYears: 3, existingLoans: 0 }, 'annualIncome must be greater than zero.'],
+    ['coApplicants', { name: 'Meera Rao', annualIncome: 600000, creditScore: 760.5, employmentType: 'salaried', employmentYears: 3, existingLoans: 0 }, 'creditScore must be a whole number.'],
+    ['guarantors', { name: 'Ravi Kumar', creditScore: 120, netWorth: 5000000 }, 'creditScore must be between 300 and 900.'],
+  ] as const)('validates %s with the applicant\'s field rules', (list, party, error) => {
+    const validation = validateLoanApplication({ ...payload, collateralValue: 3000000, [list]: [party] });
+    expect(!validation.ok && validation.errors).toContain(`${list}[0].${error}`);
+  });
+});
@@ -0,0 +1,379 @@
+import { checkApplicationFields, checkPartyFields, fieldMessages, type ApplicationField, type PartyList } from './application-schema';
+import { normaliseBureauReport, summariseBureauReport, type BureauReport } from './bureau';
+import { collateralOwnerships, type CollateralSecurity } from './collateral';
+import { financialLineItems, type FinancialStatements, type FinancialYear } from './financials';
+import type { BankStatementAnalysis, IncomeEvidence, TaxReturn } from './income-verification';
+import {
+  addressProofTypes,
+  isValidAadhaar,
+  isValidPan,
+  kycDocumentStatuses,
+  type KycDetails,
+  type KycDocument,
+  type ScreeningResult,
+} from './kyc';
+import { defaultPolicy } from './policy/default-policy';
+import type { PolicyDocument } from './policy/types';
+import type { CoApplicant, Guarantor, LoanApplication } from './types';
+
+export type ValidationResult =
+  | { ok: true; application: LoanApplication }
+  /** `fieldErrors` holds form-ready messages for the scalar fields; `errors` lists every problem, those included. */
+  | { ok: false; errors: string[]; fieldErrors: Partial<Record<ApplicationField, string>> };
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validates one list of parties (co-applicants or guarantors) against the
+ * applicant's field rules, pushing errors prefixed with the party's position,
+ * e.g. `coApplicants[1].creditScore`.
+ */
+const validatePartyList = (
+  value: unknown,
+  field: PartyList,
+  policy: PolicyDocument,
+  max: number,
+  errors: string[],
+  extra?: (party: Record<string, unknown>, where: string) => void,
+): Record<string, unknown>[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array when provided.`);
+    return [];
+  }
+  if (value.length > max) errors.push(`At most ${max} ${field} are allowed under this policy.`);
+
+  return value.map((party, index) => {
+    const where = `${field}[${index}]`;
+    if (typeof party !== 'object' || party === null) {
+      errors.push(`${where} must be an object.`);
+      return {};
+    }
+    const record = party as Record<string, unknown>;
+    if (typeof record.name !== 'string' || record.name.trim() === '') errors.push(`${where}.name is required.`);
+    checkPartyFields(record, field, policy).forEach(issue => errors.push(`${where}.${issue.field} ${issue.requirement}`));
+    extra?.(record, where);
+    return record;
+  });
+};
+
+const statementNumbers = [
+  'months', 'transactionCount', 'averageMonthlyCredits', 'salaryCreditMonths', 'salaryRegularity',
+  'averageMonthlySalary', 'bounceCount', 'averageBalance', 'cashDepositShare',
+] as const;
+
+/** Validates attached bank statement analysis and tax documents; undefined when neither is present. */
+const validateIncomeEvidence = (value: unknown, errors: string[]): IncomeEvidence | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push('incomeEvidence must be an object when provided.');
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const evidence: IncomeEvidence = {};
+
+  if (input.bankStatement !== undefined) {
+    const statement = input.bankStatement as Record<string, unknown>;
+    if (typeof statement !== 'object' || statement === null) {
+      errors.push('incomeEvidence.bankStatement must be an object.');
+    } else {
+      statementNumbers.forEach(key => {
+        if (!isNumber(statement[key]) || (statement[key] as number) < 0) {
+          errors.push(`incomeEvidence.bankStatement.${key} must be a non-negative number.`);
+        }
+      });
+      if (isNumber(statement.months) && statement.months < 1) errors.push('incomeEvidence.bankStatement must cover at least one month.');
+      if (typeof statement.fromDate !== 'string' || typeof statement.toDate !== 'string') {
+        errors.push('incomeEvidence.bankStatement needs fromDate and toDate.');
+      }
+      evidence.bankStatement = {
+        fromDate: statement.fromDate,
+        toDate: statement.toDate,
+        ...Object.fromEntries(statementNumbers.map(key => [key, statement[key]])),
+      } as BankStatementAnalysis;
+    }
+  }
+
+  if (input.taxReturns !== undefined) {
+    if (!Array.isArray(input.taxReturns)) {
+      errors.push('incomeEvidence.taxReturns must be an array.');
+    } else if (input.taxReturns.length > 0) {
+      evidence.taxReturns = input.taxReturns.map((entry, index): TaxReturn => {
+        const where = `incomeEvidence.taxReturns[${index}]`;
+        const record = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+        if (typeof record.assessmentYear !== 'string' || !/^\d{4}-\d{2}$/.test(record.assessmentYear)) {
+          errors.push(`${where}.assessmentYear must look like 2024-25.`);
+        }
+        if (record.form !== 'ITR' && record.form !== 'FORM16') errors.push(`${where}.form must be ITR or FORM16.`);
+        if (!isNumber(record.grossTotalIncome) || record.grossTotalIncome < 0) {
+          errors.push(`${where}.grossTotalIncome must be a non-negative number.`);
+        }
+        return { assessmentYear: record.assessmentYear as string, form: record.form as TaxReturn['form'], grossTotalIncome: record.grossTotalIncome as number };
+      });
+    }
+  }
+
+  return evidence.bankStatement || evidence.taxReturns ? evidence : undefined;
+};
+
+const documentFields = ['fileName', 'uploadedBy', 'uploadedAt', 'verifiedBy', 'verifiedAt', 'remarks'] as const;
+
+/**
+ * Validates KYC details. A full Aadhaar number is checksum-validated and
+ * reduced to its last four digits here, so it is never stored. A stored
+ * screening result is kept for replays; the server re-screens on submission.
+ * Document statuses are taken as given, so only a stored case's checklist
+ * may reach here: routes drop a client's with `withoutClientDocuments`.
+ */
+const validateKyc = (value: unknown, policy: PolicyDocument, errors: string[]): KycDetails | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push('kyc must be an object when provided.');
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const kyc: KycDetails = { documents: [] };
+
+  if (input.pan !== undefined && input.pan !== '') {
+    const pan = typeof input.pan === 'string' ? input.pan.trim().toUpperCase() : '';
+    if (isValidPan(pan)) kyc.pan = pan;
+    else errors.push('kyc.pan must be a valid PAN, e.g. ABCPE1234F.');
+  }
+
+  if (input.aadhaar !== undefined && input.aadhaar !== '') {
+    const aadhaar = typeof input.aadhaar === 'string' ? input.aadhaar.replace(/\s/g, '') : '';
+    if (isValidAadhaar(aadhaar)) kyc.aadhaarLast4 = aadhaar.slice(-4);
+    else errors.push('kyc.aadhaar must be a valid 12-digit Aadhaar number.');
+  } else if (input.aadhaarLast4 !== undefined) {
+    if (typeof input.aadhaarLast4 === 'string' && /^\d{4}$/.test(input.aadhaarLast4)) kyc.aadhaarLast4 = input.aadhaarLast4;
+    else errors.push('kyc.aadhaarLast4 must be four digits.');
+  }
+
+  if (input.addressProof !== undefined) {
+    const proof = (typeof input.addressProof === 'object' && input.addressProof !== null ? input.addressProof : {}) as Record<string, unknown>;
+    const type = addressProofTypes.find(option => option.type === proof.type)?.type;
+    const number = typeof proof.number === 'string' ? proof.number.trim() : '';
+    if (!type) errors.push(`kyc.addressProof.type must be one of: ${addressProofTypes.map(option => option.type).join(', ')}.`);
+    if (number === '' || number.length > 30) errors.push('kyc.addressProof.number is required (at most 30 characters).');
+    if (type && number !== '') kyc.addressProof = { type, number };
+  }
+
+  if (input.documents !== undefined) {
+    const known = policy.kyc.documents.map(requirement => requirement.id);
+    if (!Array.isArray(input.documents)) {
+      errors.push('kyc.documents must be an array.');
+    } else {
+      kyc.documents = input.documents.map((entry, index): KycDocument => {
+        const where = `kyc.documents[${index}]`;
+        const record = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+        if (typeof record.id !== 'string' || !known.includes(record.id)) errors.push(`${where}.id must be one of: ${known.join(', ')}.`);
+        if (!kycDocumentStatuses.includes(record.status as KycDocument['status'])) {
+          errors.push(`${where}.status must be one of: ${kycDocumentStatuses.join(', ')}.`);
+        }
+        const document: KycDocument = { id: record.id as string, status: record.status as KycDocument['status'] };
+        documentFields.forEach(field => {
+          if (typeof record[field] === 'string') document[field] = record[field] as string;
+        });
+        return document;
+      });
+    }
+  }
+
+  const screening = input.screening as ScreeningResult | undefined;
+  if (screening !== undefined) {
+    if (typeof screening !== 'object' || screening === null || !['CLEAR', 'POTENTIAL_MATCH', 'MATCH'].includes(screening.status) ||
+      !Array.isArray(screening.matches) || typeof screening.listVersion !== 'string' || typeof screening.screenedAt !== 'string') {
+      errors.push('kyc.screening is malformed.');
+    } else {
+      kyc.screening = screening;
+    }
+  }
+
+  return kyc.pan || kyc.aadhaarLast4 || kyc.addressProof || kyc.documents.length > 0 || kyc.screening ? kyc : undefined;
+};
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && isoDate.test(value) && !Number.isNaN(Date.parse(value));
+
+/** Itemised securities; only types the policy assigns a haircut to are accepted. */
+const validateCollateral = (
+  value: unknown,
+  policy: PolicyDocument,
+  appraisalDate: string | undefined,
+  errors: string[],
+): CollateralSecurity[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push('collateral must be an array when provided.');
+    return undefined;
+  }
+  const types = policy.collateral.types.map(rule => rule.type);
+  const ownerships = collateralOwnerships.map(option => option.ownership);
+  const securities = value.map((entry, index): CollateralSecurity => {
+    const where = `collateral[${index}]`;
+    const security = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    if (!types.includes(security.type as CollateralSecurity['type'])) errors.push(`${where}.type must be one of: ${types.join(', ')}.`);
+    if (!isNumber(security.marketValue) || security.marketValue <= 0) errors.push(`${where}.marketValue must be a positive number.`);
+    if (!isDate(security.valuationDate)) errors.push(`${where}.valuationDate must be a YYYY-MM-DD date.`);
+    else if (appraisalDate && security.valuationDate > appraisalDate) errors.push(`${where}.valuationDate must not be in the future.`);
+    if (typeof security.valuer !== 'string' || security.valuer.trim() === '') errors.push(`${where}.valuer is required.`);
+    if (!ownerships.includes(security.ownership as CollateralSecurity['ownership'])) {
+      errors.push(`${where}.ownership must be one of: ${ownerships.join(', ')}.`);
+    }
+    return {
+      type: security.type as CollateralSecurity['type'],
+      description: typeof security.description === 'string' ? security.description.trim() : '',
+      marketValue: security.marketValue as number,
+      valuationDate: security.valuationDate as string,
+      valuer: typeof security.valuer === 'string' ? security.valuer.trim() : '',
+      ownership: security.ownership as CollateralSecurity['ownership'],
+    };
+  });
+  return securities.length > 0 ? securities : undefined;
+};
+
+const facilityTypes: FinancialStatements['facility'][] = ['TERM_LOAN', 'WORKING_CAPITAL'];
+const maxFinancialYears = 5;
+/** Line items that can legitimately be negative: losses and eroded net worth. */
+const signedLineItems: (keyof FinancialYear)[] = ['profitBeforeTax', 'profitAfterTax', 'tangibleNetWorth'];
+
+/** Up to five years of statements, returned oldest first; optional line items default to 0. */
+const validateFinancials = (value: unknown, errors: string[]): FinancialStatements | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push('financials must be an object when provided.');
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  if (!facilityTypes.includes(input.facility as FinancialStatements['facility'])) {
+    errors.push(`financials.facility must be one of: ${facilityTypes.join(', ')}.`);
+  }
+  if (input.projectedTurnover !== undefined && (!isNumber(input.projectedTurnover) || input.projectedTurnover < 0)) {
+    errors.push('financials.projectedTurnover must be a non-negative number when provided.');
+  }
+  if (!Array.isArray(input.years) || input.years.length === 0 || input.years.length > maxFinancialYears) {
+    errors.push(`financials.years must list between 1 and ${maxFinancialYears} financial years.`);
+    return undefined;
+  }
+  const seen = new Set<string>();
+  const years = input.years.map((entry, index): FinancialYear => {
+    const where = `financials.years[${index}]`;
+    const row = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const year = typeof row.year === 'string' ? row.year.trim() : '';
+    if (year === '' || seen.has(year)) errors.push(`${where}.year is required and must be unique.`);
+    seen.add(year);
+    const figures = { year } as FinancialYear;
+    financialLineItems.forEach(({ field, optional }) => {
+      const figure = row[field] ?? (optional ? 0 : undefined);
+      if (!isNumber(figure)) errors.push(`${where}.${field} is required and must be a number.`);
+      else if (figure < 0 && !signedLineItems.includes(field)) errors.push(`${where}.${field} must not be negative.`);
+      figures[field] = figure as number;
+    });
+    return figures;
+  });
+  return {
+    facility: input.facility as FinancialStatements['facility'],
+    years: years.sort((a, b) => a.year.localeCompare(b.year)),
+    projectedTurnover: input.projectedTurnover as number | undefined,
+  };
+};
+
+/**
+ * Checks that an untrusted payload has the shape of a `LoanApplication`: its
+ * scalar fields against `applicationFields`, the same rules the intake form
+ * applies step by step, and the attached parties, evidence and statements
+ * here. An attached bureau report is authoritative for the applicant's
+ * credit score and existing EMIs, and itemised securities for the
+ * collateral value.
+ */
+export function validateLoanApplication(payload: unknown, policy: PolicyDocument = defaultPolicy): ValidationResult {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return { ok: false, errors: ['Request body must be a JSON object.'], fieldErrors: {} };
+  }
+
+  const input = payload as Record<string, unknown>;
+  const fieldIssues = checkApplicationFields(input, policy);
+  const errors = fieldIssues.map(issue => `${issue.field} ${issue.requirement}`);
+
+  let bureauReport: BureauReport | undefined;
+  if (input.bureauReport !== undefined) {
+    const bureau = normaliseBureauReport(input.bureauReport);
+    if (bureau.ok) bureauReport = bureau.report;
+    else errors.push(...bureau.errors.map(error => `bureauReport: ${error}`));
+  }
+
+  const coApplicants = validatePartyList(input.coApplicants, 'coApplicants', policy, policy.parties.maxCoApplicants, errors);
+  const incomeEvidence = validateIncomeEvidence(input.incomeEvidence, errors);
+  const concessionIds = policy.pricing.concessions.map(concession => concession.id);
+  if (input.concessions !== undefined && (
+    !Array.isArray(input.concessions) || input.concessions.some(id => typeof id !== 'string' || !concessionIds.includes(id))
+  )) {
+    errors.push(`concessions must be a list drawn from: ${concessionIds.join(', ')}.`);
+  }
+  const guarantors = validatePartyList(input.guarantors, 'guarantors', policy, policy.parties.maxGuarantors, errors,
+    (party, where) => {
+      if (!isNumber(party.netWorth) || party.netWorth < 0) errors.push(`${where}.netWorth must be a non-negative number.`);
+    });
+  const kyc = validateKyc(input.kyc, policy, errors);
+  if (input.appraisalDate !== undefined && !isDate(input.appraisalDate)) {
+    errors.push('appraisalDate must be a YYYY-MM-DD date when provided.');
+  }
+  const appraisalDate = isDate(input.appraisalDate) ? input.appraisalDate : undefined;
+  const collateral = validateCollateral(input.collateral, policy, appraisalDate, errors);
+  const financials = validateFinancials(input.financials, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors, fieldErrors: fieldMessages(fieldIssues) };
+  }
+
+  const bureau = bureauReport ? summariseBureauReport(bureauReport) : undefined;
+
+  return {
+    ok: true,
+    application: {
+      applicantName: input.applicantName as string,
+      loanAmount: input.loanAmount as number,
+      loanPurpose: input.loanPurpose as string,
+      annualIncome: input.annualIncome as number,
+      creditScore: bureau ? bureau.score : input.creditScore as number,
+      employmentType: input.employmentType as string,
+      employmentYears: input.employmentYears as number,
+      // Declared EMIs may include loans the bureau has not seen, but can never be below what it reports.
+      existingLoans: bureau ? Math.max(input.existingLoans as number, bureau.activeEmi) : input.existingLoans as number,
+      collateralValue: collateral ? collateral.reduce((sum, security) => sum + security.marketValue, 0) : input.collateralValue as number,
+      tenureMonths: input.tenureMonths as number,
+      interestRate: input.interestRate as number,
+      businessVintage: input.businessVintage as number | undefined,
+      debtToIncome: input.debtToIncome as number | undefined,
+      coApplicants: coApplicants.length > 0
+        ? coApplicants.map((party): CoApplicant => ({
+          name: party.name as string,
+          relationship: typeof party.relationship === 'string' ? party.relationship : '',
+          annualIncome: party.annualIncome as number,
+          creditScore: party.creditScore as number,
+          employmentType: party.employmentType as string,
+          employmentYears: party.employmentYears as number,
+          existingLoans: party.existingLoans as number,
+        }))
+        : undefined,
+      guarantors: guarantors.length > 0
+        ? guarantors.map((party): Guarantor => ({
+          name: party.name as string,
+          relationship: typeof party.relationship === 'string' ? party.relationship : '',
+          creditScore: party.creditScore as number,
+          netWorth: party.netWorth as number,
+        }))
+        : undefined,
+      concessions: Array.isArray(input.concessions) && input.concessions.length > 0 ? input.concessions as string[] : undefined,
+      bureauReport,
+      incomeEvidence,
+      kyc,
+      collateral,
+      financials,
+      appraisalDate,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import type { CaseRecord } from './cases';
+import type { ReviewOverride } from './review';
+import type { AppraisalResult, LoanApplication } from './types';
+import type { CaseStatus } from './workflow';
+
+export type WebhookEventType = 'application.appraised' | 'decision.overridden' | 'case.sanctioned' | 'case.declined';
+
+export const webhookEventTypes: { type: WebhookEventType; label: string }[] = [
+  { type: 'application.appraised', label: 'Application appraised' },
+  { type: 'decision.overridden', label: 'Decision overridden by a reviewer' },
+  { type: 'case.sanctioned', label: 'Case sanctioned' },
+  { type: 'case.declined', label: 'Case declined' },
+];
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  /** Shared with the receiver to sign deliveries; at least 16 characters. */
+  secret: string;
+  /** Event types to send; every type when omitted. */
+  events?: WebhookEventType[];
+  disabled?: boolean;
+}
+
+/** An endpoint as the API shows it, without its secret. */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+
+/** What a receiver gets as the JSON body of a delivery. */
+export interface WebhookEvent {
+  /** Unchanged across retries and replays, so receivers can discard duplicates. */
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  actor: string;
+  data: {
+    caseId: string;
+    status: CaseStatus;
+    branch?: string;
+    application: LoanApplication;
+    result: AppraisalResult;
+    review?: ReviewOverride;
+  };
+}
+
+export type WebhookEventContent = Omit<WebhookEvent, 'id'>;
+
+export type DeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface DeliveryAttempt {
+  at: string;
+  /** HTTP status of the receiver's answer; absent when it could not be reached. */
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/** One event on its way to one endpoint, with every attempt made. */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  /** When the next retry is due while PENDING. */
+  nextAttemptAt?: string;
+  /** The delivery this one re-sends, for replays. */
+  replayOf?: string;
+  createdAt: string;
+}
+
+/** Seconds to wait before each retry; a delivery fails for good once these run out. */
+export const retrySchedule = [30, 120, 600, 3600];
+
+export const nextRetryAt = (attempts: number, from: Date): string | undefined => {
+  const delay = retrySchedule[attempts - 1];
+  return delay === undefined ? undefined : new Date(from.getTime() + delay * 1000).toISOString();
+};
+
+/**
+ * The events a case change gives rise to. An appraisal is always announced;
+ * a reviewer's decision counts as an override when it differs from the
+ * system's, as in the override statistics. A case that ends SANCTIONED or
+ * DECLINED through `change` announces that too.
+ */
+export function caseEvents(
+  change: 'appraised' | 'reviewed' | 'transitioned',
+  record: CaseRecord,
+  actor: string,
+  at = record.updatedAt,
+): WebhookEventContent[] {
+  if (!record.result) return [];
+  const data = {
+    caseId: record.id,
+    status: record.status,
+    branch: record.branch,
+    // Once appraised, the stored application is the validated one.
+    application: record.application as LoanApplication,
+    result: record.result,
+    review: record.review,
+  };
+  const event = (type: WebhookEventType): WebhookEventContent => ({ type, occurredAt: at, actor, data });
+
+  const events: WebhookEventContent[] = [];
+  if (change === 'appraised') events.push(event('application.appraised'));
+  if (change === 'reviewed' && record.review && record.review.decision !== record.review.systemDecision) {
+    events.push(event('decision.overridden'));
+  }
+  if (change !== 'appraised' && record.status === 'SANCTIONED') events.push(event('case.sanctioned'));
+  if (change !== 'appraised' && record.status === 'DECLINED') events.push(event('case.declined'));
+  return events;
+}
+
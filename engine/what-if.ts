@@ -0,0 +1,111 @@
+import { appraise } from './appraise';
+import type { PolicyDocument } from './policy/types';
+import { findProduct } from './products';
+import type { AppraisalResult, CheckStatus, LoanApplication } from './types';
+
+export interface CheckChange {
+  id: string;
+  parameter: string;
+  /** Undefined when the check did not apply to that side of the comparison. */
+  from?: CheckStatus;
+  to?: CheckStatus;
+}
+
+export type CounterOfferKind = 'REDUCED_AMOUNT' | 'ADDITIONAL_COLLATERAL';
+
+export interface CounterOffer {
+  kind: CounterOfferKind;
+  application: LoanApplication;
+  result: AppraisalResult;
+  /** Extra collateral over the declared value; 0 for amount offers. */
+  additionalCollateral: number;
+}
+
+/** Search granularity; offers are whole multiples of this many rupees. */
+const roundingStep = 1000;
+const gridSteps = 100;
+
+const allChecks = (result: AppraisalResult) => [...result.rbiCompliance, ...result.bankPolicyCompliance];
+
+/** The checks whose status differs between two appraisals, including ones that started or stopped applying. */
+export function diffChecks(before: AppraisalResult, after: AppraisalResult): CheckChange[] {
+  const changes: CheckChange[] = [];
+  const afterChecks = allChecks(after);
+  allChecks(before).forEach(check => {
+    const next = afterChecks.find(candidate => candidate.id === check.id);
+    if (next?.status !== check.status) changes.push({ id: check.id, parameter: check.parameter, from: check.status, to: next?.status });
+  });
+  afterChecks.forEach(check => {
+    if (!changes.some(change => change.id === check.id) && !allChecks(before).some(candidate => candidate.id === check.id)) {
+      changes.push({ id: check.id, parameter: check.parameter, to: check.status });
+    }
+  });
+  return changes;
+}
+
+/**
+ * Finds the boundary of `approves` over [low, high] where `fromHigh` says
+ * which end to favour. The engine is not monotonic in every input (LTV slabs
+ * and collateral waivers change with the amount), so a coarse scan finds the
+ * best approving grid point before bisection refines it against its neighbour.
+ */
+const searchBoundary = (low: number, high: number, fromHigh: boolean, approves: (value: number) => boolean) => {
+  const step = (high - low) / gridSteps;
+  const points = Array.from({ length: gridSteps + 1 }, (_, index) => low + step * index);
+  if (fromHigh) points.reverse();
+
+  const hit = points.findIndex(approves);
+  if (hit === -1) return undefined;
+  if (hit === 0) return points[0];
+
+  // points[hit - 1] fails and points[hit] approves; close the gap between them.
+  let failing = points[hit - 1];
+  let passing = points[hit];
+  while (Math.abs(failing - passing) > roundingStep) {
+    const middle = (failing + passing) / 2;
+    if (approves(middle)) passing = middle;
+    else failing = middle;
+  }
+  return passing;
+};
+
+/**
+ * Looks for the smallest change that turns the application into an APPROVED
+ * one under `policy`: the largest loan amount at the declared collateral, and
+ * the least extra collateral at the requested amount. Either may be missing
+ * when no value in range gets there (e.g. collateral cannot rescue a credit
+ * score failure). Returns nothing for applications that are already approved.
+ */
+export function findCounterOffers(application: LoanApplication, policy: PolicyDocument): CounterOffer[] {
+  if (appraise(application, policy).decision === 'APPROVED') return [];
+
+  const product = findProduct(policy, application.loanPurpose);
+  const offers: CounterOffer[] = [];
+  const approvedWith = (changes: Partial<LoanApplication>) => {
+    const candidate = { ...application, ...changes };
+    return appraise(candidate, policy).decision === 'APPROVED';
+  };
+
+  const minAmount = product?.minTicket ?? 0;
+  const maxAmount = Math.min(application.loanAmount, product?.maxTicket ?? application.loanAmount);
+  if (maxAmount > minAmount) {
+    const amount = searchBoundary(minAmount, maxAmount, true, value =>
+      approvedWith({ loanAmount: Math.floor(value / roundingStep) * roundingStep }));
+    if (amount !== undefined) {
+      const offered = { ...application, loanAmount: Math.max(minAmount, Math.floor(amount / roundingStep) * roundingStep) };
+      offers.push({ kind: 'REDUCED_AMOUNT', application: offered, result: appraise(offered, policy), additionalCollateral: 0 });
+    }
+  }
+
+  // Collateral beyond three times the loan is never a realistic ask.
+  const maxExtra = application.loanAmount * 3;
+  const extra = searchBoundary(0, maxExtra, false, value =>
+    approvedWith({ collateralValue: application.collateralValue + Math.ceil(value / roundingStep) * roundingStep }));
+  if (extra !== undefined && extra > 0) {
+    const additionalCollateral = Math.ceil(extra / roundingStep) * roundingStep;
+    const offered = { ...application, collateralValue: application.collateralValue + additionalCollateral };
+    offers.push({ kind: 'ADDITIONAL_COLLATERAL', application: offered, result: appraise(offered, policy), additionalCollateral });
+  }
+
+  return offers;
+}
@@ -0,0 +1,25 @@
+export type CaseStatus = 'DRAFT' | 'SUBMITTED' | 'APPRAISED' | 'UNDER_REVIEW' | 'SANCTIONED' | 'DECLINED';
+
+export const caseStatuses: CaseStatus[] = ['DRAFT', 'SUBMITTED', 'APPRAISED', 'UNDER_REVIEW', 'SANCTIONED', 'DECLINED'];
+
+const transitions: Record<CaseStatus, CaseStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['APPRAISED'],
+  APPRAISED: ['UNDER_REVIEW', 'SANCTIONED', 'DECLINED'],
+  UNDER_REVIEW: ['SANCTIONED', 'DECLINED'],
+  SANCTIONED: [],
+  DECLINED: [],
+};
+
+/** Statuses a user may move a case to by hand; SUBMITTED and APPRAISED are entered by the appraisal itself. */
+export const manualStatuses: CaseStatus[] = ['UNDER_REVIEW', 'SANCTIONED', 'DECLINED'];
+
+export function allowedTransitions(from: CaseStatus): CaseStatus[] {
+  return transitions[from];
+}
+
+export function canTransition(from: CaseStatus, to: CaseStatus): boolean {
+  return transitions[from].includes(to);
+}
+
+export const isTerminalStatus = (status: CaseStatus) => transitions[status].length === 0;
@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { sessionCookie } from './engine/access';
+
+/**
+ * Sends visitors without a session to the sign-in page. Only the cookie's
+ * presence is checked here; the API verifies its signature on every request.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(sessionCookie)) return NextResponse.next();
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, and the sign-in page must stay reachable.
+  matcher: ['/((?!api|login|_next|favicon.ico).*)'],
+};
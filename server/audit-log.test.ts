@@ -0,0 +1,76 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appraise } from '../engine/appraise';
+import type { CaseRecord } from '../engine/cases';
+import type { LoanApplication } from '../engine/types';
+import { listAuditEntries, recordAuditEntry, recordCaseEvent, verifyAuditLog } from './audit-log';
+
+const application: LoanApplication = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  collateralValue: 4000000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+};
+
+const result = appraise(application);
+
+const sanctioned: CaseRecord = {
+  id: 'CASE-1',
+  status: 'SANCTIONED',
+  application,
+  result,
+  createdBy: 'maker',
+  createdAt: '2025-06-30T10:00:00.000Z',
+  updatedAt: '2025-06-30T11:00:00.000Z',
+  history: [{ from: 'APPRAISED', to: 'SANCTIONED', at: '2025-06-30T11:00:00.000Z', by: 'manager' }],
+};
+
+let directory: string;
+let logFile: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'audit-'));
+  logFile = path.join(directory, 'audit-log.jsonl');
+  process.env.AUDIT_LOG_FILE = logFile;
+});
+
+afterEach(async () => {
+  delete process.env.AUDIT_LOG_FILE;
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('audit log', () => {
+  it('chains status changes after the appraisal they act on', async () => {
+    await recordAuditEntry(application, result, 'maker', 'CASE-1');
+    await recordCaseEvent(sanctioned, 'STATUS_CHANGE', 'manager');
+
+    const entries = await listAuditEntries('CASE-1');
+    expect(entries.map(entry => entry.event)).toEqual(['APPRAISAL', 'STATUS_CHANGE']);
+    expect(entries[1]).toMatchObject({ actor: 'manager', statusChange: { to: 'SANCTIONED' }, prevHash: entries[0].hash });
+    expect(await verifyAuditLog()).toMatchObject({ ok: true, entries: 2, headHash: entries[1].hash });
+  });
+
+  it('detects lines cut off the end of the log', async () => {
+    await recordAuditEntry(application, result, 'maker', 'CASE-1');
+    await recordCaseEvent(sanctioned, 'STATUS_CHANGE', 'manager');
+
+    const [first] = (await readFile(logFile, 'utf8')).split('\n');
+    await writeFile(logFile, `${first}\n`);
+    expect(await verifyAuditLog()).toMatchObject({ ok: false, brokenAt: 2 });
+  });
+
+  it('detects a missing head', async () => {
+    await recordAuditEntry(application, result, 'maker', 'CASE-1');
+    await rm(`${logFile}.head`);
+    expect(await verifyAuditLog()).toMatchObject({ ok: false, reason: 'the recorded head is missing' });
+  });
+});
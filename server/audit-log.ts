@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  auditContent,
+  canonicalJson,
+  caseEventContent,
+  genesisHash,
+  type AuditEntry,
+  type AuditEntryContent,
+  type AuditEvent,
+  type AuditHead,
+  type ChainVerification,
+} from '../engine/audit';
+import type { CaseRecord } from '../engine/cases';
+import type { AppraisalResult, LoanApplication } from '../engine/types';
+
+const logFile = () => process.env.AUDIT_LOG_FILE ?? path.join(process.cwd(), 'data', 'audit-log.jsonl');
+
+/** Sidecar holding the last appended entry; a log that ends anywhere else has lost lines. */
+const headFile = () => `${logFile()}.head`;
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>) =>
+  createHash('sha256').update(canonicalJson(entry)).digest('hex');
+
+const readEntries = async (): Promise<AuditEntry[]> => {
+  let raw: string;
+  try {
+    raw = await readFile(logFile(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return raw
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as AuditEntry);
+};
+
+const readHead = async (): Promise<AuditHead | null> => {
+  try {
+    return JSON.parse(await readFile(headFile(), 'utf8')) as AuditHead;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Appends entries to the log, each chained to the entry before it, then
+ * moves the head past them. The file is only ever opened for append;
+ * nothing in the app rewrites or deletes lines.
+ */
+const append = (build: (at: string) => AuditEntryContent[]): Promise<AuditEntry[]> => {
+  const run = queue.then(async () => {
+    const entries = await readEntries();
+    let previous = entries[entries.length - 1];
+
+    const appended = build(new Date().toISOString()).map(content => {
+      const unsigned = {
+        ...content,
+        sequence: (previous?.sequence ?? 0) + 1,
+        prevHash: previous?.hash ?? genesisHash,
+      };
+      previous = { ...unsigned, hash: hashEntry(unsigned) };
+      return previous;
+    });
+    if (!previous || appended.length === 0) return appended;
+
+    const file = logFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, appended.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    const head: AuditHead = { sequence: previous.sequence, hash: previous.hash };
+    await writeFile(`${headFile()}.tmp`, JSON.stringify(head));
+    await rename(`${headFile()}.tmp`, headFile());
+    return appended;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+export interface AuditedAppraisal {
+  application: LoanApplication;
+  result: AppraisalResult;
+  actor: string;
+  caseId?: string;
+}
+
+export function recordAuditEntries(appraisals: AuditedAppraisal[]): Promise<AuditEntry[]> {
+  return append(at => appraisals.map(({ application, result, actor, caseId }) => auditContent(application, result, actor, at, caseId)));
+}
+
+export async function recordAuditEntry(
+  application: LoanApplication,
+  result: AppraisalResult,
+  actor: string,
+  caseId?: string,
+): Promise<AuditEntry> {
+  const [entry] = await recordAuditEntries([{ application, result, actor, caseId }]);
+  return entry;
+}
+
+/** Records a review or manual status change on an appraised case, as the case stands after it. */
+export async function recordCaseEvent(
+  record: CaseRecord,
+  event: Exclude<AuditEvent, 'APPRAISAL'>,
+  actor: string,
+): Promise<AuditEntry> {
+  const { result } = record;
+  if (!result) throw new Error(`Case ${record.id} has no appraisal to audit the ${event} against.`);
+  const [entry] = await append(at => [caseEventContent({ ...record, result }, event, actor, at)]);
+  return entry;
+}
+
+export async function listAuditEntries(caseId?: string): Promise<AuditEntry[]> {
+  const entries = await readEntries();
+  return caseId ? entries.filter(entry => entry.caseId === caseId) : entries;
+}
+
+/**
+ * Recomputes every hash and link, reporting the first entry that does not
+ * check out, then checks the log still ends at the recorded head.
+ */
+export async function verifyAuditLog(): Promise<ChainVerification> {
+  const [entries, head] = await Promise.all([readEntries(), readHead()]);
+  let prevHash = genesisHash;
+
+  for (const [index, entry] of entries.entries()) {
+    const { hash, ...unsigned } = entry;
+    if (entry.sequence !== index + 1) {
+      return { ok: false, entries: entries.length, brokenAt: entry.sequence, reason: `expected sequence ${index + 1}` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { ok: false, entries: entries.length, brokenAt: entry.sequence, reason: 'link to the previous entry is broken' };
+    }
+    if (hashEntry(unsigned) !== hash) {
+      return { ok: false, entries: entries.length, brokenAt: entry.sequence, reason: 'contents do not match the recorded hash' };
+    }
+    prevHash = hash;
+  }
+
+  const last = entries[entries.length - 1];
+  if (last && !head) {
+    return { ok: false, entries: entries.length, brokenAt: last.sequence, reason: 'the recorded head is missing' };
+  }
+  if (head && (last?.sequence !== head.sequence || last.hash !== head.hash)) {
+    return {
+      ok: false,
+      entries: entries.length,
+      brokenAt: Math.min(last?.sequence ?? 0, head.sequence) + 1,
+      reason: `log ends at entry #${last?.sequence ?? 0} but the recorded head is #${head.sequence}`,
+    };
+  }
+
+  return { ok: true, entries: entries.length, headHash: prevHash };
+}
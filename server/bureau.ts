@@ -0,0 +1,133 @@
+import { normaliseBureauReport, summariseBureauReport, type BureauReport, type BureauSummary } from '../engine/bureau';
+import { mockBureauReport } from './mock-bureau';
+
+export class BureauReportError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'BureauReportError';
+  }
+}
+
+export class BureauServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BureauServiceError';
+  }
+}
+
+export interface BureauQuery {
+  applicantName: string;
+  pan?: string;
+}
+
+const decodeXml = (text: string) =>
+  text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      case 'amp': return '&';
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+
+interface XmlNode {
+  name: string;
+  fields: Record<string, unknown>;
+  text: string;
+  hasChildren: boolean;
+}
+
+/**
+ * Converts a report's XML into the shape its JSON form has: attributes and
+ * child elements become keys, repeated elements become arrays and text-only
+ * elements become strings. Namespaces, DTDs and mixed content are not
+ * supported; bureau reports do not use them.
+ */
+const xmlToObject = (xml: string): unknown => {
+  if (/<!DOCTYPE/i.test(xml)) throw new BureauReportError('Bureau report XML must not declare a DOCTYPE.');
+  const body = xml
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, '&amp;').replace(/</g, '&lt;'));
+
+  const stack: XmlNode[] = [{ name: '', fields: {}, text: '', hasChildren: false }];
+  const tokens = /<(\/?)([A-Za-z_][\w.-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|(<)/g;
+
+  const attach = (parent: XmlNode, name: string, value: unknown) => {
+    parent.hasChildren = true;
+    const existing = parent.fields[name];
+    if (existing === undefined) parent.fields[name] = value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else parent.fields[name] = [existing, value];
+  };
+  const close = (node: XmlNode) =>
+    node.hasChildren || Object.keys(node.fields).length > 0 ? node.fields : decodeXml(node.text.trim());
+
+  for (const [, slash, name, attributes, selfClosing, text, stray] of body.matchAll(tokens)) {
+    const current = stack[stack.length - 1];
+    if (stray) throw new BureauReportError('Bureau report XML is malformed.');
+    if (text !== undefined) {
+      current.text += text;
+    } else if (slash) {
+      if (current.name !== name || stack.length === 1) throw new BureauReportError(`Bureau report XML has an unexpected </${name}>.`);
+      stack.pop();
+      attach(stack[stack.length - 1], name, close(current));
+    } else {
+      const node: XmlNode = { name, fields: {}, text: '', hasChildren: false };
+      for (const [, key, quoted] of attributes.matchAll(/([\w.:-]+)\s*=\s*("[^"]*"|'[^']*')/g)) {
+        node.fields[key] = decodeXml(quoted.slice(1, -1));
+      }
+      if (selfClosing) attach(current, name, close(node));
+      else stack.push(node);
+    }
+  }
+  if (stack.length !== 1) throw new BureauReportError(`Bureau report XML ends inside <${stack[stack.length - 1].name}>.`);
+
+  const roots = Object.values(stack[0].fields);
+  if (roots.length !== 1 || Array.isArray(roots[0])) throw new BureauReportError('Bureau report XML must have a single root element.');
+  return roots[0];
+};
+
+const checked = (payload: unknown): { report: BureauReport; summary: BureauSummary } => {
+  const validation = normaliseBureauReport(payload);
+  if (!validation.ok) throw new BureauReportError('Bureau report is incomplete or malformed.', validation.errors);
+  return { report: validation.report, summary: summariseBureauReport(validation.report) };
+};
+
+/** Reads an uploaded bureau report, JSON or XML, and returns it with its summary. */
+export function readBureauReport(text: string): { report: BureauReport; summary: BureauSummary } {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed.startsWith('<')) return checked(xmlToObject(trimmed));
+  try {
+    return checked(JSON.parse(trimmed));
+  } catch (error) {
+    if (error instanceof BureauReportError) throw error;
+    throw new BureauReportError('Bureau report must be a JSON or XML document.');
+  }
+}
+
+/**
+ * Pulls a fresh report for the applicant. With `BUREAU_SERVICE_URL` set the
+ * query is POSTed there as JSON and the JSON or XML reply is read like an
+ * upload; otherwise the built-in mock bureau answers, for development.
+ */
+export async function pullBureauReport(query: BureauQuery): Promise<{ report: BureauReport; summary: BureauSummary }> {
+  const url = process.env.BUREAU_SERVICE_URL;
+  if (!url) return checked(mockBureauReport(query, new Date().toISOString().slice(0, 10)));
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(query),
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error) {
+    throw new BureauServiceError(`Bureau service is unreachable: ${(error as Error).message}`);
+  }
+  if (!response.ok) throw new BureauServiceError(`Bureau service answered ${response.status}.`);
+  return readBureauReport(await response.text());
+}
@@ -0,0 +1,148 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { User } from '../engine/access';
+import { appraise } from '../engine/appraise';
+import type { CaseRecord } from '../engine/cases';
+import { defaultPolicy } from '../engine/policy/default-policy';
+import type { ReviewInput } from '../engine/review';
+import type { LoanApplication } from '../engine/types';
+import { listAuditEntries } from './audit-log';
+import { getCase, InvalidReviewError, recordReview, updateDraft } from './case-store';
+
+const application: LoanApplication = {
+  applicantName: 'Asha Rao',
+  loanAmount: 2000000,
+  loanPurpose: 'home',
+  annualIncome: 1200000,
+  creditScore: 780,
+  employmentType: 'salaried',
+  employmentYears: 6,
+  existingLoans: 10000,
+  collateralValue: 4000000,
+  tenureMonths: 240,
+  interestRate: 8.5,
+};
+
+const appraised = appraise(application);
+
+// Queued at HIGH risk, where a credit analyst's sanction limit is zero.
+const queued: CaseRecord = {
+  id: 'LA-20250630-00001',
+  status: 'UNDER_REVIEW',
+  application,
+  result: { ...appraised, riskAssessment: { ...appraised.riskAssessment, overallRisk: 'HIGH' } },
+  createdBy: 'maker',
+  branch: 'MUM-ANDHERI',
+  createdAt: '2025-06-30T10:00:00.000Z',
+  updatedAt: '2025-06-30T10:00:00.000Z',
+  history: [{ from: 'APPRAISED', to: 'UNDER_REVIEW', at: '2025-06-30T10:00:00.000Z', by: 'system' }],
+};
+
+const draft: CaseRecord = {
+  id: 'LA-20250630-00002',
+  status: 'DRAFT',
+  application: { applicantName: 'Ravi Kumar' },
+  createdBy: 'maker',
+  branch: 'MUM-ANDHERI',
+  createdAt: '2025-06-30T10:00:00.000Z',
+  updatedAt: '2025-06-30T10:00:00.000Z',
+  history: [{ from: null, to: 'DRAFT', at: '2025-06-30T10:00:00.000Z', by: 'maker' }],
+};
+
+const analyst: User = { id: 'analyst', name: 'Credit Analyst', role: 'CREDIT_ANALYST', branch: 'MUM-ANDHERI' };
+
+const manager: User = { id: 'manager', name: 'Branch Manager', role: 'BRANCH_MANAGER', branch: 'MUM-ANDHERI' };
+
+const approval = (conditions: ReviewInput['conditions']): ReviewInput => ({
+  decision: 'APPROVED',
+  remarks: 'Approved at a reduced amount.',
+  conditions,
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'cases-'));
+  process.env.CASE_STORE_FILE = path.join(directory, 'cases.json');
+  process.env.AUDIT_LOG_FILE = path.join(directory, 'audit-log.jsonl');
+  await writeFile(process.env.CASE_STORE_FILE, JSON.stringify({ nextSequence: 3, cases: [queued, draft] }));
+});
+
+afterEach(async () => {
+  delete process.env.CASE_STORE_FILE;
+  delete process.env.AUDIT_LOG_FILE;
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('recordReview', () => {
+  it.each([0, -1, 2000001])('refuses an analyst sanctioning a HIGH risk case at a reduced amount of %i', async value => {
+    const review = recordReview(queued.id, analyst, approval([{ type: 'REDUCED_AMOUNT', description: 'Reduced', value }]), defaultPolicy.delegation);
+    await expect(review).rejects.toBeInstanceOf(InvalidReviewError);
+  });
+
+  it('refers a HIGH risk approval beyond an analyst up to the branch manager', async () => {
+    const record = await recordReview(
+      queued.id,
+      analyst,
+      approval([{ type: 'REDUCED_AMOUNT', description: 'Reduced', value: 1500000 }]),
+      defaultPolicy.delegation,
+    );
+    expect(record).toMatchObject({ status: 'UNDER_REVIEW', referredTo: 'BRANCH_MANAGER' });
+    expect(record.review).toBeUndefined();
+  });
+});
+
+describe('referral', () => {
+  const committee: User = { id: 'committee', name: 'Regional Credit Committee', role: 'REGIONAL_CREDIT_COMMITTEE', branch: 'MUM-HQ' };
+  const atFullAmount = approval([]);
+
+  it('passes a HIGH risk approval beyond the branch manager up to the regional committee, which sanctions it', async () => {
+    const bigger = { ...queued, result: { ...queued.result!, loanStructure: { ...queued.result!.loanStructure, loanAmount: 3000000 } } };
+    await writeFile(process.env.CASE_STORE_FILE!, JSON.stringify({ nextSequence: 3, cases: [bigger, draft] }));
+
+    const referred = await recordReview(queued.id, manager, atFullAmount, defaultPolicy.delegation);
+    expect(referred).toMatchObject({ status: 'UNDER_REVIEW', referredTo: 'REGIONAL_CREDIT_COMMITTEE' });
+    expect(referred.referrals).toEqual([expect.objectContaining({ by: 'manager', to: 'REGIONAL_CREDIT_COMMITTEE' })]);
+
+    await expect(recordReview(queued.id, analyst, atFullAmount, defaultPolicy.delegation)).rejects.toThrow(/referred/);
+    expect(await recordReview(queued.id, committee, atFullAmount, defaultPolicy.delegation)).toMatchObject({
+      status: 'SANCTIONED',
+      referredTo: undefined,
+      review: { reviewer: 'committee', decision: 'APPROVED' },
+    });
+  });
+});
+
+describe('audited changes', () => {
+  const sanction = () => recordReview(
+    queued.id,
+    manager,
+    approval([{ type: 'REDUCED_AMOUNT', description: 'Reduced', value: 1500000 }]),
+    defaultPolicy.delegation,
+  );
+
+  it('audits a review along with the case change', async () => {
+    expect(await sanction()).toMatchObject({ status: 'SANCTIONED' });
+    expect(await listAuditEntries(queued.id)).toEqual([expect.objectContaining({ event: 'REVIEW', actor: 'manager' })]);
+  });
+
+  it('leaves the case unchanged when its audit entry cannot be appended', async () => {
+    // A path beneath a regular file can be neither read nor created.
+    process.env.AUDIT_LOG_FILE = path.join(process.env.CASE_STORE_FILE!, 'audit-log.jsonl');
+    await expect(sanction()).rejects.toThrow();
+    expect(await getCase(queued.id, manager)).toMatchObject({ status: 'UNDER_REVIEW' });
+  });
+});
+
+describe('updateDraft', () => {
+  it('ignores checklist documents the client sends', async () => {
+    const record = await updateDraft(
+      draft.id,
+      { applicantName: 'Ravi Kumar', kyc: { pan: 'ABCPE1234F', documents: [{ id: 'pan', status: 'VERIFIED', verifiedBy: 'maker' }] } },
+      analyst,
+    );
+    expect(record.application.kyc).toEqual({ pan: 'ABCPE1234F', documents: [] });
+  });
+});
@@ -0,0 +1,299 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { canAccessCase, canReview, canSanction, outranks, requiredAuthority, roleLabel, type User } from '../engine/access';
+import { matchesCaseFilter, type CaseFilter, type CaseRecord } from '../engine/cases';
+import type { KycDocument } from '../engine/kyc';
+import type { SanctionAuthority } from '../engine/policy/types';
+import { conditionErrorsFor, type ReviewInput } from '../engine/review';
+import type { AppraisalResult, LoanApplication, RiskLevel } from '../engine/types';
+import { canTransition, type CaseStatus } from '../engine/workflow';
+import { recordAuditEntry, recordCaseEvent } from './audit-log';
+import { PermissionDeniedError } from './identity';
+
+export class CaseNotFoundError extends Error {
+  constructor(public readonly caseId: string) {
+    super(`Case ${caseId} does not exist.`);
+    this.name = 'CaseNotFoundError';
+  }
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: CaseStatus, public readonly to: CaseStatus, reason?: string) {
+    super(`Cannot move a case from ${from} to ${to}${reason ? `: ${reason}` : ''}.`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class MakerCheckerError extends Error {
+  constructor(public readonly caseId: string) {
+    super(`Case ${caseId} must be reviewed by someone other than its maker.`);
+    this.name = 'MakerCheckerError';
+  }
+}
+
+/** Review conditions that are well-formed but do not fit the case, such as a reduced amount above the one appraised. */
+export class InvalidReviewError extends Error {
+  constructor(public readonly errors: string[]) {
+    super('Invalid review.');
+    this.name = 'InvalidReviewError';
+  }
+}
+
+interface StoreState {
+  nextSequence: number;
+  cases: CaseRecord[];
+}
+
+const storeFile = () => process.env.CASE_STORE_FILE ?? path.join(process.cwd(), 'data', 'cases.json');
+
+const readState = async (): Promise<StoreState> => {
+  try {
+    return JSON.parse(await readFile(storeFile(), 'utf8')) as StoreState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { nextSequence: 1, cases: [] };
+    throw error;
+  }
+};
+
+const writeState = async (state: StoreState) => {
+  const file = storeFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash mid-write never leaves a truncated store.
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(state, null, 2));
+  await rename(temp, file);
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Serializes read-modify-write cycles so concurrent requests cannot lose
+ * updates. `audit` runs before the store is written, so a change whose audit
+ * entry cannot be appended is never saved.
+ */
+const mutate = <T>(change: (state: StoreState) => T, audit?: (outcome: T) => Promise<unknown>): Promise<T> => {
+  const run = queue.then(async () => {
+    const state = await readState();
+    const outcome = change(state);
+    await audit?.(outcome);
+    await writeState(state);
+    return outcome;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/** Another branch's case is reported as missing rather than forbidden, so ids cannot be probed. */
+const findOrThrow = (state: StoreState, id: string, user: User): CaseRecord => {
+  const record = state.cases.find(candidate => candidate.id === id);
+  if (!record || !canAccessCase(user, record)) throw new CaseNotFoundError(id);
+  return record;
+};
+
+const inr = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+/**
+ * Passes an approval `user` may not sanction up the delegation, keeping the
+ * case in the review queue; throws when no delegated authority covers it.
+ */
+const refer = (record: CaseRecord, delegation: SanctionAuthority[], user: User, amount: number, risk: RiskLevel, at: string) => {
+  const authority = requiredAuthority(delegation, amount, risk);
+  if (!authority) {
+    throw new PermissionDeniedError(`${inr(amount)} at ${risk} risk is beyond every delegated sanction authority; the case can only be declined.`);
+  }
+  record.referredTo = authority.role;
+  record.updatedAt = at;
+  return `${inr(amount)} at ${risk} risk is beyond a ${roleLabel(user.role).toLowerCase()}'s sanction authority; referred to the ${authority.label.toLowerCase()}.`;
+};
+
+const applyTransition = (record: CaseRecord, to: CaseStatus, at: string, by: string, note?: string) => {
+  if (!canTransition(record.status, to)) throw new InvalidTransitionError(record.status, to);
+  record.history.push({ from: record.status, to, at, by, note });
+  record.status = to;
+  record.updatedAt = at;
+};
+
+const newCaseId = (sequence: number, at: string) =>
+  `LA-${at.slice(0, 10).replace(/-/g, '')}-${String(sequence).padStart(5, '0')}`;
+
+const openCase = (state: StoreState, application: Partial<LoanApplication>, maker: User, at: string): CaseRecord => {
+  const record: CaseRecord = {
+    id: newCaseId(state.nextSequence++, at),
+    status: 'DRAFT',
+    application,
+    createdBy: maker.id,
+    branch: maker.branch,
+    createdAt: at,
+    updatedAt: at,
+    history: [{ from: null, to: 'DRAFT', at, by: maker.id }],
+  };
+  state.cases.push(record);
+  return record;
+};
+
+export async function listCases(filter: CaseFilter = {}): Promise<CaseRecord[]> {
+  const state = await readState();
+  return state.cases
+    .filter(record => matchesCaseFilter(record, filter))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** A case `user` may see; others' branches' cases are reported as not found. */
+export async function getCase(id: string, user: User): Promise<CaseRecord> {
+  return findOrThrow(await readState(), id, user);
+}
+
+export function createDraft(application: Partial<LoanApplication>, maker: User): Promise<CaseRecord> {
+  return mutate(state => openCase(state, application, maker, new Date().toISOString()));
+}
+
+export function updateDraft(id: string, application: Partial<LoanApplication>, user: User): Promise<CaseRecord> {
+  return mutate(state => {
+    const record = findOrThrow(state, id, user);
+    if (record.status !== 'DRAFT') throw new InvalidTransitionError(record.status, 'DRAFT');
+    // Checklist documents are managed through updateKycDocument; an edit to the form neither drops nor sets them.
+    const documents = record.application.kyc?.documents ?? [];
+    record.application = application.kyc || documents.length > 0
+      ? { ...application, kyc: { ...application.kyc, documents } }
+      : application;
+    record.updatedAt = new Date().toISOString();
+    return record;
+  });
+}
+
+/** Adds or replaces one checklist document on a draft; KYC is frozen once the case is submitted. */
+export function updateKycDocument(id: string, document: KycDocument, user: User): Promise<CaseRecord> {
+  return mutate(state => {
+    const record = findOrThrow(state, id, user);
+    if (record.status !== 'DRAFT') throw new InvalidTransitionError(record.status, 'DRAFT', 'KYC documents can only change on a draft');
+    const kyc = record.application.kyc ?? { documents: [] };
+    record.application.kyc = {
+      ...kyc,
+      documents: [...kyc.documents.filter(existing => existing.id !== document.id), document],
+    };
+    record.updatedAt = new Date().toISOString();
+    return record;
+  });
+}
+
+/**
+ * Records a validated application and its appraisal, walking the case through
+ * SUBMITTED to APPRAISED. REVIEW_REQUIRED decisions go straight on to the
+ * reviewer queue (UNDER_REVIEW), as do approvals beyond the submitting user's
+ * sanction authority, referred to the authority that can sanction them. With
+ * `id` an existing draft is submitted; without, a new case is opened.
+ */
+export function recordAppraisal(
+  id: string | undefined,
+  application: LoanApplication,
+  result: AppraisalResult,
+  actor: User,
+  delegation: SanctionAuthority[],
+): Promise<CaseRecord> {
+  return mutate(state => {
+    const at = new Date().toISOString();
+    const record = id ? findOrThrow(state, id, actor) : openCase(state, application, actor, at);
+
+    applyTransition(record, 'SUBMITTED', at, actor.id);
+    record.application = application;
+    record.result = result;
+    record.referredTo = undefined;
+    applyTransition(record, 'APPRAISED', at, 'system', `System decision: ${result.decision}`);
+    const risk = result.riskAssessment.overallRisk;
+    if (result.decision === 'REVIEW_REQUIRED') {
+      applyTransition(record, 'UNDER_REVIEW', at, 'system', 'Queued for maker-checker review.');
+    } else if (result.decision === 'APPROVED' && !canSanction(delegation, actor.role, application.loanAmount, risk)) {
+      // An approval nobody may sanction still goes to the queue, where it can only be declined.
+      const note = requiredAuthority(delegation, application.loanAmount, risk)
+        ? refer(record, delegation, actor, application.loanAmount, risk, at)
+        : `${inr(application.loanAmount)} at ${risk} risk is beyond every delegated sanction authority.`;
+      applyTransition(record, 'UNDER_REVIEW', at, 'system', note);
+    }
+    return record;
+  }, record => recordAuditEntry(application, result, actor.id, record.id));
+}
+
+/**
+ * Moves a case by hand. Cases under review can only be closed through
+ * `recordReview`, and only a system APPROVED decision within the actor's
+ * sanction authority can be sanctioned directly; anything else must be
+ * escalated to review first.
+ */
+export function transitionCase(
+  id: string,
+  to: CaseStatus,
+  actor: User,
+  delegation: SanctionAuthority[],
+  note?: string,
+): Promise<CaseRecord> {
+  return mutate(state => {
+    const record = findOrThrow(state, id, actor);
+    if (record.status === 'UNDER_REVIEW') {
+      throw new InvalidTransitionError(record.status, to, 'cases under review are closed by a reviewer decision');
+    }
+    if (to === 'SANCTIONED' && record.result?.decision !== 'APPROVED') {
+      throw new InvalidTransitionError(record.status, to, 'only system-approved cases can be sanctioned without review');
+    }
+    if (to === 'SANCTIONED' && record.result) {
+      const amount = record.result.loanStructure.loanAmount;
+      const risk = record.result.riskAssessment.overallRisk;
+      if (!canSanction(delegation, actor.role, amount, risk)) {
+        throw new PermissionDeniedError(
+          `${inr(amount)} at ${risk} risk is beyond a ${roleLabel(actor.role).toLowerCase()}'s sanction authority; move the case to review instead.`,
+        );
+      }
+    }
+    applyTransition(record, to, new Date().toISOString(), actor.id, note);
+    return record;
+  }, record => recordCaseEvent(record, 'STATUS_CHANGE', actor.id));
+}
+
+/**
+ * Records a checker's decision on a queued case and closes it as SANCTIONED
+ * or DECLINED. An approval beyond the reviewer's sanction authority is not
+ * final: the case stays queued, referred to the authority that can sanction
+ * it, with the reviewer's remarks on record as a recommendation.
+ */
+export function recordReview(id: string, reviewer: User, input: ReviewInput, delegation: SanctionAuthority[]): Promise<CaseRecord> {
+  return mutate(state => {
+    if (!canReview(reviewer)) throw new PermissionDeniedError(`A ${roleLabel(reviewer.role).toLowerCase()} cannot review cases.`);
+    const record = findOrThrow(state, id, reviewer);
+    if (record.status !== 'UNDER_REVIEW' || !record.result) {
+      throw new InvalidTransitionError(record.status, input.decision === 'APPROVED' ? 'SANCTIONED' : 'DECLINED', 'case is not in the review queue');
+    }
+    if (record.createdBy === reviewer.id) throw new MakerCheckerError(id);
+    if (record.referredTo && !outranks(delegation, reviewer.role, record.referredTo)) {
+      throw new PermissionDeniedError(`Case ${id} has been referred to the ${roleLabel(record.referredTo).toLowerCase()}.`);
+    }
+
+    const conditionErrors = conditionErrorsFor(input.conditions, record.result.loanStructure.loanAmount);
+    if (conditionErrors.length > 0) throw new InvalidReviewError(conditionErrors);
+
+    const at = new Date().toISOString();
+    if (input.decision === 'APPROVED') {
+      const amount = input.conditions.find(condition => condition.type === 'REDUCED_AMOUNT')?.value ?? record.result.loanStructure.loanAmount;
+      const risk = record.result.riskAssessment.overallRisk;
+      if (!canSanction(delegation, reviewer.role, amount, risk)) {
+        const reason = refer(record, delegation, reviewer, amount, risk, at);
+        record.referrals = [
+          ...(record.referrals ?? []),
+          { by: reviewer.id, role: reviewer.role, to: record.referredTo!, reason, remarks: input.remarks, conditions: input.conditions, at },
+        ];
+        return record;
+      }
+    }
+
+    record.review = {
+      systemDecision: record.result.decision,
+      decision: input.decision,
+      remarks: input.remarks,
+      conditions: input.conditions,
+      reviewer: reviewer.id,
+      maker: record.createdBy,
+      at,
+    };
+    record.referredTo = undefined;
+    applyTransition(record, input.decision === 'APPROVED' ? 'SANCTIONED' : 'DECLINED', at, reviewer.id, input.remarks);
+    return record;
+  }, record => recordCaseEvent(record, 'REVIEW', reviewer.id));
+}
@@ -0,0 +1,25 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { CaseRecord } from '../engine/cases';
+import { documentData, documentUnavailableReason, renderDocument, type DocumentKind } from '../engine/documents';
+import { renderPdf } from './pdf';
+
+export class DocumentUnavailableError extends Error {
+  constructor(public readonly kind: DocumentKind, reason: string) {
+    super(`Cannot generate ${kind}: ${reason}.`);
+    this.name = 'DocumentUnavailableError';
+  }
+}
+
+/** Branding can replace the bundled templates by pointing this at their own directory. */
+const templateDir = () => process.env.DOCUMENT_TEMPLATE_DIR ?? path.join(process.cwd(), 'templates', 'documents');
+
+/** Renders one of a case's documents to PDF from `<templateDir>/<kind>.md`, read fresh on every request. */
+export async function generateCaseDocument(record: CaseRecord, kind: DocumentKind, productName: string): Promise<Buffer> {
+  const reason = documentUnavailableReason(record, kind);
+  if (reason) throw new DocumentUnavailableError(kind, reason);
+
+  const template = await readFile(path.join(templateDir(), `${kind}.md`), 'utf8');
+  const rendered = renderDocument(template, documentData(record, productName, new Date().toISOString()));
+  return renderPdf(rendered, `${record.id} ${kind}`);
+}
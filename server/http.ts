@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { BureauReportError, BureauServiceError } from './bureau';
+import { CaseNotFoundError, InvalidReviewError, InvalidTransitionError, MakerCheckerError } from './case-store';
+import { DocumentUnavailableError } from './documents';
+import { NotSignedInError, PermissionDeniedError } from './identity';
+import { KycFileNotFoundError } from './kyc-documents';
+import { PolicyLoadError } from './policy';
+import { ScreeningListError } from './sanctions';
+import { UserStoreError } from './users';
+import { DeliveryNotFoundError, EndpointUnavailableError, WebhookConfigError } from './webhooks';
+import { SpreadsheetError } from './xlsx';
+
+/** Maps the server's known error types to JSON responses; anything else is rethrown. */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof PolicyLoadError) {
+    return NextResponse.json({ error: error.message, details: error.errors }, { status: 500 });
+  }
+  if (error instanceof CaseNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof InvalidTransitionError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error instanceof NotSignedInError) {
+    return NextResponse.json({ error: error.message }, { status: 401 });
+  }
+  if (error instanceof PermissionDeniedError) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  if (error instanceof DocumentUnavailableError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error instanceof SpreadsheetError) {
+    return NextResponse.json({ error: error.message }, { status: 422 });
+  }
+  if (error instanceof BureauReportError) {
+    return NextResponse.json({ error: error.message, details: error.errors }, { status: 422 });
+  }
+  if (error instanceof BureauServiceError) {
+    return NextResponse.json({ error: error.message }, { status: 502 });
+  }
+  if (error instanceof MakerCheckerError) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  if (error instanceof InvalidReviewError) {
+    return NextResponse.json({ error: error.message, details: error.errors }, { status: 422 });
+  }
+  if (error instanceof KycFileNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof ScreeningListError) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (error instanceof UserStoreError) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (error instanceof WebhookConfigError) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (error instanceof DeliveryNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof EndpointUnavailableError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  throw error;
+}
+
+export async function readJson(request: Request): Promise<{ ok: true; body: unknown } | { ok: false; response: NextResponse }> {
+  try {
+    return { ok: true, body: await request.json() };
+  } catch {
+    return { ok: false, response: NextResponse.json({ error: 'Request body must be valid JSON.' }, { status: 400 }) };
+  }
+}
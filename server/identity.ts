@@ -0,0 +1,71 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { sessionCookie, type User } from '../engine/access';
+import { findUser } from './users';
+
+export class NotSignedInError extends Error {
+  constructor() {
+    super('Sign in to continue.');
+    this.name = 'NotSignedInError';
+  }
+}
+
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+const sessionHours = 12;
+
+// Without SESSION_SECRET sessions are signed with a per-process key and end when the server restarts.
+let processSecret: Buffer | null = null;
+const secret = () => process.env.SESSION_SECRET ?? (processSecret ??= randomBytes(32));
+
+const sign = (payload: string) => createHmac('sha256', secret()).update(payload).digest('base64url');
+
+/** A signed session token for `userId`, to be set as the `sessionCookie` cookie. */
+export function issueSession(userId: string, now = Date.now()): { token: string; expires: Date } {
+  const expires = new Date(now + sessionHours * 60 * 60 * 1000);
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: expires.getTime() })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expires };
+}
+
+const sessionUserId = (token: string): string | undefined => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return undefined;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { sub?: unknown; exp?: unknown };
+    return typeof session.sub === 'string' && typeof session.exp === 'number' && session.exp > Date.now() ? session.sub : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const cookieValue = (request: Request, name: string): string | undefined =>
+  (request.headers.get('cookie') ?? '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+
+/**
+ * The signed-in user behind a request, from the session cookie. The account
+ * is looked up afresh each time, so role or branch changes and disabled
+ * accounts take effect without waiting for the session to expire.
+ */
+export function identifyUser(request: Request): User | undefined {
+  const token = cookieValue(request, sessionCookie);
+  const userId = token ? sessionUserId(decodeURIComponent(token)) : undefined;
+  return userId ? findUser(userId) : undefined;
+}
+
+/** Like `identifyUser`, for endpoints that are closed to anonymous callers. */
+export function requireUser(request: Request): User {
+  const user = identifyUser(request);
+  if (!user) throw new NotSignedInError();
+  return user;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { withoutClientDocuments } from './intake';
+
+describe('withoutClientDocuments', () => {
+  it('drops checklist documents but keeps the rest of the KYC details', () => {
+    const application = { applicantName: 'Asha Rao', kyc: { pan: 'ABCPE1234F', documents: [{ id: 'pan', status: 'VERIFIED', verifiedBy: 'maker' }] } };
+    expect(withoutClientDocuments(application)).toEqual({ applicantName: 'Asha Rao', kyc: { pan: 'ABCPE1234F', documents: [] } });
+  });
+
+  it('leaves an application without KYC details alone', () => {
+    expect(withoutClientDocuments({ applicantName: 'Asha Rao' })).toEqual({ applicantName: 'Asha Rao' });
+  });
+});
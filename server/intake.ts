@@ -0,0 +1,24 @@
+import type { LoanApplication } from '../engine/types';
+import { screenApplication } from './sanctions';
+
+/**
+ * Stamps the facts the server owns onto a validated application before it is
+ * appraised: today's date, which valuation ageing is measured to, and the
+ * sanctions/PEP screening. Both are kept on the case, so replays of it are
+ * judged as of the day it was submitted.
+ */
+export function prepareForAppraisal(application: LoanApplication): LoanApplication {
+  return screenApplication({ ...application, appraisalDate: new Date().toISOString().slice(0, 10) });
+}
+
+/**
+ * Drops what a client may not assert about its own application: checklist
+ * documents, whose status and verifier only the upload and verify routes
+ * set. The checklist is then built from what the case store holds.
+ */
+export function withoutClientDocuments<T>(application: T): T {
+  if (typeof application !== 'object' || application === null) return application;
+  const { kyc } = application as { kyc?: unknown };
+  if (typeof kyc !== 'object' || kyc === null || Array.isArray(kyc)) return application;
+  return { ...application, kyc: { ...kyc, documents: [] } };
+}
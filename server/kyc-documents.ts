@@ -0,0 +1,42 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export class KycFileNotFoundError extends Error {
+  constructor(public readonly caseId: string, public readonly documentId: string) {
+    super(`No ${documentId} file has been uploaded for case ${caseId}.`);
+    this.name = 'KycFileNotFoundError';
+  }
+}
+
+/** Uploaded KYC files live outside the case store, one directory per case. */
+const caseDir = (caseId: string) =>
+  path.join(process.env.KYC_DOCUMENT_DIR ?? path.join(process.cwd(), 'data', 'kyc-documents'), caseId);
+
+/** Keeps the extension for downloads; the stored name is always the checklist id, so user input never picks a path. */
+const storedName = (documentId: string, fileName: string) => {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  return `${documentId}${extension}`;
+};
+
+const findStored = async (caseId: string, documentId: string): Promise<string[]> => {
+  try {
+    return (await readdir(caseDir(caseId))).filter(name => name === documentId || name.startsWith(`${documentId}.`));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+/** Saves an upload, replacing any earlier file for the same checklist item. */
+export async function saveKycFile(caseId: string, documentId: string, fileName: string, bytes: Buffer): Promise<void> {
+  const dir = caseDir(caseId);
+  await mkdir(dir, { recursive: true });
+  await Promise.all((await findStored(caseId, documentId)).map(name => rm(path.join(dir, name), { force: true })));
+  await writeFile(path.join(dir, storedName(documentId, fileName)), bytes);
+}
+
+export async function readKycFile(caseId: string, documentId: string): Promise<Buffer> {
+  const [name] = await findStored(caseId, documentId);
+  if (!name) throw new KycFileNotFoundError(caseId, documentId);
+  return readFile(path.join(caseDir(caseId), name));
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import type { BureauEnquiry, BureauReport, PaymentRecord, Tradeline } from '../engine/bureau';
+import type { BureauQuery } from './bureau';
+
+type Profile = 'clean' | 'late' | 'delinquent' | 'written-off';
+
+// Most applicants come back clean; the rest exercise each adverse check.
+const profiles: Profile[] = ['clean', 'clean', 'clean', 'late', 'delinquent', 'written-off'];
+
+const shiftMonths = (date: string, months: number) => {
+  const index = parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1 - months;
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+};
+
+const history = (reportDate: string, months: number, worstDpd: number, worstAt: number): PaymentRecord[] =>
+  Array.from({ length: months }, (_, age) => ({
+    month: shiftMonths(reportDate, age + 1),
+    dpd: age === worstAt ? worstDpd : age === worstAt + 1 && worstDpd >= 60 ? 30 : 0,
+  }));
+
+/**
+ * A deterministic stand-in for a credit bureau: the same PAN (or name, when no
+ * PAN is given) always yields the same report, so test cases are repeatable.
+ */
+export function mockBureauReport(query: BureauQuery, reportDate: string): BureauReport {
+  const seed = createHash('sha256').update((query.pan ?? query.applicantName).trim().toUpperCase()).digest();
+  const profile = profiles[seed[0] % profiles.length];
+  const vintage = 24 + seed[1] % 96;
+
+  const accounts: Tradeline[] = [
+    {
+      lender: 'State Bank of India',
+      accountType: 'Credit Card',
+      status: 'ACTIVE',
+      sanctionedAmount: 150000,
+      currentBalance: 20000 + seed[2] * 200,
+      emi: 0,
+      openedOn: `${shiftMonths(reportDate, vintage)}-15`,
+      paymentHistory: history(reportDate, 24, profile === 'late' ? 60 : 0, 7),
+    },
+    {
+      lender: 'HDFC Bank',
+      accountType: 'Auto Loan',
+      status: 'ACTIVE',
+      sanctionedAmount: 600000,
+      currentBalance: 250000 + seed[3] * 1000,
+      emi: 8000 + seed[4] * 40,
+      openedOn: `${shiftMonths(reportDate, 30)}-05`,
+      paymentHistory: history(reportDate, 24, profile === 'delinquent' ? 120 : 0, 10),
+    },
+  ];
+  if (profile === 'written-off') {
+    accounts.push({
+      lender: 'Capital First',
+      accountType: 'Personal Loan',
+      status: 'WRITTEN_OFF',
+      sanctionedAmount: 200000,
+      currentBalance: 145000,
+      emi: 0,
+      openedOn: `${shiftMonths(reportDate, 40)}-20`,
+      paymentHistory: history(reportDate, 24, 180, 14),
+    });
+  }
+
+  const enquiryCount = profile === 'written-off' ? 7 : seed[5] % 3;
+  const enquiries: BureauEnquiry[] = Array.from({ length: enquiryCount }, (_, index) => ({
+    date: `${shiftMonths(reportDate, index % 5)}-10`,
+    lender: ['Bajaj Finance', 'ICICI Bank', 'Axis Bank', 'Tata Capital'][index % 4],
+    purpose: 'Personal Loan',
+  }));
+
+  const baseScore = { clean: 740, late: 690, delinquent: 630, 'written-off': 580 }[profile];
+  return {
+    bureau: 'MOCK-CIBIL',
+    reportId: `MOCK-${seed.subarray(0, 6).toString('hex').toUpperCase()}`,
+    reportDate,
+    subjectName: query.applicantName,
+    pan: query.pan,
+    score: baseScore + seed[6] % 60,
+    accounts,
+    enquiries,
+  };
+}
@@ -0,0 +1,47 @@
+import { signatureHeader, verifySignature } from './webhooks';
+
+export interface ReceivedWebhook {
+  at: string;
+  deliveryId: string | null;
+  eventType: string | null;
+  eventId?: string;
+  signatureValid: boolean;
+  /** Status the receiver answered with. */
+  answered: number;
+}
+
+/** Secret to configure for the mock receiver's endpoint in `WEBHOOKS_FILE`. */
+export const mockReceiverSecret = () => process.env.MOCK_WEBHOOK_SECRET ?? 'mock-receiver-secret';
+
+const received: ReceivedWebhook[] = [];
+
+/**
+ * A stand-in for the LOS or CBS end of a webhook, for development: it checks
+ * the signature the way a real receiver should and remembers the last 50
+ * deliveries. `failWith` makes it answer with that status instead, to
+ * exercise retries.
+ */
+export async function receiveMockWebhook(request: Request, failWith?: number): Promise<ReceivedWebhook> {
+  const body = await request.text();
+  const signatureValid = verifySignature(mockReceiverSecret(), request.headers.get(signatureHeader), body);
+  let eventId: string | undefined;
+  try {
+    eventId = (JSON.parse(body) as { id?: string }).id;
+  } catch {
+    eventId = undefined;
+  }
+
+  const entry: ReceivedWebhook = {
+    at: new Date().toISOString(),
+    deliveryId: request.headers.get('X-Appraisal-Delivery'),
+    eventType: request.headers.get('X-Appraisal-Event'),
+    eventId,
+    signatureValid,
+    answered: failWith ?? (signatureValid ? 204 : 401),
+  };
+  received.unshift(entry);
+  received.splice(50);
+  return entry;
+}
+
+export const receivedMockWebhooks = (): ReceivedWebhook[] => [...received];
@@ -0,0 +1,152 @@
+import type { DocumentBlock, RenderedDocument } from '../engine/documents';
+
+// Helvetica advance widths (per 1000 em) for ASCII 32..126, from the standard AFM.
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const winAnsiExtras: Record<string, number> = { '€': 0x80, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97 };
+
+const pageWidth = 595.28;
+const pageHeight = 841.89;
+const margin = 56;
+const contentWidth = pageWidth - margin * 2;
+
+const styles: Record<DocumentBlock['kind'], { size: number; bold: boolean; before: number; indent: number }> = {
+  title: { size: 16, bold: true, before: 4, indent: 0 },
+  heading: { size: 12, bold: true, before: 12, indent: 0 },
+  paragraph: { size: 10, bold: false, before: 6, indent: 0 },
+  bullet: { size: 10, bold: false, before: 2, indent: 14 },
+  rule: { size: 10, bold: false, before: 6, indent: 0 },
+};
+
+/** Standard fonts carry no rupee glyph, so amounts are written "Rs." in PDFs. */
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/₹\s?/g, 'Rs. '))
+    .map(char => {
+      if (winAnsiExtras[char] !== undefined) return String.fromCharCode(winAnsiExtras[char]);
+      return char.charCodeAt(0) <= 0xff ? char : '?';
+    })
+    .join('');
+
+const textWidth = (text: string, size: number, bold: boolean) => {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556);
+  }, 0);
+  // Helvetica-Bold runs roughly 6% wider; erring wide keeps lines inside the margin.
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+};
+
+const wrapLine = (text: string, size: number, bold: boolean, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size, bold) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+/** Word-wraps to `width`, keeping the text's own line breaks. */
+const wrap = (text: string, size: number, bold: boolean, width: number): string[] =>
+  text.split('\n').flatMap(line => wrapLine(line, size, bold, width));
+
+const escapePdfText = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+/**
+ * Lays the blocks out on A4 pages and serializes a PDF 1.4 file using the
+ * built-in Helvetica fonts, so no font files or native libraries are needed.
+ */
+export function renderPdf(document: RenderedDocument, title: string): Buffer {
+  const pages: string[][] = [[]];
+  let y = pageHeight - margin;
+  const bottom = margin + 24;
+
+  const newPage = () => {
+    pages.push([]);
+    y = pageHeight - margin;
+  };
+
+  document.blocks.forEach(block => {
+    const style = styles[block.kind];
+    const leading = style.size * 1.4;
+    y -= style.before;
+
+    if (block.kind === 'rule') {
+      if (y - 6 < bottom) newPage();
+      y -= 6;
+      pages[pages.length - 1].push(`0.6 w ${margin} ${y.toFixed(2)} m ${pageWidth - margin} ${y.toFixed(2)} l S`);
+      y -= 6;
+      return;
+    }
+
+    const text = toWinAnsi(block.text);
+    const lines = wrap(text, style.size, style.bold, contentWidth - style.indent);
+    lines.forEach((line, index) => {
+      if (y - leading < bottom) newPage();
+      y -= leading;
+      const font = style.bold ? 'F2' : 'F1';
+      if (block.kind === 'bullet' && index === 0) {
+        pages[pages.length - 1].push(`BT /F1 ${style.size} Tf ${margin + 2} ${y.toFixed(2)} Td (\x95) Tj ET`);
+      }
+      pages[pages.length - 1].push(
+        `BT /${font} ${style.size} Tf ${(margin + style.indent).toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(line)}) Tj ET`,
+      );
+    });
+  });
+
+  const footer = toWinAnsi(document.footer ?? '');
+  const contents = pages.map((operations, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    return [
+      ...operations,
+      '0.4 g',
+      footer && `BT /F1 8 Tf ${margin} ${margin - 20} Td (${escapePdfText(footer)}) Tj ET`,
+      `BT /F1 8 Tf ${(pageWidth - margin - textWidth(pageLabel, 8, false)).toFixed(2)} ${margin - 20} Td (${pageLabel}) Tj ET`,
+    ].filter(Boolean).join('\n');
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page.
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${escapePdfText(toWinAnsi(title))}) /Producer (Loan Appraisal System) >>`;
+  contents.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,47 @@
+import { readFileSync, statSync } from 'fs';
+import { defaultPolicy } from '../engine/policy/default-policy';
+import { validatePolicyDocument } from '../engine/policy/schema';
+import type { PolicyDocument } from '../engine/policy/types';
+
+export class PolicyLoadError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'PolicyLoadError';
+  }
+}
+
+let cached: { path: string; mtimeMs: number; policy: PolicyDocument } | null = null;
+
+/**
+ * Returns the policy the engine should appraise against. When
+ * `APPRAISAL_POLICY_FILE` points at a JSON policy document it is loaded and
+ * validated, and re-read whenever the file changes, so limits can be revised
+ * without a release. Otherwise the bundled default policy is used.
+ */
+export function getActivePolicy(): PolicyDocument {
+  const path = process.env.APPRAISAL_POLICY_FILE;
+  if (!path) return defaultPolicy;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    throw new PolicyLoadError(`Policy file ${path} is not readable.`);
+  }
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.policy;
+
+  let document: unknown;
+  try {
+    document = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new PolicyLoadError(`Policy file ${path} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const validation = validatePolicyDocument(document);
+  if (!validation.ok) {
+    throw new PolicyLoadError(`Policy file ${path} failed validation.`, validation.errors);
+  }
+
+  cached = { path, mtimeMs, policy: validation.policy };
+  return validation.policy;
+}
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getScreeningList, screenApplication, ScreeningListError } from './sanctions';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getScreeningList', () => {
+  it('falls back to the sample list outside production', () => {
+    vi.stubEnv('SANCTIONS_LIST_FILE', '');
+    expect(getScreeningList().version).toBe('sample');
+  });
+
+  it('refuses to screen against the sample list in production', () => {
+    vi.stubEnv('SANCTIONS_LIST_FILE', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getScreeningList()).toThrow(ScreeningListError);
+  });
+});
+
+describe('screenApplication', () => {
+  it('screens guarantors too and replaces any screening the application carried', () => {
+    vi.stubEnv('SANCTIONS_LIST_FILE', '');
+    const screened = screenApplication({
+      applicantName: 'Asha Rao',
+      loanAmount: 500000,
+      loanPurpose: 'personal',
+      annualIncome: 1200000,
+      creditScore: 780,
+      employmentType: 'salaried',
+      employmentYears: 6,
+      existingLoans: 0,
+      collateralValue: 0,
+      tenureMonths: 60,
+      interestRate: 11,
+      guarantors: [{ name: 'Viktor Drazhenko', relationship: 'Friend', creditScore: 750, netWorth: 5000000 }],
+      kyc: { documents: [], screening: { status: 'CLEAR', matches: [], listVersion: 'forged', screenedAt: '2025-01-01T00:00:00.000Z' } },
+    });
+    expect(screened.kyc?.screening).toMatchObject({ status: 'MATCH', listVersion: 'sample', matches: [{ subject: 'Viktor Drazhenko' }] });
+  });
+});
@@ -0,0 +1,98 @@
+import { readFileSync, statSync } from 'fs';
+import { parseCsv } from '../engine/batch';
+import { screenNames, type ScreeningEntry, type ScreeningListType } from '../engine/kyc';
+import type { LoanApplication } from '../engine/types';
+
+export class ScreeningListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScreeningListError';
+  }
+}
+
+interface ScreeningList {
+  version: string;
+  entries: ScreeningEntry[];
+}
+
+/** Fictitious entries so screening can be exercised in development without a real list. */
+const sampleList: ScreeningList = {
+  version: 'sample',
+  entries: [
+    { name: 'Viktor Drazhenko', aliases: ['Viktor Drazenko'], list: 'SANCTIONS', source: 'UNSC Consolidated List (sample)', reference: 'QDi.900' },
+    { name: 'Harbinder Singh Mallow', list: 'SANCTIONS', source: 'MHA UAPA Schedule (sample)', reference: 'UAPA-S-12' },
+    { name: 'Anaya Rao Kesari', aliases: ['A R Kesari'], list: 'PEP', source: 'Internal PEP register (sample)' },
+  ],
+};
+
+const listTypes: ScreeningListType[] = ['SANCTIONS', 'PEP'];
+
+const readEntries = (text: string, path: string): ScreeningEntry[] => {
+  if (text.trimStart().startsWith('[')) {
+    const parsed = JSON.parse(text) as unknown;
+    if (!Array.isArray(parsed)) throw new ScreeningListError(`Screening list ${path} must be a JSON array.`);
+    return parsed as ScreeningEntry[];
+  }
+  // CSV: name, aliases (separated by ";"), list, source, reference.
+  const [header = [], ...rows] = parseCsv(text);
+  const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+  const [name, aliases, list, source, reference] = ['name', 'aliases', 'list', 'source', 'reference'].map(column);
+  if (name < 0 || list < 0) throw new ScreeningListError(`Screening list ${path} needs name and list columns.`);
+  return rows.map(cells => ({
+    name: cells[name]?.trim() ?? '',
+    aliases: aliases >= 0 ? (cells[aliases] ?? '').split(';').map(alias => alias.trim()).filter(Boolean) : undefined,
+    list: (cells[list] ?? '').trim().toUpperCase() as ScreeningListType,
+    source: source >= 0 ? (cells[source] ?? '').trim() : path,
+    reference: reference >= 0 ? cells[reference]?.trim() || undefined : undefined,
+  }));
+};
+
+let cached: { path: string; mtimeMs: number; list: ScreeningList } | null = null;
+
+/**
+ * The sanctions and PEP list applicants are screened against. With
+ * `SANCTIONS_LIST_FILE` set, that JSON or CSV file is loaded and re-read
+ * when it changes; its modification time is the list version. Otherwise,
+ * outside production, a small built-in sample list is used.
+ */
+export function getScreeningList(): ScreeningList {
+  const path = process.env.SANCTIONS_LIST_FILE;
+  if (!path) {
+    if (process.env.NODE_ENV === 'production') throw new ScreeningListError('SANCTIONS_LIST_FILE must be set in production.');
+    return sampleList;
+  }
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    throw new ScreeningListError(`Screening list ${path} is not readable.`);
+  }
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.list;
+
+  let entries: ScreeningEntry[];
+  try {
+    entries = readEntries(readFileSync(path, 'utf8'), path);
+  } catch (error) {
+    if (error instanceof ScreeningListError) throw error;
+    throw new ScreeningListError(`Screening list ${path} could not be read: ${(error as Error).message}`);
+  }
+  const invalid = entries.findIndex(entry => typeof entry.name !== 'string' || entry.name.trim() === '' || !listTypes.includes(entry.list));
+  if (invalid >= 0) throw new ScreeningListError(`Screening list ${path} entry ${invalid + 1} needs a name and a list of SANCTIONS or PEP.`);
+
+  const list = { version: new Date(mtimeMs).toISOString(), entries };
+  cached = { path, mtimeMs, list };
+  return list;
+}
+
+/** Screens the applicant, co-applicants and guarantors, replacing any screening the application carried. */
+export function screenApplication(application: LoanApplication): LoanApplication {
+  const list = getScreeningList();
+  const names = [
+    application.applicantName,
+    ...(application.coApplicants ?? []).map(party => party.name),
+    ...(application.guarantors ?? []).map(party => party.name),
+  ];
+  const screening = screenNames(names, list.entries, list.version, new Date().toISOString());
+  return { ...application, kyc: { documents: [], ...application.kyc, screening } };
+}
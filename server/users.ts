@@ -0,0 +1,103 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { roleDefinitions, type User } from '../engine/access';
+
+export class UserStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserStoreError';
+  }
+}
+
+export interface UserAccount extends User {
+  /** `scrypt$<salt>$<hash>`, hex-encoded; produce one with `hashPassword`. */
+  passwordHash: string;
+  disabled?: boolean;
+}
+
+/** Hashes a password for a user store entry. */
+export function hashPassword(password: string, salt = randomBytes(16).toString('hex')): string {
+  return `scrypt$${salt}$${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+const passwordMatches = (password: string, stored: string): boolean => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  if (expected.length < 16) return false;
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+/** Fictitious staff across two branches so sign-in can be exercised in development; every password is `demo`. */
+const sampleUsers: User[] = [
+  { id: 'officer.andheri', name: 'Rohan Mehta', role: 'LOAN_OFFICER', branch: 'MUM-ANDHERI' },
+  { id: 'analyst.andheri', name: 'Sneha Kulkarni', role: 'CREDIT_ANALYST', branch: 'MUM-ANDHERI' },
+  { id: 'manager.andheri', name: 'Vikram Desai', role: 'BRANCH_MANAGER', branch: 'MUM-ANDHERI' },
+  { id: 'officer.kothrud', name: 'Aditi Joshi', role: 'LOAN_OFFICER', branch: 'PUN-KOTHRUD' },
+  { id: 'manager.kothrud', name: 'Nikhil Patwardhan', role: 'BRANCH_MANAGER', branch: 'PUN-KOTHRUD' },
+  { id: 'rcc.west', name: 'Regional Credit Committee (West)', role: 'REGIONAL_CREDIT_COMMITTEE', branch: 'RO-WEST' },
+];
+
+let sampleAccounts: UserAccount[] | null = null;
+let cached: { path: string; mtimeMs: number; accounts: UserAccount[] } | null = null;
+
+const readAccounts = (path: string): UserAccount[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UserStoreError(`User store ${path} could not be read: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) throw new UserStoreError(`User store ${path} must be a JSON array.`);
+  const roles = roleDefinitions.map(definition => definition.role);
+  parsed.forEach((entry, index) => {
+    const account = entry as Partial<UserAccount> | null;
+    if (
+      typeof account?.id !== 'string' || account.id.trim() === '' || typeof account.name !== 'string' ||
+      !roles.includes(account.role as User['role']) || typeof account.branch !== 'string' || typeof account.passwordHash !== 'string'
+    ) {
+      throw new UserStoreError(`User store ${path} entry ${index + 1} needs an id, name, role (${roles.join(', ')}), branch and passwordHash.`);
+    }
+  });
+  return parsed as UserAccount[];
+};
+
+/**
+ * Staff accounts. With `USERS_FILE` set, that JSON array of `UserAccount`s is
+ * loaded and re-read when it changes. Otherwise, outside production, a small
+ * built-in sample directory is used.
+ */
+const getAccounts = (): UserAccount[] => {
+  const path = process.env.USERS_FILE;
+  if (!path) {
+    if (process.env.NODE_ENV === 'production') throw new UserStoreError('USERS_FILE must be set in production.');
+    sampleAccounts ??= sampleUsers.map(user => ({ ...user, passwordHash: hashPassword('demo') }));
+    return sampleAccounts;
+  }
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    throw new UserStoreError(`User store ${path} is not readable.`);
+  }
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.accounts;
+  const accounts = readAccounts(path);
+  cached = { path, mtimeMs, accounts };
+  return accounts;
+};
+
+const publicUser = ({ id, name, role, branch }: UserAccount): User => ({ id, name, role, branch });
+
+/** The active user with this id; disabled accounts are treated as unknown. */
+export function findUser(id: string): User | undefined {
+  const account = getAccounts().find(candidate => candidate.id === id && !candidate.disabled);
+  return account && publicUser(account);
+}
+
+/** Checks a sign-in attempt; unknown users and wrong passwords are indistinguishable to the caller. */
+export function authenticate(id: string, password: string): User | undefined {
+  const account = getAccounts().find(candidate => candidate.id === id && !candidate.disabled);
+  return account && passwordMatches(password, account.passwordHash) ? publicUser(account) : undefined;
+}
@@ -0,0 +1,325 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  nextRetryAt,
+  webhookEventTypes,
+  type DeliveryStatus,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventContent,
+  type WebhookEventType,
+} from '../engine/webhooks';
+
+export class WebhookConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookConfigError';
+  }
+}
+
+export class DeliveryNotFoundError extends Error {
+  constructor(public readonly deliveryId: string) {
+    super(`Webhook delivery ${deliveryId} does not exist.`);
+    this.name = 'DeliveryNotFoundError';
+  }
+}
+
+export class EndpointUnavailableError extends Error {
+  constructor(public readonly endpointId: string) {
+    super(`Webhook endpoint ${endpointId} is disabled or no longer configured.`);
+    this.name = 'EndpointUnavailableError';
+  }
+}
+
+export const signatureHeader = 'X-Appraisal-Signature';
+
+let cached: { path: string; mtimeMs: number; endpoints: WebhookEndpoint[] } | null = null;
+
+const readEndpoints = (path: string): WebhookEndpoint[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new WebhookConfigError(`Webhook config ${path} could not be read: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) throw new WebhookConfigError(`Webhook config ${path} must be a JSON array.`);
+  const types = webhookEventTypes.map(option => option.type);
+  const ids = new Set<string>();
+  parsed.forEach((entry, index) => {
+    const endpoint = entry as Partial<WebhookEndpoint> | null;
+    const where = `Webhook config ${path} entry ${index + 1}`;
+    if (typeof endpoint?.id !== 'string' || endpoint.id.trim() === '' || ids.has(endpoint.id)) {
+      throw new WebhookConfigError(`${where} needs a unique id.`);
+    }
+    ids.add(endpoint.id);
+    if (typeof endpoint.url !== 'string' || !/^https?:\/\//.test(endpoint.url)) {
+      throw new WebhookConfigError(`${where} needs an http(s) url.`);
+    }
+    if (typeof endpoint.secret !== 'string' || endpoint.secret.length < 16) {
+      throw new WebhookConfigError(`${where} needs a secret of at least 16 characters.`);
+    }
+    if (endpoint.events !== undefined && (!Array.isArray(endpoint.events) || endpoint.events.some(type => !types.includes(type)))) {
+      throw new WebhookConfigError(`${where} events must be drawn from ${types.join(', ')}.`);
+    }
+  });
+  return parsed as WebhookEndpoint[];
+};
+
+/**
+ * Endpoints decisions are pushed to. With `WEBHOOKS_FILE` set, that JSON
+ * array of `WebhookEndpoint`s is loaded and re-read when it changes, e.g.
+ *
+ *   [{ "id": "los", "url": "https://los.example/hooks/appraisal", "secret": "…", "events": ["case.sanctioned"] }]
+ *
+ * Without it no webhooks are sent.
+ */
+export function getWebhookEndpoints(): WebhookEndpoint[] {
+  const path = process.env.WEBHOOKS_FILE;
+  if (!path) return [];
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    throw new WebhookConfigError(`Webhook config ${path} is not readable.`);
+  }
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) return cached.endpoints;
+  const endpoints = readEndpoints(path);
+  cached = { path, mtimeMs, endpoints };
+  return endpoints;
+}
+
+const sign = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/** The `X-Appraisal-Signature` value for a body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`. */
+export function signatureFor(secret: string, body: string, now = Date.now()): string {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${sign(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a delivery the way a receiver should: the signature must match the
+ * raw body and be no older than `toleranceSeconds`, so a captured request
+ * cannot be replayed later.
+ */
+export function verifySignature(secret: string, header: string | null, body: string, now = Date.now(), toleranceSeconds = 300): boolean {
+  const fields = Object.fromEntries((header ?? '').split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(fields.t);
+  if (!Number.isInteger(timestamp) || !fields.v1 || Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(sign(secret, timestamp, body));
+  const actual = Buffer.from(fields.v1);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+interface DeliveryState {
+  deliveries: WebhookDelivery[];
+}
+
+const logFile = () => process.env.WEBHOOK_LOG_FILE ?? path.join(process.cwd(), 'data', 'webhook-deliveries.json');
+
+const readState = async (): Promise<DeliveryState> => {
+  try {
+    return JSON.parse(await readFile(logFile(), 'utf8')) as DeliveryState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { deliveries: [] };
+    throw error;
+  }
+};
+
+const writeState = async (state: DeliveryState) => {
+  const file = logFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(state, null, 2));
+  await rename(temp, file);
+};
+
+/** Finished deliveries kept in the log; pending ones are always kept. */
+const logLimit = 1000;
+
+const trim = (deliveries: WebhookDelivery[]): WebhookDelivery[] => {
+  const finished = deliveries.filter(delivery => delivery.status !== 'PENDING');
+  if (finished.length <= logLimit) return deliveries;
+  const dropped = new Set(finished.slice(0, finished.length - logLimit).map(delivery => delivery.id));
+  return deliveries.filter(delivery => !dropped.has(delivery.id));
+};
+
+let queue: Promise<unknown> = Promise.resolve();
+
+const mutate = <T>(change: (state: DeliveryState) => T): Promise<T> => {
+  const run = queue.then(async () => {
+    const state = await readState();
+    const outcome = change(state);
+    state.deliveries = trim(state.deliveries);
+    await writeState(state);
+    return outcome;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const inFlight = new Set<string>();
+const timers = new Map<string, NodeJS.Timeout>();
+
+const schedule = (delivery: WebhookDelivery) => {
+  if (delivery.status !== 'PENDING' || timers.has(delivery.id)) return;
+  const delay = Math.max(0, Date.parse(delivery.nextAttemptAt ?? delivery.createdAt) - Date.now());
+  const timer = setTimeout(() => {
+    timers.delete(delivery.id);
+    void attempt(delivery.id);
+  }, delay);
+  // Pending retries must not keep a stopping server alive; they resume on the next start.
+  timer.unref();
+  timers.set(delivery.id, timer);
+};
+
+/** Makes one attempt at a pending delivery and records the outcome; never throws. */
+async function attempt(deliveryId: string): Promise<void> {
+  if (inFlight.has(deliveryId)) return;
+  inFlight.add(deliveryId);
+  try {
+    const delivery = (await readState()).deliveries.find(candidate => candidate.id === deliveryId);
+    if (!delivery || delivery.status !== 'PENDING') return;
+
+    const started = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    const endpoint = getWebhookEndpoints().find(candidate => candidate.id === delivery.endpointId && !candidate.disabled);
+    if (!endpoint) {
+      error = 'Endpoint is no longer configured.';
+    } else {
+      const body = JSON.stringify(delivery.event);
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Appraisal-Event': delivery.event.type,
+            'X-Appraisal-Delivery': delivery.id,
+            [signatureHeader]: signatureFor(endpoint.secret, body),
+          },
+          body,
+          signal: AbortSignal.timeout(10_000),
+        });
+        responseStatus = response.status;
+        if (!response.ok) error = `Receiver answered ${response.status}.`;
+      } catch (fetchError) {
+        error = `Receiver is unreachable: ${(fetchError as Error).message}`;
+      }
+    }
+
+    const finished = new Date();
+    const updated = await mutate(state => {
+      const record = state.deliveries.find(candidate => candidate.id === deliveryId);
+      if (!record) return undefined;
+      record.attempts.push({ at: finished.toISOString(), responseStatus, error, durationMs: finished.getTime() - started });
+      const retryAt = error && endpoint ? nextRetryAt(record.attempts.length, finished) : undefined;
+      record.status = !error ? 'DELIVERED' : retryAt ? 'PENDING' : 'FAILED';
+      record.nextAttemptAt = retryAt;
+      return record;
+    });
+    if (updated) schedule(updated);
+  } catch {
+    // A store or config failure leaves the delivery pending until the server restarts or it is replayed.
+  } finally {
+    inFlight.delete(deliveryId);
+  }
+}
+
+let resumed = false;
+
+/** Re-arms retries left pending by a previous server process, once per process. */
+const resumePending = async () => {
+  if (resumed) return;
+  resumed = true;
+  (await readState()).deliveries.forEach(schedule);
+};
+
+const openDelivery = (endpoint: WebhookEndpoint, event: WebhookDelivery['event'], at: string, replayOf?: string): WebhookDelivery => ({
+  id: `dlv_${randomUUID()}`,
+  endpointId: endpoint.id,
+  url: endpoint.url,
+  event,
+  status: 'PENDING',
+  attempts: [],
+  nextAttemptAt: at,
+  replayOf,
+  createdAt: at,
+});
+
+/**
+ * Queues each event for every endpoint subscribed to its type and starts
+ * delivering in the background: callers do not wait on receivers, and a
+ * receiver that is down is retried on `retrySchedule` before the delivery
+ * is marked FAILED.
+ *
+ * Never throws. Events follow a change that is already saved, so a broken
+ * webhook config or delivery log is logged rather than failing the request
+ * (which a client would retry, repeating the change).
+ */
+export async function publishEvents(events: WebhookEventContent[]): Promise<WebhookDelivery[]> {
+  try {
+    const endpoints = getWebhookEndpoints().filter(endpoint => !endpoint.disabled);
+    if (events.length === 0 || endpoints.length === 0) return [];
+    await resumePending();
+
+    const at = new Date().toISOString();
+    const deliveries = events.flatMap(content => {
+      const event = { id: `evt_${randomUUID()}`, ...content };
+      return endpoints
+        .filter(endpoint => !endpoint.events || endpoint.events.includes(event.type))
+        .map(endpoint => openDelivery(endpoint, event, at));
+    });
+    if (deliveries.length === 0) return [];
+
+    await mutate(state => {
+      state.deliveries.push(...deliveries);
+    });
+    deliveries.forEach(schedule);
+    return deliveries;
+  } catch (error) {
+    console.error(`Webhook events ${events.map(event => `${event.type} for ${event.data.caseId}`).join(', ')} were not queued:`, error);
+    return [];
+  }
+}
+
+/**
+ * Sends a delivery's event again, as a new delivery to the same endpoint. The
+ * event keeps its id, so a receiver that already processed it can tell.
+ */
+export async function replayDelivery(id: string): Promise<WebhookDelivery> {
+  const original = (await readState()).deliveries.find(candidate => candidate.id === id);
+  if (!original) throw new DeliveryNotFoundError(id);
+  const endpoint = getWebhookEndpoints().find(candidate => candidate.id === original.endpointId && !candidate.disabled);
+  if (!endpoint) throw new EndpointUnavailableError(original.endpointId);
+  await resumePending();
+
+  const replay = openDelivery(endpoint, original.event, new Date().toISOString(), original.id);
+  await mutate(state => {
+    state.deliveries.push(replay);
+  });
+  schedule(replay);
+  return replay;
+}
+
+export interface DeliveryFilter {
+  status?: DeliveryStatus;
+  type?: WebhookEventType;
+  caseId?: string;
+  endpointId?: string;
+}
+
+/** The delivery log, newest first. */
+export async function listDeliveries(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+  await resumePending();
+  return (await readState()).deliveries
+    .filter(delivery =>
+      (!filter.status || delivery.status === filter.status) &&
+      (!filter.type || delivery.event.type === filter.type) &&
+      (!filter.caseId || delivery.event.data.caseId === filter.caseId) &&
+      (!filter.endpointId || delivery.endpointId === filter.endpointId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,89 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { readXlsxTable, SpreadsheetError } from './xlsx';
+
+/** A minimal zip archive of deflated entries; CRCs are left zero since the reader does not check them. */
+const zip = (files: Record<string, Buffer | string>): Buffer => {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content]) => {
+    const raw = Buffer.from(content);
+    const data = deflateRawSync(raw);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const workbook = (sheet: Buffer | string) => zip({
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+  'xl/worksheets/sheet1.xml': sheet,
+});
+
+const sheetOf = (rows: string) => `<worksheet><sheetData>${rows}</sheetData></worksheet>`;
+
+describe('readXlsxTable', () => {
+  it('reads inline strings and numbers, padding skipped cells and rows', () => {
+    const file = workbook(sheetOf(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>name</t></is></c><c r="C1"><v>42</v></c></row>' +
+      '<row r="3"><c r="B3"><v>7</v></c></row>',
+    ));
+    expect(readXlsxTable(file)).toEqual([['name', '', '42'], [], ['', '7']]);
+  });
+
+  it('refuses a row reference beyond the limit before padding to it', () => {
+    const file = workbook(sheetOf('<row r="9999999"><c r="A9999999"><v>1</v></c></row>'));
+    expect(() => readXlsxTable(file, { maxRows: 2001 })).toThrow(SpreadsheetError);
+  });
+
+  it('refuses a cell reference beyond the column limit', () => {
+    const file = workbook(sheetOf('<row r="1"><c r="XFD1"><v>1</v></c></row>'));
+    expect(() => readXlsxTable(file)).toThrow(/columns/);
+  });
+
+  it('refuses a workbook that inflates beyond the size limit', () => {
+    const file = workbook(Buffer.alloc(60 * 1024 * 1024, ' '));
+    expect(file.length).toBeLessThan(5 * 1024 * 1024);
+    expect(() => readXlsxTable(file)).toThrow(/expands to more than/);
+  });
+
+  it('reports corrupt deflate data as a spreadsheet error', () => {
+    const file = workbook(sheetOf(''));
+    const sheetData = file.indexOf('xl/worksheets/sheet1.xml') + 'xl/worksheets/sheet1.xml'.length;
+    file.fill(0xff, sheetData, sheetData + 8);
+    expect(() => readXlsxTable(file)).toThrow(SpreadsheetError);
+  });
+
+  it('reports a directory offset outside the file as a spreadsheet error', () => {
+    const file = workbook(sheetOf(''));
+    file.writeUInt32LE(file.length + 1000, file.length - 6);
+    expect(() => readXlsxTable(file)).toThrow(SpreadsheetError);
+  });
+});
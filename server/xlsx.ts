@@ -0,0 +1,161 @@
+import { inflateRawSync } from 'zlib';
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+/** What a workbook may expand to once unzipped, across every entry read. */
+const maxUnzippedBytes = 50 * 1024 * 1024;
+
+/**
+ * Indexes a zip archive's entries by path; each is inflated only when read.
+ * Supports stored and deflated entries. Offsets that point outside the file,
+ * corrupt deflate data and output beyond `maxUnzippedBytes` all surface as
+ * `SpreadsheetError`, so a hostile upload is refused rather than exhausting memory.
+ */
+const unzip = (archive: Buffer): ((name: string) => Buffer | undefined) => {
+  let end = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 65557); offset--) {
+    if (archive.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) throw new SpreadsheetError('File is not a valid .xlsx workbook.');
+
+  const entries = new Map<string, { method: number; data: Buffer }>();
+  try {
+    const count = archive.readUInt16LE(end + 10);
+    let cursor = archive.readUInt32LE(end + 16);
+
+    for (let index = 0; index < count; index++) {
+      if (archive.readUInt32LE(cursor) !== 0x02014b50) throw new SpreadsheetError('Workbook zip directory is corrupt.');
+      const method = archive.readUInt16LE(cursor + 10);
+      const compressedSize = archive.readUInt32LE(cursor + 20);
+      const nameLength = archive.readUInt16LE(cursor + 28);
+      const extraLength = archive.readUInt16LE(cursor + 30);
+      const commentLength = archive.readUInt16LE(cursor + 32);
+      const localOffset = archive.readUInt32LE(cursor + 42);
+      const name = archive.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+
+      const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+      if (dataStart + compressedSize > archive.length) throw new SpreadsheetError('Workbook zip directory is corrupt.');
+      entries.set(name, { method, data: archive.subarray(dataStart, dataStart + compressedSize) });
+
+      cursor += 46 + nameLength + extraLength + commentLength;
+    }
+  } catch (error) {
+    // Buffer reads past the end throw RangeError.
+    throw error instanceof SpreadsheetError ? error : new SpreadsheetError('Workbook zip directory is corrupt.');
+  }
+
+  let budget = maxUnzippedBytes;
+  return name => {
+    const entry = entries.get(name);
+    if (!entry || (entry.method !== 0 && entry.method !== 8)) return undefined;
+    let data = entry.data;
+    if (entry.method === 8) {
+      try {
+        data = inflateRawSync(entry.data, { maxOutputLength: Math.max(1, budget) });
+      } catch (error) {
+        throw (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+          ? new SpreadsheetError(`Workbook expands to more than ${maxUnzippedBytes / 1024 / 1024} MB.`)
+          : new SpreadsheetError(`Workbook entry ${name} is corrupt.`);
+      }
+    }
+    budget -= data.length;
+    if (budget < 0) throw new SpreadsheetError(`Workbook expands to more than ${maxUnzippedBytes / 1024 / 1024} MB.`);
+    return data;
+  };
+};
+
+const decodeXml = (text: string) =>
+  text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      case 'amp': return '&';
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+
+/** Concatenates the `<t>` runs inside an element, which is how rich text is split. */
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+const columnIndex = (reference: string) =>
+  Array.from(reference.replace(/\d+$/, '')).reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export interface SheetLimits {
+  /** Rows, the header included. */
+  maxRows: number;
+  maxColumns: number;
+}
+
+const defaultLimits: SheetLimits = { maxRows: 20000, maxColumns: 256 };
+
+/**
+ * Returns the first worksheet of an .xlsx file as rows of cell text, the same
+ * shape `parseCsv` produces. Numbers come back as written in the sheet XML;
+ * formulas yield their cached values. A cell or row reference beyond `limits`
+ * is refused before anything is padded out to it.
+ */
+export function readXlsxTable(file: Buffer, limits: Partial<SheetLimits> = {}): string[][] {
+  const { maxRows, maxColumns } = { ...defaultLimits, ...limits };
+  const entry = unzip(file);
+  const read = (name: string) => entry(name)?.toString('utf8');
+
+  const workbook = read('xl/workbook.xml');
+  const relationships = read('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) throw new SpreadsheetError('File is not a valid .xlsx workbook.');
+
+  const firstSheetId = attribute(workbook.match(/<sheet\b([^>]*)\/?>/)?.[1] ?? '', 'r:id');
+  const relationship = Array.from(relationships.matchAll(/<Relationship\b([^>]*)\/?>/g))
+    .map(match => match[1])
+    .find(attributes => attribute(attributes, 'Id') === firstSheetId);
+  const target = relationship && attribute(relationship, 'Target');
+  if (!target) throw new SpreadsheetError('Workbook has no worksheets.');
+
+  const sheet = read(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new SpreadsheetError('Workbook has no worksheets.');
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g), match => textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const [, attributes, body = ''] = cellMatch;
+      const reference = attribute(attributes, 'r');
+      const position = reference ? columnIndex(reference) : cells.length;
+      if (!(position < maxColumns)) throw new SpreadsheetError(`Sheets are limited to ${maxColumns} columns.`);
+      const type = attribute(attributes, 't');
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textRuns(body);
+      else if (value !== undefined) text = decodeXml(value);
+
+      while (cells.length < position) cells.push('');
+      cells[position] = text;
+    }
+    // Sheets omit empty rows; pad them back so row numbers match what the user sees.
+    const rowNumber = Number(attribute(rowMatch[1], 'r') ?? rows.length + 1);
+    if (!(rowNumber <= maxRows) || rows.length >= maxRows) {
+      throw new SpreadsheetError(`Sheets are limited to ${maxRows} rows, the header included.`);
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(cells);
+  }
+  return rows;
+}